@@ -5,6 +5,13 @@ import nextTs from "eslint-config-next/typescript";
 const eslintConfig = defineConfig([
   ...nextVitals,
   ...nextTs,
+  // react-pdf's <Image> takes no alt text, so only check plain <img> in PDFs
+  {
+    files: ["src/components/pdf/**/*.tsx"],
+    rules: {
+      "jsx-a11y/alt-text": ["warn", { elements: ["img"], img: [] }],
+    },
+  },
   // Override default ignores of eslint-config-next.
   globalIgnores([
     // Default ignores of eslint-config-next:
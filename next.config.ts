@@ -5,6 +5,8 @@ const nextConfig: NextConfig = {
   turbopack: {
     root: path.resolve(__dirname),
   },
+  // Rendered in route handlers; keep it out of the server bundle
+  serverExternalPackages: ['@react-pdf/renderer'],
 };
 
 export default nextConfig;
@@ -0,0 +1,530 @@
+'use client';
+
+import { useState } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import { CatalogItem } from '@/types/database';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Card, CardContent } from '@/components/ui/card';
+import { UNITS, getUnitLabel } from '@/lib/units';
+import { searchCatalog } from '@/lib/catalog';
+import { getMarkupPercent, getMarkupPrice } from '@/lib/margins';
+import { toast } from 'sonner';
+import {
+  Plus,
+  Search,
+  MoreHorizontal,
+  Pencil,
+  Trash2,
+  Loader2,
+  BookOpen,
+} from 'lucide-react';
+import { useRouter } from 'next/navigation';
+
+interface CatalogListProps {
+  items: CatalogItem[];
+  userId: string;
+}
+
+interface CatalogFormData {
+  name: string;
+  description: string;
+  category: string;
+  unit: string;
+  unit_cost: number;
+  markup_percent: number;
+  unit_price: number;
+  taxable: boolean;
+}
+
+const initialFormData: CatalogFormData = {
+  name: '',
+  description: '',
+  category: '',
+  unit: 'each',
+  unit_cost: 0,
+  markup_percent: 0,
+  unit_price: 0,
+  taxable: true,
+};
+
+const ALL_CATEGORIES = 'all';
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+};
+
+export function CatalogList({ items: initialItems, userId }: CatalogListProps) {
+  const router = useRouter();
+  const supabase = createClient();
+
+  const [items, setItems] = useState<CatalogItem[]>(initialItems);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [category, setCategory] = useState(ALL_CATEGORIES);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [editingItem, setEditingItem] = useState<CatalogItem | null>(null);
+  const [formData, setFormData] = useState<CatalogFormData>(initialFormData);
+
+  const categories = [...new Set(items.map((item) => item.category).filter(Boolean) as string[])].sort();
+
+  const filteredItems = (searchQuery.trim() ? searchCatalog(items, searchQuery, items.length) : items)
+    .filter((item) => category === ALL_CATEGORIES || item.category === category);
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+  ) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  // Cost and markup set the price; typing a price works the markup out instead
+  const handlePricingChange = (field: 'unit_cost' | 'markup_percent' | 'unit_price', value: number) => {
+    setFormData((prev) => {
+      const next = { ...prev, [field]: value };
+      if (field === 'unit_price') {
+        next.markup_percent = getMarkupPercent(next.unit_cost, next.unit_price);
+      } else {
+        next.unit_price = getMarkupPrice(next.unit_cost, next.markup_percent);
+      }
+      return next;
+    });
+  };
+
+  const resetForm = () => {
+    setFormData(initialFormData);
+    setEditingItem(null);
+  };
+
+  const handleOpenDialog = (item?: CatalogItem) => {
+    if (item) {
+      setEditingItem(item);
+      setFormData({
+        name: item.name,
+        description: item.description || '',
+        category: item.category || '',
+        unit: item.unit,
+        unit_cost: Number(item.unit_cost),
+        markup_percent: Number(item.markup_percent),
+        unit_price: Number(item.unit_price),
+        taxable: item.taxable,
+      });
+    } else {
+      resetForm();
+    }
+    setIsDialogOpen(true);
+  };
+
+  const handleCloseDialog = () => {
+    setIsDialogOpen(false);
+    resetForm();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast.error('Item name is required');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    const values = {
+      name: formData.name.trim(),
+      description: formData.description.trim() || null,
+      category: formData.category.trim() || null,
+      unit: formData.unit,
+      unit_cost: formData.unit_cost,
+      markup_percent: formData.markup_percent,
+      unit_price: formData.unit_price,
+      taxable: formData.taxable,
+    };
+
+    try {
+      if (editingItem) {
+        const { data, error } = await supabase
+          .from('catalog_items')
+          .update(values)
+          .eq('id', editingItem.id)
+          .select()
+          .single();
+
+        if (error) throw error;
+
+        setItems((prev) =>
+          prev.map((i) => (i.id === editingItem.id ? (data as CatalogItem) : i))
+        );
+        toast.success('Item updated successfully');
+      } else {
+        const { data, error } = await supabase
+          .from('catalog_items')
+          .insert({ user_id: userId, ...values })
+          .select()
+          .single();
+
+        if (error) throw error;
+
+        setItems((prev) =>
+          [...prev, data as CatalogItem].sort((a, b) => a.name.localeCompare(b.name))
+        );
+        toast.success('Item added to price book');
+      }
+
+      handleCloseDialog();
+      router.refresh();
+    } catch (error) {
+      console.error('Error saving catalog item:', error);
+      toast.error('Failed to save item. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Line items already copied from the catalog keep their own values
+  const handleDelete = async (item: CatalogItem) => {
+    if (!confirm(`Are you sure you want to delete "${item.name}"?`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('catalog_items')
+        .delete()
+        .eq('id', item.id);
+
+      if (error) throw error;
+
+      setItems((prev) => prev.filter((i) => i.id !== item.id));
+      toast.success('Item deleted successfully');
+      router.refresh();
+    } catch (error) {
+      console.error('Error deleting catalog item:', error);
+      toast.error('Failed to delete item. Please try again.');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex flex-1 items-center gap-2">
+          <div className="relative flex-1 max-w-sm">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-slate-400" />
+            <Input
+              placeholder="Search items..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+          {categories.length > 0 && (
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                {categories.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={() => handleOpenDialog()}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Item
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-[560px]">
+            <form onSubmit={handleSubmit}>
+              <DialogHeader>
+                <DialogTitle>
+                  {editingItem ? 'Edit Item' : 'New Item'}
+                </DialogTitle>
+                <DialogDescription>
+                  {editingItem
+                    ? 'Changes apply to line items added from now on.'
+                    : 'Add an item you can pick from any estimate or invoice.'}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="grid gap-4 py-4">
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div>
+                    <Label htmlFor="name">
+                      Name <span className="text-red-500">*</span>
+                    </Label>
+                    <Input
+                      id="name"
+                      name="name"
+                      value={formData.name}
+                      onChange={handleChange}
+                      placeholder="1/2in drywall"
+                      className="mt-1.5"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="category">Category</Label>
+                    <Input
+                      id="category"
+                      name="category"
+                      value={formData.category}
+                      onChange={handleChange}
+                      placeholder="Drywall"
+                      list="catalog-categories"
+                      className="mt-1.5"
+                    />
+                    <datalist id="catalog-categories">
+                      {categories.map((name) => (
+                        <option key={name} value={name} />
+                      ))}
+                    </datalist>
+                  </div>
+                </div>
+
+                <div>
+                  <Label htmlFor="description">Line Item Description</Label>
+                  <Textarea
+                    id="description"
+                    name="description"
+                    value={formData.description}
+                    onChange={handleChange}
+                    placeholder="Install 1/2in drywall, taped and finished"
+                    rows={2}
+                    className="mt-1.5"
+                  />
+                  <p className="text-xs text-slate-500 mt-1">
+                    Copied onto the estimate or invoice. Leave blank to use the name.
+                  </p>
+                </div>
+
+                <div className="grid gap-4 sm:grid-cols-4">
+                  <div>
+                    <Label htmlFor="unit">Unit</Label>
+                    <Select
+                      value={formData.unit}
+                      onValueChange={(value) => setFormData((prev) => ({ ...prev, unit: value }))}
+                    >
+                      <SelectTrigger id="unit" className="mt-1.5">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {UNITS.map((unit) => (
+                          <SelectItem key={unit.value} value={unit.value}>
+                            {unit.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="unit_cost">Unit Cost ($)</Label>
+                    <Input
+                      id="unit_cost"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={formData.unit_cost}
+                      onChange={(e) => handlePricingChange('unit_cost', parseFloat(e.target.value) || 0)}
+                      className="mt-1.5"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="markup_percent">Markup (%)</Label>
+                    <Input
+                      id="markup_percent"
+                      type="number"
+                      step="0.01"
+                      value={formData.markup_percent}
+                      onChange={(e) => handlePricingChange('markup_percent', parseFloat(e.target.value) || 0)}
+                      className="mt-1.5"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="unit_price">Unit Price ($)</Label>
+                    <Input
+                      id="unit_price"
+                      type="number"
+                      step="0.01"
+                      value={formData.unit_price}
+                      onChange={(e) => handlePricingChange('unit_price', parseFloat(e.target.value) || 0)}
+                      className="mt-1.5"
+                    />
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="taxable">Taxable</Label>
+                  <Switch
+                    id="taxable"
+                    checked={formData.taxable}
+                    onCheckedChange={(checked) => setFormData((prev) => ({ ...prev, taxable: checked }))}
+                  />
+                </div>
+              </div>
+
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleCloseDialog}
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Saving...
+                    </>
+                  ) : editingItem ? (
+                    'Update Item'
+                  ) : (
+                    'Add Item'
+                  )}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {/* Item List */}
+      {filteredItems.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <div className="h-12 w-12 rounded-full bg-slate-100 flex items-center justify-center mb-4">
+              <BookOpen className="h-6 w-6 text-slate-400" />
+            </div>
+            <h3 className="text-lg font-medium text-slate-900">No items yet</h3>
+            <p className="text-slate-500 text-center mt-1 max-w-sm">
+              {searchQuery || category !== ALL_CATEGORIES
+                ? 'No items match your search. Try a different query.'
+                : 'Save the items you bill often and pick them while writing estimates.'}
+            </p>
+            {!searchQuery && category === ALL_CATEGORIES && (
+              <Button className="mt-4" onClick={() => handleOpenDialog()}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Your First Item
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead>Unit</TableHead>
+                <TableHead className="text-right">Cost</TableHead>
+                <TableHead className="text-right">Markup</TableHead>
+                <TableHead className="text-right">Price</TableHead>
+                <TableHead className="w-[70px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredItems.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell>
+                    <div className="font-medium text-slate-900">
+                      {item.name}
+                      {!item.taxable && (
+                        <span className="ml-2 text-xs font-normal text-slate-400">Not taxed</span>
+                      )}
+                    </div>
+                    {item.description && (
+                      <div className="text-sm text-slate-500 truncate max-w-[320px]">
+                        {item.description}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {item.category && <Badge variant="secondary">{item.category}</Badge>}
+                  </TableCell>
+                  <TableCell>{getUnitLabel(item.unit)}</TableCell>
+                  <TableCell className="text-right text-slate-600">
+                    {Number(item.unit_cost) > 0 ? formatCurrency(item.unit_cost) : '—'}
+                  </TableCell>
+                  <TableCell className="text-right text-slate-600">
+                    {Number(item.unit_cost) > 0 ? `${Number(item.markup_percent)}%` : '—'}
+                  </TableCell>
+                  <TableCell className="text-right font-medium">
+                    {formatCurrency(item.unit_price)}
+                  </TableCell>
+                  <TableCell>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon">
+                          <MoreHorizontal className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem
+                          onClick={() => handleOpenDialog(item)}
+                        >
+                          <Pencil className="mr-2 h-4 w-4" />
+                          Edit
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => handleDelete(item)}
+                          className="text-red-600"
+                        >
+                          <Trash2 className="mr-2 h-4 w-4" />
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+    </div>
+  );
+}
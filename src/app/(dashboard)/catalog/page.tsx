@@ -0,0 +1,34 @@
+import { createClient } from '@/lib/supabase/server';
+import { redirect } from 'next/navigation';
+import { CatalogList } from './catalog-list';
+import { CatalogItem } from '@/types/database';
+
+export default async function CatalogPage() {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/login');
+  }
+
+  const { data: items } = await supabase
+    .from('catalog_items')
+    .select('*')
+    .order('name');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">Price Book</h1>
+          <p className="text-slate-500 mt-1">
+            Items you bill often, ready to pick from any estimate or invoice
+          </p>
+        </div>
+      </div>
+
+      <CatalogList items={(items as CatalogItem[]) || []} userId={user.id} />
+    </div>
+  );
+}
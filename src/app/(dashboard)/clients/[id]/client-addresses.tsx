@@ -0,0 +1,237 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { createClient } from '@/lib/supabase/client';
+import { ClientAddress } from '@/types/database';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { Loader2, MapPin, Pencil, Plus, Trash2 } from 'lucide-react';
+
+interface ClientAddressesProps {
+  clientId: string;
+  userId: string;
+  addresses: ClientAddress[];
+}
+
+interface AddressFormData {
+  label: string;
+  address: string;
+}
+
+const initialFormData: AddressFormData = {
+  label: '',
+  address: '',
+};
+
+export function ClientAddresses({ clientId, userId, addresses: initialAddresses }: ClientAddressesProps) {
+  const router = useRouter();
+  const supabase = createClient();
+  const [addresses, setAddresses] = useState(initialAddresses);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [editingAddress, setEditingAddress] = useState<ClientAddress | null>(null);
+  const [formData, setFormData] = useState<AddressFormData>(initialFormData);
+
+  const handleOpenDialog = (address?: ClientAddress) => {
+    setEditingAddress(address ?? null);
+    setFormData(address ? { label: address.label, address: address.address } : initialFormData);
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.label.trim() || !formData.address.trim()) {
+      toast.error('Enter a name and an address');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    const values = {
+      label: formData.label.trim(),
+      address: formData.address.trim(),
+    };
+
+    try {
+      if (editingAddress) {
+        const { data, error } = await supabase
+          .from('client_addresses')
+          .update(values)
+          .eq('id', editingAddress.id)
+          .select()
+          .single();
+
+        if (error) throw error;
+
+        setAddresses((prev) =>
+          prev.map((a) => (a.id === editingAddress.id ? (data as ClientAddress) : a))
+        );
+        toast.success('Job site updated');
+      } else {
+        const { data, error } = await supabase
+          .from('client_addresses')
+          .insert({ ...values, user_id: userId, client_id: clientId })
+          .select()
+          .single();
+
+        if (error) throw error;
+
+        setAddresses((prev) => [...prev, data as ClientAddress]);
+        toast.success('Job site added');
+      }
+
+      setIsDialogOpen(false);
+      router.refresh();
+    } catch (error) {
+      console.error('Error saving job site:', error);
+      toast.error('Failed to save job site. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Estimates keep their own copy of the address text
+  const handleDelete = async (address: ClientAddress) => {
+    if (!confirm(`Delete the "${address.label}" job site? Estimates already using it keep the address.`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('client_addresses')
+        .delete()
+        .eq('id', address.id);
+
+      if (error) throw error;
+
+      setAddresses((prev) => prev.filter((a) => a.id !== address.id));
+      toast.success('Job site deleted');
+      router.refresh();
+    } catch (error) {
+      console.error('Error deleting job site:', error);
+      toast.error('Failed to delete job site. Please try again.');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <MapPin className="h-4 w-4 text-slate-400" />
+          Job Sites
+        </CardTitle>
+        <Button variant="outline" size="sm" onClick={() => handleOpenDialog()}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {addresses.length === 0 ? (
+          <p className="text-sm text-slate-400">
+            Save the properties you work at to pick them on estimates.
+          </p>
+        ) : (
+          addresses.map((address) => (
+            <div key={address.id} className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="font-medium text-slate-900">{address.label}</p>
+                <p className="text-sm text-slate-600 whitespace-pre-line">{address.address}</p>
+              </div>
+              <div className="flex shrink-0">
+                <Button variant="ghost" size="icon" onClick={() => handleOpenDialog(address)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDelete(address)}
+                  className="text-red-600 hover:text-red-700"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <form onSubmit={handleSubmit}>
+            <DialogHeader>
+              <DialogTitle>{editingAddress ? 'Edit Job Site' : 'New Job Site'}</DialogTitle>
+              <DialogDescription>
+                {editingAddress
+                  ? 'Changes apply to estimates you write from now on.'
+                  : "A property address you can pick as an estimate's job site."}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid gap-4 py-4">
+              <div>
+                <Label htmlFor="address_label">
+                  Name <span className="text-red-500">*</span>
+                </Label>
+                <Input
+                  id="address_label"
+                  value={formData.label}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, label: e.target.value }))}
+                  placeholder="Riverside Plaza"
+                  maxLength={255}
+                  className="mt-1.5"
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="address_address">
+                  Address <span className="text-red-500">*</span>
+                </Label>
+                <Textarea
+                  id="address_address"
+                  value={formData.address}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, address: e.target.value }))}
+                  placeholder="123 Work Site Drive&#10;City, ST 12345"
+                  rows={2}
+                  className="mt-1.5"
+                  required
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : editingAddress ? (
+                  'Update Job Site'
+                ) : (
+                  'Add Job Site'
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
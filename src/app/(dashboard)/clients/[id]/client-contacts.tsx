@@ -0,0 +1,305 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { createClient } from '@/lib/supabase/client';
+import { ClientContact, ContactRole } from '@/types/database';
+import { CONTACT_ROLES, getContactRoleLabel } from '@/lib/client-contacts';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { Loader2, Mail, Pencil, Phone, Plus, Trash2, UserRound } from 'lucide-react';
+
+interface ClientContactsProps {
+  clientId: string;
+  userId: string;
+  contacts: ClientContact[];
+}
+
+interface ContactFormData {
+  name: string;
+  role: ContactRole;
+  email: string;
+  phone: string;
+}
+
+const initialFormData: ContactFormData = {
+  name: '',
+  role: 'billing',
+  email: '',
+  phone: '',
+};
+
+export function ClientContacts({ clientId, userId, contacts: initialContacts }: ClientContactsProps) {
+  const router = useRouter();
+  const supabase = createClient();
+  const [contacts, setContacts] = useState(initialContacts);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [editingContact, setEditingContact] = useState<ClientContact | null>(null);
+  const [formData, setFormData] = useState<ContactFormData>(initialFormData);
+
+  const handleOpenDialog = (contact?: ClientContact) => {
+    setEditingContact(contact ?? null);
+    setFormData(
+      contact
+        ? {
+            name: contact.name,
+            role: contact.role,
+            email: contact.email || '',
+            phone: contact.phone || '',
+          }
+        : initialFormData
+    );
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      toast.error('Contact name is required');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    const values = {
+      name: formData.name.trim(),
+      role: formData.role,
+      email: formData.email.trim() || null,
+      phone: formData.phone.trim() || null,
+    };
+
+    try {
+      if (editingContact) {
+        const { data, error } = await supabase
+          .from('client_contacts')
+          .update(values)
+          .eq('id', editingContact.id)
+          .select()
+          .single();
+
+        if (error) throw error;
+
+        setContacts((prev) =>
+          prev.map((c) => (c.id === editingContact.id ? (data as ClientContact) : c))
+        );
+        toast.success('Contact updated');
+      } else {
+        const { data, error } = await supabase
+          .from('client_contacts')
+          .insert({ ...values, user_id: userId, client_id: clientId })
+          .select()
+          .single();
+
+        if (error) throw error;
+
+        setContacts((prev) => [...prev, data as ClientContact]);
+        toast.success('Contact added');
+      }
+
+      setIsDialogOpen(false);
+      router.refresh();
+    } catch (error) {
+      console.error('Error saving contact:', error);
+      toast.error('Failed to save contact. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (contact: ClientContact) => {
+    if (!confirm(`Remove ${contact.name} from this client's contacts?`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('client_contacts')
+        .delete()
+        .eq('id', contact.id);
+
+      if (error) throw error;
+
+      setContacts((prev) => prev.filter((c) => c.id !== contact.id));
+      toast.success('Contact removed');
+      router.refresh();
+    } catch (error) {
+      console.error('Error deleting contact:', error);
+      toast.error('Failed to remove contact. Please try again.');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <UserRound className="h-4 w-4 text-slate-400" />
+          Contacts
+        </CardTitle>
+        <Button variant="outline" size="sm" onClick={() => handleOpenDialog()}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {contacts.length === 0 ? (
+          <p className="text-sm text-slate-400">
+            Add the people you deal with, such as a property manager or accounts payable.
+          </p>
+        ) : (
+          contacts.map((contact) => (
+            <div key={contact.id} className="flex items-start justify-between gap-2">
+              <div className="space-y-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium text-slate-900">{contact.name}</p>
+                  <Badge variant="secondary">{getContactRoleLabel(contact.role)}</Badge>
+                </div>
+                {contact.email && (
+                  <div className="flex items-center gap-2 text-sm text-slate-600">
+                    <Mail className="h-3.5 w-3.5 text-slate-400" />
+                    <a href={`mailto:${contact.email}`} className="hover:text-blue-600 truncate">
+                      {contact.email}
+                    </a>
+                  </div>
+                )}
+                {contact.phone && (
+                  <div className="flex items-center gap-2 text-sm text-slate-600">
+                    <Phone className="h-3.5 w-3.5 text-slate-400" />
+                    <a href={`tel:${contact.phone}`} className="hover:text-blue-600">
+                      {contact.phone}
+                    </a>
+                  </div>
+                )}
+              </div>
+              <div className="flex shrink-0">
+                <Button variant="ghost" size="icon" onClick={() => handleOpenDialog(contact)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDelete(contact)}
+                  className="text-red-600 hover:text-red-700"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <form onSubmit={handleSubmit}>
+            <DialogHeader>
+              <DialogTitle>{editingContact ? 'Edit Contact' : 'New Contact'}</DialogTitle>
+              <DialogDescription>
+                Contacts with an email can be chosen when sending estimates and invoices.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid gap-4 py-4">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div>
+                  <Label htmlFor="contact_name">
+                    Name <span className="text-red-500">*</span>
+                  </Label>
+                  <Input
+                    id="contact_name"
+                    value={formData.name}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, name: e.target.value }))}
+                    placeholder="Jane Smith"
+                    className="mt-1.5"
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="contact_role">Role</Label>
+                  <Select
+                    value={formData.role}
+                    onValueChange={(v) => setFormData((prev) => ({ ...prev, role: v as ContactRole }))}
+                  >
+                    <SelectTrigger id="contact_role" className="mt-1.5">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CONTACT_ROLES.map((role) => (
+                        <SelectItem key={role.value} value={role.value}>
+                          {role.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div>
+                  <Label htmlFor="contact_email">Email</Label>
+                  <Input
+                    id="contact_email"
+                    type="email"
+                    value={formData.email}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, email: e.target.value }))}
+                    placeholder="jane@example.com"
+                    className="mt-1.5"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="contact_phone">Phone</Label>
+                  <Input
+                    id="contact_phone"
+                    type="tel"
+                    value={formData.phone}
+                    onChange={(e) => setFormData((prev) => ({ ...prev, phone: e.target.value }))}
+                    placeholder="(555) 123-4567"
+                    className="mt-1.5"
+                  />
+                </div>
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : editingContact ? (
+                  'Update Contact'
+                ) : (
+                  'Add Contact'
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,459 @@
+import Link from 'next/link';
+import { Client, ClientAddress, ClientContact, EstimateStatus, InvoiceStatus, InvoiceType } from '@/types/database';
+import {
+  InvoiceDisplayStatus,
+  getDaysOverdue,
+  getInvoiceBalance,
+  getInvoiceDisplayStatus,
+} from '@/lib/invoices';
+import { getRetainageHeld } from '@/lib/retainage';
+import { ClientContacts } from './client-contacts';
+import { ClientAddresses } from './client-addresses';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  ChevronLeft,
+  Mail,
+  Phone,
+  MapPin,
+  Plus,
+  FileText,
+  Receipt,
+  Clock,
+  CheckCircle2,
+  AlertTriangle,
+  Wallet,
+  Landmark,
+} from 'lucide-react';
+
+interface ClientDetailProps {
+  client: Client & {
+    contacts: ClientContact[];
+    addresses: ClientAddress[];
+  };
+  estimates: {
+    id: string;
+    estimate_number: string;
+    title: string;
+    status: EstimateStatus;
+    issue_date: string;
+    total: number;
+    archived_at: string | null;
+    updated_at: string;
+  }[];
+  invoices: {
+    id: string;
+    invoice_number: string;
+    title: string;
+    status: InvoiceStatus;
+    invoice_type: InvoiceType;
+    issue_date: string;
+    due_date: string | null;
+    subtotal: number;
+    total: number;
+    amount_paid: number;
+    retainage_amount: number;
+    archived_at: string | null;
+    updated_at: string;
+    payments: { paid_on: string }[];
+  }[];
+  userId: string;
+}
+
+const estimateStatusConfig: Record<EstimateStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  draft: { label: 'Draft', variant: 'secondary' },
+  sent: { label: 'Sent', variant: 'default' },
+  approved: { label: 'Approved', variant: 'default' },
+  declined: { label: 'Failed Deal', variant: 'destructive' },
+};
+
+const invoiceStatusConfig: Record<InvoiceDisplayStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  overdue: { label: 'Overdue', variant: 'destructive' },
+  unpaid: { label: 'Unpaid', variant: 'outline' },
+  partially_paid: { label: 'Partially Paid', variant: 'secondary' },
+  paid: { label: 'Paid', variant: 'default' },
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+};
+
+const formatDate = (date: string) => {
+  return new Date(date).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+};
+
+export function ClientDetail({ client, estimates, invoices, userId }: ClientDetailProps) {
+  const totalBilled = invoices.reduce((sum, i) => sum + Number(i.total), 0);
+  const totalPaid = invoices.reduce((sum, i) => sum + Number(i.amount_paid), 0);
+  const openInvoices = invoices.filter((i) => i.status !== 'paid');
+  const outstanding = openInvoices.reduce((sum, i) => sum + getInvoiceBalance(i), 0);
+  const overdueInvoices = openInvoices.filter((i) => getDaysOverdue(i) > 0);
+  const retainageHeld = getRetainageHeld(invoices);
+  const approvedTotal = estimates
+    .filter((e) => e.status === 'approved')
+    .reduce((sum, e) => sum + Number(e.total), 0);
+
+  // Latest edit to any of the client's documents, or payment received
+  const lastActivity = [
+    ...estimates.map((e) => e.updated_at),
+    ...invoices.map((i) => i.updated_at),
+    ...invoices.flatMap((i) => i.payments.map((p) => p.paid_on)),
+  ].reduce<string | null>((latest, date) => (!latest || date > latest ? date : latest), null);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Link
+          href="/clients"
+          className="flex items-center text-sm text-slate-500 hover:text-slate-900"
+        >
+          <ChevronLeft className="h-4 w-4 mr-1" />
+          Back to Clients
+        </Link>
+      </div>
+
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">{client.name}</h1>
+          <p className="text-slate-500 mt-1">
+            {lastActivity
+              ? `Last activity ${formatDate(lastActivity)}`
+              : `Client since ${formatDate(client.created_at)}`}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <Button variant="outline" asChild>
+            <Link href={`/estimates/new?client=${client.id}`}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Estimate
+            </Link>
+          </Button>
+          <Button asChild>
+            <Link href={`/invoices/new?client=${client.id}`}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Invoice
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      {/* Summary Cards */}
+      <div className={`grid gap-4 ${retainageHeld > 0 ? 'grid-cols-4' : 'grid-cols-3'}`}>
+        <Card className="bg-blue-50 border-blue-200">
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-blue-600 font-medium">Billed</p>
+                <p className="text-2xl font-bold text-blue-700">{formatCurrency(totalBilled)}</p>
+              </div>
+              <div className="h-10 w-10 rounded-full bg-blue-100 flex items-center justify-center">
+                <Receipt className="h-5 w-5 text-blue-600" />
+              </div>
+            </div>
+            <p className="text-sm text-blue-600 mt-2">
+              {invoices.length} invoice{invoices.length !== 1 ? 's' : ''}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-green-50 border-green-200">
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-green-600 font-medium">Paid</p>
+                <p className="text-2xl font-bold text-green-700">{formatCurrency(totalPaid)}</p>
+              </div>
+              <div className="h-10 w-10 rounded-full bg-green-100 flex items-center justify-center">
+                <CheckCircle2 className="h-5 w-5 text-green-600" />
+              </div>
+            </div>
+            <p className="text-sm text-green-600 mt-2">
+              {invoices.length - openInvoices.length} paid in full
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className={overdueInvoices.length > 0 ? 'bg-red-50 border-red-200' : 'bg-orange-50 border-orange-200'}>
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className={`text-sm font-medium ${overdueInvoices.length > 0 ? 'text-red-600' : 'text-orange-600'}`}>
+                  Outstanding
+                </p>
+                <p className={`text-2xl font-bold ${overdueInvoices.length > 0 ? 'text-red-700' : 'text-orange-700'}`}>
+                  {formatCurrency(outstanding)}
+                </p>
+              </div>
+              <div className={`h-10 w-10 rounded-full flex items-center justify-center ${overdueInvoices.length > 0 ? 'bg-red-100' : 'bg-orange-100'}`}>
+                {overdueInvoices.length > 0 ? (
+                  <AlertTriangle className="h-5 w-5 text-red-600" />
+                ) : (
+                  <Clock className="h-5 w-5 text-orange-600" />
+                )}
+              </div>
+            </div>
+            <p className={`text-sm mt-2 ${overdueInvoices.length > 0 ? 'text-red-600' : 'text-orange-600'}`}>
+              {overdueInvoices.length > 0
+                ? `${overdueInvoices.length} past due`
+                : `${openInvoices.length} open invoice${openInvoices.length !== 1 ? 's' : ''}`}
+            </p>
+          </CardContent>
+        </Card>
+
+        {retainageHeld > 0 && (
+          <Card className="bg-amber-50 border-amber-200">
+            <CardContent className="p-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-amber-600 font-medium">Retainage Held</p>
+                  <p className="text-2xl font-bold text-amber-700">{formatCurrency(retainageHeld)}</p>
+                </div>
+                <div className="h-10 w-10 rounded-full bg-amber-100 flex items-center justify-center">
+                  <Landmark className="h-5 w-5 text-amber-600" />
+                </div>
+              </div>
+              <p className="text-sm text-amber-600 mt-2">Not yet billed for release</p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="lg:col-span-2 space-y-6">
+          {/* Estimates */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <FileText className="h-4 w-4 text-slate-400" />
+                Estimates
+              </CardTitle>
+              <CardDescription>
+                {estimates.length} estimate{estimates.length !== 1 ? 's' : ''}
+                {approvedTotal > 0 && ` · ${formatCurrency(approvedTotal)} approved`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-0">
+              {estimates.length === 0 ? (
+                <p className="px-6 pb-6 text-sm text-slate-400">No estimates for this client yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Estimate #</TableHead>
+                      <TableHead>Title</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {estimates.map((estimate) => {
+                      const statusInfo = estimateStatusConfig[estimate.status];
+                      return (
+                        <TableRow key={estimate.id}>
+                          <TableCell>
+                            <Link
+                              href={`/estimates/${estimate.id}`}
+                              className="font-medium text-blue-600 hover:underline"
+                            >
+                              {estimate.estimate_number}
+                            </Link>
+                          </TableCell>
+                          <TableCell>
+                            {estimate.title}
+                            {estimate.archived_at && (
+                              <span className="ml-2 text-xs text-slate-400">Archived</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-slate-500">
+                            {formatDate(estimate.issue_date)}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={statusInfo.variant}>{statusInfo.label}</Badge>
+                          </TableCell>
+                          <TableCell className="text-right font-medium">
+                            {formatCurrency(estimate.total)}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Invoices */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Receipt className="h-4 w-4 text-slate-400" />
+                Invoices
+              </CardTitle>
+              <CardDescription>
+                {invoices.length} invoice{invoices.length !== 1 ? 's' : ''}
+                {outstanding > 0 && ` · ${formatCurrency(outstanding)} outstanding`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-0">
+              {invoices.length === 0 ? (
+                <p className="px-6 pb-6 text-sm text-slate-400">No invoices for this client yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Invoice #</TableHead>
+                      <TableHead>Title</TableHead>
+                      <TableHead>Due Date</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {invoices.map((invoice) => {
+                      const statusInfo = invoiceStatusConfig[getInvoiceDisplayStatus(invoice)];
+                      return (
+                        <TableRow key={invoice.id}>
+                          <TableCell>
+                            <Link
+                              href={`/invoices/${invoice.id}`}
+                              className="font-medium text-blue-600 hover:underline"
+                            >
+                              {invoice.invoice_number}
+                            </Link>
+                          </TableCell>
+                          <TableCell>
+                            {invoice.title}
+                            {invoice.archived_at && (
+                              <span className="ml-2 text-xs text-slate-400">Archived</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-slate-500">
+                            {invoice.due_date ? formatDate(invoice.due_date) : '—'}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={statusInfo.variant}>{statusInfo.label}</Badge>
+                          </TableCell>
+                          <TableCell className="text-right font-medium">
+                            {formatCurrency(invoice.total)}
+                            {invoice.status === 'partially_paid' && (
+                              <p className="text-xs font-normal text-slate-500">
+                                {formatCurrency(getInvoiceBalance(invoice))} due
+                              </p>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Right Column - Contact */}
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Contact</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {client.email && (
+                <div className="flex items-center gap-2 text-sm text-slate-600">
+                  <Mail className="h-4 w-4 text-slate-400" />
+                  <a href={`mailto:${client.email}`} className="hover:text-blue-600">
+                    {client.email}
+                  </a>
+                </div>
+              )}
+              {client.phone && (
+                <div className="flex items-center gap-2 text-sm text-slate-600">
+                  <Phone className="h-4 w-4 text-slate-400" />
+                  <a href={`tel:${client.phone}`} className="hover:text-blue-600">
+                    {client.phone}
+                  </a>
+                </div>
+              )}
+              {client.address && (
+                <div className="flex items-start gap-2 text-sm text-slate-600">
+                  <MapPin className="h-4 w-4 text-slate-400 mt-0.5" />
+                  <span className="whitespace-pre-line">{client.address}</span>
+                </div>
+              )}
+              {!client.email && !client.phone && !client.address && (
+                <p className="text-sm text-slate-400">No contact details saved.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <ClientContacts
+            clientId={client.id}
+            userId={userId}
+            contacts={[...client.contacts].sort((a, b) => a.created_at.localeCompare(b.created_at))}
+          />
+
+          <ClientAddresses
+            clientId={client.id}
+            userId={userId}
+            addresses={[...client.addresses].sort((a, b) => a.label.localeCompare(b.label))}
+          />
+
+          {client.notes && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Notes</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-sm text-slate-600 whitespace-pre-line">{client.notes}</p>
+              </CardContent>
+            </Card>
+          )}
+
+          {openInvoices.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <Wallet className="h-4 w-4 text-slate-400" />
+                  Balance
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                {openInvoices.map((invoice) => {
+                  const daysOverdue = getDaysOverdue(invoice);
+                  return (
+                    <div key={invoice.id} className="flex justify-between gap-4">
+                      <Link href={`/invoices/${invoice.id}`} className="text-slate-600 hover:text-blue-600">
+                        #{invoice.invoice_number}
+                        {daysOverdue > 0 && (
+                          <span className="ml-2 text-xs text-red-600">
+                            {daysOverdue} day{daysOverdue !== 1 ? 's' : ''} overdue
+                          </span>
+                        )}
+                      </Link>
+                      <span className="font-medium">{formatCurrency(getInvoiceBalance(invoice))}</span>
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
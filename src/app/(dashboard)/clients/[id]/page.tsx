@@ -0,0 +1,55 @@
+import { createClient } from '@/lib/supabase/server';
+import { redirect, notFound } from 'next/navigation';
+import { ClientDetail } from './client-detail';
+
+interface ClientPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function ClientPage({ params }: ClientPageProps) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/login');
+  }
+
+  const { data: client, error } = await supabase
+    .from('clients')
+    .select('*, contacts:client_contacts(*), addresses:client_addresses(*)')
+    .eq('id', id)
+    .single();
+
+  if (error || !client) {
+    notFound();
+  }
+
+  // Archived documents still count towards the client's history and balances
+  const [{ data: estimates }, { data: invoices }] = await Promise.all([
+    supabase
+      .from('estimates')
+      .select('id, estimate_number, title, status, issue_date, total, archived_at, updated_at')
+      .eq('client_id', id)
+      .order('issue_date', { ascending: false }),
+    supabase
+      .from('invoices')
+      .select(`
+        id, invoice_number, title, status, invoice_type, issue_date, due_date,
+        subtotal, total, amount_paid, retainage_amount, archived_at, updated_at,
+        payments:invoice_payments(paid_on)
+      `)
+      .eq('client_id', id)
+      .order('issue_date', { ascending: false }),
+  ]);
+
+  return (
+    <ClientDetail
+      client={client}
+      estimates={estimates || []}
+      invoices={invoices || []}
+      userId={user.id}
+    />
+  );
+}
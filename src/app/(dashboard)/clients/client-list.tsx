@@ -1,6 +1,7 @@
 'use client';
 
 import { useState } from 'react';
+import Link from 'next/link';
 import { createClient } from '@/lib/supabase/client';
 import { Client } from '@/types/database';
 import { Button } from '@/components/ui/button';
@@ -43,12 +44,14 @@ import {
   MapPin,
   Loader2,
   Users,
+  Eye,
 } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 
 interface ClientListProps {
   clients: Client[];
   userId: string;
+  retainageHeld: Record<string, number>;
 }
 
 interface ClientFormData {
@@ -67,7 +70,11 @@ const initialFormData: ClientFormData = {
   notes: '',
 };
 
-export function ClientList({ clients: initialClients, userId }: ClientListProps) {
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+};
+
+export function ClientList({ clients: initialClients, userId, retainageHeld }: ClientListProps) {
   const router = useRouter();
   const supabase = createClient();
 
@@ -371,14 +378,22 @@ export function ClientList({ clients: initialClients, userId }: ClientListProps)
               {filteredClients.map((client) => (
                 <TableRow key={client.id}>
                   <TableCell>
-                    <div className="font-medium text-slate-900">
+                    <Link
+                      href={`/clients/${client.id}`}
+                      className="font-medium text-slate-900 hover:text-blue-600"
+                    >
                       {client.name}
-                    </div>
+                    </Link>
                     {client.notes && (
                       <div className="text-sm text-slate-500 truncate max-w-[200px]">
                         {client.notes}
                       </div>
                     )}
+                    {retainageHeld[client.id] > 0 && (
+                      <div className="text-xs text-amber-700 mt-0.5">
+                        {formatCurrency(retainageHeld[client.id])} retainage held
+                      </div>
+                    )}
                   </TableCell>
                   <TableCell>
                     <div className="space-y-1">
@@ -424,6 +439,12 @@ export function ClientList({ clients: initialClients, userId }: ClientListProps)
                         </Button>
                       </DropdownMenuTrigger>
                       <DropdownMenuContent align="end">
+                        <DropdownMenuItem asChild>
+                          <Link href={`/clients/${client.id}`}>
+                            <Eye className="mr-2 h-4 w-4" />
+                            View
+                          </Link>
+                        </DropdownMenuItem>
                         <DropdownMenuItem
                           onClick={() => handleOpenDialog(client)}
                         >
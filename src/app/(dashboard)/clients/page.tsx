@@ -1,6 +1,7 @@
 import { createClient } from '@/lib/supabase/server';
 import { redirect } from 'next/navigation';
 import { ClientList } from './client-list';
+import { getRetainageHeld } from '@/lib/retainage';
 
 export default async function ClientsPage() {
   const supabase = await createClient();
@@ -16,6 +17,20 @@ export default async function ClientsPage() {
     .select('*')
     .order('created_at', { ascending: false });
 
+  // Invoices that hold or release retainage, for each client's running balance
+  const { data: retainageInvoices } = await supabase
+    .from('invoices')
+    .select('client_id, invoice_type, subtotal, retainage_amount')
+    .or('retainage_amount.gt.0,invoice_type.eq.retainage_release')
+    .not('client_id', 'is', null);
+
+  const retainageByClient: Record<string, number> = {};
+  for (const clientId of new Set((retainageInvoices || []).map((invoice) => invoice.client_id as string))) {
+    retainageByClient[clientId] = getRetainageHeld(
+      (retainageInvoices || []).filter((invoice) => invoice.client_id === clientId)
+    );
+  }
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -27,7 +42,7 @@ export default async function ClientsPage() {
         </div>
       </div>
 
-      <ClientList clients={clients || []} userId={user.id} />
+      <ClientList clients={clients || []} userId={user.id} retainageHeld={retainageByClient} />
     </div>
   );
 }
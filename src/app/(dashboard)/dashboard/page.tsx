@@ -1,6 +1,9 @@
 import { createClient } from '@/lib/supabase/server';
 import { redirect } from 'next/navigation';
+import Link from 'next/link';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { AGING_BUCKETS, getAgingBucket, getDaysOverdue, getInvoiceBalance } from '@/lib/invoices';
+import { formatMarginPercent, getMargin } from '@/lib/margins';
 import {
   FileText,
   Receipt,
@@ -10,6 +13,7 @@ import {
   Clock,
   CheckCircle2,
   AlertCircle,
+  Percent,
 } from 'lucide-react';
 
 interface StatCardProps {
@@ -72,8 +76,8 @@ export default async function DashboardPage() {
     supabase.from('estimates').select('*', { count: 'exact', head: true }),
     supabase.from('invoices').select('*', { count: 'exact', head: true }),
     supabase.from('clients').select('*', { count: 'exact', head: true }),
-    supabase.from('estimates').select('status, total'),
-    supabase.from('invoices').select('status, total'),
+    supabase.from('estimates').select('status, total, subtotal, discount_amount, total_cost'),
+    supabase.from('invoices').select('status, total, amount_paid, due_date'),
   ]);
 
   // Calculate totals
@@ -81,10 +85,26 @@ export default async function DashboardPage() {
   const approvedEstimates = estimates?.filter(e => e.status === 'approved').length || 0;
   const totalEstimatesValue = estimates?.reduce((sum, e) => sum + (e.total || 0), 0) || 0;
 
-  const unpaidInvoices = invoices?.filter(i => i.status === 'unpaid').length || 0;
+  // Margin on won work, counting only estimates that have costs entered
+  const costedEstimates = estimates?.filter(e => e.status === 'approved' && e.total_cost > 0) || [];
+  const wonMargin = getMargin(
+    costedEstimates.reduce((sum, e) => sum + e.subtotal - e.discount_amount, 0),
+    costedEstimates.reduce((sum, e) => sum + e.total_cost, 0)
+  );
+
+  const unpaidInvoices = invoices?.filter(i => i.status !== 'paid').length || 0;
   const paidInvoices = invoices?.filter(i => i.status === 'paid').length || 0;
-  const totalRevenue = invoices?.filter(i => i.status === 'paid').reduce((sum, i) => sum + (i.total || 0), 0) || 0;
-  const outstandingAmount = invoices?.filter(i => i.status === 'unpaid').reduce((sum, i) => sum + (i.total || 0), 0) || 0;
+  const totalRevenue = invoices?.reduce((sum, i) => sum + (i.amount_paid || 0), 0) || 0;
+  const outstandingAmount = invoices?.filter(i => i.status !== 'paid').reduce((sum, i) => sum + getInvoiceBalance(i), 0) || 0;
+
+  // Receivables aging: open balances bucketed by days past due
+  const aging = AGING_BUCKETS.map((bucket) => ({ ...bucket, amount: 0, count: 0 }));
+  invoices?.filter(i => i.status !== 'paid' && getInvoiceBalance(i) > 0).forEach((invoice) => {
+    const row = aging.find((b) => b.key === getAgingBucket(getDaysOverdue(invoice)))!;
+    row.amount += getInvoiceBalance(invoice);
+    row.count += 1;
+  });
+  const overdueAmount = aging.filter((b) => b.key !== 'current').reduce((sum, b) => sum + b.amount, 0);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -116,7 +136,7 @@ export default async function DashboardPage() {
         <StatCard
           title="Total Invoices"
           value={invoicesCount || 0}
-          description={`${unpaidInvoices} unpaid, ${paidInvoices} paid`}
+          description={`${unpaidInvoices} open, ${paidInvoices} paid`}
           icon={<Receipt className="h-5 w-5" />}
         />
         <StatCard
@@ -128,13 +148,13 @@ export default async function DashboardPage() {
         <StatCard
           title="Total Revenue"
           value={formatCurrency(totalRevenue)}
-          description="From paid invoices"
+          description="Payments received"
           icon={<DollarSign className="h-5 w-5" />}
         />
       </div>
 
       {/* Secondary Stats */}
-      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium text-slate-500 flex items-center gap-2">
@@ -147,7 +167,10 @@ export default async function DashboardPage() {
               {formatCurrency(outstandingAmount)}
             </div>
             <p className="text-xs text-slate-500 mt-1">
-              From {unpaidInvoices} unpaid invoice{unpaidInvoices !== 1 ? 's' : ''}
+              From {unpaidInvoices} open invoice{unpaidInvoices !== 1 ? 's' : ''}
+              {overdueAmount > 0 && (
+                <span className="text-red-600"> · {formatCurrency(overdueAmount)} overdue</span>
+              )}
             </p>
           </CardContent>
         </Card>
@@ -185,8 +208,61 @@ export default async function DashboardPage() {
             </p>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-slate-500 flex items-center gap-2">
+              <Percent className="h-4 w-4" />
+              Gross Margin
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${wonMargin.grossProfit < 0 ? 'text-red-600' : 'text-slate-900'}`}>
+              {formatMarginPercent(wonMargin.marginPercent)}
+            </div>
+            <p className="text-xs text-slate-500 mt-1">
+              {costedEstimates.length > 0
+                ? `${formatCurrency(wonMargin.grossProfit)} profit on ${costedEstimates.length} approved estimate${costedEstimates.length !== 1 ? 's' : ''} with costs`
+                : 'Add line item costs to approved estimates to track margin'}
+            </p>
+          </CardContent>
+        </Card>
       </div>
 
+      {/* Receivables Aging */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Clock className="h-5 w-5 text-slate-400" />
+            Receivables Aging
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-3 sm:grid-cols-3 lg:grid-cols-5">
+            {aging.map((bucket) => (
+              <div
+                key={bucket.key}
+                className={`rounded-lg border p-4 ${
+                  bucket.key === 'current'
+                    ? 'border-slate-200'
+                    : bucket.amount > 0
+                      ? 'border-red-200 bg-red-50'
+                      : 'border-slate-200'
+                }`}
+              >
+                <p className="text-sm text-slate-500">{bucket.label}</p>
+                <p className={`text-xl font-bold ${bucket.key !== 'current' && bucket.amount > 0 ? 'text-red-600' : 'text-slate-900'}`}>
+                  {formatCurrency(bucket.amount)}
+                </p>
+                <p className="text-xs text-slate-500 mt-1">
+                  {bucket.count} invoice{bucket.count !== 1 ? 's' : ''}
+                </p>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Quick Actions */}
       <Card>
         <CardHeader>
@@ -220,8 +296,8 @@ export default async function DashboardPage() {
               </div>
             </a>
 
-            <a
-              href="/clients/new"
+            <Link
+              href="/clients"
               className="flex items-center gap-3 p-4 rounded-lg border border-slate-200 hover:border-purple-300 hover:bg-purple-50 transition-colors"
             >
               <div className="h-10 w-10 rounded-lg bg-purple-100 flex items-center justify-center text-purple-600">
@@ -231,7 +307,7 @@ export default async function DashboardPage() {
                 <p className="font-medium text-slate-900">Add Client</p>
                 <p className="text-sm text-slate-500">New customer</p>
               </div>
-            </a>
+            </Link>
 
             <a
               href="/settings"
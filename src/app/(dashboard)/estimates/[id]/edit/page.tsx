@@ -1,7 +1,8 @@
 import { createClient } from '@/lib/supabase/server';
 import { redirect, notFound } from 'next/navigation';
 import { EstimateForm } from '@/components/estimates/estimate-form';
-import { Client } from '@/types/database';
+import { CatalogItem, Client, ClientAddress, ClientContact, DiscountType, TaxRate } from '@/types/database';
+import { stripTaxAmounts } from '@/lib/taxes';
 import Link from 'next/link';
 import { ChevronLeft } from 'lucide-react';
 
@@ -39,6 +40,28 @@ export default async function EditEstimatePage({ params }: EditEstimatePageProps
     .select('*')
     .order('name');
 
+  const { data: taxRates } = await supabase
+    .from('tax_rates')
+    .select('*')
+    .order('created_at');
+
+  const { data: catalog } = await supabase
+    .from('catalog_items')
+    .select('*')
+    .order('name');
+
+  // Saved job sites, for picking the estimate's address
+  const { data: addresses } = await supabase
+    .from('client_addresses')
+    .select('*')
+    .order('label');
+
+  // Client contacts, for choosing who Save & Send goes to
+  const { data: contacts } = await supabase
+    .from('client_contacts')
+    .select('*')
+    .order('name');
+
   // Transform estimate data for the form
   const initialData = {
     id: estimate.id,
@@ -49,16 +72,32 @@ export default async function EditEstimatePage({ params }: EditEstimatePageProps
     status: estimate.status,
     issue_date: estimate.issue_date,
     valid_until: estimate.valid_until,
-    tax_rate: estimate.tax_rate,
+    taxes: stripTaxAmounts(estimate.taxes),
+    discount_type: estimate.discount_type,
+    discount_value: estimate.discount_value,
     notes: estimate.notes || '',
     job_site_address: estimate.job_site_address || '',
-    items: estimate.items.map((item: { id: string; description: string; quantity: number; unit: string; unit_price: number }) => ({
-      id: item.id,
-      description: item.description,
-      quantity: item.quantity,
-      unit: item.unit,
-      unit_price: item.unit_price,
-    })),
+    job_site_address_id: estimate.job_site_address_id,
+    deposit_type: estimate.deposit_type,
+    deposit_value: estimate.deposit_value,
+    items: [...estimate.items]
+      .sort((a: { sort_order: number }, b: { sort_order: number }) => a.sort_order - b.sort_order)
+      .map((item: { id: string; description: string; quantity: number; unit: string; unit_price: number; taxable: boolean; discount_type: DiscountType | null; discount_value: number | null; unit_cost: number; markup_percent: number; section: string | null; is_optional: boolean; alternate_group: string | null; is_selected: boolean }) => ({
+        id: item.id,
+        description: item.description,
+        quantity: item.quantity,
+        unit: item.unit,
+        unit_price: item.unit_price,
+        taxable: item.taxable,
+        discount_type: item.discount_type,
+        discount_value: item.discount_value,
+        unit_cost: item.unit_cost,
+        markup_percent: item.markup_percent,
+        section: item.section,
+        is_optional: item.is_optional,
+        alternate_group: item.alternate_group,
+        is_selected: item.is_selected,
+      })),
   };
 
   return (
@@ -82,6 +121,10 @@ export default async function EditEstimatePage({ params }: EditEstimatePageProps
 
       <EstimateForm
         clients={(clients as Client[]) || []}
+        taxRates={(taxRates as TaxRate[]) || []}
+        catalog={(catalog as CatalogItem[]) || []}
+        addresses={(addresses as ClientAddress[]) || []}
+        contacts={(contacts as ClientContact[]) || []}
         userId={user.id}
         initialData={initialData}
         mode="edit"
@@ -3,12 +3,25 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
+import Image from 'next/image';
 import { createClient } from '@/lib/supabase/client';
-import { Profile, EstimateStatus } from '@/types/database';
+import {
+  Profile,
+  EstimateStatus,
+  EstimateSignature,
+  EstimateRevision,
+  EstimateSnapshot,
+  ChangeOrderWithItems,
+  DepositType,
+  DiscountType,
+  DocumentTax,
+  ClientContact,
+} from '@/types/database';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
+import { Input } from '@/components/ui/input';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -17,6 +30,17 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { LineItems, LineItem } from '@/components/estimates/line-items';
+import { EstimateRevisions } from '@/components/estimates/estimate-revisions';
+import { ChangeOrders } from '@/components/estimates/change-orders';
+import { BillingProgress, EstimateInvoiceSummary } from '@/components/estimates/billing-progress';
+import { SaveTemplateDialog } from '@/components/estimates/save-template-dialog';
+import { MarginSummary } from '@/components/estimates/margin-summary';
+import { getContractTotals } from '@/lib/change-orders';
+import { getDepositAmount } from '@/lib/deposits';
+import { getTaxLabel, stripTaxAmounts } from '@/lib/taxes';
+import { getDiscountLabel } from '@/lib/discounts';
+import { getBilledPercents, getRemainingPercent } from '@/lib/progress-billing';
+import { getIncludedLines } from '@/lib/options';
 import { toast } from 'sonner';
 import {
   ChevronLeft,
@@ -35,8 +59,17 @@ import {
   MapPin,
   Archive,
   ArchiveRestore,
+  Link2,
+  Copy,
+  Ban,
+  Download,
+  LayoutTemplate,
 } from 'lucide-react';
 import { sendEstimateAction } from '@/app/actions/send-estimate';
+import { SendDialog } from '@/components/clients/send-dialog';
+import { SendRecipients } from '@/lib/client-contacts';
+import { convertEstimateToInvoiceAction } from '@/app/actions/convert-estimate';
+import { createEstimateShareLinkAction, revokeEstimateShareLinkAction } from '@/app/actions/share-estimate';
 
 interface EstimateDetailProps {
   estimate: {
@@ -48,11 +81,17 @@ interface EstimateDetailProps {
     issue_date: string;
     valid_until: string | null;
     subtotal: number;
-    tax_rate: number;
+    discount_type: DiscountType | null;
+    discount_value: number | null;
+    discount_amount: number;
+    taxes: DocumentTax[];
     tax_amount: number;
     total: number;
+    total_cost: number;
     notes: string | null;
     job_site_address: string | null;
+    deposit_type: DepositType | null;
+    deposit_value: number | null;
     archived_at: string | null;
     client: {
       id: string;
@@ -60,6 +99,7 @@ interface EstimateDetailProps {
       email: string | null;
       phone: string | null;
       address: string | null;
+      contacts: ClientContact[];
     } | null;
     items: {
       id: string;
@@ -67,11 +107,25 @@ interface EstimateDetailProps {
       quantity: number;
       unit: string;
       unit_price: number;
+      taxable: boolean;
+      discount_type: DiscountType | null;
+      discount_value: number | null;
+      unit_cost: number;
+      markup_percent: number;
+      section: string | null;
+      is_optional: boolean;
+      alternate_group: string | null;
+      is_selected: boolean;
       amount: number;
+      sort_order: number;
     }[];
+    revisions: EstimateRevision[];
+    change_orders: ChangeOrderWithItems[];
   };
   profile: Profile | null;
-  userId: string;
+  shareUrl: string | null;
+  signature: EstimateSignature | null;
+  invoices: EstimateInvoiceSummary[];
 }
 
 const statusConfig: Record<EstimateStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline'; icon: React.ReactNode }> = {
@@ -81,37 +135,99 @@ const statusConfig: Record<EstimateStatus, { label: string; variant: 'default' |
   declined: { label: 'Failed Deal', variant: 'destructive', icon: <XCircle className="h-3 w-3" /> },
 };
 
-export function EstimateDetail({ estimate, profile, userId }: EstimateDetailProps) {
+export function EstimateDetail({ estimate, profile, shareUrl: initialShareUrl, signature, invoices }: EstimateDetailProps) {
   const router = useRouter();
   const supabase = createClient();
   const [isConverting, setIsConverting] = useState(false);
   const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
   const [isSending, setIsSending] = useState(false);
+  const [showSendDialog, setShowSendDialog] = useState(false);
   const [isArchiving, setIsArchiving] = useState(false);
   const [archivedAt, setArchivedAt] = useState(estimate.archived_at);
+  const [shareUrl, setShareUrl] = useState(initialShareUrl);
+  const [isUpdatingShareLink, setIsUpdatingShareLink] = useState(false);
+  const [showTemplateDialog, setShowTemplateDialog] = useState(false);
 
-  const handleSendToClient = async () => {
-    if (!estimate.client?.email) {
-      toast.error('Client does not have an email address');
-      return;
-    }
+  const sendEstimate = async (recipients?: SendRecipients) => {
     setIsSending(true);
     try {
-      const result = await sendEstimateAction({ estimateId: estimate.id });
+      const result = await sendEstimateAction({ estimateId: estimate.id, recipients });
       if (!result.success) {
         toast.error(result.error || 'Failed to send email');
-        return;
+        return false;
       }
       toast.success('Estimate sent to client!');
       router.refresh();
+      return true;
     } catch (error) {
       console.error('Error sending estimate:', error);
       toast.error('Failed to send estimate');
+      return false;
     } finally {
       setIsSending(false);
     }
   };
 
+  // Clients with contacts choose who receives it; otherwise it goes to the
+  // client's own email
+  const handleSendToClient = () => {
+    if (estimate.client?.contacts.some((contact) => contact.email)) {
+      setShowSendDialog(true);
+      return;
+    }
+    if (!estimate.client?.email) {
+      toast.error('Client does not have an email address');
+      return;
+    }
+    sendEstimate();
+  };
+
+  const handleCreateShareLink = async () => {
+    setIsUpdatingShareLink(true);
+    try {
+      const result = await createEstimateShareLinkAction({ estimateId: estimate.id });
+      if (!result.success || !result.url) {
+        toast.error(result.error || 'Failed to create share link');
+        return;
+      }
+      setShareUrl(result.url);
+      await navigator.clipboard.writeText(result.url);
+      toast.success('Share link copied to clipboard');
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      toast.error('Failed to create share link');
+    } finally {
+      setIsUpdatingShareLink(false);
+    }
+  };
+
+  const handleCopyShareLink = async () => {
+    if (!shareUrl) return;
+    await navigator.clipboard.writeText(shareUrl);
+    toast.success('Share link copied to clipboard');
+  };
+
+  const handleRevokeShareLink = async () => {
+    if (!confirm('Revoke this link? Anyone using it will no longer be able to view the estimate.')) {
+      return;
+    }
+    setIsUpdatingShareLink(true);
+    try {
+      const result = await revokeEstimateShareLinkAction({ estimateId: estimate.id });
+      if (!result.success) {
+        toast.error(result.error || 'Failed to revoke share link');
+        return;
+      }
+      setShareUrl(null);
+      toast.success('Share link revoked');
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      toast.error('Failed to revoke share link');
+    } finally {
+      setIsUpdatingShareLink(false);
+    }
+  };
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
   };
@@ -167,46 +283,14 @@ export function EstimateDetail({ estimate, profile, userId }: EstimateDetailProp
   const handleConvertToInvoice = async () => {
     setIsConverting(true);
     try {
-      const invoiceNumber = `INV-${Date.now().toString().slice(-6)}`;
-
-      const { data: invoice, error: invoiceError } = await supabase
-        .from('invoices')
-        .insert({
-          user_id: userId,
-          client_id: estimate.client?.id || null,
-          source_estimate_id: estimate.id,
-          invoice_number: invoiceNumber,
-          title: estimate.title,
-          description: estimate.description,
-          status: 'unpaid',
-          issue_date: new Date().toISOString().split('T')[0],
-          due_date: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-          tax_rate: estimate.tax_rate,
-          notes: estimate.notes,
-        })
-        .select()
-        .single();
-
-      if (invoiceError) throw invoiceError;
-
-      const itemsToInsert = estimate.items.map((item, index) => ({
-        invoice_id: invoice.id,
-        description: item.description,
-        quantity: item.quantity,
-        unit: item.unit,
-        unit_price: item.unit_price,
-        sort_order: index,
-      }));
-
-      if (itemsToInsert.length > 0) {
-        const { error: itemsError } = await supabase
-          .from('invoice_items')
-          .insert(itemsToInsert);
-        if (itemsError) throw itemsError;
+      const result = await convertEstimateToInvoiceAction({ estimateId: estimate.id });
+      if (!result.success || !result.id) {
+        toast.error(result.error || 'Failed to create invoice');
+        return;
       }
 
       toast.success('Invoice created successfully');
-      router.push(`/invoices/${invoice.id}`);
+      router.push(`/invoices/${result.id}`);
     } catch (error) {
       console.error('Error converting to invoice:', error);
       toast.error('Failed to create invoice');
@@ -234,14 +318,60 @@ export function EstimateDetail({ estimate, profile, userId }: EstimateDetailProp
     }
   };
 
-  const lineItems: LineItem[] = estimate.items.map((item) => ({
+  const items = [...estimate.items].sort((a, b) => a.sort_order - b.sort_order);
+
+  const lineItems: LineItem[] = items.map((item) => ({
     id: item.id,
     description: item.description,
     quantity: item.quantity,
     unit: item.unit,
     unit_price: item.unit_price,
+    taxable: item.taxable,
+    discount_type: item.discount_type,
+    discount_value: item.discount_value,
+    section: item.section,
+    is_optional: item.is_optional,
+    alternate_group: item.alternate_group,
+    is_selected: item.is_selected,
   }));
 
+  // The live estimate, in the same shape as a stored revision
+  const currentSnapshot: EstimateSnapshot = {
+    estimate_number: estimate.estimate_number,
+    title: estimate.title,
+    description: estimate.description,
+    client_id: estimate.client?.id ?? null,
+    issue_date: estimate.issue_date,
+    valid_until: estimate.valid_until,
+    taxes: stripTaxAmounts(estimate.taxes),
+    discount_type: estimate.discount_type,
+    discount_value: estimate.discount_value,
+    notes: estimate.notes,
+    job_site_address: estimate.job_site_address,
+    subtotal: estimate.subtotal,
+    discount_amount: estimate.discount_amount,
+    tax_amount: estimate.tax_amount,
+    total: estimate.total,
+    items: items.map(({
+      id, description, quantity, unit, unit_price, taxable, discount_type, discount_value, unit_cost, markup_percent, section,
+      is_optional, alternate_group, is_selected,
+    }) => ({
+      id, description, quantity, unit, unit_price, taxable, discount_type, discount_value, unit_cost, markup_percent, section,
+      is_optional, alternate_group, is_selected,
+    })),
+  };
+  const revisionCount = estimate.revisions?.length ?? 0;
+  const changeOrders = estimate.change_orders ?? [];
+  const contract = getContractTotals(estimate.total, changeOrders);
+  const billed = getBilledPercents(invoices.flatMap((invoice) => invoice.items));
+  // Deposit invoices don't bill estimate lines, so they don't count toward the
+  // "Invoice Remaining" and change order decisions
+  const billingInvoices = invoices.filter((invoice) => invoice.invoice_type === 'standard');
+  const depositInvoice = invoices.find((invoice) => invoice.invoice_type === 'deposit');
+  // Lines the client didn't choose are never billed
+  const billableItems = getIncludedLines(items);
+  const hasUnbilled = billableItems.some((item) => getRemainingPercent(billed, item.id) > 0);
+
   const statusInfo = statusConfig[estimate.status];
 
   return (
@@ -271,7 +401,8 @@ export function EstimateDetail({ estimate, profile, userId }: EstimateDetailProp
         </Link>
 
         <div className="flex items-center gap-3">
-          {estimate.status === 'draft' && estimate.client?.email && (
+          {estimate.status === 'draft' &&
+            (estimate.client?.email || estimate.client?.contacts.some((contact) => contact.email)) && (
             <Button onClick={handleSendToClient} disabled={isSending}>
               {isSending ? (
                 <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Sending...</>
@@ -296,16 +427,24 @@ export function EstimateDetail({ estimate, profile, userId }: EstimateDetailProp
             </Button>
           )}
 
-          {estimate.status === 'approved' && (
+          {estimate.status === 'approved' && hasUnbilled && (
             <Button onClick={handleConvertToInvoice} disabled={isConverting}>
               {isConverting ? (
                 <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Converting...</>
+              ) : billingInvoices.length > 0 ? (
+                <><Receipt className="mr-2 h-4 w-4" />Invoice Remaining</>
               ) : (
                 <><Receipt className="mr-2 h-4 w-4" />Convert to Invoice</>
               )}
             </Button>
           )}
 
+          <Button variant="outline" asChild>
+            <a href={`/api/estimates/${estimate.id}/pdf?download=1`}>
+              <Download className="mr-2 h-4 w-4" />PDF
+            </a>
+          </Button>
+
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="outline" size="icon">
@@ -319,6 +458,9 @@ export function EstimateDetail({ estimate, profile, userId }: EstimateDetailProp
                   Edit
                 </Link>
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setShowTemplateDialog(true)}>
+                <LayoutTemplate className="mr-2 h-4 w-4" />Save as Template
+              </DropdownMenuItem>
               <DropdownMenuSeparator />
               <DropdownMenuItem onClick={() => handleStatusChange('draft')} disabled={isUpdatingStatus}>
                 <FileText className="mr-2 h-4 w-4" />Mark as Draft
@@ -359,7 +501,10 @@ export function EstimateDetail({ estimate, profile, userId }: EstimateDetailProp
               {statusInfo.label}
             </Badge>
           </div>
-          <p className="text-slate-500 mt-1">Estimate #{estimate.estimate_number}</p>
+          <p className="text-slate-500 mt-1">
+            Estimate #{estimate.estimate_number}
+            {revisionCount > 0 && ` · Revision ${revisionCount + 1}`}
+          </p>
         </div>
         <div className="text-right">
           <p className="text-sm text-slate-500">Total Amount</p>
@@ -382,10 +527,27 @@ export function EstimateDetail({ estimate, profile, userId }: EstimateDetailProp
           <Card>
             <CardHeader><CardTitle className="text-lg">Line Items</CardTitle></CardHeader>
             <CardContent>
-              <LineItems items={lineItems} onChange={() => {}} readOnly />
+              <LineItems items={lineItems} onChange={() => {}} readOnly showTaxable showDiscount />
             </CardContent>
           </Card>
 
+          {(estimate.status === 'approved' || invoices.length > 0) && (
+            <BillingProgress estimateId={estimate.id} items={billableItems} invoices={invoices} />
+          )}
+
+          <ChangeOrders
+            estimateId={estimate.id}
+            canCreate={estimate.status === 'approved'}
+            hasInvoice={billingInvoices.length > 0}
+            changeOrders={changeOrders}
+          />
+
+          <EstimateRevisions
+            estimateId={estimate.id}
+            revisions={estimate.revisions ?? []}
+            current={currentSnapshot}
+          />
+
           {estimate.notes && (
             <Card>
               <CardHeader><CardTitle className="text-lg">Notes & Terms</CardTitle></CardHeader>
@@ -404,18 +566,50 @@ export function EstimateDetail({ estimate, profile, userId }: EstimateDetailProp
                 <span className="text-slate-500">Subtotal</span>
                 <span className="font-medium">{formatCurrency(estimate.subtotal)}</span>
               </div>
-              <div className="flex justify-between text-sm">
-                <span className="text-slate-500">Tax ({estimate.tax_rate}%)</span>
-                <span className="font-medium">{formatCurrency(estimate.tax_amount)}</span>
-              </div>
+              {estimate.discount_amount > 0 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-slate-500">{getDiscountLabel(estimate.discount_type, estimate.discount_value)}</span>
+                  <span className="font-medium text-green-600">-{formatCurrency(estimate.discount_amount)}</span>
+                </div>
+              )}
+              {estimate.taxes.map((tax) => (
+                <div key={tax.name} className="flex justify-between text-sm">
+                  <span className="text-slate-500">{getTaxLabel(tax)}</span>
+                  <span className="font-medium">{formatCurrency(tax.amount)}</span>
+                </div>
+              ))}
               <Separator />
               <div className="flex justify-between text-lg">
                 <span className="font-semibold">Total</span>
                 <span className="font-bold text-blue-600">{formatCurrency(estimate.total)}</span>
               </div>
+              <MarginSummary revenue={estimate.subtotal - estimate.discount_amount} cost={estimate.total_cost} />
             </CardContent>
           </Card>
 
+          {changeOrders.length > 0 && (
+            <Card>
+              <CardHeader><CardTitle className="text-lg">Contract Value</CardTitle></CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex justify-between text-sm">
+                  <span className="text-slate-500">Original Contract</span>
+                  <span className="font-medium">{formatCurrency(contract.original)}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-slate-500">Approved Changes</span>
+                  <span className={`font-medium ${contract.approvedChanges < 0 ? 'text-red-600' : ''}`}>
+                    {contract.approvedChanges >= 0 ? '+' : '−'}{formatCurrency(Math.abs(contract.approvedChanges))}
+                  </span>
+                </div>
+                <Separator />
+                <div className="flex justify-between text-lg">
+                  <span className="font-semibold">Revised Contract</span>
+                  <span className="font-bold text-blue-600">{formatCurrency(contract.revised)}</span>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           <Card>
             <CardHeader><CardTitle className="text-lg">Dates</CardTitle></CardHeader>
             <CardContent className="space-y-3">
@@ -432,6 +626,128 @@ export function EstimateDetail({ estimate, profile, userId }: EstimateDetailProp
             </CardContent>
           </Card>
 
+          {estimate.deposit_type && estimate.deposit_value && (
+            <Card>
+              <CardHeader><CardTitle className="text-lg">Deposit</CardTitle></CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex justify-between text-sm">
+                  <span className="text-slate-500">
+                    {estimate.deposit_type === 'percent'
+                      ? `${estimate.deposit_value}% of total`
+                      : 'Fixed amount'}
+                  </span>
+                  <span className="font-medium">
+                    {formatCurrency(getDepositAmount(estimate.total, estimate.deposit_type, estimate.deposit_value))}
+                  </span>
+                </div>
+                {depositInvoice ? (
+                  <Link
+                    href={`/invoices/${depositInvoice.id}`}
+                    className="flex items-center justify-between text-sm text-blue-600 hover:underline"
+                  >
+                    <span>Deposit invoice {depositInvoice.invoice_number}</span>
+                    <span className="capitalize">{depositInvoice.status.replace('_', ' ')}</span>
+                  </Link>
+                ) : (
+                  <p className="text-xs text-slate-500">
+                    Invoiced automatically when the estimate is approved and credited on the final invoice.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {signature && (
+            <Card className={signature.decision === 'approved' ? 'border-green-200' : 'border-red-200'}>
+              <CardHeader>
+                <CardTitle className="text-lg">
+                  {signature.decision === 'approved' ? 'Client Approval' : 'Client Declined'}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <Image
+                  src={signature.signature_image}
+                  alt={`Signature of ${signature.signer_name}`}
+                  width={384}
+                  height={96}
+                  unoptimized
+                  className="h-24 w-full rounded-md border bg-white object-contain"
+                />
+                <div className="flex justify-between text-sm">
+                  <span className="text-slate-500">Signed by</span>
+                  <span className="font-medium">{signature.signer_name}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-slate-500">Signed at</span>
+                  <span>{new Date(signature.signed_at).toLocaleString('en-US')}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-slate-500">Amount</span>
+                  <span>{formatCurrency(signature.estimate_total)}</span>
+                </div>
+                {signature.ip_address && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-slate-500">IP Address</span>
+                    <span className="font-mono text-xs">{signature.ip_address}</span>
+                  </div>
+                )}
+                {signature.user_agent && (
+                  <p className="text-xs text-slate-400 break-words">{signature.user_agent}</p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader><CardTitle className="text-lg">Client Link</CardTitle></CardHeader>
+            <CardContent className="space-y-3">
+              {shareUrl ? (
+                <>
+                  <Input value={shareUrl} readOnly onFocus={(e) => e.target.select()} className="text-xs" />
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={handleCopyShareLink} className="flex-1">
+                      <Copy className="mr-2 h-4 w-4" />Copy
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleRevokeShareLink}
+                      disabled={isUpdatingShareLink}
+                      className="flex-1 text-red-600 hover:text-red-700"
+                    >
+                      <Ban className="mr-2 h-4 w-4" />Revoke
+                    </Button>
+                  </div>
+                  {estimate.valid_until && (
+                    <p className="text-xs text-slate-500">
+                      Expires after {formatDate(estimate.valid_until)}
+                    </p>
+                  )}
+                </>
+              ) : (
+                <>
+                  <p className="text-sm text-slate-500">
+                    Create a private link your client can open without an account.
+                  </p>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleCreateShareLink}
+                    disabled={isUpdatingShareLink}
+                    className="w-full"
+                  >
+                    {isUpdatingShareLink ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Link2 className="mr-2 h-4 w-4" />
+                    )}
+                    Create Share Link
+                  </Button>
+                </>
+              )}
+            </CardContent>
+          </Card>
+
           {estimate.job_site_address && (
             <Card>
               <CardHeader><CardTitle className="text-lg">Job Site</CardTitle></CardHeader>
@@ -493,6 +809,25 @@ export function EstimateDetail({ estimate, profile, userId }: EstimateDetailProp
           )}
         </div>
       </div>
+
+      <SaveTemplateDialog
+        estimateId={estimate.id}
+        defaultName={estimate.title}
+        open={showTemplateDialog}
+        onOpenChange={setShowTemplateDialog}
+      />
+
+      {showSendDialog && estimate.client && (
+        <SendDialog
+          title="Send Estimate"
+          client={estimate.client}
+          contacts={estimate.client.contacts}
+          defaultRole="decision_maker"
+          open={showSendDialog}
+          onOpenChange={setShowSendDialog}
+          onSend={sendEstimate}
+        />
+      )}
     </div>
   );
 }
@@ -1,6 +1,7 @@
 import { createClient } from '@/lib/supabase/server';
 import { redirect, notFound } from 'next/navigation';
 import { EstimateDetail } from './estimate-detail';
+import { getEstimateShareUrl } from '@/lib/share-links';
 
 interface EstimatePageProps {
   params: Promise<{ id: string }>;
@@ -21,8 +22,10 @@ export default async function EstimatePage({ params }: EstimatePageProps) {
     .from('estimates')
     .select(`
       *,
-      client:clients(*),
-      items:estimate_items(*)
+      client:clients(*, contacts:client_contacts(*)),
+      items:estimate_items(*),
+      revisions:estimate_revisions(*),
+      change_orders(*, items:change_order_items(*))
     `)
     .eq('id', id)
     .single();
@@ -38,5 +41,37 @@ export default async function EstimatePage({ params }: EstimatePageProps) {
     .eq('id', user.id)
     .single();
 
-  return <EstimateDetail estimate={estimate} profile={profile} userId={user.id} />;
+  // Active client share link, if one has been created
+  const { data: shareLink } = await supabase
+    .from('share_links')
+    .select('token')
+    .eq('estimate_id', id)
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  // Most recent client approve/decline from the share link
+  const { data: signature } = await supabase
+    .from('estimate_signatures')
+    .select('*')
+    .eq('estimate_id', id)
+    .order('signed_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  // Invoices created from this estimate, for billing progress, deposits and change orders
+  const { data: invoices } = await supabase
+    .from('invoices')
+    .select('id, invoice_type, invoice_number, title, subtotal, retainage_amount, total, status, items:invoice_items(source_estimate_item_id, billed_percent)')
+    .eq('source_estimate_id', id)
+    .order('created_at', { ascending: true });
+
+  return (
+    <EstimateDetail
+      estimate={estimate}
+      profile={profile}
+      shareUrl={shareLink ? getEstimateShareUrl(shareLink.token) : null}
+      signature={signature}
+      invoices={invoices || []}
+    />
+  );
 }
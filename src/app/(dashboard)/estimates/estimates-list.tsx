@@ -23,6 +23,7 @@ import {
   Send,
   CheckCircle,
   XCircle,
+  LayoutTemplate,
 } from 'lucide-react';
 
 interface Estimate {
@@ -100,6 +101,13 @@ export function EstimatesList({ estimates }: EstimatesListProps) {
             </TabsList>
           </Tabs>
 
+          <Button variant="outline" asChild>
+            <Link href="/estimates/templates">
+              <LayoutTemplate className="mr-2 h-4 w-4" />
+              Templates
+            </Link>
+          </Button>
+
           <Button asChild>
             <Link href="/estimates/new">
               <Plus className="mr-2 h-4 w-4" />
@@ -1,11 +1,17 @@
 import { createClient } from '@/lib/supabase/server';
 import { redirect } from 'next/navigation';
 import { EstimateForm } from '@/components/estimates/estimate-form';
-import { Client } from '@/types/database';
+import { TemplatePicker } from '@/components/estimates/template-picker';
+import { CatalogItem, Client, ClientAddress, ClientContact, EstimateTemplate, TaxRate } from '@/types/database';
 import Link from 'next/link';
 import { ChevronLeft } from 'lucide-react';
 
-export default async function NewEstimatePage() {
+interface NewEstimatePageProps {
+  searchParams: Promise<{ template?: string; client?: string }>;
+}
+
+export default async function NewEstimatePage({ searchParams }: NewEstimatePageProps) {
+  const { template: templateId, client: clientId } = await searchParams;
   const supabase = await createClient();
 
   const { data: { user } } = await supabase.auth.getUser();
@@ -14,11 +20,27 @@ export default async function NewEstimatePage() {
     redirect('/login');
   }
 
-  const [{ data: clients }, { data: profile }] = await Promise.all([
+  const [
+    { data: clients },
+    { data: profile },
+    { data: taxRates },
+    { data: catalog },
+    { data: templates },
+    { data: addresses },
+    { data: contacts },
+  ] = await Promise.all([
     supabase.from('clients').select('*').order('name'),
     supabase.from('profiles').select('default_payment_terms').eq('id', user.id).single(),
+    supabase.from('tax_rates').select('*').order('created_at'),
+    supabase.from('catalog_items').select('*').order('name'),
+    supabase.from('estimate_templates').select('*').order('name'),
+    supabase.from('client_addresses').select('*').order('label'),
+    supabase.from('client_contacts').select('*').order('name'),
   ]);
 
+  const template = (templates as EstimateTemplate[] | null)?.find((t) => t.id === templateId) ?? null;
+  const defaultClient = (clients as Client[] | null)?.find((c) => c.id === clientId);
+
   return (
     <div className="space-y-6">
       <div className="flex items-center gap-4">
@@ -31,15 +53,27 @@ export default async function NewEstimatePage() {
         </Link>
       </div>
 
-      <div>
-        <h1 className="text-2xl font-bold text-slate-900">New Estimate</h1>
-        <p className="text-slate-500 mt-1">
-          Create a new estimate for your client
-        </p>
+      <div className="flex items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-900">New Estimate</h1>
+          <p className="text-slate-500 mt-1">
+            Create a new estimate for your client
+          </p>
+        </div>
+        {templates && templates.length > 0 && (
+          <TemplatePicker templates={templates} selectedId={template?.id ?? null} clientId={defaultClient?.id} />
+        )}
       </div>
 
       <EstimateForm
+        key={template?.id ?? 'blank'}
+        template={template}
+        defaultClientId={defaultClient?.id}
         clients={(clients as Client[]) || []}
+        taxRates={(taxRates as TaxRate[]) || []}
+        catalog={(catalog as CatalogItem[]) || []}
+        addresses={(addresses as ClientAddress[]) || []}
+        contacts={(contacts as ClientContact[]) || []}
         userId={user.id}
         mode="create"
         defaultPaymentTerms={profile?.default_payment_terms || ''}
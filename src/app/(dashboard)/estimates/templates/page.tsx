@@ -0,0 +1,44 @@
+import { createClient } from '@/lib/supabase/server';
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { ChevronLeft } from 'lucide-react';
+import { TemplatesList } from './templates-list';
+import { EstimateTemplate } from '@/types/database';
+
+export default async function EstimateTemplatesPage() {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/login');
+  }
+
+  const { data: templates } = await supabase
+    .from('estimate_templates')
+    .select('*')
+    .order('name');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Link
+          href="/estimates"
+          className="flex items-center text-sm text-slate-500 hover:text-slate-900"
+        >
+          <ChevronLeft className="h-4 w-4 mr-1" />
+          Back to Estimates
+        </Link>
+      </div>
+
+      <div>
+        <h1 className="text-2xl font-bold text-slate-900">Estimate Templates</h1>
+        <p className="text-slate-500 mt-1">
+          Starting points for the jobs you quote again and again
+        </p>
+      </div>
+
+      <TemplatesList templates={(templates as EstimateTemplate[]) || []} />
+    </div>
+  );
+}
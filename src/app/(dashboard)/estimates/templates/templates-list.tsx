@@ -0,0 +1,240 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { createClient } from '@/lib/supabase/client';
+import { EstimateTemplate } from '@/types/database';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { getTemplateSubtotal } from '@/lib/templates';
+import { toast } from 'sonner';
+import {
+  FilePlus,
+  LayoutTemplate,
+  Loader2,
+  MoreHorizontal,
+  Pencil,
+  Trash2,
+} from 'lucide-react';
+
+interface TemplatesListProps {
+  templates: EstimateTemplate[];
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+};
+
+export function TemplatesList({ templates: initialTemplates }: TemplatesListProps) {
+  const router = useRouter();
+  const supabase = createClient();
+
+  const [templates, setTemplates] = useState<EstimateTemplate[]>(initialTemplates);
+  const [renaming, setRenaming] = useState<EstimateTemplate | null>(null);
+  const [newName, setNewName] = useState('');
+  const [isRenaming, setIsRenaming] = useState(false);
+
+  const openRename = (template: EstimateTemplate) => {
+    setRenaming(template);
+    setNewName(template.name);
+  };
+
+  const handleRename = async () => {
+    if (!renaming) return;
+
+    const name = newName.trim();
+    if (!name) {
+      toast.error('Template name is required');
+      return;
+    }
+
+    setIsRenaming(true);
+    try {
+      const { error } = await supabase
+        .from('estimate_templates')
+        .update({ name })
+        .eq('id', renaming.id);
+
+      if (error) {
+        if (error.code === '23505') {
+          toast.error(`You already have a template named ${name}`);
+          return;
+        }
+        throw error;
+      }
+
+      setTemplates((prev) =>
+        prev
+          .map((t) => (t.id === renaming.id ? { ...t, name } : t))
+          .sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setRenaming(null);
+      toast.success('Template renamed');
+      router.refresh();
+    } catch (error) {
+      console.error('Error renaming template:', error);
+      toast.error('Failed to rename template');
+    } finally {
+      setIsRenaming(false);
+    }
+  };
+
+  // Estimates started from a template are copies, so they aren't affected
+  const handleDelete = async (template: EstimateTemplate) => {
+    if (!confirm(`Are you sure you want to delete the "${template.name}" template?`)) {
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('estimate_templates')
+        .delete()
+        .eq('id', template.id);
+
+      if (error) throw error;
+
+      setTemplates((prev) => prev.filter((t) => t.id !== template.id));
+      toast.success('Template deleted');
+      router.refresh();
+    } catch (error) {
+      console.error('Error deleting template:', error);
+      toast.error('Failed to delete template');
+    }
+  };
+
+  if (templates.length === 0) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center justify-center py-12">
+          <div className="h-12 w-12 rounded-full bg-slate-100 flex items-center justify-center mb-4">
+            <LayoutTemplate className="h-6 w-6 text-slate-400" />
+          </div>
+          <h3 className="text-lg font-medium text-slate-900">No templates yet</h3>
+          <p className="text-slate-500 text-center mt-1 max-w-sm">
+            Open any estimate and choose &quot;Save as Template&quot; from its menu to reuse
+            its scope on new jobs.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <>
+      <Card>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Template</TableHead>
+              <TableHead className="text-right">Line Items</TableHead>
+              <TableHead className="text-right">Subtotal</TableHead>
+              <TableHead className="w-[160px]"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {templates.map((template) => (
+              <TableRow key={template.id}>
+                <TableCell>
+                  <div className="font-medium text-slate-900">{template.name}</div>
+                  <div className="text-sm text-slate-500 truncate max-w-[360px]">{template.title}</div>
+                </TableCell>
+                <TableCell className="text-right">{template.items.length}</TableCell>
+                <TableCell className="text-right font-medium">
+                  {formatCurrency(getTemplateSubtotal(template))}
+                </TableCell>
+                <TableCell>
+                  <div className="flex items-center justify-end gap-1">
+                    <Button variant="outline" size="sm" asChild>
+                      <Link href={`/estimates/new?template=${template.id}`}>
+                        <FilePlus className="mr-2 h-4 w-4" />
+                        Use
+                      </Link>
+                    </Button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon">
+                          <MoreHorizontal className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => openRename(template)}>
+                          <Pencil className="mr-2 h-4 w-4" />
+                          Rename
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => handleDelete(template)}
+                          className="text-red-600"
+                        >
+                          <Trash2 className="mr-2 h-4 w-4" />
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Card>
+
+      <Dialog open={renaming !== null} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename Template</DialogTitle>
+          </DialogHeader>
+          <div className="py-2">
+            <Label htmlFor="rename_template">Template Name</Label>
+            <Input
+              id="rename_template"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              maxLength={255}
+              className="mt-1.5"
+              onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRenaming(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleRename} disabled={isRenaming}>
+              {isRenaming ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                'Rename'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
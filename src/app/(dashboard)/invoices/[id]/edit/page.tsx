@@ -1,7 +1,8 @@
 import { createClient } from '@/lib/supabase/server';
 import { redirect, notFound } from 'next/navigation';
 import { InvoiceForm } from '@/components/invoices/invoice-form';
-import { Client } from '@/types/database';
+import { CatalogItem, Client, DiscountType, TaxRate } from '@/types/database';
+import { stripTaxAmounts } from '@/lib/taxes';
 import Link from 'next/link';
 import { ChevronLeft } from 'lucide-react';
 
@@ -39,6 +40,16 @@ export default async function EditInvoicePage({ params }: EditInvoicePageProps)
     .select('*')
     .order('name');
 
+  const { data: taxRates } = await supabase
+    .from('tax_rates')
+    .select('*')
+    .order('created_at');
+
+  const { data: catalog } = await supabase
+    .from('catalog_items')
+    .select('*')
+    .order('name');
+
   // Transform invoice data for the form
   const initialData = {
     id: invoice.id,
@@ -46,18 +57,28 @@ export default async function EditInvoicePage({ params }: EditInvoicePageProps)
     invoice_number: invoice.invoice_number,
     title: invoice.title,
     description: invoice.description || '',
-    status: invoice.status,
     issue_date: invoice.issue_date,
     due_date: invoice.due_date,
-    tax_rate: invoice.tax_rate,
+    taxes: stripTaxAmounts(invoice.taxes),
+    discount_type: invoice.discount_type,
+    discount_value: invoice.discount_value,
+    retainage_percent: invoice.retainage_percent,
     notes: invoice.notes || '',
-    items: invoice.items.map((item: { id: string; description: string; quantity: number; unit: string; unit_price: number }) => ({
-      id: item.id,
-      description: item.description,
-      quantity: item.quantity,
-      unit: item.unit,
-      unit_price: item.unit_price,
-    })),
+    invoice_type: invoice.invoice_type,
+    deposit_credit: invoice.deposit_credit,
+    items: [...invoice.items]
+      .sort((a: { sort_order: number }, b: { sort_order: number }) => a.sort_order - b.sort_order)
+      .map((item: { id: string; description: string; quantity: number; unit: string; unit_price: number; taxable: boolean; discount_type: DiscountType | null; discount_value: number | null; section: string | null }) => ({
+        id: item.id,
+        description: item.description,
+        quantity: item.quantity,
+        unit: item.unit,
+        unit_price: item.unit_price,
+        taxable: item.taxable,
+        discount_type: item.discount_type,
+        discount_value: item.discount_value,
+        section: item.section,
+      })),
   };
 
   return (
@@ -81,7 +102,8 @@ export default async function EditInvoicePage({ params }: EditInvoicePageProps)
 
       <InvoiceForm
         clients={(clients as Client[]) || []}
-        userId={user.id}
+        taxRates={(taxRates as TaxRate[]) || []}
+        catalog={(catalog as CatalogItem[]) || []}
         initialData={initialData}
         mode="edit"
       />
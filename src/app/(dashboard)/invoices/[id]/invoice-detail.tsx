@@ -4,7 +4,12 @@ import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { createClient } from '@/lib/supabase/client';
-import { Profile, InvoiceStatus } from '@/types/database';
+import { Profile, DiscountType, DocumentTax, InvoiceStatus, InvoiceType, InvoicePayment, InvoiceReminder, InvoiceSchedule, ClientContact } from '@/types/database';
+import { getTaxLabel } from '@/lib/taxes';
+import { getDiscountLabel } from '@/lib/discounts';
+import { getDaysOverdue, getInvoiceBalance, getPaymentMethodLabel } from '@/lib/invoices';
+import { describeReminderOffset } from '@/lib/reminders';
+import { getRecurrenceLabel } from '@/lib/recurring-invoices';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -19,6 +24,8 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { LineItems, LineItem } from '@/components/estimates/line-items';
+import { RecordPaymentDialog } from '@/components/invoices/record-payment-dialog';
+import { InvoiceScheduleDialog } from '@/components/invoices/invoice-schedule-dialog';
 import { toast } from 'sonner';
 import {
   ChevronLeft,
@@ -35,7 +42,17 @@ import {
   Loader2,
   Archive,
   ArchiveRestore,
+  Download,
+  Send,
+  Wallet,
+  Plus,
+  AlertTriangle,
+  BellRing,
+  Repeat,
 } from 'lucide-react';
+import { sendInvoiceAction } from '@/app/actions/send-invoice';
+import { SendDialog } from '@/components/clients/send-dialog';
+import { SendRecipients } from '@/lib/client-contacts';
 
 interface InvoiceDetailProps {
   invoice: {
@@ -48,11 +65,23 @@ interface InvoiceDetailProps {
     due_date: string | null;
     paid_date: string | null;
     subtotal: number;
-    tax_rate: number;
+    discount_type: DiscountType | null;
+    discount_value: number | null;
+    discount_amount: number;
+    taxes: DocumentTax[];
     tax_amount: number;
+    deposit_credit: number;
+    retainage_percent: number;
+    retainage_amount: number;
     total: number;
+    amount_paid: number;
     notes: string | null;
     source_estimate_id: string | null;
+    invoice_type: InvoiceType;
+    sent_at: string | null;
+    sent_to: string | null;
+    reminders_enabled: boolean;
+    schedule_id: string | null;
     archived_at: string | null;
     client: {
       id: string;
@@ -60,6 +89,7 @@ interface InvoiceDetailProps {
       email: string | null;
       phone: string | null;
       address: string | null;
+      contacts: ClientContact[];
     } | null;
     items: {
       id: string;
@@ -67,25 +97,38 @@ interface InvoiceDetailProps {
       quantity: number;
       unit: string;
       unit_price: number;
+      taxable: boolean;
+      discount_type: DiscountType | null;
+      discount_value: number | null;
+      section: string | null;
       amount: number;
+      sort_order: number;
     }[];
+    payments: InvoicePayment[];
+    reminders: InvoiceReminder[];
   };
   profile: Profile | null;
+  schedule: InvoiceSchedule | null;
+  userId: string;
 }
 
 const statusConfig: Record<InvoiceStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline'; icon: React.ReactNode }> = {
   unpaid: { label: 'Unpaid', variant: 'destructive', icon: <Clock className="h-3 w-3" /> },
+  partially_paid: { label: 'Partially Paid', variant: 'secondary', icon: <Wallet className="h-3 w-3" /> },
   paid: { label: 'Paid', variant: 'default', icon: <CheckCircle2 className="h-3 w-3" /> },
 };
 
-export function InvoiceDetail({ invoice, profile }: InvoiceDetailProps) {
+export function InvoiceDetail({ invoice, profile, schedule, userId }: InvoiceDetailProps) {
   const router = useRouter();
   const supabase = createClient();
-  const [isUpdating, setIsUpdating] = useState(false);
+  const [deletingPaymentId, setDeletingPaymentId] = useState<string | null>(null);
   const [isArchiving, setIsArchiving] = useState(false);
-  const [currentStatus, setCurrentStatus] = useState(invoice.status);
-  const [paidDate, setPaidDate] = useState(invoice.paid_date);
+  const [isSending, setIsSending] = useState(false);
+  const [isSendOpen, setIsSendOpen] = useState(false);
   const [archivedAt, setArchivedAt] = useState(invoice.archived_at);
+  const [remindersEnabled, setRemindersEnabled] = useState(invoice.reminders_enabled);
+  const [isUpdatingReminders, setIsUpdatingReminders] = useState(false);
+  const [isScheduleOpen, setIsScheduleOpen] = useState(false);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -102,31 +145,80 @@ export function InvoiceDetail({ invoice, profile }: InvoiceDetailProps) {
     });
   };
 
-  const handleTogglePaid = async () => {
-    setIsUpdating(true);
-    const newStatus: InvoiceStatus = currentStatus === 'paid' ? 'unpaid' : 'paid';
-    const newPaidDate = newStatus === 'paid' ? new Date().toISOString().split('T')[0] : null;
+  const sendInvoice = async (recipients?: SendRecipients) => {
+    setIsSending(true);
+    try {
+      const result = await sendInvoiceAction({ invoiceId: invoice.id, recipients });
+      if (!result.success) {
+        toast.error(result.error || 'Failed to send email');
+        return false;
+      }
+      toast.success('Invoice sent to client!');
+      router.refresh();
+      return true;
+    } catch (error) {
+      console.error('Error sending invoice:', error);
+      toast.error('Failed to send invoice');
+      return false;
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  // Clients with contacts choose who receives it; otherwise it goes to the
+  // client's own email
+  const handleSendToClient = () => {
+    if (invoice.client?.contacts.some((contact) => contact.email)) {
+      setIsSendOpen(true);
+      return;
+    }
+    if (!invoice.client?.email) {
+      toast.error('Client does not have an email address');
+      return;
+    }
+    sendInvoice();
+  };
 
+  const handleDeletePayment = async (payment: InvoicePayment) => {
+    if (!confirm(`Delete the ${formatCurrency(payment.amount)} payment from ${formatDate(payment.paid_on)}?`)) {
+      return;
+    }
+
+    setDeletingPaymentId(payment.id);
     try {
       const { error } = await supabase
-        .from('invoices')
-        .update({
-          status: newStatus,
-          paid_date: newPaidDate,
-        })
-        .eq('id', invoice.id);
+        .from('invoice_payments')
+        .delete()
+        .eq('id', payment.id);
 
       if (error) throw error;
 
-      setCurrentStatus(newStatus);
-      setPaidDate(newPaidDate);
-      toast.success(newStatus === 'paid' ? 'Invoice marked as paid' : 'Invoice marked as unpaid');
+      toast.success('Payment deleted');
       router.refresh();
     } catch (error) {
-      console.error('Error updating invoice:', error);
-      toast.error('Failed to update invoice status');
+      console.error('Error deleting payment:', error);
+      toast.error('Failed to delete payment');
     } finally {
-      setIsUpdating(false);
+      setDeletingPaymentId(null);
+    }
+  };
+
+  const handleToggleReminders = async (enabled: boolean) => {
+    setIsUpdatingReminders(true);
+    try {
+      const { error } = await supabase
+        .from('invoices')
+        .update({ reminders_enabled: enabled })
+        .eq('id', invoice.id);
+
+      if (error) throw error;
+      setRemindersEnabled(enabled);
+      toast.success(enabled ? 'Payment reminders turned on' : 'Payment reminders turned off');
+    } catch (error) {
+      console.error('Error updating reminders:', error);
+      toast.error('Failed to update reminders');
+    } finally {
+      setIsUpdatingReminders(false);
     }
   };
 
@@ -172,16 +264,28 @@ export function InvoiceDetail({ invoice, profile }: InvoiceDetailProps) {
     }
   };
 
-  const lineItems: LineItem[] = invoice.items.map((item) => ({
-    id: item.id,
-    description: item.description,
-    quantity: item.quantity,
-    unit: item.unit,
-    unit_price: item.unit_price,
-  }));
+  const lineItems: LineItem[] = [...invoice.items]
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map((item) => ({
+      id: item.id,
+      description: item.description,
+      quantity: item.quantity,
+      unit: item.unit,
+      unit_price: item.unit_price,
+      taxable: item.taxable,
+      discount_type: item.discount_type,
+      discount_value: item.discount_value,
+      section: item.section,
+    }));
 
+  const currentStatus = invoice.status;
+  const paidDate = invoice.paid_date;
   const statusInfo = statusConfig[currentStatus];
-  const isOverdue = currentStatus === 'unpaid' && invoice.due_date && new Date(invoice.due_date) < new Date();
+  const balance = getInvoiceBalance(invoice);
+  const payments = [...invoice.payments].sort((a, b) => b.paid_on.localeCompare(a.paid_on));
+  const daysOverdue = getDaysOverdue(invoice);
+  const isOverdue = daysOverdue > 0;
+  const reminders = [...invoice.reminders].sort((a, b) => b.created_at.localeCompare(a.created_at));
 
   return (
     <div className="space-y-6">
@@ -212,6 +316,21 @@ export function InvoiceDetail({ invoice, profile }: InvoiceDetailProps) {
         </div>
 
         <div className="flex items-center gap-3">
+          <Button variant="outline" asChild>
+            <a href={`/api/invoices/${invoice.id}/pdf?download=1`}>
+              <Download className="mr-2 h-4 w-4" />
+              Download PDF
+            </a>
+          </Button>
+
+          <Button onClick={handleSendToClient} disabled={isSending}>
+            {isSending ? (
+              <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Sending...</>
+            ) : (
+              <><Send className="mr-2 h-4 w-4" />{invoice.sent_at ? 'Resend to Client' : 'Send to Client'}</>
+            )}
+          </Button>
+
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="outline" size="icon">
@@ -233,6 +352,10 @@ export function InvoiceDetail({ invoice, profile }: InvoiceDetailProps) {
                   </Link>
                 </DropdownMenuItem>
               )}
+              <DropdownMenuItem onClick={() => setIsScheduleOpen(true)}>
+                <Repeat className="mr-2 h-4 w-4" />
+                {schedule ? 'Edit Recurring Schedule' : 'Make Recurring'}
+              </DropdownMenuItem>
               <DropdownMenuSeparator />
               <DropdownMenuItem onClick={handleArchive} disabled={isArchiving}>
                 {archivedAt ? (
@@ -260,13 +383,44 @@ export function InvoiceDetail({ invoice, profile }: InvoiceDetailProps) {
               {statusInfo.icon}
               {statusInfo.label}
             </Badge>
+            {invoice.invoice_type === 'deposit' && (
+              <Badge variant="secondary">Deposit</Badge>
+            )}
+            {invoice.invoice_type === 'retainage_release' && (
+              <Badge variant="secondary">Retainage Release</Badge>
+            )}
+            {invoice.schedule_id && (
+              <Badge variant="outline" className="flex items-center gap-1">
+                <Repeat className="h-3 w-3" />
+                Recurring
+              </Badge>
+            )}
             {isOverdue && (
-              <Badge variant="destructive">Overdue</Badge>
+              <Badge variant="destructive" className="flex items-center gap-1">
+                <AlertTriangle className="h-3 w-3" />
+                {daysOverdue} day{daysOverdue !== 1 ? 's' : ''} overdue
+              </Badge>
             )}
           </div>
           <p className="text-slate-500 mt-1">
             Invoice #{invoice.invoice_number}
           </p>
+          {invoice.sent_at && (
+            <p className="text-sm text-slate-500 mt-1">
+              Sent to {invoice.sent_to} on {formatDate(invoice.sent_at)}
+            </p>
+          )}
+          {schedule && (
+            <p className="text-sm text-slate-500 mt-1 flex items-center gap-1">
+              <Repeat className="h-3 w-3" />
+              Repeats {getRecurrenceLabel(schedule.recurrence).toLowerCase()} ·{' '}
+              {!schedule.is_active
+                ? 'paused'
+                : schedule.next_run_date
+                  ? `next invoice on ${formatDate(schedule.next_run_date)}`
+                  : 'ended'}
+            </p>
+          )}
         </div>
         <div className="text-right">
           <p className="text-sm text-slate-500">Total Amount</p>
@@ -274,7 +428,7 @@ export function InvoiceDetail({ invoice, profile }: InvoiceDetailProps) {
         </div>
       </div>
 
-      {/* Mark as Paid Toggle */}
+      {/* Payment Status */}
       <Card className={currentStatus === 'paid' ? 'bg-green-50 border-green-200' : 'bg-orange-50 border-orange-200'}>
         <CardContent className="p-4">
           <div className="flex items-center justify-between">
@@ -286,29 +440,38 @@ export function InvoiceDetail({ invoice, profile }: InvoiceDetailProps) {
               )}
               <div>
                 <p className={`font-medium ${currentStatus === 'paid' ? 'text-green-700' : 'text-orange-700'}`}>
-                  {currentStatus === 'paid' ? 'Payment Received' : 'Payment Pending'}
+                  {currentStatus === 'paid'
+                    ? 'Payment Received'
+                    : currentStatus === 'partially_paid'
+                      ? `${formatCurrency(balance)} Remaining`
+                      : 'Payment Pending'}
                 </p>
                 <p className={`text-sm ${currentStatus === 'paid' ? 'text-green-600' : 'text-orange-600'}`}>
                   {currentStatus === 'paid' && paidDate
-                    ? `Paid on ${formatDate(paidDate)}`
-                    : invoice.due_date
-                      ? `Due ${formatDate(invoice.due_date)}`
-                      : 'No due date set'}
+                    ? `Paid in full on ${formatDate(paidDate)}`
+                    : currentStatus === 'partially_paid'
+                      ? `${formatCurrency(invoice.amount_paid)} of ${formatCurrency(invoice.total)} received`
+                      : isOverdue && invoice.due_date
+                        ? `Was due ${formatDate(invoice.due_date)}`
+                        : invoice.due_date
+                          ? `Due ${formatDate(invoice.due_date)}`
+                          : 'No due date set'}
                 </p>
               </div>
             </div>
-            <div className="flex items-center gap-3">
-              <Label htmlFor="paid-toggle" className="text-sm font-medium">
-                Mark as Paid
-              </Label>
-              <Switch
-                id="paid-toggle"
-                checked={currentStatus === 'paid'}
-                onCheckedChange={handleTogglePaid}
-                disabled={isUpdating}
-              />
-              {isUpdating && <Loader2 className="h-4 w-4 animate-spin" />}
-            </div>
+            {balance > 0 && (
+              <RecordPaymentDialog
+                invoiceId={invoice.id}
+                userId={userId}
+                balance={balance}
+                onRecorded={() => router.refresh()}
+              >
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Record Payment
+                </Button>
+              </RecordPaymentDialog>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -335,7 +498,54 @@ export function InvoiceDetail({ invoice, profile }: InvoiceDetailProps) {
               <CardTitle className="text-lg">Line Items</CardTitle>
             </CardHeader>
             <CardContent>
-              <LineItems items={lineItems} onChange={() => {}} readOnly />
+              <LineItems items={lineItems} onChange={() => {}} readOnly showTaxable showDiscount />
+            </CardContent>
+          </Card>
+
+          {/* Payment History */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Payments</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {payments.length === 0 ? (
+                <p className="text-sm text-slate-500">No payments recorded yet.</p>
+              ) : (
+                <div className="divide-y">
+                  {payments.map((payment) => (
+                    <div key={payment.id} className="flex items-start justify-between gap-4 py-3 first:pt-0 last:pb-0">
+                      <div className="text-sm">
+                        <p className="font-medium text-slate-900">
+                          {formatDate(payment.paid_on)}
+                          <span className="font-normal text-slate-500">
+                            {' · '}{getPaymentMethodLabel(payment.method)}
+                            {payment.reference && ` #${payment.reference}`}
+                          </span>
+                        </p>
+                        {payment.memo && (
+                          <p className="text-slate-500 mt-0.5">{payment.memo}</p>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-green-600">{formatCurrency(payment.amount)}</span>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-slate-400 hover:text-red-600"
+                          onClick={() => handleDeletePayment(payment)}
+                          disabled={deletingPaymentId === payment.id}
+                        >
+                          {deletingPaymentId === payment.id ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Trash2 className="h-4 w-4" />
+                          )}
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -364,15 +574,47 @@ export function InvoiceDetail({ invoice, profile }: InvoiceDetailProps) {
                 <span className="text-slate-500">Subtotal</span>
                 <span className="font-medium">{formatCurrency(invoice.subtotal)}</span>
               </div>
-              <div className="flex justify-between text-sm">
-                <span className="text-slate-500">Tax ({invoice.tax_rate}%)</span>
-                <span className="font-medium">{formatCurrency(invoice.tax_amount)}</span>
-              </div>
+              {invoice.discount_amount > 0 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-slate-500">{getDiscountLabel(invoice.discount_type, invoice.discount_value)}</span>
+                  <span className="font-medium text-green-600">-{formatCurrency(invoice.discount_amount)}</span>
+                </div>
+              )}
+              {invoice.taxes.map((tax) => (
+                <div key={tax.name} className="flex justify-between text-sm">
+                  <span className="text-slate-500">{getTaxLabel(tax)}</span>
+                  <span className="font-medium">{formatCurrency(tax.amount)}</span>
+                </div>
+              ))}
+              {invoice.deposit_credit > 0 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-slate-500">Less deposit received</span>
+                  <span className="font-medium text-green-600">-{formatCurrency(invoice.deposit_credit)}</span>
+                </div>
+              )}
+              {invoice.retainage_amount > 0 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-slate-500">Less retainage ({invoice.retainage_percent}%)</span>
+                  <span className="font-medium">-{formatCurrency(invoice.retainage_amount)}</span>
+                </div>
+              )}
               <Separator />
               <div className="flex justify-between text-lg">
                 <span className="font-semibold">Total</span>
                 <span className="font-bold text-blue-600">{formatCurrency(invoice.total)}</span>
               </div>
+              {invoice.amount_paid > 0 && (
+                <>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-slate-500">Amount Paid</span>
+                    <span className="font-medium text-green-600">-{formatCurrency(invoice.amount_paid)}</span>
+                  </div>
+                  <div className="flex justify-between text-sm">
+                    <span className="font-semibold">Balance Due</span>
+                    <span className="font-semibold">{formatCurrency(balance)}</span>
+                  </div>
+                </>
+              )}
             </CardContent>
           </Card>
 
@@ -437,6 +679,73 @@ export function InvoiceDetail({ invoice, profile }: InvoiceDetailProps) {
             </Card>
           )}
 
+          {/* Payment Reminders */}
+          {currentStatus !== 'paid' && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <BellRing className="h-4 w-4 text-slate-400" />
+                  Reminders
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="reminders-toggle" className="text-sm">
+                    Automatic reminders
+                  </Label>
+                  <Switch
+                    id="reminders-toggle"
+                    checked={remindersEnabled}
+                    onCheckedChange={handleToggleReminders}
+                    disabled={isUpdatingReminders}
+                  />
+                </div>
+                {remindersEnabled && profile && !profile.reminders_enabled && (
+                  <p className="text-xs text-slate-500">
+                    Reminders are turned off for your account in{' '}
+                    <Link href="/settings" className="text-blue-600 hover:underline">Settings</Link>.
+                  </p>
+                )}
+                {remindersEnabled && !invoice.sent_at && (
+                  <p className="text-xs text-slate-500">
+                    Reminders start once the invoice has been sent to the client.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {reminders.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Reminder History</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {reminders.map((reminder) => (
+                  <div key={reminder.id} className="text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-slate-900">
+                        {describeReminderOffset(reminder.offset_days)}
+                      </span>
+                      <Badge
+                        variant={reminder.status === 'failed' ? 'destructive' : reminder.status === 'sent' ? 'default' : 'secondary'}
+                      >
+                        {reminder.status === 'sent' ? 'Sent' : reminder.status === 'failed' ? 'Failed' : 'Sending'}
+                      </Badge>
+                    </div>
+                    <p className="text-slate-500">
+                      {formatDate(reminder.created_at)}
+                      {reminder.sent_to && ` · ${reminder.sent_to}`}
+                    </p>
+                    {reminder.error && (
+                      <p className="text-xs text-red-600">{reminder.error}</p>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Business Info */}
           {profile && (
             <Card>
@@ -460,6 +769,31 @@ export function InvoiceDetail({ invoice, profile }: InvoiceDetailProps) {
           )}
         </div>
       </div>
+
+      {isScheduleOpen && (
+        <InvoiceScheduleDialog
+          invoiceId={invoice.id}
+          invoiceNumber={invoice.invoice_number}
+          issueDate={invoice.issue_date}
+          userId={userId}
+          schedule={schedule}
+          open={isScheduleOpen}
+          onOpenChange={setIsScheduleOpen}
+          onSaved={() => router.refresh()}
+        />
+      )}
+
+      {isSendOpen && invoice.client && (
+        <SendDialog
+          title="Send Invoice"
+          client={invoice.client}
+          contacts={invoice.client.contacts}
+          defaultRole="billing"
+          open={isSendOpen}
+          onOpenChange={setIsSendOpen}
+          onSend={sendInvoice}
+        />
+      )}
     </div>
   );
 }
@@ -21,8 +21,10 @@ export default async function InvoicePage({ params }: InvoicePageProps) {
     .from('invoices')
     .select(`
       *,
-      client:clients(*),
-      items:invoice_items(*)
+      client:clients(*, contacts:client_contacts(*)),
+      items:invoice_items(*),
+      payments:invoice_payments(*),
+      reminders:invoice_reminders(*)
     `)
     .eq('id', id)
     .single();
@@ -38,5 +40,12 @@ export default async function InvoicePage({ params }: InvoicePageProps) {
     .eq('id', user.id)
     .single();
 
-  return <InvoiceDetail invoice={invoice} profile={profile} />;
+  // Recurring schedule that copies this invoice, if any
+  const { data: schedule } = await supabase
+    .from('invoice_schedules')
+    .select('*')
+    .eq('source_invoice_id', id)
+    .maybeSingle();
+
+  return <InvoiceDetail invoice={invoice} profile={profile} schedule={schedule} userId={user.id} />;
 }
@@ -4,7 +4,13 @@ import { useState } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { createClient } from '@/lib/supabase/client';
-import { InvoiceStatus } from '@/types/database';
+import { InvoiceStatus, InvoiceScheduleWithInvoice } from '@/types/database';
+import {
+  InvoiceDisplayStatus,
+  getDaysOverdue,
+  getInvoiceBalance,
+  getInvoiceDisplayStatus,
+} from '@/lib/invoices';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
@@ -18,6 +24,13 @@ import {
 } from '@/components/ui/table';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { toast } from 'sonner';
 import {
   Plus,
@@ -26,7 +39,10 @@ import {
   LayoutGrid,
   Clock,
   CheckCircle2,
+  Wallet,
+  AlertTriangle,
 } from 'lucide-react';
+import { RecurringSchedules } from './recurring-schedules';
 
 interface Invoice {
   id: string;
@@ -37,6 +53,7 @@ interface Invoice {
   due_date: string | null;
   paid_date: string | null;
   total: number;
+  amount_paid: number;
   client: {
     id: string;
     name: string;
@@ -45,18 +62,25 @@ interface Invoice {
 
 interface InvoicesListProps {
   invoices: Invoice[];
+  schedules: InvoiceScheduleWithInvoice[];
+  userId: string;
 }
 
-const statusConfig: Record<InvoiceStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline'; icon: React.ReactNode; color: string }> = {
-  unpaid: { label: 'Unpaid', variant: 'destructive', icon: <Clock className="h-3 w-3" />, color: 'bg-orange-50 border-orange-200' },
+type StatusFilter = 'all' | InvoiceDisplayStatus;
+
+const statusConfig: Record<InvoiceDisplayStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline'; icon: React.ReactNode; color: string }> = {
+  overdue: { label: 'Overdue', variant: 'destructive', icon: <AlertTriangle className="h-3 w-3" />, color: 'bg-red-50 border-red-200' },
+  unpaid: { label: 'Unpaid', variant: 'outline', icon: <Clock className="h-3 w-3" />, color: 'bg-orange-50 border-orange-200' },
+  partially_paid: { label: 'Partially Paid', variant: 'secondary', icon: <Wallet className="h-3 w-3" />, color: 'bg-amber-50 border-amber-200' },
   paid: { label: 'Paid', variant: 'default', icon: <CheckCircle2 className="h-3 w-3" />, color: 'bg-green-50 border-green-200' },
 };
 
-export function InvoicesList({ invoices: initialInvoices }: InvoicesListProps) {
+export function InvoicesList({ invoices: initialInvoices, schedules, userId }: InvoicesListProps) {
   const router = useRouter();
   const supabase = createClient();
   const [invoices, setInvoices] = useState(initialInvoices);
   const [view, setView] = useState<'list' | 'kanban'>('list');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
   const [updatingId, setUpdatingId] = useState<string | null>(null);
 
   const formatCurrency = (amount: number) => {
@@ -74,31 +98,47 @@ export function InvoicesList({ invoices: initialInvoices }: InvoicesListProps) {
     });
   };
 
+  // Marking paid records the remaining balance as a payment; unmarking
+  // clears the invoice's payment history
   const handleTogglePaid = async (invoice: Invoice) => {
+    const markingPaid = invoice.status !== 'paid';
+    if (!markingPaid && !confirm('Mark this invoice as unpaid? All recorded payments will be deleted.')) {
+      return;
+    }
+
     setUpdatingId(invoice.id);
-    const newStatus: InvoiceStatus = invoice.status === 'paid' ? 'unpaid' : 'paid';
-    const paidDate = newStatus === 'paid' ? new Date().toISOString().split('T')[0] : null;
+    const today = new Date().toISOString().split('T')[0];
 
     try {
-      const { error } = await supabase
-        .from('invoices')
-        .update({
-          status: newStatus,
-          paid_date: paidDate,
-        })
-        .eq('id', invoice.id);
+      const { error } = markingPaid
+        ? await supabase
+            .from('invoice_payments')
+            .insert({
+              user_id: userId,
+              invoice_id: invoice.id,
+              amount: getInvoiceBalance(invoice),
+              method: 'other',
+              paid_on: today,
+              memo: 'Marked as paid',
+            })
+        : await supabase
+            .from('invoice_payments')
+            .delete()
+            .eq('invoice_id', invoice.id);
 
       if (error) throw error;
 
       setInvoices((prev) =>
         prev.map((inv) =>
           inv.id === invoice.id
-            ? { ...inv, status: newStatus, paid_date: paidDate }
+            ? markingPaid
+              ? { ...inv, status: 'paid', paid_date: today, amount_paid: inv.total }
+              : { ...inv, status: 'unpaid', paid_date: null, amount_paid: 0 }
             : inv
         )
       );
 
-      toast.success(newStatus === 'paid' ? 'Invoice marked as paid' : 'Invoice marked as unpaid');
+      toast.success(markingPaid ? 'Invoice marked as paid' : 'Invoice marked as unpaid');
       router.refresh();
     } catch (error) {
       console.error('Error updating invoice:', error);
@@ -108,15 +148,28 @@ export function InvoicesList({ invoices: initialInvoices }: InvoicesListProps) {
     }
   };
 
+  const formatDaysOverdue = (days: number) => `${days} day${days !== 1 ? 's' : ''} overdue`;
+
+  const filteredInvoices = statusFilter === 'all'
+    ? invoices
+    : invoices.filter((i) => getInvoiceDisplayStatus(i) === statusFilter);
+
   // Group invoices by status for Kanban view
   const groupedInvoices = {
-    unpaid: invoices.filter((i) => i.status === 'unpaid'),
-    paid: invoices.filter((i) => i.status === 'paid'),
+    overdue: filteredInvoices.filter((i) => getInvoiceDisplayStatus(i) === 'overdue'),
+    unpaid: filteredInvoices.filter((i) => getInvoiceDisplayStatus(i) === 'unpaid'),
+    partially_paid: filteredInvoices.filter((i) => getInvoiceDisplayStatus(i) === 'partially_paid'),
+    paid: filteredInvoices.filter((i) => i.status === 'paid'),
   };
+  const kanbanColumns = (['overdue', 'unpaid', 'partially_paid', 'paid'] as InvoiceDisplayStatus[])
+    .filter((status) => statusFilter === 'all' || status === statusFilter);
 
   // Calculate totals
-  const totalUnpaid = groupedInvoices.unpaid.reduce((sum, i) => sum + i.total, 0);
-  const totalPaid = groupedInvoices.paid.reduce((sum, i) => sum + i.total, 0);
+  const openInvoices = invoices.filter((i) => i.status !== 'paid');
+  const overdueInvoices = openInvoices.filter((i) => getDaysOverdue(i) > 0);
+  const totalUnpaid = openInvoices.reduce((sum, i) => sum + getInvoiceBalance(i), 0);
+  const totalOverdue = overdueInvoices.reduce((sum, i) => sum + getInvoiceBalance(i), 0);
+  const totalPaid = invoices.reduce((sum, i) => sum + i.amount_paid, 0);
 
   return (
     <div className="space-y-6">
@@ -129,6 +182,20 @@ export function InvoicesList({ invoices: initialInvoices }: InvoicesListProps) {
           </p>
         </div>
         <div className="flex items-center gap-3">
+          {/* Status Filter */}
+          <Select value={statusFilter} onValueChange={(v) => setStatusFilter(v as StatusFilter)}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Invoices</SelectItem>
+              <SelectItem value="overdue">Overdue</SelectItem>
+              <SelectItem value="unpaid">Unpaid</SelectItem>
+              <SelectItem value="partially_paid">Partially Paid</SelectItem>
+              <SelectItem value="paid">Paid</SelectItem>
+            </SelectContent>
+          </Select>
+
           {/* View Toggle */}
           <Tabs value={view} onValueChange={(v) => setView(v as 'list' | 'kanban')}>
             <TabsList>
@@ -153,7 +220,7 @@ export function InvoicesList({ invoices: initialInvoices }: InvoicesListProps) {
       </div>
 
       {/* Summary Cards */}
-      <div className="grid grid-cols-2 gap-4">
+      <div className="grid grid-cols-3 gap-4">
         <Card className="bg-orange-50 border-orange-200">
           <CardContent className="p-4">
             <div className="flex items-center justify-between">
@@ -166,7 +233,24 @@ export function InvoicesList({ invoices: initialInvoices }: InvoicesListProps) {
               </div>
             </div>
             <p className="text-sm text-orange-600 mt-2">
-              {groupedInvoices.unpaid.length} unpaid invoice{groupedInvoices.unpaid.length !== 1 ? 's' : ''}
+              {openInvoices.length} open invoice{openInvoices.length !== 1 ? 's' : ''}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-red-50 border-red-200">
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-red-600 font-medium">Overdue</p>
+                <p className="text-2xl font-bold text-red-700">{formatCurrency(totalOverdue)}</p>
+              </div>
+              <div className="h-10 w-10 rounded-full bg-red-100 flex items-center justify-center">
+                <AlertTriangle className="h-5 w-5 text-red-600" />
+              </div>
+            </div>
+            <p className="text-sm text-red-600 mt-2">
+              {overdueInvoices.length} past due
             </p>
           </CardContent>
         </Card>
@@ -183,7 +267,7 @@ export function InvoicesList({ invoices: initialInvoices }: InvoicesListProps) {
               </div>
             </div>
             <p className="text-sm text-green-600 mt-2">
-              {groupedInvoices.paid.length} paid invoice{groupedInvoices.paid.length !== 1 ? 's' : ''}
+              {groupedInvoices.paid.length} paid in full
             </p>
           </CardContent>
         </Card>
@@ -225,9 +309,16 @@ export function InvoicesList({ invoices: initialInvoices }: InvoicesListProps) {
               </TableRow>
             </TableHeader>
             <TableBody>
-              {invoices.map((invoice) => {
-                const statusInfo = statusConfig[invoice.status];
-                const isOverdue = invoice.status === 'unpaid' && invoice.due_date && new Date(invoice.due_date) < new Date();
+              {filteredInvoices.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={8} className="py-8 text-center text-sm text-slate-400">
+                    No {statusConfig[statusFilter as InvoiceDisplayStatus]?.label.toLowerCase()} invoices
+                  </TableCell>
+                </TableRow>
+              )}
+              {filteredInvoices.map((invoice) => {
+                const statusInfo = statusConfig[getInvoiceDisplayStatus(invoice)];
+                const daysOverdue = getDaysOverdue(invoice);
 
                 return (
                   <TableRow key={invoice.id}>
@@ -253,9 +344,11 @@ export function InvoicesList({ invoices: initialInvoices }: InvoicesListProps) {
                     <TableCell className="text-slate-500">
                       {formatDate(invoice.issue_date)}
                     </TableCell>
-                    <TableCell className={isOverdue ? 'text-red-600 font-medium' : 'text-slate-500'}>
+                    <TableCell className={daysOverdue > 0 ? 'text-red-600 font-medium' : 'text-slate-500'}>
                       {invoice.due_date ? formatDate(invoice.due_date) : '—'}
-                      {isOverdue && ' (Overdue)'}
+                      {daysOverdue > 0 && (
+                        <p className="text-xs">{formatDaysOverdue(daysOverdue)}</p>
+                      )}
                     </TableCell>
                     <TableCell>
                       <Badge variant={statusInfo.variant} className="flex items-center gap-1 w-fit">
@@ -265,6 +358,11 @@ export function InvoicesList({ invoices: initialInvoices }: InvoicesListProps) {
                     </TableCell>
                     <TableCell className="text-right font-medium">
                       {formatCurrency(invoice.total)}
+                      {invoice.status === 'partially_paid' && (
+                        <p className="text-xs font-normal text-slate-500">
+                          {formatCurrency(getInvoiceBalance(invoice))} due
+                        </p>
+                      )}
                     </TableCell>
                     <TableCell className="text-center">
                       <Switch
@@ -281,8 +379,8 @@ export function InvoicesList({ invoices: initialInvoices }: InvoicesListProps) {
         </Card>
       ) : (
         /* Kanban View */
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          {(['unpaid', 'paid'] as InvoiceStatus[]).map((status) => {
+        <div className={`grid grid-cols-1 gap-6 ${kanbanColumns.length > 1 ? 'md:grid-cols-2 xl:grid-cols-4' : ''}`}>
+          {kanbanColumns.map((status) => {
             const statusInfo = statusConfig[status];
             const statusInvoices = groupedInvoices[status];
             const totalValue = statusInvoices.reduce((sum, i) => sum + i.total, 0);
@@ -315,7 +413,7 @@ export function InvoicesList({ invoices: initialInvoices }: InvoicesListProps) {
                     </Card>
                   ) : (
                     statusInvoices.map((invoice) => {
-                      const isOverdue = invoice.status === 'unpaid' && invoice.due_date && new Date(invoice.due_date) < new Date();
+                      const daysOverdue = getDaysOverdue(invoice);
 
                       return (
                         <Card
@@ -345,9 +443,10 @@ export function InvoicesList({ invoices: initialInvoices }: InvoicesListProps) {
                               </p>
                             )}
                             <div className="flex items-center justify-between mt-3">
-                              <p className={`text-xs ${isOverdue ? 'text-red-600 font-medium' : 'text-slate-400'}`}>
-                                {invoice.due_date ? `Due: ${formatDate(invoice.due_date)}` : formatDate(invoice.issue_date)}
-                                {isOverdue && ' (Overdue)'}
+                              <p className={`text-xs ${daysOverdue > 0 ? 'text-red-600 font-medium' : 'text-slate-400'}`}>
+                                {daysOverdue > 0
+                                  ? formatDaysOverdue(daysOverdue)
+                                  : invoice.due_date ? `Due: ${formatDate(invoice.due_date)}` : formatDate(invoice.issue_date)}
                               </p>
                               <Switch
                                 checked={invoice.status === 'paid'}
@@ -366,6 +465,8 @@ export function InvoicesList({ invoices: initialInvoices }: InvoicesListProps) {
           })}
         </div>
       )}
+
+      <RecurringSchedules schedules={schedules} userId={userId} />
     </div>
   );
 }
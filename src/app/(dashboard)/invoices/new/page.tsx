@@ -1,11 +1,16 @@
 import { createClient } from '@/lib/supabase/server';
 import { redirect } from 'next/navigation';
 import { InvoiceForm } from '@/components/invoices/invoice-form';
-import { Client } from '@/types/database';
+import { CatalogItem, Client, TaxRate } from '@/types/database';
 import Link from 'next/link';
 import { ChevronLeft } from 'lucide-react';
 
-export default async function NewInvoicePage() {
+interface NewInvoicePageProps {
+  searchParams: Promise<{ client?: string }>;
+}
+
+export default async function NewInvoicePage({ searchParams }: NewInvoicePageProps) {
+  const { client: clientId } = await searchParams;
   const supabase = await createClient();
 
   const { data: { user } } = await supabase.auth.getUser();
@@ -20,6 +25,18 @@ export default async function NewInvoicePage() {
     .select('*')
     .order('name');
 
+  const defaultClient = (clients as Client[] | null)?.find((c) => c.id === clientId);
+
+  const { data: taxRates } = await supabase
+    .from('tax_rates')
+    .select('*')
+    .order('created_at');
+
+  const { data: catalog } = await supabase
+    .from('catalog_items')
+    .select('*')
+    .order('name');
+
   return (
     <div className="space-y-6">
       <div className="flex items-center gap-4">
@@ -39,7 +56,13 @@ export default async function NewInvoicePage() {
         </p>
       </div>
 
-      <InvoiceForm clients={(clients as Client[]) || []} userId={user.id} mode="create" />
+      <InvoiceForm
+        defaultClientId={defaultClient?.id}
+        clients={(clients as Client[]) || []}
+        taxRates={(taxRates as TaxRate[]) || []}
+        catalog={(catalog as CatalogItem[]) || []}
+        mode="create"
+      />
     </div>
   );
 }
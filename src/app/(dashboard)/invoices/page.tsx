@@ -17,5 +17,11 @@ export default async function InvoicesPage() {
     .is('archived_at', null)
     .order('created_at', { ascending: false });
 
-  return <InvoicesList invoices={invoices || []} />;
+  // source_invoice_id needs naming: invoices also link back to schedules
+  const { data: schedules } = await supabase
+    .from('invoice_schedules')
+    .select('*, source_invoice:invoices!source_invoice_id(id, invoice_number, title, total, client:clients(id, name))')
+    .order('next_run_date', { ascending: true, nullsFirst: false });
+
+  return <InvoicesList invoices={invoices || []} schedules={schedules || []} userId={user.id} />;
 }
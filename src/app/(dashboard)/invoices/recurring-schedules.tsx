@@ -0,0 +1,253 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { createClient } from '@/lib/supabase/client';
+import { InvoiceSchedule, InvoiceScheduleWithInvoice } from '@/types/database';
+import { getRecurrenceLabel, getScheduleRunDate } from '@/lib/recurring-invoices';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { InvoiceScheduleDialog } from '@/components/invoices/invoice-schedule-dialog';
+import { toast } from 'sonner';
+import { AlertTriangle, Pencil, Repeat, Trash2 } from 'lucide-react';
+
+interface RecurringSchedulesProps {
+  schedules: InvoiceScheduleWithInvoice[];
+  userId: string;
+}
+
+export function RecurringSchedules({ schedules: initialSchedules, userId }: RecurringSchedulesProps) {
+  const router = useRouter();
+  const supabase = createClient();
+  const [schedules, setSchedules] = useState(initialSchedules);
+  const [savedSchedules, setSavedSchedules] = useState(initialSchedules);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<InvoiceScheduleWithInvoice | null>(null);
+
+  // Pick up edits saved from the dialog once the page refreshes
+  if (initialSchedules !== savedSchedules) {
+    setSavedSchedules(initialSchedules);
+    setSchedules(initialSchedules);
+  }
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(amount);
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  };
+
+  const handleToggle = async (
+    schedule: InvoiceScheduleWithInvoice,
+    field: 'is_active' | 'auto_send',
+    value: boolean
+  ) => {
+    setUpdatingId(schedule.id);
+
+    try {
+      const updates: Partial<Pick<InvoiceSchedule, 'is_active' | 'auto_send' | 'run_count'>> = { [field]: value };
+      let nextRunDate = schedule.next_run_date;
+
+      // Resuming skips the runs missed while paused rather than creating
+      // them all at once
+      if (field === 'is_active' && value) {
+        const today = new Date().toISOString().split('T')[0];
+        let runCount = schedule.run_count;
+        while (getScheduleRunDate(schedule.start_date, schedule.recurrence, runCount) < today) {
+          runCount++;
+        }
+        const runDate = getScheduleRunDate(schedule.start_date, schedule.recurrence, runCount);
+        updates.run_count = runCount;
+        nextRunDate = !schedule.end_date || runDate <= schedule.end_date ? runDate : null;
+      }
+
+      const { error } = await supabase
+        .from('invoice_schedules')
+        .update(updates)
+        .eq('id', schedule.id);
+
+      if (error) throw error;
+
+      setSchedules((prev) =>
+        prev.map((s) => (s.id === schedule.id ? { ...s, ...updates, next_run_date: nextRunDate } : s))
+      );
+
+      if (field === 'is_active') {
+        toast.success(value ? 'Schedule resumed' : 'Schedule paused');
+      } else {
+        toast.success(value ? 'New invoices will be sent automatically' : 'New invoices will be saved for review');
+      }
+    } catch (error) {
+      console.error('Error updating invoice schedule:', error);
+      toast.error('Failed to update schedule');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  // Invoices already created by the schedule are kept
+  const handleDelete = async (schedule: InvoiceScheduleWithInvoice) => {
+    if (!confirm(`Stop repeating invoice #${schedule.source_invoice.invoice_number}? Invoices already created are kept.`)) {
+      return;
+    }
+
+    setUpdatingId(schedule.id);
+
+    try {
+      const { error } = await supabase
+        .from('invoice_schedules')
+        .delete()
+        .eq('id', schedule.id);
+
+      if (error) throw error;
+
+      setSchedules((prev) => prev.filter((s) => s.id !== schedule.id));
+      toast.success('Recurring schedule deleted');
+      router.refresh();
+    } catch (error) {
+      console.error('Error deleting invoice schedule:', error);
+      toast.error('Failed to delete schedule');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  if (schedules.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Repeat className="h-5 w-5 text-slate-500" />
+          Recurring Schedules
+        </CardTitle>
+        <CardDescription>
+          Invoices copied on a regular interval. Set one up from an invoice&apos;s menu.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-0">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Invoice</TableHead>
+              <TableHead>Client</TableHead>
+              <TableHead>Repeats</TableHead>
+              <TableHead>Next Invoice</TableHead>
+              <TableHead>Ends</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead className="text-center">Auto-send</TableHead>
+              <TableHead className="text-center">Active</TableHead>
+              <TableHead className="w-[90px]"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {schedules.map((schedule) => (
+              <TableRow key={schedule.id}>
+                <TableCell>
+                  <Link
+                    href={`/invoices/${schedule.source_invoice.id}`}
+                    className="font-medium text-blue-600 hover:underline"
+                  >
+                    {schedule.source_invoice.invoice_number}
+                  </Link>
+                  <p className="text-xs text-slate-500">{schedule.source_invoice.title}</p>
+                </TableCell>
+                <TableCell className="text-slate-500">
+                  {schedule.source_invoice.client?.name || '—'}
+                </TableCell>
+                <TableCell className="text-slate-500">
+                  {getRecurrenceLabel(schedule.recurrence)}
+                </TableCell>
+                <TableCell className="text-slate-500">
+                  {!schedule.next_run_date
+                    ? 'Ended'
+                    : schedule.is_active
+                      ? formatDate(schedule.next_run_date)
+                      : 'Paused'}
+                  {schedule.last_error && (
+                    <p className="flex items-center gap-1 text-xs text-red-600">
+                      <AlertTriangle className="h-3 w-3 shrink-0" />
+                      {schedule.last_error}
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell className="text-slate-500">
+                  {schedule.end_date ? formatDate(schedule.end_date) : 'Never'}
+                </TableCell>
+                <TableCell className="text-right font-medium">
+                  {formatCurrency(schedule.source_invoice.total)}
+                </TableCell>
+                <TableCell className="text-center">
+                  <Switch
+                    checked={schedule.auto_send}
+                    onCheckedChange={(checked) => handleToggle(schedule, 'auto_send', checked)}
+                    disabled={updatingId === schedule.id}
+                  />
+                </TableCell>
+                <TableCell className="text-center">
+                  <Switch
+                    checked={schedule.is_active}
+                    onCheckedChange={(checked) => handleToggle(schedule, 'is_active', checked)}
+                    disabled={updatingId === schedule.id || !schedule.next_run_date}
+                  />
+                </TableCell>
+                <TableCell>
+                  <div className="flex justify-end gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setEditing(schedule)}
+                      disabled={updatingId === schedule.id}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDelete(schedule)}
+                      disabled={updatingId === schedule.id}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      {editing && (
+        <InvoiceScheduleDialog
+          invoiceId={editing.source_invoice.id}
+          invoiceNumber={editing.source_invoice.invoice_number}
+          issueDate={editing.start_date}
+          userId={userId}
+          schedule={editing}
+          open
+          onOpenChange={(open) => !open && setEditing(null)}
+          onSaved={() => router.refresh()}
+        />
+      )}
+    </Card>
+  );
+}
@@ -1,6 +1,8 @@
 import { createClient } from '@/lib/supabase/server';
 import { redirect } from 'next/navigation';
 import { SettingsForm } from './settings-form';
+import { TaxRates } from '@/components/settings/tax-rates';
+import { TaxRate } from '@/types/database';
 
 export default async function SettingsPage() {
   const supabase = await createClient();
@@ -11,11 +13,10 @@ export default async function SettingsPage() {
     redirect('/login');
   }
 
-  const { data: profile } = await supabase
-    .from('profiles')
-    .select('*')
-    .eq('id', user.id)
-    .single();
+  const [{ data: profile }, { data: taxRates }] = await Promise.all([
+    supabase.from('profiles').select('*').eq('id', user.id).single(),
+    supabase.from('tax_rates').select('*').order('created_at'),
+  ]);
 
   return (
     <div className="max-w-4xl">
@@ -26,7 +27,10 @@ export default async function SettingsPage() {
         </p>
       </div>
 
-      <SettingsForm profile={profile} userId={user.id} />
+      <div className="space-y-6">
+        <SettingsForm profile={profile} userId={user.id} />
+        <TaxRates taxRates={(taxRates as TaxRate[]) || []} userId={user.id} />
+      </div>
     </div>
   );
 }
@@ -9,9 +9,21 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
 import { LogoUpload } from '@/components/settings/logo-upload';
+import {
+  DEFAULT_REMINDER_OFFSETS,
+  describeReminderOffset,
+  formatReminderOffsets,
+  parseReminderOffsets,
+} from '@/lib/reminders';
+import {
+  DEFAULT_NUMBER_PADDING,
+  DEFAULT_NUMBER_PREFIXES,
+  formatDocumentNumber,
+} from '@/lib/document-numbers';
 import { toast } from 'sonner';
-import { Loader2, Save, Building2, Mail, Phone, MapPin, FileText, AlignLeft } from 'lucide-react';
+import { Loader2, Save, Building2, Mail, Phone, MapPin, FileText, AlignLeft, BellRing, Hash } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 
 interface SettingsFormProps {
@@ -33,7 +45,16 @@ export function SettingsForm({ profile, userId }: SettingsFormProps) {
     logo_url: profile?.logo_url || '',
     default_payment_terms: profile?.default_payment_terms || '',
     business_intro: profile?.business_intro || '',
+    reminder_offsets: formatReminderOffsets(profile?.reminder_offsets ?? DEFAULT_REMINDER_OFFSETS),
+    estimate_number_prefix: profile?.estimate_number_prefix ?? DEFAULT_NUMBER_PREFIXES.estimate,
+    invoice_number_prefix: profile?.invoice_number_prefix ?? DEFAULT_NUMBER_PREFIXES.invoice,
+    document_number_padding: String(profile?.document_number_padding ?? DEFAULT_NUMBER_PADDING),
   });
+  const [remindersEnabled, setRemindersEnabled] = useState(profile?.reminders_enabled ?? true);
+  const [yearlyReset, setYearlyReset] = useState(profile?.document_number_yearly_reset ?? true);
+  const numberPadding = Number(formData.document_number_padding);
+  const isValidPadding = Number.isInteger(numberPadding) && numberPadding >= 1 && numberPadding <= 10;
+  const reminderOffsets = parseReminderOffsets(formData.reminder_offsets);
 
   const handleChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
@@ -52,6 +73,17 @@ export function SettingsForm({ profile, userId }: SettingsFormProps) {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (!reminderOffsets) {
+      toast.error('Reminder schedule must be a comma-separated list of days, e.g. -3, 0, 7');
+      return;
+    }
+
+    if (!isValidPadding) {
+      toast.error('Number padding must be between 1 and 10 digits');
+      return;
+    }
+
     setIsSaving(true);
 
     try {
@@ -66,6 +98,12 @@ export function SettingsForm({ profile, userId }: SettingsFormProps) {
           logo_url: formData.logo_url || null,
           default_payment_terms: formData.default_payment_terms || null,
           business_intro: formData.business_intro || null,
+          reminders_enabled: remindersEnabled,
+          reminder_offsets: reminderOffsets,
+          estimate_number_prefix: formData.estimate_number_prefix.trim(),
+          invoice_number_prefix: formData.invoice_number_prefix.trim(),
+          document_number_padding: numberPadding,
+          document_number_yearly_reset: yearlyReset,
         })
         .eq('id', userId);
 
@@ -257,6 +295,129 @@ export function SettingsForm({ profile, userId }: SettingsFormProps) {
         </CardContent>
       </Card>
 
+      {/* Document Numbering Card */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Hash className="h-5 w-5 text-blue-600" />
+            Document Numbering
+          </CardTitle>
+          <CardDescription>
+            New estimates and invoices left without a number are numbered in sequence.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div>
+              <Label htmlFor="estimate_number_prefix">Estimate Prefix</Label>
+              <Input
+                id="estimate_number_prefix"
+                name="estimate_number_prefix"
+                value={formData.estimate_number_prefix}
+                onChange={handleChange}
+                placeholder={DEFAULT_NUMBER_PREFIXES.estimate}
+                maxLength={20}
+                className="mt-1.5"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="invoice_number_prefix">Invoice Prefix</Label>
+              <Input
+                id="invoice_number_prefix"
+                name="invoice_number_prefix"
+                value={formData.invoice_number_prefix}
+                onChange={handleChange}
+                placeholder={DEFAULT_NUMBER_PREFIXES.invoice}
+                maxLength={20}
+                className="mt-1.5"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="document_number_padding">Digits</Label>
+              <Input
+                id="document_number_padding"
+                name="document_number_padding"
+                type="number"
+                min="1"
+                max="10"
+                value={formData.document_number_padding}
+                onChange={handleChange}
+                className="mt-1.5"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="document_number_yearly_reset">Restart numbering each year</Label>
+            <Switch
+              id="document_number_yearly_reset"
+              checked={yearlyReset}
+              onCheckedChange={setYearlyReset}
+            />
+          </div>
+
+          {isValidPadding && (
+            <p className="text-xs text-slate-500">
+              Numbers will look like{' '}
+              {formatDocumentNumber(
+                { prefix: formData.estimate_number_prefix, padding: numberPadding, yearlyReset },
+                42
+              )}
+              {' '}and{' '}
+              {formatDocumentNumber(
+                { prefix: formData.invoice_number_prefix, padding: numberPadding, yearlyReset },
+                42
+              )}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Payment Reminders Card */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <BellRing className="h-5 w-5 text-blue-600" />
+            Payment Reminders
+          </CardTitle>
+          <CardDescription>
+            Automatically email clients about unpaid invoices that have been sent to them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="reminders_enabled">Send automatic reminders</Label>
+            <Switch
+              id="reminders_enabled"
+              checked={remindersEnabled}
+              onCheckedChange={setRemindersEnabled}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="reminder_offsets">Reminder Schedule (days from due date)</Label>
+            <Input
+              id="reminder_offsets"
+              name="reminder_offsets"
+              value={formData.reminder_offsets}
+              onChange={handleChange}
+              placeholder={formatReminderOffsets(DEFAULT_REMINDER_OFFSETS)}
+              disabled={!remindersEnabled}
+              className="mt-1.5"
+            />
+            <p className={`text-xs mt-1 ${reminderOffsets ? 'text-slate-500' : 'text-red-600'}`}>
+              {reminderOffsets
+                ? reminderOffsets.length > 0
+                  ? reminderOffsets.map(describeReminderOffset).join(' · ')
+                  : 'No reminders scheduled'
+                : 'Use whole numbers separated by commas. Negative numbers are days before the due date.'}
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Save Button */}
       <div className="flex justify-end">
         <Button type="submit" disabled={isSaving} size="lg">
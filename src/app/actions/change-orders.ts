@@ -0,0 +1,79 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { changeOrderSchema, getValidationError, ChangeOrderSaveInput } from '@/lib/schemas';
+
+export async function saveChangeOrderAction(input: ChangeOrderSaveInput) {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  const parsed = changeOrderSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: getValidationError(parsed.error) };
+  }
+
+  const { items, ...changeOrder } = parsed.data;
+
+  const { data: changeOrderId, error } = await supabase.rpc('save_change_order', {
+    p_change_order: changeOrder,
+    p_items: items,
+  });
+
+  if (error) {
+    console.error('Error saving change order:', error);
+    if (error.code === '55000') {
+      return { success: false, error: 'Only pending change orders can be edited' };
+    }
+    if (error.code === 'P0002') {
+      return { success: false, error: 'Change order not found' };
+    }
+    if (error.code === '22023') {
+      return { success: false, error: 'A line item on this change order belongs to another one. Reload and try again.' };
+    }
+    return { success: false, error: 'Failed to save change order' };
+  }
+
+  return { success: true, id: changeOrderId as string };
+}
+
+interface RollChangeOrdersActionParams {
+  estimateId: string;
+}
+
+// Adds approved change orders to the most recent invoice created from the estimate
+export async function rollChangeOrdersIntoInvoiceAction({ estimateId }: RollChangeOrdersActionParams) {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  const { data: invoice } = await supabase
+    .from('invoices')
+    .select('id')
+    .eq('source_estimate_id', estimateId)
+    .eq('invoice_type', 'standard')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (!invoice) {
+    return { success: false, error: 'Convert the estimate to an invoice first' };
+  }
+
+  const { data: count, error } = await supabase.rpc('roll_change_orders_into_invoice', {
+    p_invoice_id: invoice.id,
+  });
+
+  if (error) {
+    console.error('Error adding change orders to invoice:', error);
+    return { success: false, error: 'Failed to add change orders to invoice' };
+  }
+
+  return { success: true, invoiceId: invoice.id as string, count: count as number };
+}
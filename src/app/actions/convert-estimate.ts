@@ -0,0 +1,225 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { EstimateItem } from '@/types/database';
+import {
+  buildProgressLine,
+  getBilledPercents,
+  getProgressAmount,
+  getProgressDiscount,
+  getRemainingPercent,
+} from '@/lib/progress-billing';
+import { stripTaxAmounts } from '@/lib/taxes';
+import { getIncludedLines } from '@/lib/options';
+import { progressInvoiceSchema, getValidationError, ProgressInvoiceInput } from '@/lib/schemas';
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+interface CreateInvoiceResult {
+  success: boolean;
+  id?: string;
+  error?: string;
+}
+
+// Creates an invoice for the given share of each estimate line, with the
+// estimate's approved change orders rolled in, and with the deposit received
+// credited when creditDeposit is set. Lines the callback returns 0 for are
+// left off. Over-billing is rejected by the database, so two invoices created
+// at once can't both take the same line.
+async function createInvoiceFromEstimate(
+  supabase: SupabaseClient,
+  estimateId: string,
+  getPercent: (item: EstimateItem, remaining: number) => number,
+  titleSuffix: string | null,
+  creditDeposit = false
+): Promise<CreateInvoiceResult> {
+  const { data: estimate, error: estimateError } = await supabase
+    .from('estimates')
+    .select(`
+      *,
+      items:estimate_items(*)
+    `)
+    .eq('id', estimateId)
+    .single();
+
+  if (estimateError || !estimate) {
+    return { success: false, error: 'Estimate not found' };
+  }
+
+  if (estimate.status !== 'approved') {
+    return { success: false, error: 'Only approved estimates can be invoiced' };
+  }
+
+  // Optional and alternate lines the client didn't choose aren't billed
+  const estimateItems = getIncludedLines((estimate.items || []) as EstimateItem[])
+    .sort((a, b) => a.sort_order - b.sort_order);
+
+  const { data: billedLines } = await supabase
+    .from('invoice_items')
+    .select('source_estimate_item_id, billed_percent')
+    .in('source_estimate_item_id', estimateItems.map((item) => item.id));
+
+  const billed = getBilledPercents(billedLines || []);
+
+  const items = [];
+  let billedAmount = 0;
+  let finishesBilling = true;
+  for (const item of estimateItems) {
+    const remaining = getRemainingPercent(billed, item.id);
+    const percent = getPercent(item, remaining);
+    if (percent < remaining) finishesBilling = false;
+    if (percent <= 0) continue;
+    if (percent > remaining) {
+      return {
+        success: false,
+        error: `"${item.description}" only has ${remaining}% left to bill`,
+      };
+    }
+    items.push({ id: crypto.randomUUID(), ...buildProgressLine(item, percent) });
+    billedAmount += getProgressAmount(item, percent);
+  }
+
+  if (items.length === 0) {
+    return { success: false, error: 'This estimate has already been fully billed' };
+  }
+
+  const { data: previousInvoices } = await supabase
+    .from('invoices')
+    .select('retainage_percent, discount_amount')
+    .eq('source_estimate_id', estimate.id)
+    .eq('invoice_type', 'standard')
+    .order('created_at', { ascending: false });
+
+  // Retainage terms carry over from the job's previous invoice
+  const previousInvoice = previousInvoices?.[0];
+  const discount = getProgressDiscount(
+    estimate,
+    billedAmount,
+    (previousInvoices || []).reduce((sum, invoice) => sum + Number(invoice.discount_amount), 0),
+    finishesBilling
+  );
+
+  const issueDate = new Date();
+  const dueDate = new Date(issueDate);
+  dueDate.setDate(dueDate.getDate() + 30);
+
+  // A blank invoice number is assigned from the account's sequence
+  const rpcName = creditDeposit ? 'create_final_estimate_invoice' : 'create_estimate_invoice';
+  const { data: invoiceId, error } = await supabase.rpc(rpcName, {
+    p_invoice: {
+      client_id: estimate.client_id,
+      source_estimate_id: estimate.id,
+      invoice_number: null,
+      title: titleSuffix ? `${estimate.title} — ${titleSuffix}` : estimate.title,
+      description: estimate.description,
+      issue_date: issueDate.toISOString().split('T')[0],
+      due_date: dueDate.toISOString().split('T')[0],
+      taxes: stripTaxAmounts(estimate.taxes),
+      ...discount,
+      retainage_percent: previousInvoice?.retainage_percent ?? 0,
+      notes: estimate.notes,
+    },
+    p_items: items,
+  });
+
+  if (error) {
+    console.error('Error creating invoice from estimate:', error);
+    if (error.code === '23514') {
+      return { success: false, error: 'Part of this estimate was billed in the meantime. Refresh and try again.' };
+    }
+    if (error.code === '55000') {
+      return { success: false, error: 'Only approved estimates can be invoiced' };
+    }
+    return { success: false, error: 'Failed to create invoice' };
+  }
+
+  return { success: true, id: invoiceId as string };
+}
+
+interface ConvertEstimateActionParams {
+  estimateId: string;
+}
+
+// Bills whatever is left of every line: the whole estimate if nothing has
+// been invoiced yet, otherwise the final balance after progress invoices.
+// Any deposit received is credited here, on the invoice that closes out the
+// estimate, rather than on progress invoices.
+export async function convertEstimateToInvoiceAction({ estimateId }: ConvertEstimateActionParams) {
+  const supabase = await createClient();
+
+  // Get current user
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  const { count } = await supabase
+    .from('invoices')
+    .select('id', { count: 'exact', head: true })
+    .eq('source_estimate_id', estimateId)
+    .eq('invoice_type', 'standard');
+
+  return createInvoiceFromEstimate(
+    supabase,
+    estimateId,
+    (_item, remaining) => remaining,
+    count ? 'Final billing' : null,
+    true
+  );
+}
+
+export async function createProgressInvoiceAction(input: ProgressInvoiceInput) {
+  const supabase = await createClient();
+
+  // Get current user
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  const parsed = progressInvoiceSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: getValidationError(parsed.error) };
+  }
+
+  const percents = new Map(parsed.data.lines.map((line) => [line.estimate_item_id, line.percent]));
+
+  return createInvoiceFromEstimate(
+    supabase,
+    parsed.data.estimate_id,
+    (item) => percents.get(item.id) || 0,
+    parsed.data.milestone || 'Progress billing'
+  );
+}
+
+interface ReleaseRetainageActionParams {
+  estimateId: string;
+}
+
+// Bills all retainage still held on the estimate's invoices at job close
+export async function releaseRetainageAction({ estimateId }: ReleaseRetainageActionParams) {
+  const supabase = await createClient();
+
+  // Get current user
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  const { data: invoiceId, error } = await supabase.rpc('create_retainage_release_invoice', {
+    p_estimate_id: estimateId,
+  });
+
+  if (error) {
+    console.error('Error creating retainage release invoice:', error);
+    if (error.code === 'P0002') {
+      return { success: false, error: 'Estimate not found' };
+    }
+    if (error.code === '55000') {
+      return { success: false, error: 'No retainage is held on this estimate' };
+    }
+    return { success: false, error: 'Failed to create retainage release invoice' };
+  }
+
+  return { success: true, id: invoiceId as string };
+}
@@ -0,0 +1,76 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { EstimateRevision } from '@/types/database';
+
+interface RestoreEstimateRevisionActionParams {
+  estimateId: string;
+  revisionId: string;
+}
+
+export async function restoreEstimateRevisionAction({ estimateId, revisionId }: RestoreEstimateRevisionActionParams) {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  const { data: estimate } = await supabase
+    .from('estimates')
+    .select('id, status, deposit_type, deposit_value, job_site_address, job_site_address_id')
+    .eq('id', estimateId)
+    .single();
+
+  const { data: revision } = await supabase
+    .from('estimate_revisions')
+    .select('*')
+    .eq('id', revisionId)
+    .eq('estimate_id', estimateId)
+    .single();
+
+  if (!estimate || !revision) {
+    return { success: false, error: 'Revision not found' };
+  }
+
+  const { items, ...header } = (revision as EstimateRevision).snapshot;
+
+  // Saving the old snapshot goes through save_estimate, which records the
+  // version being replaced as a new revision, so a restore can be undone
+  const { error } = await supabase.rpc('save_estimate', {
+    p_estimate: {
+      id: estimate.id,
+      status: estimate.status,
+      client_id: header.client_id,
+      estimate_number: header.estimate_number,
+      title: header.title,
+      description: header.description,
+      issue_date: header.issue_date,
+      valid_until: header.valid_until,
+      taxes: header.taxes,
+      discount_type: header.discount_type,
+      discount_value: header.discount_value,
+      notes: header.notes,
+      job_site_address: header.job_site_address,
+      // The saved address link isn't part of a revision either; it's kept
+      // while the job site text is the same
+      job_site_address_id: header.job_site_address === estimate.job_site_address
+        ? estimate.job_site_address_id
+        : null,
+      // Deposit terms aren't part of a revision, so keep the current ones
+      deposit_type: estimate.deposit_type,
+      deposit_value: estimate.deposit_value,
+    },
+    p_items: items,
+  });
+
+  if (error) {
+    console.error('Failed to restore estimate revision:', error);
+    if (error.code === '23503') {
+      return { success: false, error: 'The client on this revision no longer exists' };
+    }
+    return { success: false, error: 'Failed to restore revision' };
+  }
+
+  return { success: true };
+}
@@ -0,0 +1,68 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { toTemplateItems } from '@/lib/templates';
+import { stripTaxAmounts } from '@/lib/taxes';
+import { EstimateWithItems } from '@/types/database';
+
+interface SaveEstimateAsTemplateActionParams {
+  estimateId: string;
+  name: string;
+}
+
+// Copies the estimate's scope and pricing into a new template. The client,
+// dates, job site and deposit belong to the job, so they're left out.
+export async function saveEstimateAsTemplateAction({ estimateId, name }: SaveEstimateAsTemplateActionParams) {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  const templateName = name.trim();
+  if (!templateName) {
+    return { success: false, error: 'Template name is required' };
+  }
+  if (templateName.length > 255) {
+    return { success: false, error: 'Template name must be 255 characters or fewer' };
+  }
+
+  const { data: estimate } = await supabase
+    .from('estimates')
+    .select('*, items:estimate_items(*)')
+    .eq('id', estimateId)
+    .single();
+
+  if (!estimate) {
+    return { success: false, error: 'Estimate not found' };
+  }
+
+  const source = estimate as EstimateWithItems;
+
+  const { data: template, error } = await supabase
+    .from('estimate_templates')
+    .insert({
+      user_id: user.id,
+      name: templateName,
+      title: source.title,
+      description: source.description,
+      notes: source.notes,
+      taxes: stripTaxAmounts(source.taxes),
+      discount_type: source.discount_type,
+      discount_value: source.discount_value,
+      items: toTemplateItems(source.items),
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Error saving estimate template:', error);
+    if (error.code === '23505') {
+      return { success: false, error: `You already have a template named ${templateName}` };
+    }
+    return { success: false, error: 'Failed to save template' };
+  }
+
+  return { success: true, id: template.id as string };
+}
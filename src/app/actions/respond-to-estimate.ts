@@ -0,0 +1,77 @@
+'use server';
+
+import { headers } from 'next/headers';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { getSharedEstimate } from '@/lib/portal';
+import { EstimateResponse } from '@/types/database';
+
+interface RespondToEstimateActionParams {
+  token: string;
+  decision: EstimateResponse;
+  signerName: string;
+  signature: string;
+}
+
+// ~500KB is far more than a drawn PNG signature needs
+const MAX_SIGNATURE_LENGTH = 500_000;
+
+export async function respondToEstimateAction({
+  token,
+  decision,
+  signerName,
+  signature,
+}: RespondToEstimateActionParams) {
+  if (decision !== 'approved' && decision !== 'declined') {
+    return { success: false, error: 'Invalid response' };
+  }
+
+  const name = signerName.trim();
+  if (!name) {
+    return { success: false, error: 'Please type your full name' };
+  }
+
+  if (!signature.startsWith('data:image/png;base64,') || signature.length > MAX_SIGNATURE_LENGTH) {
+    return { success: false, error: 'Please draw your signature' };
+  }
+
+  const result = await getSharedEstimate(token);
+  if (result.state !== 'ok') {
+    return { success: false, error: 'This estimate link is no longer available' };
+  }
+
+  const { estimate, linkId } = result;
+  if (estimate.status !== 'sent') {
+    return { success: false, error: 'This estimate is no longer awaiting a response' };
+  }
+
+  const headerList = await headers();
+  const ipAddress =
+    headerList.get('x-forwarded-for')?.split(',')[0].trim() ||
+    headerList.get('x-real-ip') ||
+    null;
+  const userAgent = headerList.get('user-agent');
+
+  const supabase = createAdminClient();
+
+  // Only responds if nobody else did in the meantime
+  const { data: recorded, error } = await supabase.rpc('record_estimate_response', {
+    p_estimate_id: estimate.id,
+    p_share_link_id: linkId,
+    p_decision: decision,
+    p_signer_name: name,
+    p_signature_image: signature,
+    p_ip_address: ipAddress,
+    p_user_agent: userAgent,
+  });
+
+  if (error) {
+    console.error('Failed to record estimate response:', error);
+    return { success: false, error: 'Failed to record your response. Please try again.' };
+  }
+
+  if (!recorded) {
+    return { success: false, error: 'This estimate is no longer awaiting a response' };
+  }
+
+  return { success: true };
+}
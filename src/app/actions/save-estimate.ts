@@ -0,0 +1,43 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { estimateSchema, getValidationError, EstimateSaveInput } from '@/lib/schemas';
+
+export async function saveEstimateAction(input: EstimateSaveInput) {
+  const supabase = await createClient();
+
+  // Get current user
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  const parsed = estimateSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: getValidationError(parsed.error) };
+  }
+
+  const { items, ...estimate } = parsed.data;
+
+  // Header and items are written in one transaction by the save_estimate function
+  const { data: estimateId, error } = await supabase.rpc('save_estimate', {
+    p_estimate: estimate,
+    p_items: items,
+  });
+
+  if (error) {
+    console.error('Error saving estimate:', error);
+    if (error.code === '23505') {
+      return { success: false, error: `Estimate number ${estimate.estimate_number} is already in use` };
+    }
+    if (error.code === 'P0002') {
+      return { success: false, error: 'Estimate not found' };
+    }
+    if (error.code === '22023') {
+      return { success: false, error: 'A line item on this estimate belongs to another estimate. Reload and try again.' };
+    }
+    return { success: false, error: 'Failed to save estimate' };
+  }
+
+  return { success: true, id: estimateId as string };
+}
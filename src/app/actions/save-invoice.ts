@@ -0,0 +1,43 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { invoiceSchema, getValidationError, InvoiceSaveInput } from '@/lib/schemas';
+
+export async function saveInvoiceAction(input: InvoiceSaveInput) {
+  const supabase = await createClient();
+
+  // Get current user
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  const parsed = invoiceSchema.safeParse(input);
+  if (!parsed.success) {
+    return { success: false, error: getValidationError(parsed.error) };
+  }
+
+  const { items, ...invoice } = parsed.data;
+
+  // Header and items are written in one transaction by the save_invoice function
+  const { data: invoiceId, error } = await supabase.rpc('save_invoice', {
+    p_invoice: invoice,
+    p_items: items,
+  });
+
+  if (error) {
+    console.error('Error saving invoice:', error);
+    if (error.code === '23505') {
+      return { success: false, error: `Invoice number ${invoice.invoice_number} is already in use` };
+    }
+    if (error.code === 'P0002') {
+      return { success: false, error: 'Invoice not found' };
+    }
+    if (error.code === '22023') {
+      return { success: false, error: 'A line item on this invoice belongs to another invoice. Reload and try again.' };
+    }
+    return { success: false, error: 'Failed to save invoice' };
+  }
+
+  return { success: true, id: invoiceId as string };
+}
@@ -0,0 +1,52 @@
+'use server';
+
+import { createAdminClient } from '@/lib/supabase/admin';
+import { getSharedEstimate } from '@/lib/portal';
+import { getAlternateGroupError } from '@/lib/options';
+
+interface SelectEstimateOptionsActionParams {
+  token: string;
+  itemIds: string[];
+}
+
+// Saves the optional and alternate lines the client picked on the shared
+// estimate. The totals are recalculated by the database, so the approval
+// that follows signs off on the chosen scope.
+export async function selectEstimateOptionsAction({ token, itemIds }: SelectEstimateOptionsActionParams) {
+  const result = await getSharedEstimate(token);
+  if (result.state !== 'ok') {
+    return { success: false, error: 'This estimate link is no longer available' };
+  }
+
+  const { estimate } = result;
+  if (estimate.status !== 'sent') {
+    return { success: false, error: 'This estimate is no longer awaiting a response' };
+  }
+
+  const chosen = new Set(itemIds);
+  const groupError = getAlternateGroupError(
+    estimate.items.map((item) => ({
+      ...item,
+      is_selected: item.is_optional || item.alternate_group != null ? chosen.has(item.id) : true,
+    }))
+  );
+  if (groupError) {
+    return { success: false, error: groupError };
+  }
+
+  const supabase = createAdminClient();
+  const { error } = await supabase.rpc('select_estimate_options', {
+    p_estimate_id: estimate.id,
+    p_item_ids: itemIds,
+  });
+
+  if (error) {
+    console.error('Error selecting estimate options:', error);
+    if (error.code === '55000') {
+      return { success: false, error: 'This estimate is no longer awaiting a response' };
+    }
+    return { success: false, error: 'Failed to update your selections' };
+  }
+
+  return { success: true };
+}
@@ -1,13 +1,17 @@
 'use server';
 
 import { createClient } from '@/lib/supabase/server';
-import { sendEstimateEmail } from '@/lib/email';
+import { sendEstimateEmail, getEmailErrorMessage } from '@/lib/email';
+import { getOrCreateEstimateShareLink, getEstimateShareUrl } from '@/lib/share-links';
+import { SendRecipients, resolveRecipients } from '@/lib/client-contacts';
 
 interface SendEstimateActionParams {
   estimateId: string;
+  // The client's own email when left out
+  recipients?: SendRecipients;
 }
 
-export async function sendEstimateAction({ estimateId }: SendEstimateActionParams) {
+export async function sendEstimateAction({ estimateId, recipients }: SendEstimateActionParams) {
   const supabase = await createClient();
 
   // Get current user
@@ -30,9 +34,13 @@ export async function sendEstimateAction({ estimateId }: SendEstimateActionParam
     return { success: false, error: 'Estimate not found' };
   }
 
-  // Check if client has email
-  if (!estimate.client?.email) {
-    return { success: false, error: 'Client does not have an email address' };
+  if (!estimate.client) {
+    return { success: false, error: 'Estimate does not have a client' };
+  }
+
+  const resolved = await resolveRecipients(supabase, estimate.client, recipients);
+  if (!resolved.success) {
+    return resolved;
   }
 
   // Fetch business profile
@@ -43,13 +51,16 @@ export async function sendEstimateAction({ estimateId }: SendEstimateActionParam
     .single();
 
   const businessName = profile?.business_name || 'Your Business';
-  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
-  const viewUrl = `${baseUrl}/estimates/${estimateId}`;
 
   try {
+    // Clients view the estimate through a public share link, not the dashboard
+    const shareLink = await getOrCreateEstimateShareLink(supabase, estimateId, user.id);
+    const viewUrl = getEstimateShareUrl(shareLink.token);
+
     await sendEstimateEmail({
-      to: estimate.client.email,
-      clientName: estimate.client.name,
+      to: resolved.to.email,
+      cc: resolved.cc,
+      clientName: resolved.to.name,
       estimateNumber: estimate.estimate_number,
       estimateTitle: estimate.title,
       total: estimate.total,
@@ -67,16 +78,6 @@ export async function sendEstimateAction({ estimateId }: SendEstimateActionParam
     return { success: true };
   } catch (error: unknown) {
     console.error('Failed to send estimate email:', error);
-
-    // Check for Resend domain verification error
-    const resendError = error as { statusCode?: number; message?: string };
-    if (resendError?.statusCode === 403 && resendError?.message?.includes('verify a domain')) {
-      return {
-        success: false,
-        error: 'For testing, use your own email as the client email. Verify a domain at resend.com for production.'
-      };
-    }
-
-    return { success: false, error: 'Failed to send email. Please check your email configuration.' };
+    return { success: false, error: getEmailErrorMessage(error) };
   }
 }
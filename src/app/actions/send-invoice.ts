@@ -0,0 +1,22 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { deliverInvoice } from '@/lib/invoice-delivery';
+import { SendRecipients } from '@/lib/client-contacts';
+
+interface SendInvoiceActionParams {
+  invoiceId: string;
+  recipients?: SendRecipients;
+}
+
+export async function sendInvoiceAction({ invoiceId, recipients }: SendInvoiceActionParams) {
+  const supabase = await createClient();
+
+  // Get current user
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  return deliverInvoice(supabase, invoiceId, recipients);
+}
@@ -0,0 +1,47 @@
+'use server';
+
+import { createClient } from '@/lib/supabase/server';
+import { getOrCreateEstimateShareLink, getEstimateShareUrl } from '@/lib/share-links';
+
+interface ShareEstimateActionParams {
+  estimateId: string;
+}
+
+export async function createEstimateShareLinkAction({ estimateId }: ShareEstimateActionParams) {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  try {
+    const link = await getOrCreateEstimateShareLink(supabase, estimateId, user.id);
+    return { success: true, url: getEstimateShareUrl(link.token) };
+  } catch (error) {
+    console.error('Failed to create share link:', error);
+    return { success: false, error: 'Failed to create share link' };
+  }
+}
+
+export async function revokeEstimateShareLinkAction({ estimateId }: ShareEstimateActionParams) {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { success: false, error: 'Unauthorized' };
+  }
+
+  const { error } = await supabase
+    .from('share_links')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('estimate_id', estimateId)
+    .is('revoked_at', null);
+
+  if (error) {
+    console.error('Failed to revoke share link:', error);
+    return { success: false, error: 'Failed to revoke share link' };
+  }
+
+  return { success: true };
+}
@@ -0,0 +1,18 @@
+import { processInvoiceReminders } from '@/lib/invoice-delivery';
+
+// Hit once a day by the scheduler with `Authorization: Bearer $CRON_SECRET`.
+// Re-running on the same day is harmless; already-sent steps are skipped.
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  try {
+    const summary = await processInvoiceReminders();
+    return Response.json(summary);
+  } catch (error) {
+    console.error('Failed to process invoice reminders:', error);
+    return Response.json({ error: 'Failed to process invoice reminders' }, { status: 500 });
+  }
+}
@@ -0,0 +1,18 @@
+import { processInvoiceSchedules } from '@/lib/invoice-delivery';
+
+// Hit once a day by the scheduler with `Authorization: Bearer $CRON_SECRET`.
+// Re-running on the same day is harmless; schedules already run are not due.
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  try {
+    const summary = await processInvoiceSchedules();
+    return Response.json(summary);
+  } catch (error) {
+    console.error('Failed to process recurring invoices:', error);
+    return Response.json({ error: 'Failed to process recurring invoices' }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { createClient } from '@/lib/supabase/server';
+import { renderEstimatePdf, getEstimatePdfFilename } from '@/components/pdf/estimate-pdf';
+import { pdfResponse } from '@/lib/pdf';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const { data: estimate, error } = await supabase
+    .from('estimates')
+    .select(`
+      *,
+      client:clients(*),
+      items:estimate_items(*)
+    `)
+    .eq('id', id)
+    .single();
+
+  if (error || !estimate) {
+    return new Response('Estimate not found', { status: 404 });
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('id', user.id)
+    .single();
+
+  const buffer = await renderEstimatePdf(estimate, profile);
+  return pdfResponse(buffer, getEstimatePdfFilename(estimate), request);
+}
@@ -0,0 +1,43 @@
+import { createClient } from '@/lib/supabase/server';
+import { renderInvoicePdf, getInvoicePdfFilename } from '@/components/pdf/invoice-pdf';
+import { pdfResponse } from '@/lib/pdf';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const { data: invoice, error } = await supabase
+    .from('invoices')
+    .select(`
+      *,
+      client:clients(*),
+      items:invoice_items(*),
+      source_estimate:estimates(job_site_address)
+    `)
+    .eq('id', id)
+    .single();
+
+  if (error || !invoice) {
+    return new Response('Invoice not found', { status: 404 });
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('id', user.id)
+    .single();
+
+  const buffer = await renderInvoicePdf(
+    { ...invoice, job_site_address: invoice.source_estimate?.job_site_address ?? null },
+    profile
+  );
+  return pdfResponse(buffer, getInvoicePdfFilename(invoice), request);
+}
@@ -0,0 +1,132 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { SharedLineItem } from '@/lib/portal';
+import { getAlternateGroups, isLineIncluded } from '@/lib/options';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+import { selectEstimateOptionsAction } from '@/app/actions/select-estimate-options';
+
+interface EstimateOptionsProps {
+  token: string;
+  items: SharedLineItem[];
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+};
+
+// Each change is saved straight away so the total shown, the PDF and the
+// amount signed for all reflect the current selections
+export function EstimateOptions({ token, items }: EstimateOptionsProps) {
+  const router = useRouter();
+  const [selected, setSelected] = useState(
+    () => new Set(items.filter(isLineIncluded).map((item) => item.id))
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const optionalItems = items.filter((item) => item.is_optional);
+  const alternateGroups = getAlternateGroups(items);
+
+  const save = async (next: Set<string>) => {
+    const previous = selected;
+    setSelected(next);
+    setIsSaving(true);
+    try {
+      const result = await selectEstimateOptionsAction({ token, itemIds: [...next] });
+      if (!result.success) {
+        setSelected(previous);
+        toast.error(result.error || 'Failed to update your selections');
+        return;
+      }
+      router.refresh();
+    } catch (error) {
+      console.error('Error selecting estimate options:', error);
+      setSelected(previous);
+      toast.error('Failed to update your selections');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleOptional = (id: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) {
+      next.add(id);
+    } else {
+      next.delete(id);
+    }
+    save(next);
+  };
+
+  const chooseAlternate = (group: SharedLineItem[], id: string) => {
+    const next = new Set(selected);
+    group.forEach((item) => next.delete(item.id));
+    next.add(id);
+    save(next);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          Choose Your Options
+          {isSaving && <Loader2 className="h-4 w-4 animate-spin text-slate-400" />}
+        </CardTitle>
+        <CardDescription>
+          Pick the options you&apos;d like before approving. The total updates with your choices.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {alternateGroups.map((group) => (
+          <fieldset key={group.name} className="space-y-2" disabled={isSaving}>
+            <legend className="mb-2 text-sm font-medium text-slate-900">{group.name}</legend>
+            {group.items.map((item) => (
+              <label
+                key={item.id}
+                className="flex cursor-pointer items-center justify-between gap-4 rounded-md border px-3 py-2 text-sm has-[:checked]:border-blue-300 has-[:checked]:bg-blue-50"
+              >
+                <span className="flex items-center gap-3">
+                  <input
+                    type="radio"
+                    name={`alternate-${group.name}`}
+                    checked={selected.has(item.id)}
+                    onChange={() => chooseAlternate(group.items, item.id)}
+                    className="h-4 w-4 accent-blue-600"
+                  />
+                  {item.description}
+                </span>
+                <span className="font-medium text-slate-900">{formatCurrency(item.amount)}</span>
+              </label>
+            ))}
+          </fieldset>
+        ))}
+
+        {optionalItems.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-slate-900">Optional Extras</p>
+            {optionalItems.map((item) => (
+              <label
+                key={item.id}
+                className="flex cursor-pointer items-center justify-between gap-4 rounded-md border px-3 py-2 text-sm"
+              >
+                <span className="flex items-center gap-3">
+                  <Switch
+                    checked={selected.has(item.id)}
+                    onCheckedChange={(checked) => toggleOptional(item.id, checked)}
+                    disabled={isSaving}
+                  />
+                  {item.description}
+                </span>
+                <span className="font-medium text-slate-900">+{formatCurrency(item.amount)}</span>
+              </label>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
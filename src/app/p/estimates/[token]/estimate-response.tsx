@@ -0,0 +1,136 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { EstimateResponse as Decision } from '@/types/database';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { SignaturePad } from '@/components/portal/signature-pad';
+import { toast } from 'sonner';
+import { CheckCircle, XCircle, Loader2 } from 'lucide-react';
+import { respondToEstimateAction } from '@/app/actions/respond-to-estimate';
+
+interface EstimateResponseProps {
+  token: string;
+  total: string;
+  businessName: string;
+}
+
+export function EstimateResponse({ token, total, businessName }: EstimateResponseProps) {
+  const router = useRouter();
+  const [decision, setDecision] = useState<Decision | null>(null);
+  const [signerName, setSignerName] = useState('');
+  const [signature, setSignature] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!decision) return;
+
+    if (!signerName.trim()) {
+      toast.error('Please type your full name');
+      return;
+    }
+
+    if (!signature) {
+      toast.error('Please draw your signature');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await respondToEstimateAction({ token, decision, signerName, signature });
+      if (!result.success) {
+        toast.error(result.error || 'Failed to submit your response');
+        return;
+      }
+      toast.success(decision === 'approved' ? 'Estimate approved. Thank you!' : 'Your response has been recorded');
+      router.refresh();
+    } catch (error) {
+      console.error('Error responding to estimate:', error);
+      toast.error('Failed to submit your response');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!decision) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Ready to move forward?</CardTitle>
+          <CardDescription>
+            Approve this estimate to let {businessName} know you&apos;d like to proceed, or decline it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-3 sm:flex-row">
+          <Button onClick={() => setDecision('approved')} className="flex-1 bg-green-600 hover:bg-green-700">
+            <CheckCircle className="mr-2 h-4 w-4" />
+            Approve Estimate
+          </Button>
+          <Button variant="outline" onClick={() => setDecision('declined')} className="flex-1">
+            <XCircle className="mr-2 h-4 w-4" />
+            Decline
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const isApproval = decision === 'approved';
+
+  return (
+    <Card className={isApproval ? 'border-green-200' : 'border-red-200'}>
+      <CardHeader>
+        <CardTitle className="text-lg">
+          {isApproval ? 'Approve Estimate' : 'Decline Estimate'}
+        </CardTitle>
+        <CardDescription>
+          {isApproval
+            ? `By signing below you accept this estimate for ${total} and authorize ${businessName} to proceed with the work described.`
+            : `By signing below you confirm that you are declining this estimate from ${businessName}.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label htmlFor="signer_name">Full Name</Label>
+          <Input
+            id="signer_name"
+            value={signerName}
+            onChange={(e) => setSignerName(e.target.value)}
+            placeholder="Jane Homeowner"
+            autoComplete="name"
+            className="mt-1.5"
+            disabled={isSubmitting}
+          />
+        </div>
+
+        <div>
+          <Label>Signature</Label>
+          <SignaturePad onChange={setSignature} disabled={isSubmitting} className="mt-1.5" />
+        </div>
+
+        <div className="flex items-center justify-end gap-3">
+          <Button variant="outline" onClick={() => setDecision(null)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={isSubmitting}
+            className={isApproval ? 'bg-green-600 hover:bg-green-700' : ''}
+            variant={isApproval ? 'default' : 'destructive'}
+          >
+            {isSubmitting ? (
+              <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Submitting...</>
+            ) : isApproval ? (
+              <><CheckCircle className="mr-2 h-4 w-4" />Sign & Approve</>
+            ) : (
+              <><XCircle className="mr-2 h-4 w-4" />Sign & Decline</>
+            )}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
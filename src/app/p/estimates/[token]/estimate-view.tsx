@@ -0,0 +1,216 @@
+import { EstimateStatus } from '@/types/database';
+import { SharedEstimate, SharedProfile, SharedResponse } from '@/lib/portal';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Separator } from '@/components/ui/separator';
+import { LineItems, LineItem } from '@/components/estimates/line-items';
+import { getTaxLabel } from '@/lib/taxes';
+import { getDiscountLabel } from '@/lib/discounts';
+import { Button } from '@/components/ui/button';
+import { BusinessHeader } from '@/components/portal/business-header';
+import { MapPin, CheckCircle, XCircle, Download } from 'lucide-react';
+import { hasOptions } from '@/lib/options';
+import { EstimateResponse } from './estimate-response';
+import { EstimateOptions } from './estimate-options';
+
+interface EstimateViewProps {
+  token: string;
+  estimate: SharedEstimate;
+  profile: SharedProfile | null;
+  response: SharedResponse | null;
+}
+
+const statusLabels: Record<EstimateStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  draft: { label: 'Draft', variant: 'secondary' },
+  sent: { label: 'Awaiting Response', variant: 'default' },
+  approved: { label: 'Approved', variant: 'default' },
+  declined: { label: 'Declined', variant: 'destructive' },
+};
+
+export function EstimateView({ token, estimate, profile, response }: EstimateViewProps) {
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+  };
+
+  const lineItems: LineItem[] = estimate.items.map((item) => ({
+    id: item.id,
+    description: item.description,
+    quantity: item.quantity,
+    unit: item.unit,
+    unit_price: item.unit_price,
+    taxable: item.taxable,
+    discount_type: item.discount_type,
+    discount_value: item.discount_value,
+    section: item.section,
+    is_optional: item.is_optional,
+    alternate_group: item.alternate_group,
+    is_selected: item.is_selected,
+  }));
+
+  const businessName = profile?.business_name || 'Your Contractor';
+  const statusInfo = statusLabels[estimate.status];
+
+  return (
+    <div className="space-y-6">
+      <BusinessHeader profile={profile} businessName={businessName} />
+
+      {/* Title row */}
+      <div className="flex items-start justify-between">
+        <div>
+          <div className="flex items-center gap-3">
+            <h1 className="text-2xl font-bold text-slate-900">{estimate.title}</h1>
+            <Badge variant={statusInfo.variant}>{statusInfo.label}</Badge>
+          </div>
+          <p className="text-slate-500 mt-1">Estimate #{estimate.estimate_number}</p>
+          <Button variant="outline" size="sm" className="mt-3" asChild>
+            <a href={`/p/estimates/${token}/pdf?download=1`}>
+              <Download className="mr-2 h-4 w-4" />
+              Download PDF
+            </a>
+          </Button>
+        </div>
+        <div className="text-right">
+          <p className="text-sm text-slate-500">Total Amount</p>
+          <p className="text-3xl font-bold text-blue-600">{formatCurrency(estimate.total)}</p>
+        </div>
+      </div>
+
+      {/* Prepared for / dates */}
+      <div className="grid gap-6 sm:grid-cols-2">
+        <Card>
+          <CardHeader><CardTitle className="text-lg">Prepared For</CardTitle></CardHeader>
+          <CardContent className="space-y-2 text-sm text-slate-600">
+            {estimate.client ? (
+              <>
+                <p className="font-medium text-slate-900">{estimate.client.name}</p>
+                {estimate.client.address && (
+                  <p className="whitespace-pre-line">{estimate.client.address}</p>
+                )}
+              </>
+            ) : (
+              <p className="text-slate-400">—</p>
+            )}
+            {estimate.job_site_address && (
+              <div className="flex items-start gap-2 pt-2">
+                <MapPin className="h-4 w-4 text-slate-400 mt-0.5" />
+                <span className="whitespace-pre-line">{estimate.job_site_address}</span>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader><CardTitle className="text-lg">Dates</CardTitle></CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex justify-between text-sm">
+              <span className="text-slate-500">Issue Date</span>
+              <span>{formatDate(estimate.issue_date)}</span>
+            </div>
+            {estimate.valid_until && (
+              <div className="flex justify-between text-sm">
+                <span className="text-slate-500">Valid Until</span>
+                <span>{formatDate(estimate.valid_until)}</span>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {estimate.description && (
+        <Card>
+          <CardHeader><CardTitle className="text-lg">Description</CardTitle></CardHeader>
+          <CardContent>
+            <p className="text-slate-600 whitespace-pre-wrap">{estimate.description}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader><CardTitle className="text-lg">Line Items</CardTitle></CardHeader>
+        <CardContent className="space-y-4">
+          <LineItems items={lineItems} onChange={() => {}} readOnly showTaxable showDiscount />
+          <div className="ml-auto max-w-xs space-y-3">
+            <div className="flex justify-between text-sm">
+              <span className="text-slate-500">Subtotal</span>
+              <span className="font-medium">{formatCurrency(estimate.subtotal)}</span>
+            </div>
+            {estimate.discount_amount > 0 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-slate-500">{getDiscountLabel(estimate.discount_type, estimate.discount_value)}</span>
+                <span className="font-medium text-green-600">-{formatCurrency(estimate.discount_amount)}</span>
+              </div>
+            )}
+            {estimate.taxes.map((tax) => (
+              <div key={tax.name} className="flex justify-between text-sm">
+                <span className="text-slate-500">{getTaxLabel(tax)}</span>
+                <span className="font-medium">{formatCurrency(tax.amount)}</span>
+              </div>
+            ))}
+            <Separator />
+            <div className="flex justify-between text-lg">
+              <span className="font-semibold">Total</span>
+              <span className="font-bold text-blue-600">{formatCurrency(estimate.total)}</span>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {estimate.notes && (
+        <Card>
+          <CardHeader><CardTitle className="text-lg">Notes & Terms</CardTitle></CardHeader>
+          <CardContent>
+            <p className="text-slate-600 whitespace-pre-wrap">{estimate.notes}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {estimate.status === 'sent' && hasOptions(estimate.items) && (
+        <EstimateOptions
+          token={token}
+          items={estimate.items.filter((item) => item.is_optional || item.alternate_group != null)}
+        />
+      )}
+
+      {/* Client response */}
+      {estimate.status === 'sent' && (
+        <EstimateResponse
+          token={token}
+          total={formatCurrency(estimate.total)}
+          businessName={businessName}
+        />
+      )}
+
+      {response && estimate.status === response.decision && (
+        <div
+          className={`flex items-center gap-3 rounded-lg border px-4 py-3 ${
+            response.decision === 'approved'
+              ? 'border-green-200 bg-green-50 text-green-700'
+              : 'border-red-200 bg-red-50 text-red-700'
+          }`}
+        >
+          {response.decision === 'approved' ? (
+            <CheckCircle className="h-5 w-5" />
+          ) : (
+            <XCircle className="h-5 w-5" />
+          )}
+          <p className="text-sm font-medium">
+            {response.decision === 'approved' ? 'Approved' : 'Declined'} by {response.signer_name} on{' '}
+            {formatDate(response.signed_at)}
+          </p>
+        </div>
+      )}
+
+      <p className="text-center text-xs text-slate-400">
+        This estimate was sent via BuildMVP
+      </p>
+    </div>
+  );
+}
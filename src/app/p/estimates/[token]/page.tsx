@@ -0,0 +1,49 @@
+import { notFound } from 'next/navigation';
+import { getSharedEstimate, recordShareLinkView } from '@/lib/portal';
+import { EstimateView } from './estimate-view';
+import { LinkUnavailable } from '@/components/portal/link-unavailable';
+
+interface SharedEstimatePageProps {
+  params: Promise<{ token: string }>;
+}
+
+export default async function SharedEstimatePage({ params }: SharedEstimatePageProps) {
+  const { token } = await params;
+  const result = await getSharedEstimate(token);
+
+  if (result.state === 'not_found') {
+    notFound();
+  }
+
+  if (result.state === 'revoked') {
+    return (
+      <LinkUnavailable
+        title="This link is no longer active"
+        message="The estimate link you followed has been turned off. Please contact your contractor for an updated link."
+      />
+    );
+  }
+
+  if (result.state === 'expired') {
+    return (
+      <LinkUnavailable
+        title="This estimate has expired"
+        message="The pricing in this estimate is no longer valid. Please contact us for an updated quote."
+        businessName={result.profile?.business_name}
+        businessEmail={result.profile?.business_email}
+        businessPhone={result.profile?.business_phone}
+      />
+    );
+  }
+
+  await recordShareLinkView(result.linkId);
+
+  return (
+    <EstimateView
+      token={token}
+      estimate={result.estimate}
+      profile={result.profile}
+      response={result.response}
+    />
+  );
+}
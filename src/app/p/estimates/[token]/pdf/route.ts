@@ -0,0 +1,18 @@
+import { getSharedEstimate } from '@/lib/portal';
+import { renderEstimatePdf, getEstimatePdfFilename } from '@/components/pdf/estimate-pdf';
+import { pdfResponse } from '@/lib/pdf';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+  const result = await getSharedEstimate(token);
+
+  if (result.state !== 'ok') {
+    return new Response('Estimate not available', { status: 404 });
+  }
+
+  const buffer = await renderEstimatePdf(result.estimate, result.profile);
+  return pdfResponse(buffer, getEstimatePdfFilename(result.estimate), request);
+}
@@ -0,0 +1,219 @@
+import { InvoiceStatus } from '@/types/database';
+import { SharedInvoice, SharedProfile } from '@/lib/portal';
+import { getInvoiceBalance } from '@/lib/invoices';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Separator } from '@/components/ui/separator';
+import { LineItems, LineItem } from '@/components/estimates/line-items';
+import { getTaxLabel } from '@/lib/taxes';
+import { getDiscountLabel } from '@/lib/discounts';
+import { Button } from '@/components/ui/button';
+import { BusinessHeader } from '@/components/portal/business-header';
+import { MapPin, CheckCircle, Download } from 'lucide-react';
+
+interface InvoiceViewProps {
+  token: string;
+  invoice: SharedInvoice;
+  profile: SharedProfile | null;
+}
+
+const statusLabels: Record<InvoiceStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  unpaid: { label: 'Payment Due', variant: 'destructive' },
+  partially_paid: { label: 'Partially Paid', variant: 'secondary' },
+  paid: { label: 'Paid', variant: 'default' },
+};
+
+export function InvoiceView({ token, invoice, profile }: InvoiceViewProps) {
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+  };
+
+  const lineItems: LineItem[] = invoice.items.map((item) => ({
+    id: item.id,
+    description: item.description,
+    quantity: item.quantity,
+    unit: item.unit,
+    unit_price: item.unit_price,
+    taxable: item.taxable,
+    discount_type: item.discount_type,
+    discount_value: item.discount_value,
+    section: item.section,
+  }));
+
+  const businessName = profile?.business_name || 'Your Contractor';
+  const statusInfo = statusLabels[invoice.status];
+  const isPaid = invoice.status === 'paid';
+  const balance = getInvoiceBalance(invoice);
+
+  return (
+    <div className="space-y-6">
+      <BusinessHeader profile={profile} businessName={businessName} />
+
+      {/* Title row */}
+      <div className="flex items-start justify-between">
+        <div>
+          <div className="flex items-center gap-3">
+            <h1 className="text-2xl font-bold text-slate-900">{invoice.title}</h1>
+            <Badge variant={statusInfo.variant}>{statusInfo.label}</Badge>
+          </div>
+          <p className="text-slate-500 mt-1">Invoice #{invoice.invoice_number}</p>
+          <Button variant="outline" size="sm" className="mt-3" asChild>
+            <a href={`/p/invoices/${token}/pdf?download=1`}>
+              <Download className="mr-2 h-4 w-4" />
+              Download PDF
+            </a>
+          </Button>
+        </div>
+        <div className="text-right">
+          <p className="text-sm text-slate-500">{isPaid ? 'Total Paid' : 'Amount Due'}</p>
+          <p className="text-3xl font-bold text-blue-600">
+            {formatCurrency(isPaid ? invoice.total : balance)}
+          </p>
+          {!isPaid && invoice.due_date && (
+            <p className="text-sm text-slate-500 mt-1">Due {formatDate(invoice.due_date)}</p>
+          )}
+        </div>
+      </div>
+
+      {/* Bill to / dates */}
+      <div className="grid gap-6 sm:grid-cols-2">
+        <Card>
+          <CardHeader><CardTitle className="text-lg">Bill To</CardTitle></CardHeader>
+          <CardContent className="space-y-2 text-sm text-slate-600">
+            {invoice.client ? (
+              <>
+                <p className="font-medium text-slate-900">{invoice.client.name}</p>
+                {invoice.client.address && (
+                  <p className="whitespace-pre-line">{invoice.client.address}</p>
+                )}
+              </>
+            ) : (
+              <p className="text-slate-400">—</p>
+            )}
+            {invoice.job_site_address && (
+              <div className="flex items-start gap-2 pt-2">
+                <MapPin className="h-4 w-4 text-slate-400 mt-0.5" />
+                <span className="whitespace-pre-line">{invoice.job_site_address}</span>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader><CardTitle className="text-lg">Dates</CardTitle></CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex justify-between text-sm">
+              <span className="text-slate-500">Issue Date</span>
+              <span>{formatDate(invoice.issue_date)}</span>
+            </div>
+            {invoice.due_date && (
+              <div className="flex justify-between text-sm">
+                <span className="text-slate-500">Due Date</span>
+                <span>{formatDate(invoice.due_date)}</span>
+              </div>
+            )}
+            {isPaid && invoice.paid_date && (
+              <div className="flex justify-between text-sm">
+                <span className="text-slate-500">Paid Date</span>
+                <span className="text-green-600 font-medium">{formatDate(invoice.paid_date)}</span>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {invoice.description && (
+        <Card>
+          <CardHeader><CardTitle className="text-lg">Description</CardTitle></CardHeader>
+          <CardContent>
+            <p className="text-slate-600 whitespace-pre-wrap">{invoice.description}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader><CardTitle className="text-lg">Line Items</CardTitle></CardHeader>
+        <CardContent className="space-y-4">
+          <LineItems items={lineItems} onChange={() => {}} readOnly showTaxable showDiscount />
+          <div className="ml-auto max-w-xs space-y-3">
+            <div className="flex justify-between text-sm">
+              <span className="text-slate-500">Subtotal</span>
+              <span className="font-medium">{formatCurrency(invoice.subtotal)}</span>
+            </div>
+            {invoice.discount_amount > 0 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-slate-500">{getDiscountLabel(invoice.discount_type, invoice.discount_value)}</span>
+                <span className="font-medium text-green-600">-{formatCurrency(invoice.discount_amount)}</span>
+              </div>
+            )}
+            {invoice.taxes.map((tax) => (
+              <div key={tax.name} className="flex justify-between text-sm">
+                <span className="text-slate-500">{getTaxLabel(tax)}</span>
+                <span className="font-medium">{formatCurrency(tax.amount)}</span>
+              </div>
+            ))}
+            {invoice.deposit_credit > 0 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-slate-500">Less deposit received</span>
+                <span className="font-medium text-green-600">-{formatCurrency(invoice.deposit_credit)}</span>
+              </div>
+            )}
+            {invoice.retainage_amount > 0 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-slate-500">Less retainage ({invoice.retainage_percent}%)</span>
+                <span className="font-medium">-{formatCurrency(invoice.retainage_amount)}</span>
+              </div>
+            )}
+            <Separator />
+            <div className="flex justify-between text-lg">
+              <span className="font-semibold">Total</span>
+              <span className="font-bold text-blue-600">{formatCurrency(invoice.total)}</span>
+            </div>
+            {invoice.status === 'partially_paid' && (
+              <>
+                <div className="flex justify-between text-sm">
+                  <span className="text-slate-500">Payments Received</span>
+                  <span className="font-medium text-green-600">-{formatCurrency(invoice.amount_paid)}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="font-semibold">Balance Due</span>
+                  <span className="font-semibold">{formatCurrency(balance)}</span>
+                </div>
+              </>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {invoice.notes && (
+        <Card>
+          <CardHeader><CardTitle className="text-lg">Payment Terms & Notes</CardTitle></CardHeader>
+          <CardContent>
+            <p className="text-slate-600 whitespace-pre-wrap">{invoice.notes}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {isPaid && (
+        <div className="flex items-center gap-3 rounded-lg border border-green-200 bg-green-50 px-4 py-3 text-green-700">
+          <CheckCircle className="h-5 w-5" />
+          <p className="text-sm font-medium">
+            Paid in full{invoice.paid_date ? ` on ${formatDate(invoice.paid_date)}` : ''}. Thank you!
+          </p>
+        </div>
+      )}
+
+      <p className="text-center text-xs text-slate-400">
+        This invoice was sent via BuildMVP
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { notFound } from 'next/navigation';
+import { getSharedInvoice, recordShareLinkView } from '@/lib/portal';
+import { InvoiceView } from './invoice-view';
+import { LinkUnavailable } from '@/components/portal/link-unavailable';
+
+interface SharedInvoicePageProps {
+  params: Promise<{ token: string }>;
+}
+
+export default async function SharedInvoicePage({ params }: SharedInvoicePageProps) {
+  const { token } = await params;
+  const result = await getSharedInvoice(token);
+
+  if (result.state === 'not_found') {
+    notFound();
+  }
+
+  if (result.state === 'revoked') {
+    return (
+      <LinkUnavailable
+        title="This link is no longer active"
+        message="The invoice link you followed has been turned off. Please contact your contractor for an updated link."
+      />
+    );
+  }
+
+  await recordShareLinkView(result.linkId);
+
+  return <InvoiceView token={token} invoice={result.invoice} profile={result.profile} />;
+}
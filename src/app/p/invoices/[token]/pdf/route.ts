@@ -0,0 +1,18 @@
+import { getSharedInvoice } from '@/lib/portal';
+import { renderInvoicePdf, getInvoicePdfFilename } from '@/components/pdf/invoice-pdf';
+import { pdfResponse } from '@/lib/pdf';
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+  const result = await getSharedInvoice(token);
+
+  if (result.state !== 'ok') {
+    return new Response('Invoice not available', { status: 404 });
+  }
+
+  const buffer = await renderInvoicePdf(result.invoice, result.profile);
+  return pdfResponse(buffer, getInvoicePdfFilename(result.invoice), request);
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import { useState } from 'react';
+import { ClientContact, ContactRole } from '@/types/database';
+import {
+  CLIENT_RECIPIENT,
+  SendRecipients,
+  getContactRoleLabel,
+  getDefaultRecipient,
+} from '@/lib/client-contacts';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, Send } from 'lucide-react';
+
+interface SendDialogProps {
+  title: string;
+  client: { name: string; email: string | null };
+  contacts: ClientContact[];
+  // Contacts in this role are picked as the recipient by default
+  defaultRole: ContactRole;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Resolves true once sent, which closes the dialog
+  onSend: (recipients: SendRecipients) => Promise<boolean>;
+}
+
+// Mounted each time it opens, so the default recipient is picked fresh
+export function SendDialog({
+  title,
+  client,
+  contacts,
+  defaultRole,
+  open,
+  onOpenChange,
+  onSend,
+}: SendDialogProps) {
+  const [isSending, setIsSending] = useState(false);
+
+  const people = [
+    ...(client.email ? [{ id: CLIENT_RECIPIENT, name: client.name, email: client.email, role: null }] : []),
+    ...contacts
+      .filter((contact) => contact.email)
+      .map((contact) => ({ id: contact.id, name: contact.name, email: contact.email!, role: contact.role })),
+  ];
+
+  const [to, setTo] = useState(() => {
+    const preferred = getDefaultRecipient(contacts, defaultRole);
+    return people.some((person) => person.id === preferred) ? preferred : people[0]?.id ?? '';
+  });
+  const [cc, setCc] = useState<string[]>([]);
+
+  const toggleCc = (id: string, checked: boolean) => {
+    setCc((prev) => (checked ? [...prev, id] : prev.filter((c) => c !== id)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+    try {
+      const sent = await onSend({ to, cc: cc.filter((id) => id !== to) });
+      if (sent) onOpenChange(false);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            <DialogDescription>
+              Choose who at {client.name} receives this, and who gets a copy.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            {people.length === 0 ? (
+              <p className="text-sm text-slate-500">
+                Neither the client nor any of their contacts has an email address.
+              </p>
+            ) : (
+              <>
+                <div>
+                  <Label htmlFor="send_to">To</Label>
+                  <Select value={to} onValueChange={setTo}>
+                    <SelectTrigger id="send_to" className="mt-1.5">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {people.map((person) => (
+                        <SelectItem key={person.id} value={person.id}>
+                          {person.name}
+                          {person.role && ` (${getContactRoleLabel(person.role)})`} · {person.email}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {people.length > 1 && (
+                  <fieldset className="space-y-2">
+                    <legend className="text-sm font-medium">CC</legend>
+                    {people
+                      .filter((person) => person.id !== to)
+                      .map((person) => (
+                        <label key={person.id} className="flex cursor-pointer items-center gap-3 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={cc.includes(person.id)}
+                            onChange={(e) => toggleCc(person.id, e.target.checked)}
+                            className="h-4 w-4 accent-blue-600"
+                          />
+                          <span>
+                            {person.name}
+                            {person.role && (
+                              <span className="text-slate-500"> ({getContactRoleLabel(person.role)})</span>
+                            )}
+                            <span className="text-slate-500"> · {person.email}</span>
+                          </span>
+                        </label>
+                      ))}
+                  </fieldset>
+                )}
+              </>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSending || !to}>
+              {isSending ? (
+                <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Sending...</>
+              ) : (
+                <><Send className="mr-2 h-4 w-4" />Send</>
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,385 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { InvoiceItem, InvoiceStatus, InvoiceType } from '@/types/database';
+import { getBilledPercents, getProgressAmount, getRemainingPercent } from '@/lib/progress-billing';
+import { getRetainageHeld } from '@/lib/retainage';
+import { createProgressInvoiceAction, releaseRetainageAction } from '@/app/actions/convert-estimate';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { toast } from 'sonner';
+import { Loader2, Lock, Receipt, TrendingUp } from 'lucide-react';
+
+interface BillingProgressItem {
+  id: string;
+  description: string;
+  amount: number; // Line total after its discount
+}
+
+export interface EstimateInvoiceSummary {
+  id: string;
+  invoice_type: InvoiceType;
+  invoice_number: string;
+  title: string;
+  subtotal: number;
+  retainage_amount: number;
+  total: number;
+  status: InvoiceStatus;
+  items: Pick<InvoiceItem, 'source_estimate_item_id' | 'billed_percent'>[];
+}
+
+interface BillingProgressProps {
+  estimateId: string;
+  items: BillingProgressItem[];
+  invoices: EstimateInvoiceSummary[];
+}
+
+const statusLabels: Record<InvoiceStatus, string> = {
+  unpaid: 'Unpaid',
+  partially_paid: 'Partially Paid',
+  paid: 'Paid',
+};
+
+const invoiceTypeLabels: Record<InvoiceType, string> = {
+  standard: 'Invoice',
+  deposit: 'Deposit',
+  retainage_release: 'Retainage',
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+};
+
+export function BillingProgress({ estimateId, items, invoices }: BillingProgressProps) {
+  const router = useRouter();
+  const [isReleasing, setIsReleasing] = useState(false);
+  const billed = getBilledPercents(invoices.flatMap((invoice) => invoice.items));
+
+  const contractTotal = items.reduce((sum, item) => sum + item.amount, 0);
+  const billedTotal = items.reduce((sum, item) => sum + getProgressAmount(item, billed[item.id] || 0), 0);
+  const billedShare = contractTotal > 0 ? Math.min(100, (billedTotal / contractTotal) * 100) : 0;
+  const hasRemaining = items.some((item) => getRemainingPercent(billed, item.id) > 0);
+  const retainageHeld = getRetainageHeld(invoices);
+
+  const handleReleaseRetainage = async () => {
+    if (hasRemaining && !confirm('Part of this estimate is still unbilled. Release all retainage held anyway?')) {
+      return;
+    }
+
+    setIsReleasing(true);
+    try {
+      const result = await releaseRetainageAction({ estimateId });
+      if (!result.success || !result.id) {
+        toast.error(result.error || 'Failed to release retainage');
+        return;
+      }
+      toast.success('Retainage release invoice created');
+      router.push(`/invoices/${result.id}`);
+    } catch (error) {
+      console.error('Error releasing retainage:', error);
+      toast.error('Failed to release retainage');
+    } finally {
+      setIsReleasing(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <TrendingUp className="h-5 w-5 text-slate-400" />
+          Billing Progress
+        </CardTitle>
+        {hasRemaining && (
+          <ProgressInvoiceDialog estimateId={estimateId} items={items} billed={billed} />
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <div className="flex justify-between text-sm mb-1.5">
+            <span className="text-slate-500">
+              {formatCurrency(billedTotal)} of {formatCurrency(contractTotal)} billed
+            </span>
+            <span className="font-medium">{Math.round(billedShare)}%</span>
+          </div>
+          <div className="h-2 rounded-full bg-slate-100 overflow-hidden">
+            <div className="h-full bg-blue-600" style={{ width: `${billedShare}%` }} />
+          </div>
+        </div>
+
+        {retainageHeld > 0 && (
+          <div className="flex items-center justify-between rounded-lg bg-amber-50 px-4 py-3 text-sm">
+            <span className="flex items-center gap-2 text-amber-900">
+              <Lock className="h-4 w-4" />
+              {formatCurrency(retainageHeld)} retainage held
+            </span>
+            <Button variant="outline" size="sm" onClick={handleReleaseRetainage} disabled={isReleasing}>
+              {isReleasing ? (
+                <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Releasing...</>
+              ) : (
+                'Release Retainage'
+              )}
+            </Button>
+          </div>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[40%]">Line</TableHead>
+              <TableHead className="text-right">Contract</TableHead>
+              <TableHead className="w-32">Billed</TableHead>
+              <TableHead className="text-right">Remaining</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.map((item) => {
+              const percent = billed[item.id] || 0;
+              const lineTotal = item.amount;
+              return (
+                <TableRow key={item.id}>
+                  <TableCell>{item.description}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(lineTotal)}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <div className="h-1.5 flex-1 rounded-full bg-slate-100 overflow-hidden">
+                        <div
+                          className={`h-full ${percent >= 100 ? 'bg-green-600' : 'bg-blue-600'}`}
+                          style={{ width: `${Math.min(100, percent)}%` }}
+                        />
+                      </div>
+                      <span className="text-xs text-slate-500 w-10 text-right">{percent}%</span>
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(lineTotal - getProgressAmount(item, percent))}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        {invoices.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-slate-700">Invoices</p>
+            {invoices.map((invoice) => (
+              <Link
+                key={invoice.id}
+                href={`/invoices/${invoice.id}`}
+                className="flex items-center justify-between rounded-md border px-3 py-2 text-sm hover:bg-slate-50"
+              >
+                <span className="flex items-center gap-2 min-w-0">
+                  <Receipt className="h-4 w-4 text-slate-400" />
+                  <span className="font-mono text-xs text-slate-500">{invoice.invoice_number}</span>
+                  <span className="truncate">{invoice.title}</span>
+                  {invoice.invoice_type !== 'standard' && (
+                    <Badge variant="secondary">{invoiceTypeLabels[invoice.invoice_type]}</Badge>
+                  )}
+                </span>
+                <span className="flex items-center gap-2">
+                  <Badge variant={invoice.status === 'paid' ? 'default' : 'outline'}>
+                    {statusLabels[invoice.status]}
+                  </Badge>
+                  <span className="font-medium">{formatCurrency(invoice.total)}</span>
+                </span>
+              </Link>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface ProgressInvoiceDialogProps {
+  estimateId: string;
+  items: BillingProgressItem[];
+  billed: Record<string, number>;
+}
+
+function ProgressInvoiceDialog({ estimateId, items, billed }: ProgressInvoiceDialogProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<'milestone' | 'line'>('milestone');
+  const [milestone, setMilestone] = useState('');
+  const [milestonePercent, setMilestonePercent] = useState(0);
+  const [linePercents, setLinePercents] = useState<Record<string, number>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // A milestone bills the same share of every line, capped at what's left
+  const getPercent = (item: BillingProgressItem) => {
+    const remaining = getRemainingPercent(billed, item.id);
+    const requested = mode === 'milestone' ? milestonePercent : linePercents[item.id] || 0;
+    return Math.min(requested, remaining);
+  };
+
+  const invoiceSubtotal = items.reduce((sum, item) => sum + getProgressAmount(item, getPercent(item)), 0);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setMode('milestone');
+      setMilestone('');
+      setMilestonePercent(0);
+      setLinePercents({});
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const lines = items
+      .map((item) => ({ estimate_item_id: item.id, percent: getPercent(item) }))
+      .filter((line) => line.percent > 0);
+
+    if (lines.length === 0) {
+      toast.error('Enter a percentage to bill');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await createProgressInvoiceAction({
+        estimate_id: estimateId,
+        milestone: mode === 'milestone' ? milestone : null,
+        lines,
+      });
+      if (!result.success || !result.id) {
+        toast.error(result.error || 'Failed to create invoice');
+        return;
+      }
+      toast.success('Progress invoice created');
+      setOpen(false);
+      router.push(`/invoices/${result.id}`);
+    } catch (error) {
+      console.error('Error creating progress invoice:', error);
+      toast.error('Failed to create invoice');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Receipt className="mr-2 h-4 w-4" />
+          Progress Invoice
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Create Progress Invoice</DialogTitle>
+            <DialogDescription>
+              Bill part of the estimate now. Each line can be billed up to 100% across all invoices.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Tabs value={mode} onValueChange={(v) => setMode(v as 'milestone' | 'line')} className="py-4">
+            <TabsList>
+              <TabsTrigger value="milestone">By Milestone</TabsTrigger>
+              <TabsTrigger value="line">By Line</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="milestone" className="grid gap-4 pt-4 sm:grid-cols-3">
+              <div className="sm:col-span-2">
+                <Label htmlFor="milestone_name">Milestone</Label>
+                <Input
+                  id="milestone_name"
+                  value={milestone}
+                  onChange={(e) => setMilestone(e.target.value)}
+                  placeholder="e.g. Rough-in complete"
+                  className="mt-1.5"
+                />
+              </div>
+              <div>
+                <Label htmlFor="milestone_percent">% of Contract</Label>
+                <Input
+                  id="milestone_percent"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={milestonePercent || ''}
+                  onChange={(e) => setMilestonePercent(parseFloat(e.target.value) || 0)}
+                  className="mt-1.5"
+                />
+              </div>
+            </TabsContent>
+
+            <TabsContent value="line" className="pt-4 space-y-2">
+              {items.map((item) => {
+                const remaining = getRemainingPercent(billed, item.id);
+                return (
+                  <div key={item.id} className="flex items-center gap-3 text-sm">
+                    <span className="flex-1 min-w-0 truncate">{item.description}</span>
+                    <span className="text-xs text-slate-400 w-24 text-right">{remaining}% left</span>
+                    <Input
+                      type="number"
+                      min="0"
+                      max={remaining}
+                      step="0.01"
+                      value={linePercents[item.id] || ''}
+                      onChange={(e) =>
+                        setLinePercents((prev) => ({ ...prev, [item.id]: parseFloat(e.target.value) || 0 }))
+                      }
+                      disabled={remaining <= 0}
+                      placeholder="%"
+                      className="w-24"
+                    />
+                  </div>
+                );
+              })}
+            </TabsContent>
+          </Tabs>
+
+          <div className="flex justify-between rounded-lg bg-slate-50 px-4 py-3">
+            <span className="font-semibold">Invoice Subtotal</span>
+            <span className="font-bold text-blue-600">{formatCurrency(invoiceSubtotal)}</span>
+          </div>
+
+          <DialogFooter className="pt-4">
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || invoiceSubtotal === 0}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Creating...
+                </>
+              ) : (
+                'Create Invoice'
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { CatalogItem } from '@/types/database';
+import { searchCatalog } from '@/lib/catalog';
+import { getUnitLabel } from '@/lib/units';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+
+interface CatalogTypeaheadProps {
+  value: string;
+  catalog: CatalogItem[];
+  onChange: (value: string) => void;
+  onSelect: (item: CatalogItem) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+};
+
+// The line item table scrolls sideways and clips its overflow, so the
+// suggestions are portalled to the body and positioned under the input
+export function CatalogTypeahead({
+  value,
+  catalog,
+  onChange,
+  onSelect,
+  placeholder,
+  className,
+}: CatalogTypeaheadProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const [position, setPosition] = useState<{ top: number; left: number; width: number } | null>(null);
+
+  const matches = isOpen ? searchCatalog(catalog, value) : [];
+  const showMenu = matches.length > 0 && position !== null;
+
+  const open = () => {
+    const rect = inputRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    setPosition({ top: rect.bottom + 4, left: rect.left, width: Math.max(rect.width, 320) });
+    setIsOpen(true);
+  };
+
+  const close = () => {
+    setIsOpen(false);
+    setHighlighted(0);
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    window.addEventListener('scroll', close, true);
+    window.addEventListener('resize', close);
+    return () => {
+      window.removeEventListener('scroll', close, true);
+      window.removeEventListener('resize', close);
+    };
+  }, [isOpen]);
+
+  const select = (item: CatalogItem) => {
+    onSelect(item);
+    close();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showMenu) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted((i) => (i + 1) % matches.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((i) => (i - 1 + matches.length) % matches.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      select(matches[Math.min(highlighted, matches.length - 1)]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      close();
+    }
+  };
+
+  return (
+    <>
+      <Input
+        ref={inputRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setHighlighted(0);
+          open();
+        }}
+        onFocus={open}
+        onBlur={close}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        className={className}
+        role="combobox"
+        aria-expanded={showMenu}
+        aria-autocomplete="list"
+      />
+      {showMenu && createPortal(
+        <div
+          role="listbox"
+          className="fixed z-50 max-h-72 overflow-y-auto rounded-md border bg-white py-1 shadow-md"
+          style={{ top: position.top, left: position.left, width: position.width }}
+        >
+          {matches.map((item, index) => (
+            <div
+              key={item.id}
+              role="option"
+              aria-selected={index === highlighted}
+              // mousedown fires before the input's blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                select(item);
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+              className={cn(
+                'flex cursor-pointer items-start justify-between gap-4 px-3 py-2 text-sm',
+                index === highlighted && 'bg-slate-100'
+              )}
+            >
+              <div className="min-w-0">
+                <p className="font-medium text-slate-900 truncate">{item.name}</p>
+                {item.category && (
+                  <p className="text-xs text-slate-500">{item.category}</p>
+                )}
+              </div>
+              <span className="shrink-0 text-slate-600">
+                {formatCurrency(item.unit_price)} / {getUnitLabel(item.unit).toLowerCase()}
+              </span>
+            </div>
+          ))}
+        </div>,
+        document.body
+      )}
+    </>
+  );
+}
@@ -0,0 +1,422 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { createClient } from '@/lib/supabase/client';
+import { ChangeOrderStatus, ChangeOrderWithItems } from '@/types/database';
+import { formatChangeOrderNumber } from '@/lib/change-orders';
+import { saveChangeOrderAction, rollChangeOrdersIntoInvoiceAction } from '@/app/actions/change-orders';
+import { LineItems, LineItem } from '@/components/estimates/line-items';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { toast } from 'sonner';
+import {
+  CheckCircle,
+  ClipboardList,
+  Loader2,
+  MoreHorizontal,
+  Pencil,
+  Plus,
+  Receipt,
+  Trash2,
+  XCircle,
+} from 'lucide-react';
+
+interface ChangeOrdersProps {
+  estimateId: string;
+  canCreate: boolean;
+  hasInvoice: boolean;
+  changeOrders: ChangeOrderWithItems[];
+}
+
+const statusConfig: Record<ChangeOrderStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  pending: { label: 'Awaiting Approval', variant: 'secondary' },
+  approved: { label: 'Approved', variant: 'default' },
+  declined: { label: 'Declined', variant: 'destructive' },
+};
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+};
+
+const formatDelta = (amount: number) => {
+  return `${amount > 0 ? '+' : amount < 0 ? '−' : ''}${formatCurrency(Math.abs(amount))}`;
+};
+
+export function ChangeOrders({ estimateId, canCreate, hasInvoice, changeOrders }: ChangeOrdersProps) {
+  const router = useRouter();
+  const supabase = createClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<ChangeOrderWithItems | null>(null);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [isRolling, setIsRolling] = useState(false);
+
+  const sorted = [...changeOrders].sort((a, b) => a.change_order_number - b.change_order_number);
+  const unbilledApproved = sorted.filter((co) => co.status === 'approved' && !co.invoice_id);
+
+  if (!canCreate && sorted.length === 0) return null;
+
+  const openDialog = (changeOrder: ChangeOrderWithItems | null) => {
+    setEditing(changeOrder);
+    setDialogOpen(true);
+  };
+
+  const handleStatusChange = async (changeOrder: ChangeOrderWithItems, status: ChangeOrderStatus) => {
+    setUpdatingId(changeOrder.id);
+    try {
+      const { error } = await supabase
+        .from('change_orders')
+        .update({
+          status,
+          approved_at: status === 'approved' ? new Date().toISOString() : null,
+        })
+        .eq('id', changeOrder.id);
+
+      if (error) throw error;
+      toast.success(`${formatChangeOrderNumber(changeOrder.change_order_number)} marked as ${statusConfig[status].label.toLowerCase()}`);
+      router.refresh();
+    } catch (error) {
+      console.error('Error updating change order:', error);
+      toast.error('Failed to update change order');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleDelete = async (changeOrder: ChangeOrderWithItems) => {
+    if (!confirm(`Delete ${formatChangeOrderNumber(changeOrder.change_order_number)}? This action cannot be undone.`)) {
+      return;
+    }
+    setUpdatingId(changeOrder.id);
+    try {
+      const { error } = await supabase
+        .from('change_orders')
+        .delete()
+        .eq('id', changeOrder.id);
+
+      if (error) throw error;
+      toast.success('Change order deleted');
+      router.refresh();
+    } catch (error) {
+      console.error('Error deleting change order:', error);
+      toast.error('Failed to delete change order');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleRollIntoInvoice = async () => {
+    setIsRolling(true);
+    try {
+      const result = await rollChangeOrdersIntoInvoiceAction({ estimateId });
+      if (!result.success) {
+        toast.error(result.error || 'Failed to add change orders to invoice');
+        return;
+      }
+      toast.success(`${result.count} change order${result.count !== 1 ? 's' : ''} added to invoice`);
+      router.refresh();
+    } catch (error) {
+      console.error('Error adding change orders to invoice:', error);
+      toast.error('Failed to add change orders to invoice');
+    } finally {
+      setIsRolling(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ClipboardList className="h-5 w-5 text-slate-400" />
+          Change Orders
+        </CardTitle>
+        {canCreate && (
+          <Button variant="outline" size="sm" onClick={() => openDialog(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Change Order
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {sorted.length === 0 ? (
+          <p className="text-sm text-slate-500">
+            Record scope added or removed on site after the estimate was approved.
+          </p>
+        ) : (
+          sorted.map((changeOrder) => {
+            const status = statusConfig[changeOrder.status];
+            const items = [...changeOrder.items].sort((a, b) => a.sort_order - b.sort_order);
+            return (
+              <div key={changeOrder.id} className="rounded-md border px-4 py-3 space-y-2">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono text-xs text-slate-500">
+                        {formatChangeOrderNumber(changeOrder.change_order_number)}
+                      </span>
+                      <span className="font-medium text-slate-900">{changeOrder.title}</span>
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                    </div>
+                    {changeOrder.description && (
+                      <p className="text-sm text-slate-500 mt-1 whitespace-pre-wrap">{changeOrder.description}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className={`font-semibold ${changeOrder.total < 0 ? 'text-red-600' : 'text-slate-900'}`}>
+                      {formatDelta(changeOrder.total)}
+                    </span>
+                    {!changeOrder.invoice_id && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" disabled={updatingId === changeOrder.id}>
+                            {updatingId === changeOrder.id ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <MoreHorizontal className="h-4 w-4" />
+                            )}
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          {changeOrder.status === 'pending' && (
+                            <>
+                              <DropdownMenuItem onClick={() => openDialog(changeOrder)}>
+                                <Pencil className="mr-2 h-4 w-4" />Edit
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => handleStatusChange(changeOrder, 'approved')}>
+                                <CheckCircle className="mr-2 h-4 w-4" />Client Approved
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => handleStatusChange(changeOrder, 'declined')}>
+                                <XCircle className="mr-2 h-4 w-4" />Client Declined
+                              </DropdownMenuItem>
+                            </>
+                          )}
+                          {changeOrder.status !== 'pending' && (
+                            <DropdownMenuItem onClick={() => handleStatusChange(changeOrder, 'pending')}>
+                              <Pencil className="mr-2 h-4 w-4" />Reopen
+                            </DropdownMenuItem>
+                          )}
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem onClick={() => handleDelete(changeOrder)} className="text-red-600">
+                            <Trash2 className="mr-2 h-4 w-4" />Delete
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
+                  </div>
+                </div>
+
+                <ul className="space-y-1 text-sm">
+                  {items.map((item) => (
+                    <li key={item.id} className="flex justify-between gap-3 text-slate-600">
+                      <span>
+                        <span className={item.is_removal ? 'text-red-600' : 'text-green-600'}>
+                          {item.is_removal ? '−' : '+'}
+                        </span>{' '}
+                        {item.description}
+                        <span className="text-slate-400"> · {item.quantity} × {formatCurrency(item.unit_price)}</span>
+                      </span>
+                      <span>{formatDelta(item.amount)}</span>
+                    </li>
+                  ))}
+                </ul>
+
+                {changeOrder.invoice_id && (
+                  <Link
+                    href={`/invoices/${changeOrder.invoice_id}`}
+                    className="inline-flex items-center text-xs text-blue-600 hover:underline"
+                  >
+                    <Receipt className="mr-1 h-3 w-3" />
+                    Billed on invoice
+                  </Link>
+                )}
+              </div>
+            );
+          })
+        )}
+
+        {hasInvoice && unbilledApproved.length > 0 && (
+          <Button variant="outline" size="sm" onClick={handleRollIntoInvoice} disabled={isRolling}>
+            {isRolling ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Receipt className="mr-2 h-4 w-4" />
+            )}
+            Add {unbilledApproved.length} Approved Change Order{unbilledApproved.length !== 1 ? 's' : ''} to Invoice
+          </Button>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+          <ChangeOrderForm
+            estimateId={estimateId}
+            changeOrder={editing}
+            onCancel={() => setDialogOpen(false)}
+            onSaved={() => {
+              setDialogOpen(false);
+              router.refresh();
+            }}
+          />
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+interface ChangeOrderFormProps {
+  estimateId: string;
+  changeOrder: ChangeOrderWithItems | null;
+  onCancel: () => void;
+  onSaved: () => void;
+}
+
+// Mounted each time the dialog opens, so state starts from the change order
+function ChangeOrderForm({ estimateId, changeOrder, onCancel, onSaved }: ChangeOrderFormProps) {
+  const toLineItems = (removal: boolean): LineItem[] =>
+    (changeOrder?.items || [])
+      .filter((item) => item.is_removal === removal)
+      .sort((a, b) => a.sort_order - b.sort_order)
+      .map((item) => ({
+        id: item.id,
+        description: item.description,
+        quantity: item.quantity,
+        unit: item.unit,
+        unit_price: item.unit_price,
+      }));
+
+  const [title, setTitle] = useState(changeOrder?.title || '');
+  const [description, setDescription] = useState(changeOrder?.description || '');
+  const [addedItems, setAddedItems] = useState<LineItem[]>(toLineItems(false));
+  const [removedItems, setRemovedItems] = useState<LineItem[]>(toLineItems(true));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const sumItems = (items: LineItem[]) => items.reduce((sum, item) => sum + item.quantity * item.unit_price, 0);
+  const delta = sumItems(addedItems) - sumItems(removedItems);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const result = await saveChangeOrderAction({
+        id: changeOrder?.id,
+        estimate_id: estimateId,
+        title,
+        description,
+        items: [
+          ...addedItems.map((item) => ({ ...item, is_removal: false })),
+          ...removedItems.map((item) => ({ ...item, is_removal: true })),
+        ],
+      });
+      if (!result.success) {
+        toast.error(result.error || 'Failed to save change order');
+        return;
+      }
+      toast.success(changeOrder ? 'Change order updated' : 'Change order created');
+      onSaved();
+    } catch (error) {
+      console.error('Error saving change order:', error);
+      toast.error('Failed to save change order');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <DialogHeader>
+        <DialogTitle>
+          {changeOrder
+            ? `Edit ${formatChangeOrderNumber(changeOrder.change_order_number)}`
+            : 'New Change Order'}
+        </DialogTitle>
+        <DialogDescription>
+          List the scope being added and any scope being removed from the approved estimate.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="grid gap-4 py-4">
+        <div>
+          <Label htmlFor="change_order_title">
+            Title <span className="text-red-500">*</span>
+          </Label>
+          <Input
+            id="change_order_title"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="e.g. Upgrade to quartz countertops"
+            className="mt-1.5"
+            required
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="change_order_description">Reason / Description</Label>
+          <Textarea
+            id="change_order_description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="e.g. Client requested upgrade during walkthrough on site"
+            rows={2}
+            className="mt-1.5"
+          />
+        </div>
+
+        <div>
+          <Label>Added Scope</Label>
+          <div className="mt-1.5">
+            <LineItems items={addedItems} onChange={setAddedItems} />
+          </div>
+        </div>
+
+        <div>
+          <Label>Removed Scope</Label>
+          <p className="text-xs text-slate-500 mt-1">Credited back to the client</p>
+          <div className="mt-1.5">
+            <LineItems items={removedItems} onChange={setRemovedItems} />
+          </div>
+        </div>
+
+        <div className="flex justify-between rounded-lg bg-slate-50 px-4 py-3">
+          <span className="font-semibold">Price Change</span>
+          <span className={`font-bold ${delta < 0 ? 'text-red-600' : 'text-blue-600'}`}>{formatDelta(delta)}</span>
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSaving}>
+          {isSaving ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            'Save Change Order'
+          )}
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import { DiscountType } from '@/types/database';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface DiscountFieldsProps {
+  discountType: DiscountType | null;
+  discountValue: number | null;
+  onChange: (discountType: DiscountType | null, discountValue: number | null) => void;
+}
+
+// Document discount, taken off the subtotal before tax
+export function DiscountFields({ discountType, discountValue, onChange }: DiscountFieldsProps) {
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      <div>
+        <Label htmlFor="discount_type">Discount</Label>
+        <Select
+          value={discountType || 'none'}
+          onValueChange={(value) => onChange(value === 'none' ? null : (value as DiscountType), discountValue)}
+        >
+          <SelectTrigger id="discount_type" className="mt-1.5">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">No discount</SelectItem>
+            <SelectItem value="percent">Percent of subtotal</SelectItem>
+            <SelectItem value="fixed">Fixed amount</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {discountType && (
+        <div>
+          <Label htmlFor="discount_value">
+            {discountType === 'percent' ? 'Discount (%)' : 'Discount ($)'}
+          </Label>
+          <Input
+            id="discount_value"
+            type="number"
+            min="0"
+            max={discountType === 'percent' ? '100' : undefined}
+            step="0.01"
+            value={discountValue || ''}
+            onChange={(e) => onChange(discountType, parseFloat(e.target.value) || null)}
+            placeholder={discountType === 'percent' ? '10' : '500.00'}
+            className="mt-1.5"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
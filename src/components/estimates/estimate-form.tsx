@@ -1,9 +1,9 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { createClient } from '@/lib/supabase/client';
-import { Client, EstimateStatus } from '@/types/database';
+import { CatalogItem, Client, ClientAddress, ClientContact, DepositType, DiscountType, DocumentTax, EstimateStatus, EstimateTemplate, TaxRate } from '@/types/database';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -25,14 +25,36 @@ import {
   DialogFooter,
 } from '@/components/ui/dialog';
 import { LineItems, LineItem } from './line-items';
+import { TaxPicker } from './tax-picker';
+import { DiscountFields } from './discount-fields';
+import { MarginSummary } from './margin-summary';
+import { SendDialog } from '@/components/clients/send-dialog';
+import { calculateTaxes, getTaxLabel, toDocumentTax } from '@/lib/taxes';
+import { getDepositAmount } from '@/lib/deposits';
+import { getDiscountAmount, getDiscountLabel, getLineAmount } from '@/lib/discounts';
+import { getTotalCost } from '@/lib/margins';
+import { getIncludedLines } from '@/lib/options';
+import { fillPlaceholders, formatTemplateDate, hasPlaceholders, TemplateValues } from '@/lib/templates';
 import { toast } from 'sonner';
 import { Loader2, Send, FileText, Plus, UserPlus } from 'lucide-react';
 import { sendEstimateAction } from '@/app/actions/send-estimate';
+import { saveEstimateAction } from '@/app/actions/save-estimate';
+import { SendRecipients } from '@/lib/client-contacts';
 
 interface EstimateFormProps {
   clients: Client[];
+  taxRates: TaxRate[];
+  catalog: CatalogItem[];
+  // Saved job sites for every client; the picker offers the selected client's
+  addresses?: ClientAddress[];
+  // Contacts for every client; Save & Send offers the selected client's
+  contacts?: ClientContact[];
   userId: string;
   defaultPaymentTerms?: string;
+  // New estimates can start from a saved template instead of a blank form
+  template?: EstimateTemplate | null;
+  // Client chosen up front, e.g. when starting from the client's page
+  defaultClientId?: string;
   initialData?: {
     id?: string;
     client_id: string | null;
@@ -42,38 +64,63 @@ interface EstimateFormProps {
     status: EstimateStatus;
     issue_date: string;
     valid_until: string | null;
-    tax_rate: number;
+    taxes: Omit<DocumentTax, 'amount'>[];
+    discount_type: DiscountType | null;
+    discount_value: number | null;
     notes: string;
     job_site_address: string;
+    job_site_address_id?: string | null;
+    deposit_type: DepositType | null;
+    deposit_value: number | null;
     items: LineItem[];
   };
   mode: 'create' | 'edit';
 }
 
-export function EstimateForm({ clients: initialClients, userId, defaultPaymentTerms, initialData, mode }: EstimateFormProps) {
+// Job site typed in rather than picked from the client's saved addresses
+const OTHER_ADDRESS = 'other';
+
+export function EstimateForm({ clients: initialClients, taxRates, catalog, addresses = [], contacts = [], userId, defaultPaymentTerms, template, defaultClientId, initialData, mode }: EstimateFormProps) {
   const router = useRouter();
   const supabase = createClient();
   const [isSaving, setIsSaving] = useState(false);
+  const [showSendDialog, setShowSendDialog] = useState(false);
 
   // Local clients list so inline creation can extend it
   const [clientsList, setClientsList] = useState<Client[]>(initialClients);
 
   // Form state
-  const [clientId, setClientId] = useState(initialData?.client_id || '');
+  const [clientId, setClientId] = useState(initialData?.client_id || defaultClientId || '');
   const [estimateNumber, setEstimateNumber] = useState(initialData?.estimate_number || '');
-  const [title, setTitle] = useState(initialData?.title || '');
-  const [description, setDescription] = useState(initialData?.description || '');
+  const [title, setTitle] = useState(initialData?.title || template?.title || '');
+  const [description, setDescription] = useState(initialData?.description || template?.description || '');
   const [status, setStatus] = useState<EstimateStatus>(initialData?.status || 'draft');
   const [issueDate, setIssueDate] = useState(initialData?.issue_date || new Date().toISOString().split('T')[0]);
   const [validUntil, setValidUntil] = useState(initialData?.valid_until || '');
-  const [taxRate, setTaxRate] = useState(initialData?.tax_rate || 0);
+  // New documents start with the taxes marked as default in Settings
+  const [taxes, setTaxes] = useState<Omit<DocumentTax, 'amount'>[]>(
+    initialData?.taxes ?? template?.taxes ?? taxRates.filter((taxRate) => taxRate.is_default).map(toDocumentTax)
+  );
   const [notes, setNotes] = useState(
     initialData?.notes !== undefined
       ? initialData.notes
-      : (mode === 'create' ? defaultPaymentTerms || '' : '')
+      : (mode === 'create' ? template?.notes || defaultPaymentTerms || '' : '')
   );
   const [jobSiteAddress, setJobSiteAddress] = useState(initialData?.job_site_address || '');
-  const [items, setItems] = useState<LineItem[]>(initialData?.items || []);
+  const [jobSiteAddressId, setJobSiteAddressId] = useState<string | null>(initialData?.job_site_address_id || null);
+  const [discountType, setDiscountType] = useState<DiscountType | null>(
+    initialData?.discount_type || template?.discount_type || null
+  );
+  const [discountValue, setDiscountValue] = useState<number | null>(
+    initialData?.discount_value || template?.discount_value || null
+  );
+  const [depositType, setDepositType] = useState<DepositType | 'none'>(initialData?.deposit_type || 'none');
+  const [depositValue, setDepositValue] = useState(initialData?.deposit_value || 0);
+  const [items, setItems] = useState<LineItem[]>(
+    initialData?.items
+      || template?.items.map((item) => ({ ...item, id: crypto.randomUUID() }))
+      || []
+  );
 
   // Inline client creation state
   const [showNewClientDialog, setShowNewClientDialog] = useState(false);
@@ -82,19 +129,16 @@ export function EstimateForm({ clients: initialClients, userId, defaultPaymentTe
   const [newClientPhone, setNewClientPhone] = useState('');
   const [isCreatingClient, setIsCreatingClient] = useState(false);
 
-  // Generate estimate number on mount for new estimates
-  useEffect(() => {
-    if (mode === 'create' && !estimateNumber) {
-      const prefix = 'EST';
-      const timestamp = Date.now().toString().slice(-6);
-      setEstimateNumber(`${prefix}-${timestamp}`);
-    }
-  }, [mode, estimateNumber]);
 
   // Calculations
-  const subtotal = items.reduce((sum, item) => sum + item.quantity * item.unit_price, 0);
-  const taxAmount = subtotal * (taxRate / 100);
-  const total = subtotal + taxAmount;
+  // Optional and alternate lines the client hasn't picked are left out
+  const includedItems = getIncludedLines(items);
+  const subtotal = includedItems.reduce((sum, item) => sum + getLineAmount(item), 0);
+  const discountAmount = getDiscountAmount(subtotal, discountType, discountValue);
+  const { taxes: taxBreakdown, taxAmount } = calculateTaxes(includedItems, taxes, discountAmount);
+  const total = subtotal - discountAmount + taxAmount;
+  const depositAmount = getDepositAmount(total, depositType === 'none' ? null : depositType, depositValue);
+  const totalCost = getTotalCost(includedItems);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -127,7 +171,7 @@ export function EstimateForm({ clients: initialClients, userId, defaultPaymentTe
       setClientsList(prev =>
         [...prev, created].sort((a, b) => a.name.localeCompare(b.name))
       );
-      setClientId(created.id);
+      handleClientChange(created.id);
       setShowNewClientDialog(false);
       setNewClientName('');
       setNewClientEmail('');
@@ -140,132 +184,121 @@ export function EstimateForm({ clients: initialClients, userId, defaultPaymentTe
     }
   };
 
-  const handleSubmit = async (saveStatus: EstimateStatus = status, sendEmail: boolean = false) => {
+  const selectedClient = clientsList.find((c) => c.id === clientId);
+  const clientAddresses = addresses.filter((address) => address.client_id === clientId);
+  const clientContacts = contacts.filter((contact) => contact.client_id === clientId);
+  const hasContactEmail = clientContacts.some((contact) => contact.email);
+  const hasUnfilledPlaceholders = [title, description, notes, ...items.map((item) => item.description)]
+    .some(hasPlaceholders);
+
+  // Placeholders from a template are filled from whatever is known at save
+  // time; the rest stay in place until a later save can fill them
+  const fill = (text: string) => {
+    const values: TemplateValues = {
+      client_name: selectedClient?.name,
+      client_email: selectedClient?.email,
+      client_phone: selectedClient?.phone,
+      client_address: selectedClient?.address,
+      job_site_address: jobSiteAddress,
+      issue_date: formatTemplateDate(issueDate),
+      valid_until: formatTemplateDate(validUntil),
+    };
+    return fillPlaceholders(text, values);
+  };
+
+  // A saved job site belongs to the client it was picked for
+  const handleClientChange = (value: string) => {
+    setClientId(value === 'none' ? '' : value);
+    if (jobSiteAddressId) {
+      setJobSiteAddressId(null);
+      setJobSiteAddress('');
+    }
+  };
+
+  // The address text is copied onto the estimate, so later edits to the
+  // saved address don't change what was quoted
+  const handleJobSiteChange = (value: string) => {
+    const address = clientAddresses.find((a) => a.id === value);
+    setJobSiteAddressId(address?.id ?? null);
+    if (address) setJobSiteAddress(address.address);
+  };
+
+  // Clients with contacts choose who receives it before anything is saved;
+  // otherwise it goes to the client's own email
+  const handleSubmit = async (
+    saveStatus: EstimateStatus = status,
+    sendEmail: boolean = false,
+    recipients?: SendRecipients
+  ) => {
     if (!title.trim()) {
       toast.error('Please enter an estimate title');
-      return;
+      return false;
     }
 
-    if (!estimateNumber.trim()) {
+    // New estimates are numbered from the account's sequence when left blank
+    if (mode === 'edit' && !estimateNumber.trim()) {
       toast.error('Please enter an estimate number');
-      return;
+      return false;
     }
 
     if (items.length === 0) {
       toast.error('Please add at least one line item');
-      return;
+      return false;
     }
 
     if (sendEmail) {
       if (!clientId) {
         toast.error('Please select a client to send the estimate');
-        return;
+        return false;
       }
-      const selectedClient = clientsList.find(c => c.id === clientId);
-      if (!selectedClient?.email) {
+      if (!selectedClient?.email && !hasContactEmail) {
         toast.error('Selected client does not have an email address');
-        return;
+        return false;
+      }
+      if (!recipients && hasContactEmail) {
+        setShowSendDialog(true);
+        return false;
       }
     }
 
     setIsSaving(true);
 
     try {
-      let estimateId: string;
-
-      if (mode === 'create') {
-        const { data: estimate, error: estimateError } = await supabase
-          .from('estimates')
-          .insert({
-            user_id: userId,
-            client_id: clientId || null,
-            estimate_number: estimateNumber,
-            title,
-            description: description || null,
-            status: sendEmail ? 'draft' : saveStatus,
-            issue_date: issueDate,
-            valid_until: validUntil || null,
-            subtotal,
-            tax_rate: taxRate,
-            tax_amount: taxAmount,
-            total,
-            notes: notes || null,
-            job_site_address: jobSiteAddress || null,
-          })
-          .select()
-          .single();
-
-        if (estimateError) throw estimateError;
-        estimateId = estimate.id;
-
-        const itemsToInsert = items.map((item, index) => ({
-          estimate_id: estimate.id,
-          description: item.description,
-          quantity: item.quantity,
-          unit: item.unit,
-          unit_price: item.unit_price,
-          sort_order: index,
-        }));
-
-        const { error: itemsError } = await supabase
-          .from('estimate_items')
-          .insert(itemsToInsert);
-
-        if (itemsError) throw itemsError;
-      } else {
-        estimateId = initialData!.id!;
-
-        const { error: estimateError } = await supabase
-          .from('estimates')
-          .update({
-            client_id: clientId || null,
-            estimate_number: estimateNumber,
-            title,
-            description: description || null,
-            status: sendEmail ? initialData!.status : saveStatus,
-            issue_date: issueDate,
-            valid_until: validUntil || null,
-            subtotal,
-            tax_rate: taxRate,
-            tax_amount: taxAmount,
-            total,
-            notes: notes || null,
-            job_site_address: jobSiteAddress || null,
-          })
-          .eq('id', initialData!.id);
-
-        if (estimateError) throw estimateError;
-
-        await supabase
-          .from('estimate_items')
-          .delete()
-          .eq('estimate_id', initialData!.id);
-
-        const itemsToInsert = items.map((item, index) => ({
-          estimate_id: initialData!.id,
-          description: item.description,
-          quantity: item.quantity,
-          unit: item.unit,
-          unit_price: item.unit_price,
-          sort_order: index,
-        }));
-
-        if (itemsToInsert.length > 0) {
-          const { error: itemsError } = await supabase
-            .from('estimate_items')
-            .insert(itemsToInsert);
-
-          if (itemsError) throw itemsError;
-        }
+      const saved = await saveEstimateAction({
+        id: initialData?.id,
+        client_id: clientId,
+        estimate_number: estimateNumber,
+        title: fill(title),
+        description: fill(description),
+        // A sent estimate is marked sent by the email step, not here
+        status: sendEmail ? (mode === 'create' ? 'draft' : initialData!.status) : saveStatus,
+        issue_date: issueDate,
+        valid_until: validUntil,
+        taxes,
+        discount_type: discountType,
+        discount_value: discountValue,
+        notes: fill(notes),
+        job_site_address: jobSiteAddress,
+        job_site_address_id: jobSiteAddressId,
+        deposit_type: depositType === 'none' ? null : depositType,
+        deposit_value: depositType === 'none' ? null : depositValue,
+        items: items.map((item) => ({ ...item, description: fill(item.description) })),
+      });
+
+      if (!saved.success || !saved.id) {
+        toast.error(saved.error || 'Failed to save estimate. Please try again.');
+        return false;
       }
 
+      const estimateId = saved.id;
+
       if (sendEmail) {
-        const result = await sendEstimateAction({ estimateId });
+        const result = await sendEstimateAction({ estimateId, recipients });
         if (!result.success) {
           toast.error(result.error || 'Failed to send email');
           router.push(`/estimates/${estimateId}`);
           router.refresh();
-          return;
+          return false;
         }
         toast.success('Estimate sent successfully!');
       } else {
@@ -274,9 +307,11 @@ export function EstimateForm({ clients: initialClients, userId, defaultPaymentTe
 
       router.push(`/estimates/${estimateId}`);
       router.refresh();
+      return true;
     } catch (error) {
       console.error('Error saving estimate:', error);
       toast.error('Failed to save estimate. Please try again.');
+      return false;
     } finally {
       setIsSaving(false);
     }
@@ -284,6 +319,12 @@ export function EstimateForm({ clients: initialClients, userId, defaultPaymentTe
 
   return (
     <div className="space-y-6">
+      {hasUnfilledPlaceholders && (
+        <div className="rounded-lg border border-blue-200 bg-blue-50 px-4 py-3 text-sm text-blue-700">
+          Placeholders such as {'{{client_name}}'} are filled in from the client, job site and dates when you save.
+        </div>
+      )}
+
       {/* Client — Full Width at Top */}
       <Card>
         <CardHeader>
@@ -294,7 +335,7 @@ export function EstimateForm({ clients: initialClients, userId, defaultPaymentTe
             <div className="flex-1">
               <Select
                 value={clientId || 'none'}
-                onValueChange={(v) => setClientId(v === 'none' ? '' : v)}
+                onValueChange={handleClientChange}
               >
                 <SelectTrigger>
                   <SelectValue placeholder="Select a client..." />
@@ -321,14 +362,33 @@ export function EstimateForm({ clients: initialClients, userId, defaultPaymentTe
 
           <div>
             <Label htmlFor="job_site_address">Job Site Address</Label>
-            <Textarea
-              id="job_site_address"
-              value={jobSiteAddress}
-              onChange={(e) => setJobSiteAddress(e.target.value)}
-              placeholder={'123 Work Site Drive\nCity, ST 12345'}
-              rows={2}
-              className="mt-1.5"
-            />
+            {clientAddresses.length > 0 && (
+              <Select value={jobSiteAddressId || OTHER_ADDRESS} onValueChange={handleJobSiteChange}>
+                <SelectTrigger className="mt-1.5">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {clientAddresses.map((address) => (
+                    <SelectItem key={address.id} value={address.id}>
+                      {address.label}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={OTHER_ADDRESS}>Other address</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+            {jobSiteAddressId ? (
+              <p className="text-sm text-slate-600 whitespace-pre-line mt-2">{jobSiteAddress}</p>
+            ) : (
+              <Textarea
+                id="job_site_address"
+                value={jobSiteAddress}
+                onChange={(e) => setJobSiteAddress(e.target.value)}
+                placeholder={'123 Work Site Drive\nCity, ST 12345'}
+                rows={2}
+                className="mt-1.5"
+              />
+            )}
             <p className="text-xs text-slate-500 mt-1">
               Where the work will be performed (separate from client billing address)
             </p>
@@ -350,7 +410,7 @@ export function EstimateForm({ clients: initialClients, userId, defaultPaymentTe
                   id="estimate_number"
                   value={estimateNumber}
                   onChange={(e) => setEstimateNumber(e.target.value)}
-                  placeholder="EST-001"
+                  placeholder={mode === 'create' ? 'Assigned on save' : 'EST-001'}
                   className="mt-1.5"
                 />
               </div>
@@ -397,7 +457,7 @@ export function EstimateForm({ clients: initialClients, userId, defaultPaymentTe
 
         <Card>
           <CardHeader>
-            <CardTitle className="text-lg">Dates & Tax</CardTitle>
+            <CardTitle className="text-lg">Dates & Pricing</CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="grid gap-4 sm:grid-cols-2">
@@ -424,18 +484,53 @@ export function EstimateForm({ clients: initialClients, userId, defaultPaymentTe
             </div>
 
             <div>
-              <Label htmlFor="tax_rate">Tax Rate (%)</Label>
-              <Input
-                id="tax_rate"
-                type="number"
-                min="0"
-                max="100"
-                step="0.01"
-                value={taxRate}
-                onChange={(e) => setTaxRate(parseFloat(e.target.value) || 0)}
-                placeholder="8.25"
-                className="mt-1.5"
-              />
+              <Label>Taxes</Label>
+              <div className="mt-1.5">
+                <TaxPicker taxRates={taxRates} taxes={taxes} onChange={setTaxes} />
+              </div>
+            </div>
+
+            <DiscountFields
+              discountType={discountType}
+              discountValue={discountValue}
+              onChange={(type, value) => {
+                setDiscountType(type);
+                setDiscountValue(value);
+              }}
+            />
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div>
+                <Label htmlFor="deposit_type">Deposit on Approval</Label>
+                <Select value={depositType} onValueChange={(v) => setDepositType(v as DepositType | 'none')}>
+                  <SelectTrigger id="deposit_type" className="mt-1.5">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No deposit</SelectItem>
+                    <SelectItem value="percent">Percent of total</SelectItem>
+                    <SelectItem value="fixed">Fixed amount</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {depositType !== 'none' && (
+                <div>
+                  <Label htmlFor="deposit_value">
+                    {depositType === 'percent' ? 'Deposit (%)' : 'Deposit ($)'}
+                  </Label>
+                  <Input
+                    id="deposit_value"
+                    type="number"
+                    min="0"
+                    max={depositType === 'percent' ? '100' : undefined}
+                    step="0.01"
+                    value={depositValue || ''}
+                    onChange={(e) => setDepositValue(parseFloat(e.target.value) || 0)}
+                    placeholder={depositType === 'percent' ? '25' : '1000.00'}
+                    className="mt-1.5"
+                  />
+                </div>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -447,7 +542,7 @@ export function EstimateForm({ clients: initialClients, userId, defaultPaymentTe
           <CardTitle className="text-lg">Line Items</CardTitle>
         </CardHeader>
         <CardContent>
-          <LineItems items={items} onChange={setItems} />
+          <LineItems items={items} onChange={setItems} showTaxable showDiscount showCost showSections showOptions catalog={catalog} />
         </CardContent>
       </Card>
 
@@ -476,15 +571,30 @@ export function EstimateForm({ clients: initialClients, userId, defaultPaymentTe
               <span className="text-slate-500">Subtotal</span>
               <span className="font-medium">{formatCurrency(subtotal)}</span>
             </div>
-            <div className="flex justify-between text-sm">
-              <span className="text-slate-500">Tax ({taxRate}%)</span>
-              <span className="font-medium">{formatCurrency(taxAmount)}</span>
-            </div>
+            {discountAmount > 0 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-slate-500">{getDiscountLabel(discountType, discountValue)}</span>
+                <span className="font-medium text-green-600">-{formatCurrency(discountAmount)}</span>
+              </div>
+            )}
+            {taxBreakdown.map((tax) => (
+              <div key={tax.name} className="flex justify-between text-sm">
+                <span className="text-slate-500">{getTaxLabel(tax)}</span>
+                <span className="font-medium">{formatCurrency(tax.amount)}</span>
+              </div>
+            ))}
             <Separator />
             <div className="flex justify-between text-lg">
               <span className="font-semibold">Total</span>
               <span className="font-bold text-blue-600">{formatCurrency(total)}</span>
             </div>
+            {depositAmount > 0 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-slate-500">Deposit due on approval</span>
+                <span className="font-medium">{formatCurrency(depositAmount)}</span>
+              </div>
+            )}
+            <MarginSummary revenue={subtotal - discountAmount} cost={totalCost} />
           </CardContent>
         </Card>
       </div>
@@ -590,6 +700,18 @@ export function EstimateForm({ clients: initialClients, userId, defaultPaymentTe
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {showSendDialog && selectedClient && (
+        <SendDialog
+          title="Save & Send Estimate"
+          client={selectedClient}
+          contacts={clientContacts}
+          defaultRole="decision_maker"
+          open={showSendDialog}
+          onOpenChange={setShowSendDialog}
+          onSend={(recipients) => handleSubmit('sent', true, recipients)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,249 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { EstimateRevision, EstimateSnapshot } from '@/types/database';
+import { diffEstimateSnapshots, ItemDiff } from '@/lib/revisions';
+import { formatDiscount, getLineAmount } from '@/lib/discounts';
+import { restoreEstimateRevisionAction } from '@/app/actions/estimate-revisions';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+
+interface EstimateRevisionsProps {
+  estimateId: string;
+  revisions: EstimateRevision[];
+  current: EstimateSnapshot;
+}
+
+const CURRENT = 'current';
+
+const changeConfig: Record<ItemDiff['type'], { label: string; className: string }> = {
+  added: { label: 'Added', className: 'bg-green-50 text-green-700 border-green-200' },
+  removed: { label: 'Removed', className: 'bg-red-50 text-red-700 border-red-200' },
+  changed: { label: 'Changed', className: 'bg-amber-50 text-amber-700 border-amber-200' },
+  unchanged: { label: 'Unchanged', className: '' },
+};
+
+export function EstimateRevisions({ estimateId, revisions, current }: EstimateRevisionsProps) {
+  const router = useRouter();
+  const sorted = [...revisions].sort((a, b) => b.revision_number - a.revision_number);
+  const currentNumber = (sorted[0]?.revision_number ?? 0) + 1;
+
+  const [fromId, setFromId] = useState(sorted[0]?.id ?? '');
+  const [toId, setToId] = useState(CURRENT);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+  };
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  };
+
+  if (sorted.length === 0) return null;
+
+  const fromRevision = sorted.find((r) => r.id === fromId) ?? sorted[0];
+  const toRevision = toId === CURRENT ? null : sorted.find((r) => r.id === toId) ?? null;
+  const toSnapshot = toRevision ? toRevision.snapshot : current;
+  const toLabel = toRevision ? `Revision ${toRevision.revision_number}` : 'current';
+
+  const diff = diffEstimateSnapshots(fromRevision.snapshot, toSnapshot);
+  const changedItems = diff.items.filter((item) => item.type !== 'unchanged');
+  const unchangedCount = diff.items.length - changedItems.length;
+
+  const handleRestore = async () => {
+    if (!confirm(`Restore Revision ${fromRevision.revision_number}? The current version will be kept as a new revision.`)) {
+      return;
+    }
+    setIsRestoring(true);
+    try {
+      const result = await restoreEstimateRevisionAction({ estimateId, revisionId: fromRevision.id });
+      if (!result.success) {
+        toast.error(result.error || 'Failed to restore revision');
+        return;
+      }
+      toast.success(`Revision ${fromRevision.revision_number} restored`);
+      setFromId('');
+      setToId(CURRENT);
+      router.refresh();
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      toast.error('Failed to restore revision');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const renderItemValue = (change: ItemDiff) => {
+    const item = change.after ?? change.before!;
+    const amount = getLineAmount(item);
+    if (change.type !== 'changed') {
+      return (
+        <span className={change.type === 'removed' ? 'line-through' : ''}>
+          {item.quantity} {item.unit} × {formatCurrency(item.unit_price)} = {formatCurrency(amount)}
+        </span>
+      );
+    }
+    const before = change.before!;
+    const beforeAmount = getLineAmount(before);
+    const discountChanged = change.changedFields.includes('discount_type')
+      || change.changedFields.includes('discount_value');
+    return (
+      <span>
+        <span className="text-slate-400 line-through">
+          {before.quantity} {before.unit} × {formatCurrency(before.unit_price)}
+        </span>{' '}
+        → {item.quantity} {item.unit} × {formatCurrency(item.unit_price)}
+        {beforeAmount !== amount && (
+          <> ({formatCurrency(beforeAmount)} → {formatCurrency(amount)})</>
+        )}
+        {discountChanged && (
+          <> · {item.discount_type && item.discount_value
+            ? formatDiscount(item.discount_type, item.discount_value)
+            : 'no discount'}</>
+        )}
+        {change.changedFields.includes('taxable') && (
+          <> · {item.taxable ? 'now taxed' : 'no longer taxed'}</>
+        )}
+        {change.changedFields.includes('unit_cost') && (
+          <> · cost {formatCurrency(before.unit_cost)} → {formatCurrency(item.unit_cost)}</>
+        )}
+        {change.changedFields.includes('section') && (
+          <> · {item.section ? `moved to ${item.section}` : 'moved out of its section'}</>
+        )}
+        {(change.changedFields.includes('is_optional') || change.changedFields.includes('alternate_group')) && (
+          <> · {item.is_optional
+            ? 'now optional'
+            : item.alternate_group ? `now an alternate in ${item.alternate_group}` : 'now included'}</>
+        )}
+        {change.changedFields.includes('is_selected') && (
+          <> · {item.is_selected ? 'selected' : 'deselected'}</>
+        )}
+      </span>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <History className="h-5 w-5 text-slate-400" />
+          Revisions
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-slate-500">Compare</span>
+          <Select value={fromRevision.id} onValueChange={setFromId}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {sorted.map((revision) => (
+                <SelectItem key={revision.id} value={revision.id}>
+                  Revision {revision.revision_number} · {formatDate(revision.created_at)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-slate-500">with</span>
+          <Select value={toId} onValueChange={setToId}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={CURRENT}>Revision {currentNumber} (current)</SelectItem>
+              {sorted
+                .filter((revision) => revision.id !== fromRevision.id)
+                .map((revision) => (
+                  <SelectItem key={revision.id} value={revision.id}>
+                    Revision {revision.revision_number} · {formatDate(revision.created_at)}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center justify-between rounded-lg bg-slate-50 px-4 py-3 text-sm">
+          <span className="text-slate-600">
+            Total {formatCurrency(fromRevision.snapshot.total)} → {formatCurrency(toSnapshot.total)}
+          </span>
+          <span
+            className={`font-semibold ${
+              diff.totalDelta > 0 ? 'text-green-600' : diff.totalDelta < 0 ? 'text-red-600' : 'text-slate-500'
+            }`}
+          >
+            {diff.totalDelta > 0 ? '+' : diff.totalDelta < 0 ? '−' : ''}
+            {formatCurrency(Math.abs(diff.totalDelta))}
+          </span>
+        </div>
+
+        {changedItems.length === 0 && diff.fields.length === 0 ? (
+          <p className="text-sm text-slate-500">
+            No differences between Revision {fromRevision.revision_number} and {toLabel}.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {changedItems.map((change) => {
+              const item = change.after ?? change.before!;
+              const config = changeConfig[change.type];
+              return (
+                <div key={item.id} className="flex items-start gap-3 rounded-md border px-3 py-2 text-sm">
+                  <Badge variant="outline" className={config.className}>{config.label}</Badge>
+                  <div className="min-w-0 flex-1">
+                    <p className={`font-medium text-slate-900 ${change.type === 'removed' ? 'line-through' : ''}`}>
+                      {change.changedFields.includes('description') && (
+                        <span className="text-slate-400 line-through mr-1">{change.before!.description}</span>
+                      )}
+                      {item.description}
+                    </p>
+                    <p className="text-slate-500">{renderItemValue(change)}</p>
+                  </div>
+                </div>
+              );
+            })}
+            {diff.fields.map((field) => (
+              <div key={field.label} className="flex items-start gap-3 rounded-md border px-3 py-2 text-sm">
+                <Badge variant="outline" className={changeConfig.changed.className}>{field.label}</Badge>
+                <p className="min-w-0 flex-1 text-slate-600 whitespace-pre-wrap">
+                  <span className="text-slate-400 line-through">{field.before || '—'}</span>
+                  {' → '}
+                  {field.after || '—'}
+                </p>
+              </div>
+            ))}
+            {unchangedCount > 0 && (
+              <p className="text-xs text-slate-400">
+                {unchangedCount} unchanged item{unchangedCount !== 1 ? 's' : ''}
+              </p>
+            )}
+          </div>
+        )}
+
+        <Button variant="outline" size="sm" onClick={handleRestore} disabled={isRestoring}>
+          {isRestoring ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <RotateCcw className="mr-2 h-4 w-4" />
+          )}
+          Restore Revision {fromRevision.revision_number}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,9 @@
 'use client';
 
+import { Fragment, useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
 import {
   Select,
   SelectContent,
@@ -17,7 +19,37 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import { Plus, Trash2, GripVertical } from 'lucide-react';
+import {
+  Plus,
+  Trash2,
+  GripVertical,
+  ChevronDown,
+  ChevronRight,
+  ChevronUp,
+  FolderPlus,
+} from 'lucide-react';
+import { UNITS, getUnitLabel } from '@/lib/units';
+import { formatDiscount, getLineAmount } from '@/lib/discounts';
+import { getCatalogDescription } from '@/lib/catalog';
+import { getMarkupPercent, getMarkupPrice } from '@/lib/margins';
+import {
+  flattenSections,
+  getAdjacentMove,
+  getNewSectionName,
+  getSectionSubtotal,
+  groupBySection,
+  LineSection,
+  moveLine,
+} from '@/lib/sections';
+import {
+  getLineOption,
+  isLineIncluded,
+  LineOption,
+  selectAlternate,
+  setLineOption,
+} from '@/lib/options';
+import { CatalogItem, DiscountType } from '@/types/database';
+import { CatalogTypeahead } from './catalog-typeahead';
 
 export interface LineItem {
   id: string;
@@ -25,41 +57,170 @@ export interface LineItem {
   quantity: number;
   unit: string;
   unit_price: number;
+  taxable?: boolean;
+  discount_type?: DiscountType | null;
+  discount_value?: number | null;
+  unit_cost?: number;
+  markup_percent?: number;
+  section?: string | null;
+  is_optional?: boolean;
+  alternate_group?: string | null;
+  is_selected?: boolean;
 }
 
 interface LineItemsProps {
   items: LineItem[];
   onChange: (items: LineItem[]) => void;
   readOnly?: boolean;
+  // Estimates and invoices mark which lines are taxed; change orders don't
+  showTaxable?: boolean;
+  // Likewise for per-line discounts
+  showDiscount?: boolean;
+  // Price book items suggested while typing a description
+  catalog?: CatalogItem[];
+  // Internal cost and markup columns, for estimates only
+  showCost?: boolean;
+  // Controls for adding and editing sections. Read-only tables always group
+  // lines that have one.
+  showSections?: boolean;
+  // Optional and alternate lines, for estimates only
+  showOptions?: boolean;
 }
 
-const UNITS = [
-  { value: 'each', label: 'Each' },
-  { value: 'sqft', label: 'Sq Ft' },
-  { value: 'lnft', label: 'Ln Ft' },
-  { value: 'hr', label: 'Hour' },
-  { value: 'day', label: 'Day' },
-  { value: 'lot', label: 'Lot' },
-  { value: 'job', label: 'Job' },
-];
-
-export function LineItems({ items, onChange, readOnly = false }: LineItemsProps) {
-  const addItem = () => {
-    const newItem: LineItem = {
-      id: crypto.randomUUID(),
-      description: '',
-      quantity: 1,
-      unit: 'each',
-      unit_price: 0,
-    };
-    onChange([...items, newItem]);
+export function LineItems({
+  items,
+  onChange,
+  readOnly = false,
+  showTaxable = false,
+  showDiscount = false,
+  catalog,
+  showCost = false,
+  showSections = false,
+  showOptions = false,
+}: LineItemsProps) {
+  // Collapsed sections, by name. Only affects the editor.
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const createItem = (section: string | null): LineItem => ({
+    id: crypto.randomUUID(),
+    description: '',
+    quantity: 1,
+    unit: 'each',
+    unit_price: 0,
+    taxable: true,
+    section,
+  });
+
+  // New lines go at the end of their section
+  const addItem = (section: string | null = null) => {
+    onChange(flattenSections(groupBySection([...items, createItem(section)])));
+  };
+
+  const addSection = () => {
+    onChange([...items, createItem(getNewSectionName(items))]);
+  };
+
+  const renameSection = (from: string, to: string) => {
+    onChange(items.map((item) => (item.section === from ? { ...item, section: to } : item)));
+    if (collapsed.has(from)) {
+      setCollapsed((prev) => new Set([...prev].map((name) => (name === from ? to : name))));
+    }
+  };
+
+  const removeSection = (section: LineSection<LineItem>) => {
+    const hasContent = section.items.some((item) => item.description.trim());
+    if (hasContent && !confirm(`Remove the "${section.name}" section and its ${section.items.length} line item(s)?`)) {
+      return;
+    }
+    onChange(items.filter((item) => item.section !== section.name));
+  };
+
+  const toggleSection = (name: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(name)) {
+        next.delete(name);
+      } else {
+        next.add(name);
+      }
+      return next;
+    });
+  };
+
+  // Line being dragged, and where it would land if dropped now
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ id: string; position: 'before' | 'after' } | null>(null);
+
+  // Rows are re-inserted when they move, so the handle that moved a line
+  // gets focus back once the new order renders
+  const handleRefs = useRef(new Map<string, HTMLButtonElement>());
+  const refocusId = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!refocusId.current) return;
+    handleRefs.current.get(refocusId.current)?.focus();
+    refocusId.current = null;
+  }, [items]);
+
+  const placeItem = (id: string, targetId: string, position: 'before' | 'after') => {
+    const target = items.find((item) => item.id === targetId);
+    if (target?.section != null && collapsed.has(target.section)) {
+      toggleSection(target.section);
+    }
+    onChange(moveLine(items, id, targetId, position));
+  };
+
+  const moveItem = (id: string, direction: 'up' | 'down') => {
+    const move = getAdjacentMove(items, id, direction);
+    if (!move) return;
+    refocusId.current = id;
+    placeItem(id, move.targetId, move.position);
+  };
+
+  const handleHandleKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>, id: string) => {
+    if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+      e.preventDefault();
+      moveItem(id, e.key === 'ArrowUp' ? 'up' : 'down');
+    }
+  };
+
+  const handleDragStart = (e: React.DragEvent<HTMLButtonElement>, id: string) => {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', id);
+    const row = e.currentTarget.closest('tr');
+    if (row) e.dataTransfer.setDragImage(row, 16, 16);
+    setDraggingId(id);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLTableRowElement>, id: string) => {
+    if (!draggingId) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    const rect = e.currentTarget.getBoundingClientRect();
+    const position = e.clientY < rect.top + rect.height / 2 ? 'before' : 'after';
+    if (dropTarget?.id !== id || dropTarget.position !== position) {
+      setDropTarget({ id, position });
+    }
+  };
+
+  const handleDragEnd = () => {
+    setDraggingId(null);
+    setDropTarget(null);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLTableRowElement>) => {
+    e.preventDefault();
+    if (draggingId && dropTarget) {
+      placeItem(draggingId, dropTarget.id, dropTarget.position);
+    }
+    handleDragEnd();
   };
 
   const removeItem = (id: string) => {
     onChange(items.filter((item) => item.id !== id));
   };
 
-  const updateItem = (id: string, field: keyof LineItem, value: string | number) => {
+  const updateItem = (id: string, field: keyof LineItem, value: string | number | boolean) => {
     onChange(
       items.map((item) =>
         item.id === id ? { ...item, [field]: value } : item
@@ -67,8 +228,68 @@ export function LineItems({ items, onChange, readOnly = false }: LineItemsProps)
     );
   };
 
-  const calculateAmount = (quantity: number, unitPrice: number) => {
-    return quantity * unitPrice;
+  // Picking from the price book fills the row but keeps the quantity
+  const applyCatalogItem = (id: string, catalogItem: CatalogItem) => {
+    onChange(
+      items.map((item) =>
+        item.id === id
+          ? {
+              ...item,
+              description: getCatalogDescription(catalogItem),
+              unit: catalogItem.unit,
+              unit_price: Number(catalogItem.unit_price),
+              taxable: catalogItem.taxable,
+              unit_cost: Number(catalogItem.unit_cost),
+              markup_percent: Number(catalogItem.markup_percent),
+            }
+          : item
+      )
+    );
+  };
+
+  // Cost and markup set the price, and typing a price works the markup out.
+  // The first cost entered on a priced line keeps the price too.
+  const updatePricing = (item: LineItem, field: 'unit_cost' | 'markup_percent' | 'unit_price', value: number) => {
+    const next = { ...item, [field]: value };
+    const hadCost = (item.unit_cost ?? 0) > 0;
+    if (field === 'unit_price' || (field === 'unit_cost' && !hadCost)) {
+      next.markup_percent = getMarkupPercent(next.unit_cost ?? 0, next.unit_price);
+    } else if ((next.unit_cost ?? 0) > 0) {
+      next.unit_price = getMarkupPrice(next.unit_cost ?? 0, next.markup_percent ?? 0);
+    }
+    onChange(items.map((i) => (i.id === item.id ? next : i)));
+  };
+
+  // A new alternate joins the nearest alternate group above it
+  const updateOption = (item: LineItem, option: LineOption) => {
+    const index = items.indexOf(item);
+    const group = items
+      .slice(0, index)
+      .reverse()
+      .find((other) => other.alternate_group != null)?.alternate_group;
+    onChange(setLineOption(items, item.id, option, group ?? undefined));
+  };
+
+  const updateSelected = (item: LineItem, selected: boolean) => {
+    if (item.alternate_group != null) {
+      if (selected) onChange(selectAlternate(items, item.id));
+      return;
+    }
+    updateItem(item.id, 'is_selected', selected);
+  };
+
+  // Entering a value without picking a type gives a percent discount
+  const updateDiscount = (
+    item: LineItem,
+    discount: Partial<Pick<LineItem, 'discount_type' | 'discount_value'>>
+  ) => {
+    onChange(
+      items.map((i) =>
+        i.id === item.id
+          ? { ...i, discount_type: i.discount_type || 'percent', ...discount }
+          : i
+      )
+    );
   };
 
   const formatCurrency = (amount: number) => {
@@ -78,6 +299,308 @@ export function LineItems({ items, onChange, readOnly = false }: LineItemsProps)
     }).format(amount);
   };
 
+  const columnCount = 7
+    + (showTaxable ? 1 : 0)
+    + (showDiscount ? 1 : 0)
+    + (showCost ? 2 : 0)
+    + (showOptions ? 1 : 0);
+
+  const renderItemRow = (item: LineItem) => {
+    const canMoveUp = getAdjacentMove(items, item.id, 'up') !== null;
+    const canMoveDown = getAdjacentMove(items, item.id, 'down') !== null;
+    const dropPosition = dropTarget?.id === item.id && draggingId !== item.id ? dropTarget.position : null;
+
+    return (
+      <TableRow
+        key={item.id}
+        onDragOver={(e) => handleDragOver(e, item.id)}
+        onDrop={handleDrop}
+        className={[
+          draggingId === item.id ? 'opacity-50' : '',
+          dropPosition === 'before' ? 'shadow-[inset_0_2px_0_0_#3b82f6]' : '',
+          dropPosition === 'after' ? 'shadow-[inset_0_-2px_0_0_#3b82f6]' : '',
+        ].join(' ')}
+      >
+        <TableCell className="text-slate-400">
+          <div className="flex flex-col items-center">
+            <button
+              type="button"
+              onClick={() => moveItem(item.id, 'up')}
+              disabled={!canMoveUp}
+              aria-label="Move up"
+              tabIndex={-1}
+              className="rounded hover:text-slate-700 disabled:opacity-30 disabled:hover:text-slate-400"
+            >
+              <ChevronUp className="h-3.5 w-3.5" />
+            </button>
+            <button
+              type="button"
+              ref={(el) => {
+                if (el) handleRefs.current.set(item.id, el);
+                else handleRefs.current.delete(item.id);
+              }}
+              draggable
+              onDragStart={(e) => handleDragStart(e, item.id)}
+              onDragEnd={handleDragEnd}
+              onKeyDown={(e) => handleHandleKeyDown(e, item.id)}
+              aria-label="Reorder line. Drag, or press the up and down arrow keys."
+              className="cursor-grab rounded hover:text-slate-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 active:cursor-grabbing"
+            >
+              <GripVertical className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              onClick={() => moveItem(item.id, 'down')}
+              disabled={!canMoveDown}
+              aria-label="Move down"
+              tabIndex={-1}
+              className="rounded hover:text-slate-700 disabled:opacity-30 disabled:hover:text-slate-400"
+            >
+              <ChevronDown className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        </TableCell>
+        <TableCell>
+          {catalog && catalog.length > 0 ? (
+            <CatalogTypeahead
+              value={item.description}
+              catalog={catalog}
+              onChange={(value) => updateItem(item.id, 'description', value)}
+              onSelect={(catalogItem) => applyCatalogItem(item.id, catalogItem)}
+              placeholder="Describe or search the price book..."
+              className="border-0 shadow-none focus-visible:ring-0 px-0"
+            />
+          ) : (
+            <Input
+              value={item.description}
+              onChange={(e) => updateItem(item.id, 'description', e.target.value)}
+              placeholder="Enter description..."
+              className="border-0 shadow-none focus-visible:ring-0 px-0"
+            />
+          )}
+        </TableCell>
+        {showOptions && (
+          <TableCell>
+            <div className="space-y-1.5">
+              <Select
+                value={getLineOption(item)}
+                onValueChange={(value) => updateOption(item, value as LineOption)}
+              >
+                <SelectTrigger className="h-8" aria-label="Line option">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="included">Included</SelectItem>
+                  <SelectItem value="optional">Optional</SelectItem>
+                  <SelectItem value="alternate">Alternate</SelectItem>
+                </SelectContent>
+              </Select>
+              {item.alternate_group != null && (
+                <Input
+                  value={item.alternate_group}
+                  onChange={(e) => onChange(setLineOption(items, item.id, 'alternate', e.target.value))}
+                  placeholder="Group, e.g. Counters"
+                  aria-label="Alternate group"
+                  maxLength={255}
+                  className="h-8 text-xs"
+                />
+              )}
+              {getLineOption(item) !== 'included' && (
+                <label className="flex items-center gap-2 text-xs text-slate-500">
+                  <Switch
+                    checked={isLineIncluded(item)}
+                    onCheckedChange={(checked) => updateSelected(item, checked)}
+                    // An alternate is deselected by choosing another in its group
+                    disabled={item.alternate_group != null && isLineIncluded(item)}
+                  />
+                  Selected
+                </label>
+              )}
+            </div>
+          </TableCell>
+        )}
+        <TableCell>
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            value={item.quantity}
+            onChange={(e) => updateItem(item.id, 'quantity', parseFloat(e.target.value) || 0)}
+            className="border-0 shadow-none focus-visible:ring-0 px-0 text-right"
+          />
+        </TableCell>
+        <TableCell>
+          <Select
+            value={item.unit}
+            onValueChange={(value) => updateItem(item.id, 'unit', value)}
+          >
+            <SelectTrigger className="border-0 shadow-none focus:ring-0">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {UNITS.map((unit) => (
+                <SelectItem key={unit.value} value={unit.value}>
+                  {unit.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </TableCell>
+        {showCost && (
+          <>
+            <TableCell>
+              <div className="flex items-center">
+                <span className="text-slate-400 mr-1">$</span>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={item.unit_cost || ''}
+                  onChange={(e) => updatePricing(item, 'unit_cost', parseFloat(e.target.value) || 0)}
+                  placeholder="0.00"
+                  aria-label="Unit cost"
+                  className="border-0 shadow-none focus-visible:ring-0 px-0"
+                />
+              </div>
+            </TableCell>
+            <TableCell>
+              <div className="flex items-center">
+                <Input
+                  type="number"
+                  step="0.01"
+                  value={item.unit_cost ? item.markup_percent ?? 0 : ''}
+                  onChange={(e) => updatePricing(item, 'markup_percent', parseFloat(e.target.value) || 0)}
+                  disabled={!item.unit_cost}
+                  placeholder="—"
+                  aria-label="Markup percent"
+                  className="border-0 shadow-none focus-visible:ring-0 px-0"
+                />
+                <span className="text-slate-400 ml-1">%</span>
+              </div>
+            </TableCell>
+          </>
+        )}
+        <TableCell>
+          <div className="flex items-center">
+            <span className="text-slate-400 mr-1">$</span>
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={item.unit_price}
+              onChange={(e) => updatePricing(item, 'unit_price', parseFloat(e.target.value) || 0)}
+              className="border-0 shadow-none focus-visible:ring-0 px-0"
+            />
+          </div>
+        </TableCell>
+        {showDiscount && (
+          <TableCell>
+            <div className="flex items-center">
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={item.discount_value || ''}
+                onChange={(e) => updateDiscount(item, { discount_value: parseFloat(e.target.value) || null })}
+                placeholder="0"
+                aria-label="Discount"
+                className="border-0 shadow-none focus-visible:ring-0 px-0"
+              />
+              <Select
+                value={item.discount_type || 'percent'}
+                onValueChange={(value) => updateDiscount(item, { discount_type: value as DiscountType })}
+              >
+                <SelectTrigger className="w-14 border-0 shadow-none focus:ring-0 px-1" aria-label="Discount type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percent">%</SelectItem>
+                  <SelectItem value="fixed">$</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </TableCell>
+        )}
+        <TableCell
+          className={`text-right font-medium ${isLineIncluded(item) ? 'text-slate-900' : 'text-slate-400'}`}
+        >
+          {formatCurrency(getLineAmount(item))}
+        </TableCell>
+        {showTaxable && (
+          <TableCell className="text-center">
+            <Switch
+              checked={item.taxable !== false}
+              onCheckedChange={(checked) => updateItem(item.id, 'taxable', checked)}
+              aria-label="Taxable"
+            />
+          </TableCell>
+        )}
+        <TableCell>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => removeItem(item.id)}
+            className="text-slate-400 hover:text-red-600"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </TableCell>
+      </TableRow>
+    );
+  };
+
+  const renderSectionHeader = (section: LineSection<LineItem>, isCollapsed: boolean) => {
+    const name = section.name ?? '';
+    return (
+      <TableRow className="bg-slate-50/70 hover:bg-slate-50/70">
+        <TableCell>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => toggleSection(name)}
+            aria-label={isCollapsed ? `Expand ${name}` : `Collapse ${name}`}
+            aria-expanded={!isCollapsed}
+            className="h-6 w-6 text-slate-500"
+          >
+            {isCollapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          </Button>
+        </TableCell>
+        <TableCell colSpan={columnCount - 2}>
+          <div className="flex items-center gap-3">
+            <Input
+              value={name}
+              onChange={(e) => renameSection(name, e.target.value)}
+              placeholder="Section name"
+              aria-label="Section name"
+              maxLength={255}
+              className="h-8 max-w-xs border-0 bg-transparent shadow-none focus-visible:ring-0 px-0 font-semibold text-slate-900"
+            />
+            <span className="text-xs text-slate-500">
+              {section.items.length} item{section.items.length !== 1 ? 's' : ''}
+            </span>
+            <span className="ml-auto font-medium text-slate-900">
+              {formatCurrency(getSectionSubtotal(section.items))}
+            </span>
+          </div>
+        </TableCell>
+        <TableCell>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => removeSection(section)}
+            aria-label={`Remove ${name || 'section'}`}
+            className="text-slate-400 hover:text-red-600"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </TableCell>
+      </TableRow>
+    );
+  };
+
   if (readOnly) {
     return (
       <Table>
@@ -91,16 +614,53 @@ export function LineItems({ items, onChange, readOnly = false }: LineItemsProps)
           </TableRow>
         </TableHeader>
         <TableBody>
-          {items.map((item) => (
-            <TableRow key={item.id}>
-              <TableCell>{item.description}</TableCell>
-              <TableCell className="text-right">{item.quantity}</TableCell>
-              <TableCell>{UNITS.find(u => u.value === item.unit)?.label || item.unit}</TableCell>
-              <TableCell className="text-right">{formatCurrency(item.unit_price)}</TableCell>
-              <TableCell className="text-right font-medium">
-                {formatCurrency(calculateAmount(item.quantity, item.unit_price))}
-              </TableCell>
-            </TableRow>
+          {groupBySection(items).map((section) => (
+            <Fragment key={section.items[0].id}>
+              {section.name !== null && (
+                <TableRow className="bg-slate-50 hover:bg-slate-50">
+                  <TableCell colSpan={5} className="font-semibold text-slate-900">
+                    {section.name}
+                  </TableCell>
+                </TableRow>
+              )}
+              {section.items.map((item) => (
+                <TableRow key={item.id} className={isLineIncluded(item) ? '' : 'text-slate-400'}>
+                  <TableCell>
+                    {item.description}
+                    {getLineOption(item) !== 'included' && (
+                      <span className="ml-2 text-xs text-blue-600">
+                        {item.alternate_group != null ? `Alternate · ${item.alternate_group}` : 'Optional'}
+                        {!isLineIncluded(item) && ' · not included'}
+                      </span>
+                    )}
+                    {showDiscount && item.discount_type && item.discount_value && (
+                      <span className="ml-2 text-xs text-green-600">
+                        {formatDiscount(item.discount_type, item.discount_value)}
+                      </span>
+                    )}
+                    {showTaxable && item.taxable === false && (
+                      <span className="ml-2 text-xs text-slate-400">Not taxed</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{item.quantity}</TableCell>
+                  <TableCell>{getUnitLabel(item.unit)}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(item.unit_price)}</TableCell>
+                  <TableCell className="text-right font-medium">
+                    {formatCurrency(getLineAmount(item))}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {section.name !== null && (
+                <TableRow className="hover:bg-transparent">
+                  <TableCell colSpan={4} className="text-right text-slate-500">
+                    {section.name} subtotal
+                  </TableCell>
+                  <TableCell className="text-right font-medium">
+                    {formatCurrency(getSectionSubtotal(section.items))}
+                  </TableCell>
+                </TableRow>
+              )}
+            </Fragment>
           ))}
         </TableBody>
       </Table>
@@ -115,99 +675,73 @@ export function LineItems({ items, onChange, readOnly = false }: LineItemsProps)
             <TableRow className="bg-slate-50">
               <TableHead className="w-8"></TableHead>
               <TableHead className="w-[35%]">Description</TableHead>
+              {showOptions && <TableHead className="w-40">Option</TableHead>}
               <TableHead className="w-20">Qty</TableHead>
               <TableHead className="w-28">Unit</TableHead>
+              {showCost && (
+                <>
+                  <TableHead className="w-28">Unit Cost</TableHead>
+                  <TableHead className="w-24">Markup</TableHead>
+                </>
+              )}
               <TableHead className="w-32">Unit Price</TableHead>
+              {showDiscount && <TableHead className="w-32">Discount</TableHead>}
               <TableHead className="w-32 text-right">Amount</TableHead>
+              {showTaxable && <TableHead className="w-16 text-center">Tax</TableHead>}
               <TableHead className="w-12"></TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {items.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={7} className="text-center py-8 text-slate-500">
+                <TableCell colSpan={columnCount} className="text-center py-8 text-slate-500">
                   No line items yet. Click &quot;Add Line Item&quot; to get started.
                 </TableCell>
               </TableRow>
             ) : (
-              items.map((item, index) => (
-                <TableRow key={item.id}>
-                  <TableCell className="text-slate-400">
-                    <GripVertical className="h-4 w-4" />
-                  </TableCell>
-                  <TableCell>
-                    <Input
-                      value={item.description}
-                      onChange={(e) => updateItem(item.id, 'description', e.target.value)}
-                      placeholder="Enter description..."
-                      className="border-0 shadow-none focus-visible:ring-0 px-0"
-                    />
-                  </TableCell>
-                  <TableCell>
-                    <Input
-                      type="number"
-                      min="0"
-                      step="0.01"
-                      value={item.quantity}
-                      onChange={(e) => updateItem(item.id, 'quantity', parseFloat(e.target.value) || 0)}
-                      className="border-0 shadow-none focus-visible:ring-0 px-0 text-right"
-                    />
-                  </TableCell>
-                  <TableCell>
-                    <Select
-                      value={item.unit}
-                      onValueChange={(value) => updateItem(item.id, 'unit', value)}
-                    >
-                      <SelectTrigger className="border-0 shadow-none focus:ring-0">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {UNITS.map((unit) => (
-                          <SelectItem key={unit.value} value={unit.value}>
-                            {unit.label}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </TableCell>
-                  <TableCell>
-                    <div className="flex items-center">
-                      <span className="text-slate-400 mr-1">$</span>
-                      <Input
-                        type="number"
-                        min="0"
-                        step="0.01"
-                        value={item.unit_price}
-                        onChange={(e) => updateItem(item.id, 'unit_price', parseFloat(e.target.value) || 0)}
-                        className="border-0 shadow-none focus-visible:ring-0 px-0"
-                      />
-                    </div>
-                  </TableCell>
-                  <TableCell className="text-right font-medium text-slate-900">
-                    {formatCurrency(calculateAmount(item.quantity, item.unit_price))}
-                  </TableCell>
-                  <TableCell>
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => removeItem(item.id)}
-                      className="text-slate-400 hover:text-red-600"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  </TableCell>
-                </TableRow>
-              ))
+              groupBySection(items).map((section) => {
+                const isCollapsed = section.name !== null && collapsed.has(section.name);
+                return (
+                  <Fragment key={section.items[0].id}>
+                    {section.name !== null && renderSectionHeader(section, isCollapsed)}
+                    {!isCollapsed && section.items.map(renderItemRow)}
+                    {section.name !== null && !isCollapsed && (
+                      <TableRow className="hover:bg-transparent">
+                        <TableCell />
+                        <TableCell colSpan={columnCount - 1} className="py-1">
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => addItem(section.name)}
+                            className="text-slate-500"
+                          >
+                            <Plus className="mr-1 h-3.5 w-3.5" />
+                            Add line to {section.name || 'section'}
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })
             )}
           </TableBody>
         </Table>
       </div>
 
-      <Button type="button" variant="outline" onClick={addItem} className="w-full">
-        <Plus className="mr-2 h-4 w-4" />
-        Add Line Item
-      </Button>
+      <div className={showSections ? 'grid gap-3 sm:grid-cols-2' : ''}>
+        <Button type="button" variant="outline" onClick={() => addItem()} className="w-full">
+          <Plus className="mr-2 h-4 w-4" />
+          Add Line Item
+        </Button>
+        {showSections && (
+          <Button type="button" variant="outline" onClick={addSection} className="w-full">
+            <FolderPlus className="mr-2 h-4 w-4" />
+            Add Section
+          </Button>
+        )}
+      </div>
     </div>
   );
 }
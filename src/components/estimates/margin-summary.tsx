@@ -0,0 +1,48 @@
+import { formatMarginPercent, getMargin } from '@/lib/margins';
+import { cn } from '@/lib/utils';
+import { EyeOff } from 'lucide-react';
+
+interface MarginSummaryProps {
+  // Subtotal less the document discount, before tax
+  revenue: number;
+  cost: number;
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
+};
+
+export function MarginSummary({ revenue, cost }: MarginSummaryProps) {
+  const { grossProfit, marginPercent } = getMargin(revenue, cost);
+
+  return (
+    <div className="rounded-md border border-dashed bg-slate-50 p-3 space-y-2">
+      <p className="flex items-center gap-1.5 text-xs font-medium uppercase tracking-wide text-slate-500">
+        <EyeOff className="h-3.5 w-3.5" />
+        Internal — not shown to client
+      </p>
+      {cost === 0 ? (
+        <p className="text-sm text-slate-500">Add unit costs to the line items to see your margin.</p>
+      ) : (
+        <>
+          <div className="flex justify-between text-sm">
+            <span className="text-slate-500">Total Cost</span>
+            <span className="font-medium">{formatCurrency(cost)}</span>
+          </div>
+          <div className="flex justify-between text-sm">
+            <span className="text-slate-500">Gross Profit</span>
+            <span className={cn('font-medium', grossProfit < 0 && 'text-red-600')}>
+              {formatCurrency(grossProfit)}
+            </span>
+          </div>
+          <div className="flex justify-between text-sm">
+            <span className="text-slate-500">Margin</span>
+            <span className={cn('font-medium', grossProfit < 0 && 'text-red-600')}>
+              {formatMarginPercent(marginPercent)}
+            </span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
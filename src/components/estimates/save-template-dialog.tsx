@@ -0,0 +1,101 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { TEMPLATE_VARIABLES } from '@/lib/templates';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+import { saveEstimateAsTemplateAction } from '@/app/actions/estimate-templates';
+
+interface SaveTemplateDialogProps {
+  estimateId: string;
+  defaultName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function SaveTemplateDialog({ estimateId, defaultName, open, onOpenChange }: SaveTemplateDialogProps) {
+  const [name, setName] = useState(defaultName);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error('Template name is required');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await saveEstimateAsTemplateAction({ estimateId, name });
+      if (!result.success) {
+        toast.error(result.error || 'Failed to save template');
+        return;
+      }
+
+      toast.success(`Saved template ${name.trim()}`);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving template:', error);
+      toast.error('Failed to save template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save as Template</DialogTitle>
+          <DialogDescription>
+            Keeps the title, description, line items, notes, taxes and discount so
+            you can start new estimates from them. The client and dates aren&apos;t saved.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div>
+            <Label htmlFor="template_name">Template Name</Label>
+            <Input
+              id="template_name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Standard bathroom remodel"
+              maxLength={255}
+              className="mt-1.5"
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            />
+          </div>
+          <p className="text-xs text-slate-500">
+            Placeholders in the text are filled in on each new estimate:{' '}
+            {TEMPLATE_VARIABLES.map((variable) => `{{${variable.key}}}`).join(', ')}
+          </p>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save Template'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,77 @@
+'use client';
+
+import Link from 'next/link';
+import { DocumentTax, TaxRate } from '@/types/database';
+import { getTaxLabel, toDocumentTax } from '@/lib/taxes';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { X } from 'lucide-react';
+
+type AppliedTax = Omit<DocumentTax, 'amount'>;
+
+interface TaxPickerProps {
+  taxRates: TaxRate[];
+  taxes: AppliedTax[];
+  onChange: (taxes: AppliedTax[]) => void;
+}
+
+// Taxes are applied in the order they're added, which matters for compound taxes
+export function TaxPicker({ taxRates, taxes, onChange }: TaxPickerProps) {
+  const available = taxRates.filter((taxRate) => !taxes.some((tax) => tax.name === taxRate.name));
+
+  const addTax = (taxRateId: string) => {
+    const taxRate = taxRates.find((rate) => rate.id === taxRateId);
+    if (taxRate) {
+      onChange([...taxes, toDocumentTax(taxRate)]);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {taxes.length === 0 && (
+        <p className="text-sm text-slate-500">No tax applied</p>
+      )}
+      {taxes.map((tax, index) => (
+        <div key={tax.name} className="flex items-center justify-between rounded-md border px-3 py-1.5 text-sm">
+          <span>{getTaxLabel(tax)}</span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 text-slate-400 hover:text-red-600"
+            onClick={() => onChange(taxes.filter((_, i) => i !== index))}
+            aria-label={`Remove ${tax.name}`}
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      ))}
+      {available.length > 0 ? (
+        <Select value="" onValueChange={addTax}>
+          <SelectTrigger>
+            <SelectValue placeholder="Add a tax..." />
+          </SelectTrigger>
+          <SelectContent>
+            {available.map((taxRate) => (
+              <SelectItem key={taxRate.id} value={taxRate.id}>
+                {getTaxLabel(toDocumentTax(taxRate))}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : taxRates.length === 0 && (
+        <p className="text-xs text-slate-500">
+          Save your tax rates in{' '}
+          <Link href="/settings" className="text-blue-600 hover:underline">Settings</Link>
+          {' '}to apply them here.
+        </p>
+      )}
+    </div>
+  );
+}
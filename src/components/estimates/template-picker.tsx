@@ -0,0 +1,48 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { EstimateTemplate } from '@/types/database';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface TemplatePickerProps {
+  templates: Pick<EstimateTemplate, 'id' | 'name'>[];
+  selectedId: string | null;
+  clientId?: string;
+}
+
+const BLANK = 'blank';
+
+// The chosen template is kept in the URL so the page can load it on the server
+export function TemplatePicker({ templates, selectedId, clientId }: TemplatePickerProps) {
+  const router = useRouter();
+
+  const handleChange = (value: string) => {
+    const params = new URLSearchParams();
+    if (value !== BLANK) params.set('template', value);
+    if (clientId) params.set('client', clientId);
+    const query = params.toString();
+    router.replace(query ? `/estimates/new?${query}` : '/estimates/new');
+  };
+
+  return (
+    <Select value={selectedId ?? BLANK} onValueChange={handleChange}>
+      <SelectTrigger className="w-64">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={BLANK}>Blank estimate</SelectItem>
+        {templates.map((template) => (
+          <SelectItem key={template.id} value={template.id}>
+            {template.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
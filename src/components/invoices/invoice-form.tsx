@@ -2,8 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { createClient } from '@/lib/supabase/client';
-import { Client, InvoiceStatus } from '@/types/database';
+import { CatalogItem, Client, DiscountType, DocumentTax, InvoiceType, TaxRate } from '@/types/database';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -18,54 +17,62 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import { LineItems, LineItem } from '@/components/estimates/line-items';
+import { TaxPicker } from '@/components/estimates/tax-picker';
+import { DiscountFields } from '@/components/estimates/discount-fields';
+import { calculateTaxes, getTaxLabel, toDocumentTax } from '@/lib/taxes';
 import { toast } from 'sonner';
 import { Loader2, Save, FileText } from 'lucide-react';
+import { saveInvoiceAction } from '@/app/actions/save-invoice';
+import { getRetainageAmount } from '@/lib/retainage';
+import { getDiscountAmount, getDiscountLabel, getLineAmount } from '@/lib/discounts';
 
 interface InvoiceFormProps {
   clients: Client[];
-  userId: string;
+  taxRates: TaxRate[];
+  catalog: CatalogItem[];
+  // Client chosen up front, e.g. when starting from the client's page
+  defaultClientId?: string;
   initialData?: {
     id?: string;
     client_id: string | null;
     invoice_number: string;
     title: string;
     description: string;
-    status: InvoiceStatus;
     issue_date: string;
     due_date: string | null;
-    tax_rate: number;
+    taxes: Omit<DocumentTax, 'amount'>[];
+    discount_type: DiscountType | null;
+    discount_value: number | null;
+    retainage_percent: number;
     notes: string;
+    invoice_type?: InvoiceType;
+    deposit_credit?: number;
     items: LineItem[];
   };
   mode: 'create' | 'edit';
 }
 
-export function InvoiceForm({ clients, userId, initialData, mode }: InvoiceFormProps) {
+export function InvoiceForm({ clients, taxRates, catalog, defaultClientId, initialData, mode }: InvoiceFormProps) {
   const router = useRouter();
-  const supabase = createClient();
   const [isSaving, setIsSaving] = useState(false);
 
   // Form state
-  const [clientId, setClientId] = useState(initialData?.client_id || '');
+  const [clientId, setClientId] = useState(initialData?.client_id || defaultClientId || '');
   const [invoiceNumber, setInvoiceNumber] = useState(initialData?.invoice_number || '');
   const [title, setTitle] = useState(initialData?.title || '');
   const [description, setDescription] = useState(initialData?.description || '');
-  const [status, setStatus] = useState<InvoiceStatus>(initialData?.status || 'unpaid');
   const [issueDate, setIssueDate] = useState(initialData?.issue_date || new Date().toISOString().split('T')[0]);
   const [dueDate, setDueDate] = useState(initialData?.due_date || '');
-  const [taxRate, setTaxRate] = useState(initialData?.tax_rate || 0);
+  // New documents start with the taxes marked as default in Settings
+  const [taxes, setTaxes] = useState<Omit<DocumentTax, 'amount'>[]>(
+    initialData?.taxes ?? taxRates.filter((taxRate) => taxRate.is_default).map(toDocumentTax)
+  );
+  const [discountType, setDiscountType] = useState<DiscountType | null>(initialData?.discount_type || null);
+  const [discountValue, setDiscountValue] = useState<number | null>(initialData?.discount_value || null);
+  const [retainagePercent, setRetainagePercent] = useState(initialData?.retainage_percent || 0);
   const [notes, setNotes] = useState(initialData?.notes || '');
   const [items, setItems] = useState<LineItem[]>(initialData?.items || []);
 
-  // Generate invoice number on mount for new invoices
-  useEffect(() => {
-    if (mode === 'create' && !invoiceNumber) {
-      const prefix = 'INV';
-      const timestamp = Date.now().toString().slice(-6);
-      setInvoiceNumber(`${prefix}-${timestamp}`);
-    }
-  }, [mode, invoiceNumber]);
-
   // Set default due date (30 days from issue date) for new invoices
   useEffect(() => {
     if (mode === 'create' && !dueDate && issueDate) {
@@ -76,9 +83,15 @@ export function InvoiceForm({ clients, userId, initialData, mode }: InvoiceFormP
   }, [mode, dueDate, issueDate]);
 
   // Calculations
-  const subtotal = items.reduce((sum, item) => sum + item.quantity * item.unit_price, 0);
-  const taxAmount = subtotal * (taxRate / 100);
-  const total = subtotal + taxAmount;
+  const subtotal = items.reduce((sum, item) => sum + getLineAmount(item), 0);
+  const discountAmount = getDiscountAmount(subtotal, discountType, discountValue);
+  const { taxes: taxBreakdown, taxAmount } = calculateTaxes(items, taxes, discountAmount);
+  // Credited when the invoice was created from an estimate; kept on edits
+  const depositCredit = initialData?.deposit_credit || 0;
+  // A release invoice bills retainage, so it never holds any back itself
+  const canHoldRetainage = initialData?.invoice_type !== 'retainage_release';
+  const retainageAmount = canHoldRetainage ? getRetainageAmount(subtotal - discountAmount, retainagePercent) : 0;
+  const total = subtotal - discountAmount + taxAmount - depositCredit - retainageAmount;
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -93,7 +106,8 @@ export function InvoiceForm({ clients, userId, initialData, mode }: InvoiceFormP
       return;
     }
 
-    if (!invoiceNumber.trim()) {
+    // New invoices are numbered from the account's sequence when left blank
+    if (mode === 'edit' && !invoiceNumber.trim()) {
       toast.error('Please enter an invoice number');
       return;
     }
@@ -106,97 +120,29 @@ export function InvoiceForm({ clients, userId, initialData, mode }: InvoiceFormP
     setIsSaving(true);
 
     try {
-      if (mode === 'create') {
-        // Create new invoice
-        const { data: invoice, error: invoiceError } = await supabase
-          .from('invoices')
-          .insert({
-            user_id: userId,
-            client_id: clientId || null,
-            invoice_number: invoiceNumber,
-            title,
-            description: description || null,
-            status,
-            issue_date: issueDate,
-            due_date: dueDate || null,
-            subtotal,
-            tax_rate: taxRate,
-            tax_amount: taxAmount,
-            total,
-            notes: notes || null,
-          })
-          .select()
-          .single();
-
-        if (invoiceError) throw invoiceError;
-
-        // Create line items
-        const itemsToInsert = items.map((item, index) => ({
-          invoice_id: invoice.id,
-          description: item.description,
-          quantity: item.quantity,
-          unit: item.unit,
-          unit_price: item.unit_price,
-          sort_order: index,
-        }));
-
-        const { error: itemsError } = await supabase
-          .from('invoice_items')
-          .insert(itemsToInsert);
-
-        if (itemsError) throw itemsError;
-
-        toast.success('Invoice created successfully');
-        router.push(`/invoices/${invoice.id}`);
-      } else {
-        // Update existing invoice
-        const { error: invoiceError } = await supabase
-          .from('invoices')
-          .update({
-            client_id: clientId || null,
-            invoice_number: invoiceNumber,
-            title,
-            description: description || null,
-            status,
-            issue_date: issueDate,
-            due_date: dueDate || null,
-            subtotal,
-            tax_rate: taxRate,
-            tax_amount: taxAmount,
-            total,
-            notes: notes || null,
-          })
-          .eq('id', initialData!.id);
-
-        if (invoiceError) throw invoiceError;
-
-        // Delete existing items and re-create
-        await supabase
-          .from('invoice_items')
-          .delete()
-          .eq('invoice_id', initialData!.id);
-
-        const itemsToInsert = items.map((item, index) => ({
-          invoice_id: initialData!.id,
-          description: item.description,
-          quantity: item.quantity,
-          unit: item.unit,
-          unit_price: item.unit_price,
-          sort_order: index,
-        }));
-
-        if (itemsToInsert.length > 0) {
-          const { error: itemsError } = await supabase
-            .from('invoice_items')
-            .insert(itemsToInsert);
-
-          if (itemsError) throw itemsError;
-        }
-
-        toast.success('Invoice updated successfully');
-        router.push(`/invoices/${initialData!.id}`);
+      const saved = await saveInvoiceAction({
+        id: initialData?.id,
+        client_id: clientId,
+        invoice_number: invoiceNumber,
+        title,
+        description,
+        issue_date: issueDate,
+        due_date: dueDate,
+        taxes,
+        discount_type: discountType,
+        discount_value: discountValue,
+        retainage_percent: canHoldRetainage ? retainagePercent : 0,
+        notes,
+        items,
+      });
+
+      if (!saved.success || !saved.id) {
+        toast.error(saved.error || 'Failed to save invoice. Please try again.');
+        return;
       }
 
+      toast.success(mode === 'create' ? 'Invoice created successfully' : 'Invoice updated successfully');
+      router.push(`/invoices/${saved.id}`);
       router.refresh();
     } catch (error) {
       console.error('Error saving invoice:', error);
@@ -215,29 +161,15 @@ export function InvoiceForm({ clients, userId, initialData, mode }: InvoiceFormP
             <CardTitle className="text-lg">Invoice Details</CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="grid gap-4 sm:grid-cols-2">
-              <div>
-                <Label htmlFor="invoice_number">Invoice #</Label>
-                <Input
-                  id="invoice_number"
-                  value={invoiceNumber}
-                  onChange={(e) => setInvoiceNumber(e.target.value)}
-                  placeholder="INV-001"
-                  className="mt-1.5"
-                />
-              </div>
-              <div>
-                <Label htmlFor="status">Status</Label>
-                <Select value={status} onValueChange={(v) => setStatus(v as InvoiceStatus)}>
-                  <SelectTrigger className="mt-1.5">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="unpaid">Unpaid</SelectItem>
-                    <SelectItem value="paid">Paid</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+            <div>
+              <Label htmlFor="invoice_number">Invoice #</Label>
+              <Input
+                id="invoice_number"
+                value={invoiceNumber}
+                onChange={(e) => setInvoiceNumber(e.target.value)}
+                placeholder={mode === 'create' ? 'Assigned on save' : 'INV-001'}
+                className="mt-1.5"
+              />
             </div>
 
             <div>
@@ -314,19 +246,39 @@ export function InvoiceForm({ clients, userId, initialData, mode }: InvoiceFormP
             </div>
 
             <div>
-              <Label htmlFor="tax_rate">Tax Rate (%)</Label>
-              <Input
-                id="tax_rate"
-                type="number"
-                min="0"
-                max="100"
-                step="0.01"
-                value={taxRate}
-                onChange={(e) => setTaxRate(parseFloat(e.target.value) || 0)}
-                placeholder="8.25"
-                className="mt-1.5"
-              />
+              <Label>Taxes</Label>
+              <div className="mt-1.5">
+                <TaxPicker taxRates={taxRates} taxes={taxes} onChange={setTaxes} />
+              </div>
             </div>
+
+            <DiscountFields
+              discountType={discountType}
+              discountValue={discountValue}
+              onChange={(type, value) => {
+                setDiscountType(type);
+                setDiscountValue(value);
+              }}
+            />
+
+            {canHoldRetainage && (
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div>
+                  <Label htmlFor="retainage_percent">Retainage (%)</Label>
+                  <Input
+                    id="retainage_percent"
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.01"
+                    value={retainagePercent}
+                    onChange={(e) => setRetainagePercent(parseFloat(e.target.value) || 0)}
+                    placeholder="10"
+                    className="mt-1.5"
+                  />
+                </div>
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -337,7 +289,7 @@ export function InvoiceForm({ clients, userId, initialData, mode }: InvoiceFormP
           <CardTitle className="text-lg">Line Items</CardTitle>
         </CardHeader>
         <CardContent>
-          <LineItems items={items} onChange={setItems} />
+          <LineItems items={items} onChange={setItems} showTaxable showDiscount showSections catalog={catalog} />
         </CardContent>
       </Card>
 
@@ -366,10 +318,30 @@ export function InvoiceForm({ clients, userId, initialData, mode }: InvoiceFormP
               <span className="text-slate-500">Subtotal</span>
               <span className="font-medium">{formatCurrency(subtotal)}</span>
             </div>
-            <div className="flex justify-between text-sm">
-              <span className="text-slate-500">Tax ({taxRate}%)</span>
-              <span className="font-medium">{formatCurrency(taxAmount)}</span>
-            </div>
+            {discountAmount > 0 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-slate-500">{getDiscountLabel(discountType, discountValue)}</span>
+                <span className="font-medium text-green-600">-{formatCurrency(discountAmount)}</span>
+              </div>
+            )}
+            {taxBreakdown.map((tax) => (
+              <div key={tax.name} className="flex justify-between text-sm">
+                <span className="text-slate-500">{getTaxLabel(tax)}</span>
+                <span className="font-medium">{formatCurrency(tax.amount)}</span>
+              </div>
+            ))}
+            {depositCredit > 0 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-slate-500">Less deposit received</span>
+                <span className="font-medium text-green-600">-{formatCurrency(depositCredit)}</span>
+              </div>
+            )}
+            {retainageAmount > 0 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-slate-500">Less retainage ({retainagePercent}%)</span>
+                <span className="font-medium">-{formatCurrency(retainageAmount)}</span>
+              </div>
+            )}
             <Separator />
             <div className="flex justify-between text-lg">
               <span className="font-semibold">Total</span>
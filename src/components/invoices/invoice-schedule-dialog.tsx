@@ -0,0 +1,249 @@
+'use client';
+
+import { useState } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import { InvoiceSchedule, RecurrenceInterval } from '@/types/database';
+import { RECURRENCE_INTERVALS, getScheduleRunDate } from '@/lib/recurring-invoices';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+
+interface InvoiceScheduleDialogProps {
+  invoiceId: string;
+  invoiceNumber: string;
+  issueDate: string;
+  userId: string;
+  schedule: InvoiceSchedule | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+export function InvoiceScheduleDialog({
+  invoiceId,
+  invoiceNumber,
+  issueDate,
+  userId,
+  schedule,
+  open,
+  onOpenChange,
+  onSaved,
+}: InvoiceScheduleDialogProps) {
+  const supabase = createClient();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const today = new Date().toISOString().split('T')[0];
+
+  // New schedules start one interval after the invoice being copied, which
+  // already covers the current period
+  const getDefaultStartDate = (interval: RecurrenceInterval) => {
+    const next = getScheduleRunDate(issueDate, interval, 1);
+    return next < today ? today : next;
+  };
+
+  // Mounted each time it opens, so the form starts from the saved schedule
+  const [recurrence, setRecurrence] = useState<RecurrenceInterval>(schedule?.recurrence ?? 'monthly');
+  const [startDate, setStartDate] = useState(() => schedule?.start_date ?? getDefaultStartDate('monthly'));
+  const [endDate, setEndDate] = useState(schedule?.end_date ?? '');
+  const [autoSend, setAutoSend] = useState(schedule?.auto_send ?? false);
+
+  // The start can't move once invoices have gone out, or the run dates
+  // already used would shift
+  const hasRun = (schedule?.run_count ?? 0) > 0;
+  const nextRunDate = startDate
+    ? getScheduleRunDate(startDate, recurrence, schedule?.run_count ?? 0)
+    : null;
+
+  const formatDate = (date: string) => {
+    return new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  };
+
+  const handleRecurrenceChange = (value: RecurrenceInterval) => {
+    if (!schedule && startDate === getDefaultStartDate(recurrence)) {
+      setStartDate(getDefaultStartDate(value));
+    }
+    setRecurrence(value);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!startDate) {
+      toast.error('Choose a start date');
+      return;
+    }
+
+    if (!hasRun && startDate < today) {
+      toast.error('The start date cannot be in the past');
+      return;
+    }
+
+    if (endDate && endDate < startDate) {
+      toast.error('The end date must be on or after the start date');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const values = {
+        recurrence,
+        start_date: startDate,
+        end_date: endDate || null,
+        auto_send: autoSend,
+      };
+
+      const { error } = schedule
+        ? await supabase
+            .from('invoice_schedules')
+            .update(values)
+            .eq('id', schedule.id)
+        : await supabase
+            .from('invoice_schedules')
+            .insert({ ...values, user_id: userId, source_invoice_id: invoiceId });
+
+      if (error) {
+        if (error.code === '23505') {
+          toast.error('This invoice already has a recurring schedule');
+          return;
+        }
+        throw error;
+      }
+
+      toast.success(schedule ? 'Recurring schedule updated' : 'Recurring schedule created');
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      console.error('Error saving invoice schedule:', error);
+      toast.error('Failed to save recurring schedule');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{schedule ? 'Edit Recurring Schedule' : 'Make Recurring'}</DialogTitle>
+            <DialogDescription>
+              Each run copies invoice #{invoiceNumber} with a new number, issue date and due date.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            <div>
+              <Label htmlFor="schedule_recurrence">Repeat</Label>
+              <Select
+                value={recurrence}
+                onValueChange={(v) => handleRecurrenceChange(v as RecurrenceInterval)}
+              >
+                <SelectTrigger id="schedule_recurrence" className="mt-1.5">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RECURRENCE_INTERVALS.map((interval) => (
+                    <SelectItem key={interval.value} value={interval.value}>
+                      {interval.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div>
+                <Label htmlFor="schedule_start">
+                  Start Date <span className="text-red-500">*</span>
+                </Label>
+                <Input
+                  id="schedule_start"
+                  type="date"
+                  value={startDate}
+                  min={hasRun ? undefined : today}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  disabled={hasRun}
+                  className="mt-1.5"
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="schedule_end">End Date</Label>
+                <Input
+                  id="schedule_end"
+                  type="date"
+                  value={endDate}
+                  min={startDate || undefined}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  className="mt-1.5"
+                />
+              </div>
+            </div>
+
+            {nextRunDate && (
+              <p className="text-sm text-slate-500">
+                {endDate && nextRunDate > endDate
+                  ? 'No more invoices will be created before the end date.'
+                  : `Next invoice on ${formatDate(nextRunDate)}.`}
+              </p>
+            )}
+
+            <div className="flex items-center justify-between gap-4 rounded-md border p-3">
+              <div>
+                <Label htmlFor="schedule_auto_send">Send automatically</Label>
+                <p className="text-sm text-slate-500">
+                  Email each new invoice to the client as soon as it&apos;s created.
+                </p>
+              </div>
+              <Switch
+                id="schedule_auto_send"
+                checked={autoSend}
+                onCheckedChange={setAutoSend}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : schedule ? (
+                'Save Schedule'
+              ) : (
+                'Create Schedule'
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,220 @@
+'use client';
+
+import { useState } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import { PaymentMethod } from '@/types/database';
+import { PAYMENT_METHODS } from '@/lib/invoices';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+
+interface RecordPaymentDialogProps {
+  invoiceId: string;
+  userId: string;
+  balance: number;
+  onRecorded: () => void;
+  children: React.ReactNode;
+}
+
+export function RecordPaymentDialog({
+  invoiceId,
+  userId,
+  balance,
+  onRecorded,
+  children,
+}: RecordPaymentDialogProps) {
+  const supabase = createClient();
+  const [open, setOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [amount, setAmount] = useState(balance);
+  const [method, setMethod] = useState<PaymentMethod>('check');
+  const [reference, setReference] = useState('');
+  const [paidOn, setPaidOn] = useState(new Date().toISOString().split('T')[0]);
+  const [memo, setMemo] = useState('');
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+    }).format(value);
+  };
+
+  // Start from the current balance each time the dialog opens
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setAmount(balance);
+      setMethod('check');
+      setReference('');
+      setPaidOn(new Date().toISOString().split('T')[0]);
+      setMemo('');
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!amount || amount <= 0) {
+      toast.error('Enter a payment amount');
+      return;
+    }
+
+    if (amount > balance) {
+      toast.error(`Payment cannot exceed the balance of ${formatCurrency(balance)}`);
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const { error } = await supabase
+        .from('invoice_payments')
+        .insert({
+          user_id: userId,
+          invoice_id: invoiceId,
+          amount,
+          method,
+          reference: reference || null,
+          paid_on: paidOn,
+          memo: memo || null,
+        });
+
+      if (error) throw error;
+
+      toast.success(`Payment of ${formatCurrency(amount)} recorded`);
+      setOpen(false);
+      onRecorded();
+    } catch (error) {
+      console.error('Error recording payment:', error);
+      toast.error('Failed to record payment');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Record Payment</DialogTitle>
+            <DialogDescription>
+              Balance due: {formatCurrency(balance)}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div>
+                <Label htmlFor="payment_amount">
+                  Amount <span className="text-red-500">*</span>
+                </Label>
+                <Input
+                  id="payment_amount"
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  max={balance}
+                  value={amount || ''}
+                  onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+                  className="mt-1.5"
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="payment_date">Date Received</Label>
+                <Input
+                  id="payment_date"
+                  type="date"
+                  value={paidOn}
+                  onChange={(e) => setPaidOn(e.target.value)}
+                  className="mt-1.5"
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div>
+                <Label htmlFor="payment_method">Method</Label>
+                <Select value={method} onValueChange={(v) => setMethod(v as PaymentMethod)}>
+                  <SelectTrigger id="payment_method" className="mt-1.5">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_METHODS.map((m) => (
+                      <SelectItem key={m.value} value={m.value}>
+                        {m.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="payment_reference">
+                  {method === 'check' ? 'Check #' : 'Reference'}
+                </Label>
+                <Input
+                  id="payment_reference"
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                  placeholder={method === 'check' ? '1042' : 'Optional'}
+                  maxLength={100}
+                  className="mt-1.5"
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="payment_memo">Memo</Label>
+              <Textarea
+                id="payment_memo"
+                value={memo}
+                onChange={(e) => setMemo(e.target.value)}
+                placeholder="e.g. Second draw, framing complete"
+                rows={2}
+                className="mt-1.5"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                'Record Payment'
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
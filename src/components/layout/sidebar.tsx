@@ -7,6 +7,7 @@ import {
   FileText,
   Receipt,
   Users,
+  BookOpen,
   Settings,
   LogOut,
   Building2,
@@ -30,6 +31,7 @@ const navigation = [
   { name: 'Estimates', href: '/estimates', icon: FileText },
   { name: 'Invoices', href: '/invoices', icon: Receipt },
   { name: 'Clients', href: '/clients', icon: Users },
+  { name: 'Price Book', href: '/catalog', icon: BookOpen },
   { name: 'Settings', href: '/settings', icon: Settings },
 ];
 
@@ -0,0 +1,108 @@
+import { Document, Page, Text, View, renderToBuffer } from '@react-pdf/renderer';
+import { Estimate } from '@/types/database';
+import { getTaxLabel } from '@/lib/taxes';
+import { getDiscountLabel } from '@/lib/discounts';
+import {
+  PdfClient,
+  PdfFooter,
+  PdfHeader,
+  PdfItemsTable,
+  PdfLineItem,
+  PdfParties,
+  PdfProfile,
+  PdfTotals,
+  formatCurrency,
+  formatDate,
+  styles,
+} from './pdf-parts';
+
+export type PdfEstimate = Pick<
+  Estimate,
+  | 'estimate_number'
+  | 'title'
+  | 'description'
+  | 'issue_date'
+  | 'valid_until'
+  | 'subtotal'
+  | 'discount_type'
+  | 'discount_value'
+  | 'discount_amount'
+  | 'taxes'
+  | 'tax_amount'
+  | 'total'
+  | 'notes'
+  | 'job_site_address'
+> & {
+  client: PdfClient | null;
+  items: PdfLineItem[];
+};
+
+interface EstimatePdfProps {
+  estimate: PdfEstimate;
+  profile: PdfProfile | null;
+}
+
+export function EstimatePdf({ estimate, profile }: EstimatePdfProps) {
+  const meta = [
+    { label: 'Estimate #', value: estimate.estimate_number },
+    { label: 'Date', value: formatDate(estimate.issue_date) },
+  ];
+  if (estimate.valid_until) {
+    meta.push({ label: 'Valid Until', value: formatDate(estimate.valid_until) });
+  }
+
+  const totalsRows = [{ label: 'Subtotal', value: formatCurrency(estimate.subtotal) }];
+  if (estimate.discount_amount > 0) {
+    totalsRows.push({
+      label: getDiscountLabel(estimate.discount_type, estimate.discount_value),
+      value: `-${formatCurrency(estimate.discount_amount)}`,
+    });
+  }
+  totalsRows.push(
+    ...estimate.taxes.map((tax) => ({ label: getTaxLabel(tax), value: formatCurrency(tax.amount) }))
+  );
+
+  return (
+    <Document title={`Estimate ${estimate.estimate_number}`} author={profile?.business_name || undefined}>
+      <Page size="LETTER" style={styles.page}>
+        <PdfHeader profile={profile} documentTitle="ESTIMATE" meta={meta} />
+
+        <PdfParties
+          clientLabel="Prepared For"
+          client={estimate.client}
+          jobSiteAddress={estimate.job_site_address}
+        />
+
+        <View style={styles.paragraph}>
+          <Text style={styles.projectTitle}>{estimate.title}</Text>
+          {estimate.description && <Text>{estimate.description}</Text>}
+        </View>
+
+        <PdfItemsTable items={estimate.items} />
+
+        <PdfTotals
+          rows={totalsRows}
+          totalLabel="Total"
+          total={estimate.total}
+        />
+
+        {estimate.notes && (
+          <View style={styles.paragraph} wrap={false}>
+            <Text style={styles.sectionLabel}>Notes & Terms</Text>
+            <Text>{estimate.notes}</Text>
+          </View>
+        )}
+
+        <PdfFooter label={`Estimate ${estimate.estimate_number}`} />
+      </Page>
+    </Document>
+  );
+}
+
+export function renderEstimatePdf(estimate: PdfEstimate, profile: PdfProfile | null) {
+  return renderToBuffer(<EstimatePdf estimate={estimate} profile={profile} />);
+}
+
+export function getEstimatePdfFilename(estimate: Pick<Estimate, 'estimate_number'>) {
+  return `estimate-${estimate.estimate_number}.pdf`;
+}
@@ -0,0 +1,133 @@
+import { Document, Page, Text, View, renderToBuffer } from '@react-pdf/renderer';
+import { Invoice } from '@/types/database';
+import { getInvoiceBalance } from '@/lib/invoices';
+import { getTaxLabel } from '@/lib/taxes';
+import { getDiscountLabel } from '@/lib/discounts';
+import {
+  PdfClient,
+  PdfFooter,
+  PdfHeader,
+  PdfItemsTable,
+  PdfLineItem,
+  PdfParties,
+  PdfProfile,
+  PdfTotals,
+  formatCurrency,
+  formatDate,
+  styles,
+} from './pdf-parts';
+
+export type PdfInvoice = Pick<
+  Invoice,
+  | 'invoice_number'
+  | 'title'
+  | 'description'
+  | 'status'
+  | 'issue_date'
+  | 'due_date'
+  | 'paid_date'
+  | 'subtotal'
+  | 'discount_type'
+  | 'discount_value'
+  | 'discount_amount'
+  | 'taxes'
+  | 'tax_amount'
+  | 'deposit_credit'
+  | 'retainage_percent'
+  | 'retainage_amount'
+  | 'total'
+  | 'amount_paid'
+  | 'notes'
+> & {
+  client: PdfClient | null;
+  items: PdfLineItem[];
+  job_site_address?: string | null;
+};
+
+interface InvoicePdfProps {
+  invoice: PdfInvoice;
+  profile: PdfProfile | null;
+}
+
+export function InvoicePdf({ invoice, profile }: InvoicePdfProps) {
+  const meta = [
+    { label: 'Invoice #', value: invoice.invoice_number },
+    { label: 'Date', value: formatDate(invoice.issue_date) },
+  ];
+  if (invoice.due_date) {
+    meta.push({ label: 'Due Date', value: formatDate(invoice.due_date) });
+  }
+  if (invoice.status === 'paid' && invoice.paid_date) {
+    meta.push({ label: 'Paid', value: formatDate(invoice.paid_date) });
+  }
+
+  const totalsRows = [{ label: 'Subtotal', value: formatCurrency(invoice.subtotal) }];
+  if (invoice.discount_amount > 0) {
+    totalsRows.push({
+      label: getDiscountLabel(invoice.discount_type, invoice.discount_value),
+      value: `-${formatCurrency(invoice.discount_amount)}`,
+    });
+  }
+  totalsRows.push(
+    ...invoice.taxes.map((tax) => ({ label: getTaxLabel(tax), value: formatCurrency(tax.amount) }))
+  );
+  if (invoice.deposit_credit > 0) {
+    totalsRows.push({ label: 'Less deposit received', value: `-${formatCurrency(invoice.deposit_credit)}` });
+  }
+  if (invoice.retainage_amount > 0) {
+    totalsRows.push({
+      label: `Less retainage (${invoice.retainage_percent}%)`,
+      value: `-${formatCurrency(invoice.retainage_amount)}`,
+    });
+  }
+  if (invoice.status === 'partially_paid') {
+    totalsRows.push(
+      { label: 'Invoice Total', value: formatCurrency(invoice.total) },
+      { label: 'Payments Received', value: `-${formatCurrency(invoice.amount_paid)}` }
+    );
+  }
+
+  return (
+    <Document title={`Invoice ${invoice.invoice_number}`} author={profile?.business_name || undefined}>
+      <Page size="LETTER" style={styles.page}>
+        <PdfHeader profile={profile} documentTitle="INVOICE" meta={meta} />
+
+        <PdfParties
+          clientLabel="Bill To"
+          client={invoice.client}
+          jobSiteAddress={invoice.job_site_address}
+        />
+
+        <View style={styles.paragraph}>
+          <Text style={styles.projectTitle}>{invoice.title}</Text>
+          {invoice.description && <Text>{invoice.description}</Text>}
+        </View>
+
+        <PdfItemsTable items={invoice.items} />
+
+        <PdfTotals
+          rows={totalsRows}
+          totalLabel={invoice.status === 'paid' ? 'Total Paid' : 'Amount Due'}
+          total={invoice.status === 'paid' ? invoice.total : getInvoiceBalance(invoice)}
+        />
+
+        {invoice.notes && (
+          <View style={styles.paragraph} wrap={false}>
+            <Text style={styles.sectionLabel}>Payment Terms & Notes</Text>
+            <Text>{invoice.notes}</Text>
+          </View>
+        )}
+
+        <PdfFooter label={`Invoice ${invoice.invoice_number}`} />
+      </Page>
+    </Document>
+  );
+}
+
+export function renderInvoicePdf(invoice: PdfInvoice, profile: PdfProfile | null) {
+  return renderToBuffer(<InvoicePdf invoice={invoice} profile={profile} />);
+}
+
+export function getInvoicePdfFilename(invoice: Pick<Invoice, 'invoice_number'>) {
+  return `invoice-${invoice.invoice_number}.pdf`;
+}
@@ -0,0 +1,370 @@
+import { Image, StyleSheet, Text, View } from '@react-pdf/renderer';
+import { Client, DiscountType, Profile } from '@/types/database';
+import { getUnitLabel } from '@/lib/units';
+import { formatDiscount } from '@/lib/discounts';
+import { groupBySection } from '@/lib/sections';
+import { isLineIncluded } from '@/lib/options';
+
+export type PdfProfile = Pick<
+  Profile,
+  'business_name' | 'business_address' | 'business_phone' | 'business_email' | 'license_number' | 'logo_url'
+>;
+
+export type PdfClient = Pick<Client, 'name' | 'email' | 'phone' | 'address'>;
+
+export interface PdfLineItem {
+  id: string;
+  description: string;
+  quantity: number;
+  unit: string;
+  unit_price: number;
+  taxable?: boolean;
+  discount_type?: DiscountType | null;
+  discount_value?: number | null;
+  section?: string | null;
+  is_optional?: boolean;
+  alternate_group?: string | null;
+  is_selected?: boolean;
+  amount: number;
+  sort_order: number;
+}
+
+export const styles = StyleSheet.create({
+  page: {
+    paddingTop: 40,
+    paddingBottom: 60,
+    paddingHorizontal: 40,
+    fontSize: 10,
+    fontFamily: 'Helvetica',
+    color: '#334155',
+    lineHeight: 1.4,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 24,
+  },
+  brand: {
+    flexDirection: 'row',
+    maxWidth: '60%',
+  },
+  logo: {
+    width: 56,
+    height: 56,
+    marginRight: 12,
+    objectFit: 'contain',
+  },
+  businessName: {
+    fontSize: 16,
+    fontFamily: 'Helvetica-Bold',
+    color: '#0f172a',
+    marginBottom: 2,
+  },
+  muted: {
+    color: '#64748b',
+  },
+  documentTitle: {
+    fontSize: 22,
+    fontFamily: 'Helvetica-Bold',
+    color: '#1d4ed8',
+    textAlign: 'right',
+    letterSpacing: 1,
+  },
+  metaRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 2,
+  },
+  metaLabel: {
+    color: '#64748b',
+    width: 70,
+    textAlign: 'right',
+    marginRight: 8,
+  },
+  metaValue: {
+    fontFamily: 'Helvetica-Bold',
+    minWidth: 80,
+    textAlign: 'right',
+  },
+  partiesRow: {
+    flexDirection: 'row',
+    marginBottom: 20,
+  },
+  party: {
+    flex: 1,
+    marginRight: 16,
+  },
+  sectionLabel: {
+    fontSize: 8,
+    fontFamily: 'Helvetica-Bold',
+    color: '#64748b',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 4,
+  },
+  strong: {
+    fontFamily: 'Helvetica-Bold',
+    color: '#0f172a',
+  },
+  projectTitle: {
+    fontSize: 13,
+    fontFamily: 'Helvetica-Bold',
+    color: '#0f172a',
+    marginBottom: 4,
+  },
+  paragraph: {
+    marginBottom: 16,
+  },
+  table: {
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    borderRadius: 4,
+    marginBottom: 16,
+  },
+  tableHeader: {
+    flexDirection: 'row',
+    backgroundColor: '#f8fafc',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e2e8f0',
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    fontFamily: 'Helvetica-Bold',
+    fontSize: 9,
+    color: '#475569',
+  },
+  tableRow: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+  },
+  sectionRow: {
+    backgroundColor: '#f8fafc',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e2e8f0',
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    fontFamily: 'Helvetica-Bold',
+    color: '#0f172a',
+  },
+  sectionSubtotalRow: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e2e8f0',
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+  },
+  colDescription: { flex: 1, paddingRight: 8 },
+  colQty: { width: 45, textAlign: 'right' },
+  colUnit: { width: 50, paddingLeft: 8 },
+  colPrice: { width: 75, textAlign: 'right' },
+  colAmount: { width: 80, textAlign: 'right' },
+  totals: {
+    marginLeft: 'auto',
+    width: 220,
+    marginBottom: 20,
+  },
+  totalsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 3,
+  },
+  grandTotal: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    borderTopWidth: 1,
+    borderTopColor: '#cbd5e1',
+    marginTop: 4,
+    paddingTop: 6,
+    fontSize: 13,
+    fontFamily: 'Helvetica-Bold',
+    color: '#1d4ed8',
+  },
+  footer: {
+    position: 'absolute',
+    bottom: 24,
+    left: 40,
+    right: 40,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    fontSize: 8,
+    color: '#94a3b8',
+  },
+});
+
+export function formatCurrency(amount: number) {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+  }).format(amount);
+}
+
+export function formatDate(date: string) {
+  return new Date(date).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+}
+
+// react-pdf can only embed PNG and JPEG images
+function isEmbeddableImage(url: string) {
+  return /\.(png|jpe?g)(\?.*)?$/i.test(url);
+}
+
+interface PdfHeaderProps {
+  profile: PdfProfile | null;
+  documentTitle: string;
+  meta: { label: string; value: string }[];
+}
+
+export function PdfHeader({ profile, documentTitle, meta }: PdfHeaderProps) {
+  return (
+    <View style={styles.header}>
+      <View style={styles.brand}>
+        {profile?.logo_url && isEmbeddableImage(profile.logo_url) && (
+          <Image src={profile.logo_url} style={styles.logo} />
+        )}
+        <View>
+          <Text style={styles.businessName}>{profile?.business_name || 'Your Business'}</Text>
+          {profile?.business_address && <Text style={styles.muted}>{profile.business_address}</Text>}
+          {profile?.business_phone && <Text style={styles.muted}>{profile.business_phone}</Text>}
+          {profile?.business_email && <Text style={styles.muted}>{profile.business_email}</Text>}
+          {profile?.license_number && <Text style={styles.muted}>License: {profile.license_number}</Text>}
+        </View>
+      </View>
+      <View>
+        <Text style={styles.documentTitle}>{documentTitle}</Text>
+        {meta.map((row) => (
+          <View key={row.label} style={styles.metaRow}>
+            <Text style={styles.metaLabel}>{row.label}</Text>
+            <Text style={styles.metaValue}>{row.value}</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+interface PdfPartiesProps {
+  clientLabel: string;
+  client: PdfClient | null;
+  jobSiteAddress?: string | null;
+}
+
+export function PdfParties({ clientLabel, client, jobSiteAddress }: PdfPartiesProps) {
+  return (
+    <View style={styles.partiesRow}>
+      <View style={styles.party}>
+        <Text style={styles.sectionLabel}>{clientLabel}</Text>
+        {client ? (
+          <>
+            <Text style={styles.strong}>{client.name}</Text>
+            {client.address && <Text>{client.address}</Text>}
+            {client.email && <Text style={styles.muted}>{client.email}</Text>}
+            {client.phone && <Text style={styles.muted}>{client.phone}</Text>}
+          </>
+        ) : (
+          <Text style={styles.muted}>—</Text>
+        )}
+      </View>
+      {jobSiteAddress && (
+        <View style={styles.party}>
+          <Text style={styles.sectionLabel}>Job Site</Text>
+          <Text>{jobSiteAddress}</Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+export function PdfItemsTable({ items }: { items: PdfLineItem[] }) {
+  const sorted = [...items].sort((a, b) => a.sort_order - b.sort_order);
+
+  return (
+    <View style={styles.table}>
+      <View style={styles.tableHeader} fixed>
+        <Text style={styles.colDescription}>Description</Text>
+        <Text style={styles.colQty}>Qty</Text>
+        <Text style={styles.colUnit}>Unit</Text>
+        <Text style={styles.colPrice}>Unit Price</Text>
+        <Text style={styles.colAmount}>Amount</Text>
+      </View>
+      {groupBySection(sorted).map((section) => (
+        <View key={section.items[0].id}>
+          {section.name !== null && (
+            <Text style={styles.sectionRow} wrap={false}>{section.name}</Text>
+          )}
+          {section.items.map((item) => (
+            <View key={item.id} style={styles.tableRow} wrap={false}>
+              <Text style={styles.colDescription}>
+                {item.description}
+                {item.discount_type && item.discount_value && (
+                  <Text style={styles.muted}> ({formatDiscount(item.discount_type, item.discount_value)})</Text>
+                )}
+                {item.taxable === false && <Text style={styles.muted}> (not taxed)</Text>}
+                {(item.is_optional || item.alternate_group != null) && (
+                  <Text style={styles.muted}>
+                    {' '}({item.alternate_group != null ? `alternate: ${item.alternate_group}` : 'optional'}
+                    {!isLineIncluded(item) && ', not included'})
+                  </Text>
+                )}
+              </Text>
+              <Text style={styles.colQty}>{item.quantity}</Text>
+              <Text style={styles.colUnit}>{getUnitLabel(item.unit)}</Text>
+              <Text style={styles.colPrice}>{formatCurrency(item.unit_price)}</Text>
+              <Text style={isLineIncluded(item) ? styles.colAmount : [styles.colAmount, styles.muted]}>
+                {formatCurrency(item.amount)}
+              </Text>
+            </View>
+          ))}
+          {section.name !== null && (
+            <View style={styles.sectionSubtotalRow} wrap={false}>
+              <Text style={[styles.colDescription, styles.muted]}>{section.name} subtotal</Text>
+              <Text style={[styles.colAmount, styles.strong]}>
+                {formatCurrency(
+                  section.items
+                    .filter(isLineIncluded)
+                    .reduce((sum, item) => sum + Number(item.amount), 0)
+                )}
+              </Text>
+            </View>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+interface PdfTotalsProps {
+  rows: { label: string; value: string }[];
+  totalLabel: string;
+  total: number;
+}
+
+export function PdfTotals({ rows, totalLabel, total }: PdfTotalsProps) {
+  return (
+    <View style={styles.totals} wrap={false}>
+      {rows.map((row) => (
+        <View key={row.label} style={styles.totalsRow}>
+          <Text style={styles.muted}>{row.label}</Text>
+          <Text>{row.value}</Text>
+        </View>
+      ))}
+      <View style={styles.grandTotal}>
+        <Text>{totalLabel}</Text>
+        <Text>{formatCurrency(total)}</Text>
+      </View>
+    </View>
+  );
+}
+
+export function PdfFooter({ label }: { label: string }) {
+  return (
+    <View style={styles.footer} fixed>
+      <Text>{label}</Text>
+      <Text render={({ pageNumber, totalPages }) => `Page ${pageNumber} of ${totalPages}`} />
+    </View>
+  );
+}
@@ -0,0 +1,65 @@
+import Image from 'next/image';
+import { SharedProfile } from '@/lib/portal';
+import { Building2, Mail, Phone } from 'lucide-react';
+
+interface BusinessHeaderProps {
+  profile: SharedProfile | null;
+  businessName: string;
+}
+
+export function BusinessHeader({ profile, businessName }: BusinessHeaderProps) {
+  return (
+    <>
+      <div className="flex items-start justify-between gap-6">
+        <div className="flex items-center gap-4">
+          {profile?.logo_url ? (
+            // Served as uploaded from storage, not through the image optimizer
+            <Image
+              src={profile.logo_url}
+              alt={businessName}
+              width={64}
+              height={64}
+              unoptimized
+              className="h-16 w-16 rounded-lg object-contain bg-white border"
+            />
+          ) : (
+            <div className="flex h-16 w-16 items-center justify-center rounded-lg bg-blue-600">
+              <Building2 className="h-8 w-8 text-white" />
+            </div>
+          )}
+          <div>
+            <p className="text-xl font-bold text-slate-900">{businessName}</p>
+            {profile?.license_number && (
+              <p className="text-sm text-slate-500">License: {profile.license_number}</p>
+            )}
+          </div>
+        </div>
+        <div className="text-right text-sm text-slate-600 space-y-1">
+          {profile?.business_email && (
+            <div className="flex items-center justify-end gap-2">
+              <Mail className="h-4 w-4 text-slate-400" />
+              <a href={`mailto:${profile.business_email}`} className="hover:text-blue-600">
+                {profile.business_email}
+              </a>
+            </div>
+          )}
+          {profile?.business_phone && (
+            <div className="flex items-center justify-end gap-2">
+              <Phone className="h-4 w-4 text-slate-400" />
+              <a href={`tel:${profile.business_phone}`} className="hover:text-blue-600">
+                {profile.business_phone}
+              </a>
+            </div>
+          )}
+          {profile?.business_address && (
+            <p className="whitespace-pre-line">{profile.business_address}</p>
+          )}
+        </div>
+      </div>
+
+      {profile?.business_intro && (
+        <p className="text-slate-600">{profile.business_intro}</p>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,54 @@
+import { Card, CardContent } from '@/components/ui/card';
+import { AlertCircle, Mail, Phone } from 'lucide-react';
+
+interface LinkUnavailableProps {
+  title: string;
+  message: string;
+  businessName?: string | null;
+  businessEmail?: string | null;
+  businessPhone?: string | null;
+}
+
+export function LinkUnavailable({
+  title,
+  message,
+  businessName,
+  businessEmail,
+  businessPhone,
+}: LinkUnavailableProps) {
+  return (
+    <Card>
+      <CardContent className="flex flex-col items-center justify-center py-12">
+        <div className="h-12 w-12 rounded-full bg-amber-50 flex items-center justify-center mb-4">
+          <AlertCircle className="h-6 w-6 text-amber-600" />
+        </div>
+        <h1 className="text-lg font-medium text-slate-900">{title}</h1>
+        <p className="text-slate-500 text-center mt-1 max-w-md">{message}</p>
+
+        {(businessEmail || businessPhone) && (
+          <div className="mt-6 space-y-2 text-sm text-slate-600">
+            {businessName && (
+              <p className="font-medium text-slate-900 text-center">{businessName}</p>
+            )}
+            {businessEmail && (
+              <div className="flex items-center gap-2">
+                <Mail className="h-4 w-4 text-slate-400" />
+                <a href={`mailto:${businessEmail}`} className="hover:text-blue-600">
+                  {businessEmail}
+                </a>
+              </div>
+            )}
+            {businessPhone && (
+              <div className="flex items-center gap-2">
+                <Phone className="h-4 w-4 text-slate-400" />
+                <a href={`tel:${businessPhone}`} className="hover:text-blue-600">
+                  {businessPhone}
+                </a>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
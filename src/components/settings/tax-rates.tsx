@@ -0,0 +1,199 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { createClient } from '@/lib/supabase/client';
+import { TaxRate } from '@/types/database';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from 'sonner';
+import { Loader2, Percent, Plus, Trash2 } from 'lucide-react';
+
+interface TaxRatesProps {
+  taxRates: TaxRate[];
+  userId: string;
+}
+
+export function TaxRates({ taxRates, userId }: TaxRatesProps) {
+  const router = useRouter();
+  const supabase = createClient();
+  const [isAdding, setIsAdding] = useState(false);
+  const [newRate, setNewRate] = useState({ name: '', rate: '', is_compound: false });
+
+  const handleAdd = async () => {
+    const name = newRate.name.trim();
+    const rate = Number(newRate.rate);
+
+    if (!name || newRate.rate === '' || rate < 0 || rate > 100) {
+      toast.error('Enter a name and a rate between 0 and 100');
+      return;
+    }
+
+    setIsAdding(true);
+
+    try {
+      const { error } = await supabase.from('tax_rates').insert({
+        user_id: userId,
+        name,
+        rate,
+        is_compound: newRate.is_compound,
+      });
+
+      if (error) {
+        if (error.code === '23505') {
+          toast.error(`You already have a tax named ${name}`);
+          return;
+        }
+        throw error;
+      }
+
+      toast.success('Tax rate added');
+      setNewRate({ name: '', rate: '', is_compound: false });
+      router.refresh();
+    } catch (error) {
+      console.error('Error adding tax rate:', error);
+      toast.error('Failed to add tax rate');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleUpdate = async (taxRate: TaxRate, updates: Partial<Pick<TaxRate, 'is_compound' | 'is_default'>>) => {
+    const { error } = await supabase
+      .from('tax_rates')
+      .update(updates)
+      .eq('id', taxRate.id);
+
+    if (error) {
+      console.error('Error updating tax rate:', error);
+      toast.error('Failed to update tax rate');
+      return;
+    }
+
+    router.refresh();
+  };
+
+  // Documents keep their own copy of each tax, so deleting only affects new ones
+  const handleDelete = async (taxRate: TaxRate) => {
+    if (!confirm(`Delete ${taxRate.name}? Estimates and invoices already using it keep their tax.`)) {
+      return;
+    }
+
+    const { error } = await supabase.from('tax_rates').delete().eq('id', taxRate.id);
+
+    if (error) {
+      console.error('Error deleting tax rate:', error);
+      toast.error('Failed to delete tax rate');
+      return;
+    }
+
+    toast.success('Tax rate deleted');
+    router.refresh();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Percent className="h-5 w-5 text-blue-600" />
+          Tax Rates
+        </CardTitle>
+        <CardDescription>
+          Save the taxes you charge. Default taxes are added to every new estimate and invoice.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {taxRates.length === 0 ? (
+          <p className="text-sm text-slate-500">No tax rates saved yet</p>
+        ) : (
+          <div className="divide-y rounded-md border">
+            {taxRates.map((taxRate) => (
+              <div key={taxRate.id} className="flex flex-wrap items-center gap-4 px-4 py-3">
+                <div className="flex-1 min-w-[8rem]">
+                  <p className="font-medium text-slate-900">{taxRate.name}</p>
+                  <p className="text-sm text-slate-500">{Number(taxRate.rate)}%</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={`compound-${taxRate.id}`}
+                    checked={taxRate.is_compound}
+                    onCheckedChange={(checked) => handleUpdate(taxRate, { is_compound: checked })}
+                  />
+                  <Label htmlFor={`compound-${taxRate.id}`} className="text-sm font-normal">Compound</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={`default-${taxRate.id}`}
+                    checked={taxRate.is_default}
+                    onCheckedChange={(checked) => handleUpdate(taxRate, { is_default: checked })}
+                  />
+                  <Label htmlFor={`default-${taxRate.id}`} className="text-sm font-normal">Default</Label>
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="text-slate-400 hover:text-red-600"
+                  onClick={() => handleDelete(taxRate)}
+                  aria-label={`Delete ${taxRate.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid gap-4 sm:grid-cols-[1fr_8rem_auto_auto] sm:items-end">
+          <div>
+            <Label htmlFor="new_tax_name">Name</Label>
+            <Input
+              id="new_tax_name"
+              value={newRate.name}
+              onChange={(e) => setNewRate((prev) => ({ ...prev, name: e.target.value }))}
+              placeholder="State Sales Tax"
+              maxLength={100}
+              className="mt-1.5"
+            />
+          </div>
+          <div>
+            <Label htmlFor="new_tax_rate">Rate (%)</Label>
+            <Input
+              id="new_tax_rate"
+              type="number"
+              min="0"
+              max="100"
+              step="0.001"
+              value={newRate.rate}
+              onChange={(e) => setNewRate((prev) => ({ ...prev, rate: e.target.value }))}
+              placeholder="8.25"
+              className="mt-1.5"
+            />
+          </div>
+          <div className="flex items-center gap-2 sm:pb-2">
+            <Switch
+              id="new_tax_compound"
+              checked={newRate.is_compound}
+              onCheckedChange={(checked) => setNewRate((prev) => ({ ...prev, is_compound: checked }))}
+            />
+            <Label htmlFor="new_tax_compound" className="text-sm font-normal">Compound</Label>
+          </div>
+          <Button type="button" variant="outline" onClick={handleAdd} disabled={isAdding}>
+            {isAdding ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Plus className="mr-2 h-4 w-4" />
+            )}
+            Add Tax
+          </Button>
+        </div>
+        <p className="text-xs text-slate-500">
+          A compound tax is charged on the subtotal plus the taxes listed before it.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
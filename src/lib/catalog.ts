@@ -0,0 +1,27 @@
+import { CatalogItem } from '@/types/database';
+
+// Text a catalog item puts on a line item
+export function getCatalogDescription(item: Pick<CatalogItem, 'name' | 'description'>) {
+  return item.description?.trim() || item.name;
+}
+
+// Catalog items matching every word of the query, names that start with the
+// query first
+export function searchCatalog(items: CatalogItem[], query: string, limit = 8) {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  const matches = items.filter((item) => {
+    const text = [item.name, item.description, item.category].filter(Boolean).join(' ').toLowerCase();
+    return words.every((word) => text.includes(word));
+  });
+
+  const prefix = query.trim().toLowerCase();
+  return matches
+    .sort((a, b) => {
+      const aStarts = a.name.toLowerCase().startsWith(prefix) ? 0 : 1;
+      const bStarts = b.name.toLowerCase().startsWith(prefix) ? 0 : 1;
+      return aStarts - bStarts || a.name.localeCompare(b.name);
+    })
+    .slice(0, limit);
+}
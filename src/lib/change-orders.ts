@@ -0,0 +1,23 @@
+import { ChangeOrder } from '@/types/database';
+
+// Same format roll_change_orders_into_invoice() uses on invoice lines: at
+// least 3 digits, never cut short (CO-007, CO-1234)
+export function formatChangeOrderNumber(changeOrderNumber: number) {
+  return `CO-${String(changeOrderNumber).padStart(3, '0')}`;
+}
+
+// Original estimate total, plus approved change orders
+export function getContractTotals(
+  originalTotal: number,
+  changeOrders: Pick<ChangeOrder, 'status' | 'total'>[]
+) {
+  const approvedChanges = changeOrders
+    .filter((changeOrder) => changeOrder.status === 'approved')
+    .reduce((sum, changeOrder) => sum + Number(changeOrder.total), 0);
+
+  return {
+    original: originalTotal,
+    approvedChanges,
+    revised: originalTotal + approvedChanges,
+  };
+}
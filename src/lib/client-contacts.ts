@@ -0,0 +1,80 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { Client, ClientContact, ContactRole } from '@/types/database';
+
+export const CONTACT_ROLES: { value: ContactRole; label: string }[] = [
+  { value: 'billing', label: 'Billing' },
+  { value: 'site', label: 'Site' },
+  { value: 'decision_maker', label: 'Decision Maker' },
+  { value: 'other', label: 'Other' },
+];
+
+export function getContactRoleLabel(role: ContactRole) {
+  return CONTACT_ROLES.find((r) => r.value === role)?.label || role;
+}
+
+// Stands for the email on the client record itself in a recipient list
+export const CLIENT_RECIPIENT = 'client';
+
+// Who a document is emailed to: CLIENT_RECIPIENT or a contact id for each
+export interface SendRecipients {
+  to: string;
+  cc: string[];
+}
+
+export type ResolvedRecipients =
+  | { success: true; to: { name: string; email: string }; cc: string[] }
+  | { success: false; error: string };
+
+// First contact in the given role with an email, for picking who a send goes
+// to by default (e.g. invoices to accounts payable)
+export function getDefaultRecipient(contacts: Pick<ClientContact, 'id' | 'role' | 'email'>[], role: ContactRole) {
+  return contacts.find((contact) => contact.role === role && contact.email)?.id ?? CLIENT_RECIPIENT;
+}
+
+// Turns a recipient choice into addresses. Only the client's own contacts
+// can be chosen; leaving it out sends to the client's email as before.
+export async function resolveRecipients(
+  supabase: SupabaseClient,
+  client: Pick<Client, 'id' | 'name' | 'email'>,
+  recipients?: SendRecipients
+): Promise<ResolvedRecipients> {
+  const ids = recipients ? [recipients.to, ...recipients.cc] : [CLIENT_RECIPIENT];
+  const contactIds = ids.filter((id) => id !== CLIENT_RECIPIENT);
+
+  const people = new Map<string, { name: string; email: string | null }>([
+    [CLIENT_RECIPIENT, { name: client.name, email: client.email }],
+  ]);
+
+  if (contactIds.length > 0) {
+    const { data: contacts, error } = await supabase
+      .from('client_contacts')
+      .select('id, name, email')
+      .eq('client_id', client.id)
+      .in('id', contactIds);
+
+    if (error) {
+      console.error('Error loading client contacts:', error);
+      return { success: false, error: 'Failed to load client contacts' };
+    }
+
+    for (const contact of contacts ?? []) {
+      people.set(contact.id, { name: contact.name, email: contact.email });
+    }
+  }
+
+  const to = people.get(recipients?.to ?? CLIENT_RECIPIENT);
+  if (!to?.email) {
+    return {
+      success: false,
+      error: to ? `${to.name} does not have an email address` : 'Recipient not found',
+    };
+  }
+
+  const cc = new Set<string>();
+  for (const id of recipients?.cc ?? []) {
+    const email = people.get(id)?.email;
+    if (email && email !== to.email) cc.add(email);
+  }
+
+  return { success: true, to: { name: to.name, email: to.email }, cc: [...cc] };
+}
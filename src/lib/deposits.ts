@@ -0,0 +1,14 @@
+import { DepositType } from '@/types/database';
+
+// Same amount create_deposit_invoice() bills when the estimate is approved
+export function getDepositAmount(
+  total: number,
+  depositType: DepositType | null,
+  depositValue: number | null
+) {
+  if (!depositType || !depositValue) return 0;
+  if (depositType === 'percent') {
+    return Math.round(total * depositValue) / 100;
+  }
+  return Math.min(depositValue, total);
+}
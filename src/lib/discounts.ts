@@ -0,0 +1,41 @@
+import { DiscountType } from '@/types/database';
+
+type DiscountedLine = {
+  quantity: number;
+  unit_price: number;
+  discount_type?: DiscountType | null;
+  discount_value?: number | null;
+};
+
+// Same as calculate_discount(): a fixed discount never exceeds the amount
+export function getDiscountAmount(
+  amount: number,
+  discountType: DiscountType | null | undefined,
+  discountValue: number | null | undefined
+) {
+  if (!discountType || !discountValue) return 0;
+  if (discountType === 'percent') {
+    return Math.round(amount * discountValue) / 100;
+  }
+  return Math.min(discountValue, Math.max(amount, 0));
+}
+
+// Line total after its own discount, like the generated amount column
+export function getLineAmount(item: DiscountedLine) {
+  const amount = item.quantity * item.unit_price;
+  return amount - getDiscountAmount(amount, item.discount_type, item.discount_value);
+}
+
+// Short description of a discount, e.g. "10% off" or "$50.00 off"
+export function formatDiscount(discountType: DiscountType, discountValue: number) {
+  if (discountType === 'percent') {
+    return `${Number(discountValue)}% off`;
+  }
+  const amount = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' })
+    .format(Number(discountValue));
+  return `${amount} off`;
+}
+
+export function getDiscountLabel(discountType: DiscountType | null, discountValue: number | null) {
+  return discountType === 'percent' ? `Discount (${Number(discountValue)}%)` : 'Discount';
+}
@@ -0,0 +1,31 @@
+import { DocumentType } from '@/types/database';
+
+interface NumberingFormat {
+  prefix: string;
+  padding: number;
+  yearlyReset: boolean;
+}
+
+export const DEFAULT_NUMBER_PREFIXES: Record<DocumentType, string> = {
+  estimate: 'EST',
+  invoice: 'INV',
+};
+
+export const DEFAULT_NUMBER_PADDING = 4;
+
+// Mirrors next_document_number() in the database, for previews in Settings.
+// e.g. EST-2026-0042, or EST-0042 when numbering does not reset yearly.
+// Values with more digits than the padding are kept whole (EST-2026-12345).
+export function formatDocumentNumber(
+  { prefix, padding, yearlyReset }: NumberingFormat,
+  value: number,
+  year: number = new Date().getFullYear()
+) {
+  return [
+    prefix.trim() || null,
+    yearlyReset ? String(year) : null,
+    String(value).padStart(padding, '0'),
+  ]
+    .filter(Boolean)
+    .join('-');
+}
@@ -4,6 +4,7 @@ const resend = new Resend(process.env.RESEND_API_KEY);
 
 export interface SendEstimateEmailParams {
   to: string;
+  cc?: string[];
   clientName: string;
   estimateNumber: string;
   estimateTitle: string;
@@ -16,6 +17,7 @@ export interface SendEstimateEmailParams {
 
 export async function sendEstimateEmail({
   to,
+  cc,
   clientName,
   estimateNumber,
   estimateTitle,
@@ -41,6 +43,7 @@ export async function sendEstimateEmail({
   const { data, error } = await resend.emails.send({
     from: fromEmail || `${businessName} <onboarding@resend.dev>`,
     to: [to],
+    cc: cc?.length ? cc : undefined,
     subject: `Estimate ${estimateNumber} from ${businessName}`,
     html: `
       <!DOCTYPE html>
@@ -115,3 +118,253 @@ export async function sendEstimateEmail({
 
   return data;
 }
+
+export interface SendInvoiceEmailParams {
+  to: string;
+  cc?: string[];
+  clientName: string;
+  invoiceNumber: string;
+  invoiceTitle: string;
+  total: number;
+  dueDate: string | null;
+  viewUrl: string;
+  businessName: string;
+  pdf: { filename: string; content: Buffer };
+  fromEmail?: string;
+}
+
+export async function sendInvoiceEmail({
+  to,
+  cc,
+  clientName,
+  invoiceNumber,
+  invoiceTitle,
+  total,
+  dueDate,
+  viewUrl,
+  businessName,
+  pdf,
+  fromEmail,
+}: SendInvoiceEmailParams) {
+  const formattedTotal = new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+  }).format(total);
+
+  const formattedDueDate = dueDate
+    ? new Date(dueDate).toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+      })
+    : null;
+
+  const { data, error } = await resend.emails.send({
+    from: fromEmail || `${businessName} <onboarding@resend.dev>`,
+    to: [to],
+    cc: cc?.length ? cc : undefined,
+    subject: `Invoice ${invoiceNumber} from ${businessName}`,
+    attachments: [{ filename: pdf.filename, content: pdf.content }],
+    html: `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Invoice ${invoiceNumber}</title>
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #334155; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #3b82f6 0%, #1d4ed8 100%); padding: 32px; border-radius: 12px 12px 0 0;">
+            <h1 style="color: white; margin: 0; font-size: 24px;">${businessName}</h1>
+          </div>
+
+          <div style="background: #ffffff; padding: 32px; border: 1px solid #e2e8f0; border-top: none; border-radius: 0 0 12px 12px;">
+            <p style="font-size: 16px; margin-bottom: 24px;">
+              Hi ${clientName},
+            </p>
+
+            <p style="font-size: 16px; margin-bottom: 24px;">
+              Please find attached invoice ${invoiceNumber} from <strong>${businessName}</strong>.
+            </p>
+
+            <div style="background: #f8fafc; border-radius: 8px; padding: 24px; margin-bottom: 24px;">
+              <table style="width: 100%; border-collapse: collapse;">
+                <tr>
+                  <td style="padding: 8px 0; color: #64748b;">Invoice #</td>
+                  <td style="padding: 8px 0; text-align: right; font-weight: 600;">${invoiceNumber}</td>
+                </tr>
+                <tr>
+                  <td style="padding: 8px 0; color: #64748b;">Project</td>
+                  <td style="padding: 8px 0; text-align: right; font-weight: 600;">${invoiceTitle}</td>
+                </tr>
+                <tr>
+                  <td style="padding: 8px 0; border-top: 1px solid #e2e8f0; color: #64748b;">Amount Due</td>
+                  <td style="padding: 8px 0; border-top: 1px solid #e2e8f0; text-align: right; font-weight: 700; font-size: 20px; color: #3b82f6;">${formattedTotal}</td>
+                </tr>
+                ${formattedDueDate ? `
+                <tr>
+                  <td style="padding: 8px 0; color: #64748b;">Due Date</td>
+                  <td style="padding: 8px 0; text-align: right;">${formattedDueDate}</td>
+                </tr>
+                ` : ''}
+              </table>
+            </div>
+
+            <div style="text-align: center; margin-bottom: 24px;">
+              <a href="${viewUrl}" style="display: inline-block; background: #3b82f6; color: white; text-decoration: none; padding: 14px 32px; border-radius: 8px; font-weight: 600; font-size: 16px;">
+                View Invoice
+              </a>
+            </div>
+
+            <p style="font-size: 14px; color: #64748b; margin-bottom: 0;">
+              If you have any questions about this invoice, please reply to this email or contact us directly.
+            </p>
+          </div>
+
+          <div style="text-align: center; padding: 24px; color: #94a3b8; font-size: 12px;">
+            <p style="margin: 0;">
+              This invoice was sent via BuildMVP
+            </p>
+          </div>
+        </body>
+      </html>
+    `,
+  });
+
+  if (error) {
+    console.error('Error sending email:', error);
+    throw error;
+  }
+
+  return data;
+}
+
+export interface SendInvoiceReminderEmailParams {
+  to: string;
+  clientName: string;
+  invoiceNumber: string;
+  invoiceTitle: string;
+  balance: number;
+  dueDate: string;
+  offsetDays: number; // Days relative to the due date, negative = before
+  viewUrl: string;
+  businessName: string;
+  fromEmail?: string;
+}
+
+export async function sendInvoiceReminderEmail({
+  to,
+  clientName,
+  invoiceNumber,
+  invoiceTitle,
+  balance,
+  dueDate,
+  offsetDays,
+  viewUrl,
+  businessName,
+  fromEmail,
+}: SendInvoiceReminderEmailParams) {
+  const formattedBalance = new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+  }).format(balance);
+
+  const formattedDueDate = new Date(dueDate).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+
+  const plural = (n: number) => `${n} day${n !== 1 ? 's' : ''}`;
+  const timing = offsetDays < 0
+    ? `is due in ${plural(-offsetDays)}`
+    : offsetDays === 0
+      ? 'is due today'
+      : `is ${plural(offsetDays)} past due`;
+  const isLate = offsetDays > 0;
+
+  const { data, error } = await resend.emails.send({
+    from: fromEmail || `${businessName} <onboarding@resend.dev>`,
+    to: [to],
+    subject: `${isLate ? 'Past due' : 'Reminder'}: Invoice ${invoiceNumber} ${timing}`,
+    html: `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>Invoice ${invoiceNumber}</title>
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #334155; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: linear-gradient(135deg, #3b82f6 0%, #1d4ed8 100%); padding: 32px; border-radius: 12px 12px 0 0;">
+            <h1 style="color: white; margin: 0; font-size: 24px;">${businessName}</h1>
+          </div>
+
+          <div style="background: #ffffff; padding: 32px; border: 1px solid #e2e8f0; border-top: none; border-radius: 0 0 12px 12px;">
+            <p style="font-size: 16px; margin-bottom: 24px;">
+              Hi ${clientName},
+            </p>
+
+            <p style="font-size: 16px; margin-bottom: 24px;">
+              This is a friendly reminder that invoice ${invoiceNumber} from <strong>${businessName}</strong> ${timing}.
+              ${isLate ? 'If you have already sent payment, thank you, and please disregard this message.' : ''}
+            </p>
+
+            <div style="background: #f8fafc; border-radius: 8px; padding: 24px; margin-bottom: 24px;">
+              <table style="width: 100%; border-collapse: collapse;">
+                <tr>
+                  <td style="padding: 8px 0; color: #64748b;">Invoice #</td>
+                  <td style="padding: 8px 0; text-align: right; font-weight: 600;">${invoiceNumber}</td>
+                </tr>
+                <tr>
+                  <td style="padding: 8px 0; color: #64748b;">Project</td>
+                  <td style="padding: 8px 0; text-align: right; font-weight: 600;">${invoiceTitle}</td>
+                </tr>
+                <tr>
+                  <td style="padding: 8px 0; color: #64748b;">Due Date</td>
+                  <td style="padding: 8px 0; text-align: right;${isLate ? ' color: #dc2626; font-weight: 600;' : ''}">${formattedDueDate}</td>
+                </tr>
+                <tr>
+                  <td style="padding: 8px 0; border-top: 1px solid #e2e8f0; color: #64748b;">Balance Due</td>
+                  <td style="padding: 8px 0; border-top: 1px solid #e2e8f0; text-align: right; font-weight: 700; font-size: 20px; color: #3b82f6;">${formattedBalance}</td>
+                </tr>
+              </table>
+            </div>
+
+            <div style="text-align: center; margin-bottom: 24px;">
+              <a href="${viewUrl}" style="display: inline-block; background: #3b82f6; color: white; text-decoration: none; padding: 14px 32px; border-radius: 8px; font-weight: 600; font-size: 16px;">
+                View Invoice
+              </a>
+            </div>
+
+            <p style="font-size: 14px; color: #64748b; margin-bottom: 0;">
+              If you have any questions about this invoice, please reply to this email or contact us directly.
+            </p>
+          </div>
+
+          <div style="text-align: center; padding: 24px; color: #94a3b8; font-size: 12px;">
+            <p style="margin: 0;">
+              This reminder was sent via BuildMVP
+            </p>
+          </div>
+        </body>
+      </html>
+    `,
+  });
+
+  if (error) {
+    console.error('Error sending email:', error);
+    throw error;
+  }
+
+  return data;
+}
+
+// Turn a Resend failure into a message the contractor can act on
+export function getEmailErrorMessage(error: unknown) {
+  const resendError = error as { statusCode?: number; message?: string };
+  if (resendError?.statusCode === 403 && resendError?.message?.includes('verify a domain')) {
+    return 'For testing, use your own email as the client email. Verify a domain at resend.com for production.';
+  }
+  return 'Failed to send email. Please check your email configuration.';
+}
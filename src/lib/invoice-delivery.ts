@@ -0,0 +1,255 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { sendInvoiceEmail, sendInvoiceReminderEmail, getEmailErrorMessage } from '@/lib/email';
+import { getInvoiceBalance } from '@/lib/invoices';
+import { getOrCreateInvoiceShareLink, getInvoiceShareUrl } from '@/lib/share-links';
+import { getDueReminderOffset } from '@/lib/reminders';
+import { SendRecipients, resolveRecipients } from '@/lib/client-contacts';
+import { renderInvoicePdf, getInvoicePdfFilename } from '@/components/pdf/invoice-pdf';
+
+export type InvoiceDeliveryResult =
+  | { success: true; sentTo: string }
+  | { success: false; error: string };
+
+// Emails an invoice to its client with the PDF attached and a link to the
+// public invoice page, then records when and to whom it went. Works with
+// either a user-scoped client or the admin client (for scheduled sends).
+// Without recipients it goes to the email on the client record.
+export async function deliverInvoice(
+  supabase: SupabaseClient,
+  invoiceId: string,
+  recipients?: SendRecipients
+): Promise<InvoiceDeliveryResult> {
+  const { data: invoice, error: invoiceError } = await supabase
+    .from('invoices')
+    .select(`
+      *,
+      client:clients(*),
+      items:invoice_items(*),
+      source_estimate:estimates(job_site_address)
+    `)
+    .eq('id', invoiceId)
+    .single();
+
+  if (invoiceError || !invoice) {
+    return { success: false, error: 'Invoice not found' };
+  }
+
+  if (!invoice.client) {
+    return { success: false, error: 'Invoice does not have a client' };
+  }
+
+  const resolved = await resolveRecipients(supabase, invoice.client, recipients);
+  if (!resolved.success) {
+    return resolved;
+  }
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('id', invoice.user_id)
+    .single();
+
+  const businessName = profile?.business_name || 'Your Business';
+
+  try {
+    const shareLink = await getOrCreateInvoiceShareLink(supabase, invoiceId, invoice.user_id);
+    const pdf = await renderInvoicePdf(
+      { ...invoice, job_site_address: invoice.source_estimate?.job_site_address ?? null },
+      profile
+    );
+
+    await sendInvoiceEmail({
+      to: resolved.to.email,
+      cc: resolved.cc,
+      clientName: resolved.to.name,
+      invoiceNumber: invoice.invoice_number,
+      invoiceTitle: invoice.title,
+      total: getInvoiceBalance(invoice),
+      dueDate: invoice.due_date,
+      viewUrl: getInvoiceShareUrl(shareLink.token),
+      businessName,
+      pdf: { filename: getInvoicePdfFilename(invoice), content: pdf },
+    });
+  } catch (error: unknown) {
+    console.error('Failed to send invoice email:', error);
+    return { success: false, error: getEmailErrorMessage(error) };
+  }
+
+  await supabase
+    .from('invoices')
+    .update({ sent_at: new Date().toISOString(), sent_to: resolved.to.email })
+    .eq('id', invoiceId);
+
+  return { success: true, sentTo: resolved.to.email };
+}
+
+export interface ReminderRunSummary {
+  sent: number;
+  failed: number;
+  skipped: number;
+}
+
+// Sends whichever reminder step is due today for every unpaid invoice.
+// Safe to run repeatedly: each step is claimed in invoice_reminders before
+// the email goes out, and the unique (invoice_id, offset_days) index turns
+// a second attempt into a skip.
+export async function processInvoiceReminders(
+  today = new Date().toISOString().split('T')[0]
+): Promise<ReminderRunSummary> {
+  const supabase = createAdminClient();
+  const summary: ReminderRunSummary = { sent: 0, failed: 0, skipped: 0 };
+
+  // Only invoices the client has actually received get reminders
+  const { data: invoices, error } = await supabase
+    .from('invoices')
+    .select(`
+      id,
+      user_id,
+      invoice_number,
+      title,
+      total,
+      amount_paid,
+      due_date,
+      client:clients(name, email),
+      profile:profiles(business_name, reminders_enabled, reminder_offsets)
+    `)
+    .neq('status', 'paid')
+    .eq('reminders_enabled', true)
+    .is('archived_at', null)
+    .not('sent_at', 'is', null)
+    .not('due_date', 'is', null);
+
+  if (error) throw error;
+
+  for (const invoice of invoices ?? []) {
+    const client = invoice.client as unknown as { name: string; email: string | null } | null;
+    const profile = invoice.profile as unknown as {
+      business_name: string | null;
+      reminders_enabled: boolean;
+      reminder_offsets: number[];
+    } | null;
+
+    if (!profile?.reminders_enabled || !client?.email) continue;
+    // Nothing left to collect, e.g. the invoice was covered by a deposit credit
+    if (getInvoiceBalance(invoice) <= 0) continue;
+
+    const offset = getDueReminderOffset(invoice.due_date, profile.reminder_offsets, today);
+    if (offset === null) continue;
+
+    const { data: claim, error: claimError } = await supabase
+      .from('invoice_reminders')
+      .insert({ invoice_id: invoice.id, offset_days: offset, sent_to: client.email })
+      .select('id')
+      .single();
+
+    if (claimError || !claim) {
+      // 23505 = unique violation: this step was already sent or is in flight
+      if (claimError?.code !== '23505') {
+        console.error('Failed to claim invoice reminder:', claimError);
+      }
+      summary.skipped++;
+      continue;
+    }
+
+    try {
+      const shareLink = await getOrCreateInvoiceShareLink(supabase, invoice.id, invoice.user_id);
+
+      await sendInvoiceReminderEmail({
+        to: client.email,
+        clientName: client.name,
+        invoiceNumber: invoice.invoice_number,
+        invoiceTitle: invoice.title,
+        balance: getInvoiceBalance(invoice),
+        dueDate: invoice.due_date,
+        offsetDays: offset,
+        viewUrl: getInvoiceShareUrl(shareLink.token),
+        businessName: profile.business_name || 'Your Business',
+      });
+
+      await supabase
+        .from('invoice_reminders')
+        .update({ status: 'sent' })
+        .eq('id', claim.id);
+
+      summary.sent++;
+    } catch (sendError: unknown) {
+      console.error('Failed to send invoice reminder:', sendError);
+
+      await supabase
+        .from('invoice_reminders')
+        .update({ status: 'failed', error: (sendError as { message?: string })?.message || 'Unknown error' })
+        .eq('id', claim.id);
+
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
+
+export interface ScheduleRunSummary {
+  created: number;
+  sent: number;
+  failed: number;
+}
+
+// A schedule that missed runs (e.g. the scheduler was down) catches up by at
+// most this many invoices per call; the rest follow on later calls
+const MAX_RUNS_PER_SCHEDULE = 12;
+
+// Creates the invoices due today from every active recurring schedule and
+// emails the ones set to auto-send. Safe to run repeatedly: each run claims
+// its schedule row, and a run that isn't due creates nothing.
+export async function processInvoiceSchedules(
+  today = new Date().toISOString().split('T')[0]
+): Promise<ScheduleRunSummary> {
+  const supabase = createAdminClient();
+  const summary: ScheduleRunSummary = { created: 0, sent: 0, failed: 0 };
+
+  const { data: schedules, error } = await supabase
+    .from('invoice_schedules')
+    .select('id, auto_send')
+    .eq('is_active', true)
+    .lte('next_run_date', today);
+
+  if (error) throw error;
+
+  for (const schedule of schedules ?? []) {
+    for (let run = 0; run < MAX_RUNS_PER_SCHEDULE; run++) {
+      const { data: invoiceId, error: runError } = await supabase.rpc('run_invoice_schedule', {
+        p_schedule_id: schedule.id,
+        p_today: today,
+      });
+
+      if (runError) {
+        console.error('Failed to run invoice schedule:', runError);
+        await supabase
+          .from('invoice_schedules')
+          .update({ last_error: runError.message })
+          .eq('id', schedule.id);
+        summary.failed++;
+        break;
+      }
+
+      if (!invoiceId) break;
+      summary.created++;
+
+      if (!schedule.auto_send) continue;
+
+      const result = await deliverInvoice(supabase, invoiceId as string);
+      if (result.success) {
+        summary.sent++;
+      } else {
+        // The invoice exists either way; it just needs sending by hand
+        await supabase
+          .from('invoice_schedules')
+          .update({ last_error: `Could not email the new invoice: ${result.error}` })
+          .eq('id', schedule.id);
+        summary.failed++;
+      }
+    }
+  }
+
+  return summary;
+}
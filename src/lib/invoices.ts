@@ -0,0 +1,54 @@
+import { Invoice, InvoiceStatus, PaymentMethod } from '@/types/database';
+
+export const PAYMENT_METHODS: { value: PaymentMethod; label: string }[] = [
+  { value: 'check', label: 'Check' },
+  { value: 'ach', label: 'ACH / Bank Transfer' },
+  { value: 'card', label: 'Credit Card' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'other', label: 'Other' },
+];
+
+export function getPaymentMethodLabel(method: PaymentMethod) {
+  return PAYMENT_METHODS.find((m) => m.value === method)?.label || method;
+}
+
+// Amount still owed on an invoice. Never negative, even if overpaid.
+export function getInvoiceBalance(invoice: Pick<Invoice, 'total' | 'amount_paid'>) {
+  return Math.max(0, Math.round((invoice.total - invoice.amount_paid) * 100) / 100);
+}
+
+// 'overdue' is never stored; it's derived from due_date and what's still owed
+export type InvoiceDisplayStatus = InvoiceStatus | 'overdue';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Whole days past the due date, or 0 if the invoice isn't late or nothing
+// is left to pay on it
+export function getDaysOverdue(
+  invoice: Pick<Invoice, 'status' | 'due_date' | 'total' | 'amount_paid'>,
+  today = new Date().toISOString().split('T')[0]
+) {
+  if (invoice.status === 'paid' || !invoice.due_date || getInvoiceBalance(invoice) <= 0) return 0;
+  const days = Math.round((Date.parse(today) - Date.parse(invoice.due_date)) / MS_PER_DAY);
+  return Math.max(0, days);
+}
+
+export function getInvoiceDisplayStatus(
+  invoice: Pick<Invoice, 'status' | 'due_date' | 'total' | 'amount_paid'>
+): InvoiceDisplayStatus {
+  return getDaysOverdue(invoice) > 0 ? 'overdue' : invoice.status;
+}
+
+export const AGING_BUCKETS = [
+  { key: 'current', label: 'Current', maxDays: 0 },
+  { key: '1-30', label: '1–30 days', maxDays: 30 },
+  { key: '31-60', label: '31–60 days', maxDays: 60 },
+  { key: '61-90', label: '61–90 days', maxDays: 90 },
+  { key: '90+', label: '90+ days', maxDays: Infinity },
+] as const;
+
+export type AgingBucket = (typeof AGING_BUCKETS)[number]['key'];
+
+export function getAgingBucket(daysOverdue: number): AgingBucket {
+  return AGING_BUCKETS.find((bucket) => daysOverdue <= bucket.maxDays)!.key;
+}
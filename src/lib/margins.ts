@@ -0,0 +1,36 @@
+type CostedLine = {
+  quantity: number;
+  unit_cost?: number | null;
+};
+
+// Unit price with the markup added on top of cost
+export function getMarkupPrice(unitCost: number, markupPercent: number) {
+  return Math.round(unitCost * (100 + markupPercent)) / 100;
+}
+
+// Markup that turns the cost into the price; 0 when there's no cost to mark up
+export function getMarkupPercent(unitCost: number, unitPrice: number) {
+  if (unitCost <= 0) return 0;
+  return Math.round(((unitPrice - unitCost) / unitCost) * 10000) / 100;
+}
+
+// Same rounding as refresh_estimate_totals() uses for total_cost
+export function getLineCost(item: CostedLine) {
+  return Math.round(item.quantity * Number(item.unit_cost ?? 0) * 100) / 100;
+}
+
+export function getTotalCost(items: CostedLine[]) {
+  return items.reduce((sum, item) => sum + getLineCost(item), 0);
+}
+
+// Profit is measured on what the client pays before tax, i.e. the subtotal
+// less the document discount. Margin is null when there's no revenue yet.
+export function getMargin(revenue: number, cost: number) {
+  const grossProfit = revenue - cost;
+  const marginPercent = revenue > 0 ? (grossProfit / revenue) * 100 : null;
+  return { revenue, cost, grossProfit, marginPercent };
+}
+
+export function formatMarginPercent(marginPercent: number | null) {
+  return marginPercent === null ? '—' : `${marginPercent.toFixed(1)}%`;
+}
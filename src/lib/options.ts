@@ -0,0 +1,87 @@
+type OptionLine = {
+  is_optional?: boolean;
+  alternate_group?: string | null;
+  is_selected?: boolean;
+};
+
+export type LineOption = 'included' | 'optional' | 'alternate';
+
+export interface AlternateGroup<T> {
+  name: string;
+  items: T[];
+}
+
+export function getLineOption(item: OptionLine): LineOption {
+  if (item.is_optional) return 'optional';
+  if (item.alternate_group != null) return 'alternate';
+  return 'included';
+}
+
+// Lines that count towards the totals, as in refresh_estimate_totals()
+export function isLineIncluded(item: OptionLine) {
+  return item.is_selected !== false;
+}
+
+export function getIncludedLines<T extends OptionLine>(items: T[]) {
+  return items.filter(isLineIncluded);
+}
+
+export function hasOptions(items: OptionLine[]) {
+  return items.some((item) => getLineOption(item) !== 'included');
+}
+
+// Alternate groups in the order their first line appears
+export function getAlternateGroups<T extends OptionLine>(items: T[]): AlternateGroup<T>[] {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    if (item.alternate_group == null) continue;
+    const lines = groups.get(item.alternate_group) ?? [];
+    lines.push(item);
+    groups.set(item.alternate_group, lines);
+  }
+  return Array.from(groups, ([name, lines]) => ({ name, items: lines }));
+}
+
+// Choosing one alternate deselects the others in its group
+export function selectAlternate<T extends OptionLine & { id: string }>(items: T[], id: string) {
+  const chosen = items.find((item) => item.id === id);
+  if (!chosen || chosen.alternate_group == null) return items;
+  return items.map((item) =>
+    item.alternate_group === chosen.alternate_group
+      ? { ...item, is_selected: item.id === id }
+      : item
+  );
+}
+
+// Switching a line between included, optional and alternate. New optional
+// lines start deselected; a new alternate is chosen only if its group has
+// no choice yet.
+export function setLineOption<T extends OptionLine & { id: string }>(
+  items: T[],
+  id: string,
+  option: LineOption,
+  group?: string
+) {
+  return items.map((item) => {
+    if (item.id !== id) return item;
+    if (option === 'included') {
+      return { ...item, is_optional: false, alternate_group: null, is_selected: true };
+    }
+    if (option === 'optional') {
+      return { ...item, is_optional: true, alternate_group: null, is_selected: false };
+    }
+    const name = group ?? 'Alternates';
+    const groupHasChoice = items.some(
+      (other) => other.id !== id && other.alternate_group === name && isLineIncluded(other)
+    );
+    return { ...item, is_optional: false, alternate_group: name, is_selected: !groupHasChoice };
+  });
+}
+
+// Checked the same way by select_estimate_options()
+export function getAlternateGroupError(items: OptionLine[]) {
+  const group = getAlternateGroups(items).find(
+    (g) => g.items.filter(isLineIncluded).length !== 1
+  );
+  return group ? `Choose one option in the "${group.name}" group` : null;
+}
@@ -0,0 +1,13 @@
+// Wraps a rendered PDF in a response. `?download=1` forces a file download,
+// otherwise the browser opens it inline.
+export function pdfResponse(buffer: Buffer, filename: string, request: Request) {
+  const download = new URL(request.url).searchParams.get('download') === '1';
+
+  return new Response(new Uint8Array(buffer), {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `${download ? 'attachment' : 'inline'}; filename="${filename}"`,
+      'Cache-Control': 'private, no-store',
+    },
+  });
+}
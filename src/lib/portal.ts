@@ -0,0 +1,288 @@
+import { createAdminClient } from '@/lib/supabase/admin';
+import { isShareLinkExpired } from '@/lib/share-links';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { DiscountType, DocumentTax, EstimateResponse, EstimateStatus, InvoiceStatus } from '@/types/database';
+
+// Columns clients are allowed to see. Keep these explicit: the admin client
+// bypasses RLS and anything selected here ends up in the page payload.
+const SHARED_ESTIMATE_COLUMNS = `
+  id,
+  user_id,
+  estimate_number,
+  title,
+  description,
+  status,
+  issue_date,
+  valid_until,
+  subtotal,
+  discount_type,
+  discount_value,
+  discount_amount,
+  taxes,
+  tax_amount,
+  total,
+  notes,
+  job_site_address,
+  client:clients(name, email, phone, address),
+  items:estimate_items(id, description, quantity, unit, unit_price, taxable, discount_type, discount_value, section, is_optional, alternate_group, is_selected, amount, sort_order)
+`;
+
+const SHARED_INVOICE_COLUMNS = `
+  id,
+  user_id,
+  invoice_number,
+  title,
+  description,
+  status,
+  issue_date,
+  due_date,
+  paid_date,
+  subtotal,
+  discount_type,
+  discount_value,
+  discount_amount,
+  taxes,
+  tax_amount,
+  deposit_credit,
+  retainage_percent,
+  retainage_amount,
+  total,
+  amount_paid,
+  notes,
+  client:clients(name, email, phone, address),
+  items:invoice_items(id, description, quantity, unit, unit_price, taxable, discount_type, discount_value, section, amount, sort_order),
+  source_estimate:estimates(job_site_address)
+`;
+
+const SHARED_PROFILE_COLUMNS = `
+  business_name,
+  business_address,
+  business_phone,
+  business_email,
+  license_number,
+  logo_url,
+  business_intro
+`;
+
+export interface SharedClient {
+  name: string;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+}
+
+export interface SharedLineItem {
+  id: string;
+  description: string;
+  quantity: number;
+  unit: string;
+  unit_price: number;
+  taxable: boolean;
+  discount_type: DiscountType | null;
+  discount_value: number | null;
+  section: string | null;
+  is_optional?: boolean; // Estimate lines only
+  alternate_group?: string | null;
+  is_selected?: boolean;
+  amount: number;
+  sort_order: number;
+}
+
+export interface SharedEstimate {
+  id: string;
+  user_id: string;
+  estimate_number: string;
+  title: string;
+  description: string | null;
+  status: EstimateStatus;
+  issue_date: string;
+  valid_until: string | null;
+  subtotal: number;
+  discount_type: DiscountType | null;
+  discount_value: number | null;
+  discount_amount: number;
+  taxes: DocumentTax[];
+  tax_amount: number;
+  total: number;
+  notes: string | null;
+  job_site_address: string | null;
+  client: SharedClient | null;
+  items: SharedLineItem[];
+}
+
+export interface SharedInvoice {
+  id: string;
+  user_id: string;
+  invoice_number: string;
+  title: string;
+  description: string | null;
+  status: InvoiceStatus;
+  issue_date: string;
+  due_date: string | null;
+  paid_date: string | null;
+  subtotal: number;
+  discount_type: DiscountType | null;
+  discount_value: number | null;
+  discount_amount: number;
+  taxes: DocumentTax[];
+  tax_amount: number;
+  deposit_credit: number;
+  retainage_percent: number;
+  retainage_amount: number;
+  total: number;
+  amount_paid: number;
+  notes: string | null;
+  job_site_address: string | null;
+  client: SharedClient | null;
+  items: SharedLineItem[];
+}
+
+export interface SharedProfile {
+  business_name: string | null;
+  business_address: string | null;
+  business_phone: string | null;
+  business_email: string | null;
+  license_number: string | null;
+  logo_url: string | null;
+  business_intro: string | null;
+}
+
+export interface SharedResponse {
+  decision: EstimateResponse;
+  signer_name: string;
+  signed_at: string;
+}
+
+export type SharedEstimateResult =
+  | { state: 'not_found' }
+  | { state: 'revoked' }
+  | { state: 'expired'; profile: SharedProfile | null }
+  | {
+      state: 'ok';
+      linkId: string;
+      estimate: SharedEstimate;
+      profile: SharedProfile | null;
+      response: SharedResponse | null;
+    };
+
+export type SharedInvoiceResult =
+  | { state: 'not_found' }
+  | { state: 'revoked' }
+  | {
+      state: 'ok';
+      linkId: string;
+      invoice: SharedInvoice;
+      profile: SharedProfile | null;
+    };
+
+async function findShareLink(supabase: SupabaseClient, token: string) {
+  const { data: link } = await supabase
+    .from('share_links')
+    .select('id, estimate_id, invoice_id, revoked_at')
+    .eq('token', token)
+    .maybeSingle();
+
+  return link as {
+    id: string;
+    estimate_id: string | null;
+    invoice_id: string | null;
+    revoked_at: string | null;
+  } | null;
+}
+
+async function getSharedProfile(supabase: SupabaseClient, userId: string) {
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select(SHARED_PROFILE_COLUMNS)
+    .eq('id', userId)
+    .single();
+
+  return profile as SharedProfile | null;
+}
+
+export async function getSharedEstimate(token: string): Promise<SharedEstimateResult> {
+  const supabase = createAdminClient();
+  const link = await findShareLink(supabase, token);
+
+  if (!link?.estimate_id) {
+    return { state: 'not_found' };
+  }
+
+  if (link.revoked_at) {
+    return { state: 'revoked' };
+  }
+
+  const { data: estimate } = await supabase
+    .from('estimates')
+    .select(SHARED_ESTIMATE_COLUMNS)
+    .eq('id', link.estimate_id)
+    .single();
+
+  if (!estimate) {
+    return { state: 'not_found' };
+  }
+
+  const shared = estimate as unknown as SharedEstimate;
+  shared.items = [...shared.items].sort((a, b) => a.sort_order - b.sort_order);
+
+  const profile = await getSharedProfile(supabase, shared.user_id);
+
+  // Approved estimates stay viewable as the client's record of the agreement
+  if (shared.status !== 'approved' && isShareLinkExpired(shared.valid_until)) {
+    return { state: 'expired', profile };
+  }
+
+  const { data: response } = await supabase
+    .from('estimate_signatures')
+    .select('decision, signer_name, signed_at')
+    .eq('estimate_id', shared.id)
+    .order('signed_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return { state: 'ok', linkId: link.id, estimate: shared, profile, response };
+}
+
+export async function getSharedInvoice(token: string): Promise<SharedInvoiceResult> {
+  const supabase = createAdminClient();
+  const link = await findShareLink(supabase, token);
+
+  if (!link?.invoice_id) {
+    return { state: 'not_found' };
+  }
+
+  if (link.revoked_at) {
+    return { state: 'revoked' };
+  }
+
+  const { data: invoice } = await supabase
+    .from('invoices')
+    .select(SHARED_INVOICE_COLUMNS)
+    .eq('id', link.invoice_id)
+    .single();
+
+  if (!invoice) {
+    return { state: 'not_found' };
+  }
+
+  const { source_estimate, ...rest } = invoice as unknown as Omit<SharedInvoice, 'job_site_address'> & {
+    source_estimate: { job_site_address: string | null } | null;
+  };
+  const shared: SharedInvoice = {
+    ...rest,
+    job_site_address: source_estimate?.job_site_address ?? null,
+    items: [...rest.items].sort((a, b) => a.sort_order - b.sort_order),
+  };
+
+  const profile = await getSharedProfile(supabase, shared.user_id);
+
+  return { state: 'ok', linkId: link.id, invoice: shared, profile };
+}
+
+export async function recordShareLinkView(linkId: string) {
+  const supabase = createAdminClient();
+  await supabase
+    .from('share_links')
+    .update({ last_viewed_at: new Date().toISOString() })
+    .eq('id', linkId);
+}
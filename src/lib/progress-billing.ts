@@ -0,0 +1,90 @@
+import { Estimate, EstimateItem, InvoiceItem } from '@/types/database';
+
+type BilledLine = Pick<InvoiceItem, 'source_estimate_item_id' | 'billed_percent'>;
+type EstimateLine = Pick<
+  EstimateItem,
+  'id' | 'description' | 'quantity' | 'unit' | 'unit_price' | 'taxable' | 'discount_type' | 'discount_value' | 'amount' | 'section'
+>;
+type DiscountedEstimate = Pick<Estimate, 'subtotal' | 'discount_type' | 'discount_value' | 'discount_amount'>;
+
+// Percent of each estimate line billed so far, keyed by estimate item id
+export function getBilledPercents(lines: BilledLine[]) {
+  const billed: Record<string, number> = {};
+  for (const line of lines) {
+    if (!line.source_estimate_item_id || !line.billed_percent) continue;
+    billed[line.source_estimate_item_id] =
+      (billed[line.source_estimate_item_id] || 0) + Number(line.billed_percent);
+  }
+  return billed;
+}
+
+export function getRemainingPercent(billed: Record<string, number>, estimateItemId: string) {
+  return Math.max(0, Math.round((100 - (billed[estimateItemId] || 0)) * 100) / 100);
+}
+
+// Share of the line's amount, after its discount
+export function getProgressAmount(item: Pick<EstimateItem, 'amount'>, percent: number) {
+  return Math.round(item.amount * percent) / 100;
+}
+
+// Invoice line billing part of an estimate line. A full line keeps its
+// original quantity, price and discount; a partial line is billed as one lot
+// at its share of the discounted amount.
+export function buildProgressLine(item: EstimateLine, percent: number) {
+  if (percent >= 100) {
+    return {
+      description: item.description,
+      quantity: item.quantity,
+      unit: item.unit,
+      unit_price: item.unit_price,
+      taxable: item.taxable,
+      discount_type: item.discount_type,
+      discount_value: item.discount_value,
+      section: item.section,
+      source_estimate_item_id: item.id,
+      billed_percent: 100,
+    };
+  }
+
+  const lineTotal = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' })
+    .format(item.amount);
+
+  return {
+    description: `${item.description} (${percent}% of ${lineTotal})`,
+    quantity: 1,
+    unit: 'lot',
+    unit_price: getProgressAmount(item, percent),
+    taxable: item.taxable,
+    section: item.section,
+    source_estimate_item_id: item.id,
+    billed_percent: percent,
+  };
+}
+
+// Document discount for an invoice billing part of an estimate. A percent
+// discount carries over as is. A fixed discount is split by the share of the
+// estimate billed, and the invoice that finishes billing takes what's left.
+export function getProgressDiscount(
+  estimate: DiscountedEstimate,
+  billedAmount: number,
+  discountedSoFar: number,
+  finishesBilling: boolean
+) {
+  if (!estimate.discount_type || !estimate.discount_value) {
+    return { discount_type: null, discount_value: null };
+  }
+
+  if (estimate.discount_type === 'percent') {
+    return { discount_type: estimate.discount_type, discount_value: estimate.discount_value };
+  }
+
+  const amount = finishesBilling
+    ? Math.round((estimate.discount_amount - discountedSoFar) * 100) / 100
+    : estimate.subtotal > 0
+      ? Math.round((estimate.discount_amount * billedAmount / estimate.subtotal) * 100) / 100
+      : 0;
+
+  return amount > 0
+    ? { discount_type: estimate.discount_type, discount_value: amount }
+    : { discount_type: null, discount_value: null };
+}
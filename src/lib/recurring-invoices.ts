@@ -0,0 +1,34 @@
+import { RecurrenceInterval } from '@/types/database';
+
+export const RECURRENCE_INTERVALS: { value: RecurrenceInterval; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'yearly', label: 'Yearly' },
+];
+
+const MONTHS_PER_RUN: Record<Exclude<RecurrenceInterval, 'weekly'>, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+export function getRecurrenceLabel(recurrence: RecurrenceInterval) {
+  return RECURRENCE_INTERVALS.find((interval) => interval.value === recurrence)?.label ?? recurrence;
+}
+
+// Same as schedule_run_date(): run n falls n intervals after the start, and
+// a day past the end of a short month is clamped to its last day
+export function getScheduleRunDate(startDate: string, recurrence: RecurrenceInterval, run: number) {
+  const start = new Date(`${startDate}T00:00:00Z`);
+
+  if (recurrence === 'weekly') {
+    start.setUTCDate(start.getUTCDate() + run * 7);
+    return start.toISOString().split('T')[0];
+  }
+
+  const months = start.getUTCMonth() + run * MONTHS_PER_RUN[recurrence];
+  const lastDay = new Date(Date.UTC(start.getUTCFullYear(), months + 1, 0)).getUTCDate();
+  const date = new Date(Date.UTC(start.getUTCFullYear(), months, Math.min(start.getUTCDate(), lastDay)));
+  return date.toISOString().split('T')[0];
+}
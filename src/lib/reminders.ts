@@ -0,0 +1,44 @@
+export const DEFAULT_REMINDER_OFFSETS = [-3, 0, 7, 14, 30];
+
+// Steps more than this many days old are skipped instead of sent late, so
+// turning reminders on (or a missed cron run) never sends stale notices
+const CATCH_UP_DAYS = 2;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export function describeReminderOffset(offsetDays: number) {
+  const days = Math.abs(offsetDays);
+  const plural = `${days} day${days !== 1 ? 's' : ''}`;
+  if (offsetDays < 0) return `${plural} before due`;
+  if (offsetDays === 0) return 'On due date';
+  return `${plural} after due`;
+}
+
+// Formats offsets for the settings input, e.g. "-3, 0, 7, 14, 30"
+export function formatReminderOffsets(offsets: number[]) {
+  return offsets.join(', ');
+}
+
+// Parses a comma-separated list of day offsets. Returns null if any entry
+// isn't a whole number.
+export function parseReminderOffsets(value: string): number[] | null {
+  const parts = value.split(',').map((part) => part.trim()).filter(Boolean);
+  const offsets = parts.map((part) => Number(part));
+  if (offsets.some((offset) => !Number.isInteger(offset) || Math.abs(offset) > 365)) {
+    return null;
+  }
+  return [...new Set(offsets)].sort((a, b) => a - b);
+}
+
+// The schedule step that should go out today for an invoice, if any
+export function getDueReminderOffset(
+  dueDate: string,
+  offsets: number[],
+  today = new Date().toISOString().split('T')[0]
+): number | null {
+  const daysFromDue = Math.round((Date.parse(today) - Date.parse(dueDate)) / MS_PER_DAY);
+  const due = offsets.filter(
+    (offset) => offset <= daysFromDue && daysFromDue - offset <= CATCH_UP_DAYS
+  );
+  return due.length > 0 ? Math.max(...due) : null;
+}
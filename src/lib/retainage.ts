@@ -0,0 +1,18 @@
+import { Invoice } from '@/types/database';
+
+type RetainageInvoice = Pick<Invoice, 'invoice_type' | 'retainage_amount' | 'subtotal'>;
+
+// Retainage held back and not yet billed on a release invoice. Same sum
+// create_retainage_release_invoice() bills.
+export function getRetainageHeld(invoices: RetainageInvoice[]) {
+  const held = invoices.reduce((sum, invoice) => {
+    if (invoice.invoice_type === 'standard') return sum + Number(invoice.retainage_amount);
+    if (invoice.invoice_type === 'retainage_release') return sum - Number(invoice.subtotal);
+    return sum;
+  }, 0);
+  return Math.max(0, Math.round(held * 100) / 100);
+}
+
+export function getRetainageAmount(subtotal: number, retainagePercent: number) {
+  return Math.round(subtotal * retainagePercent) / 100;
+}
@@ -0,0 +1,123 @@
+import { EstimateSnapshot, EstimateSnapshotItem } from '@/types/database';
+import { getTaxLabel } from '@/lib/taxes';
+import { formatDiscount } from '@/lib/discounts';
+
+export type ItemChangeType = 'added' | 'removed' | 'changed' | 'unchanged';
+
+type ItemField = Exclude<keyof EstimateSnapshotItem, 'id'>;
+
+export interface ItemDiff {
+  type: ItemChangeType;
+  before: EstimateSnapshotItem | null;
+  after: EstimateSnapshotItem | null;
+  changedFields: ItemField[];
+}
+
+export interface FieldDiff {
+  label: string;
+  before: string | null;
+  after: string | null;
+}
+
+export interface EstimateDiff {
+  items: ItemDiff[];
+  fields: FieldDiff[];
+  totalDelta: number;
+}
+
+const ITEM_FIELDS: ItemField[] = [
+  'description',
+  'quantity',
+  'unit',
+  'unit_price',
+  'taxable',
+  'discount_type',
+  'discount_value',
+  'unit_cost',
+  'markup_percent',
+  'section',
+  'is_optional',
+  'alternate_group',
+  'is_selected',
+];
+
+const HEADER_FIELDS: {
+  key: keyof EstimateSnapshot;
+  label: string;
+  format?: (snapshot: EstimateSnapshot) => string | null;
+}[] = [
+  { key: 'estimate_number', label: 'Estimate #' },
+  { key: 'title', label: 'Title' },
+  { key: 'description', label: 'Description' },
+  { key: 'issue_date', label: 'Issue Date' },
+  { key: 'valid_until', label: 'Valid Until' },
+  {
+    key: 'taxes',
+    label: 'Taxes',
+    format: (snapshot) => snapshot.taxes.map(getTaxLabel).join(', ') || null,
+  },
+  {
+    key: 'discount_type',
+    label: 'Discount',
+    format: (snapshot) => snapshot.discount_type && snapshot.discount_value
+      ? formatDiscount(snapshot.discount_type, snapshot.discount_value)
+      : null,
+  },
+  { key: 'job_site_address', label: 'Job Site' },
+  { key: 'notes', label: 'Notes & Terms' },
+];
+
+function isSameValue(a: unknown, b: unknown) {
+  if (typeof a === 'number' || typeof b === 'number') {
+    return Number(a) === Number(b);
+  }
+  return (a ?? '') === (b ?? '');
+}
+
+// Items are matched by id, which survives edits. Removed items are listed
+// after the items that remain, in their original order.
+export function diffEstimateSnapshots(before: EstimateSnapshot, after: EstimateSnapshot): EstimateDiff {
+  const beforeById = new Map(before.items.map((item) => [item.id, item]));
+  const afterIds = new Set(after.items.map((item) => item.id));
+
+  const items: ItemDiff[] = after.items.map((item) => {
+    const previous = beforeById.get(item.id);
+    if (!previous) {
+      return { type: 'added', before: null, after: item, changedFields: [] };
+    }
+    const changedFields = ITEM_FIELDS.filter((field) => !isSameValue(previous[field], item[field]));
+    return {
+      type: changedFields.length > 0 ? 'changed' : 'unchanged',
+      before: previous,
+      after: item,
+      changedFields,
+    };
+  });
+
+  for (const item of before.items) {
+    if (!afterIds.has(item.id)) {
+      items.push({ type: 'removed', before: item, after: null, changedFields: [] });
+    }
+  }
+
+  const formatField = (snapshot: EstimateSnapshot, { key, format }: (typeof HEADER_FIELDS)[number]) => {
+    if (format) return format(snapshot);
+    return snapshot[key] == null ? null : String(snapshot[key]);
+  };
+
+  const fields = HEADER_FIELDS
+    .filter((field) => field.format
+      ? formatField(before, field) !== formatField(after, field)
+      : !isSameValue(before[field.key], after[field.key]))
+    .map((field) => ({
+      label: field.label,
+      before: formatField(before, field),
+      after: formatField(after, field),
+    }));
+
+  return {
+    items,
+    fields,
+    totalDelta: Number(after.total) - Number(before.total),
+  };
+}
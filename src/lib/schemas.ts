@@ -0,0 +1,201 @@
+import { z } from 'zod';
+import { getAlternateGroupError } from '@/lib/options';
+
+// Blank strings from form inputs are stored as NULL
+const optionalText = z
+  .string()
+  .trim()
+  .nullish()
+  .transform((value) => value || null);
+
+// Left blank, the database assigns the next number in the account's sequence
+const documentNumber = z
+  .string()
+  .trim()
+  .max(50)
+  .nullish()
+  .transform((value) => value || null);
+
+const optionalDate = z
+  .union([z.iso.date(), z.literal('')])
+  .nullish()
+  .transform((value) => value || null);
+
+const optionalId = z
+  .union([z.uuid(), z.literal('')])
+  .nullish()
+  .transform((value) => value || null);
+
+// Percent or dollar discount, taken off before tax
+const discountFields = {
+  discount_type: z
+    .enum(['percent', 'fixed'])
+    .nullish()
+    .transform((value) => value || null),
+  discount_value: z
+    .number()
+    .min(0, 'Discounts cannot be negative')
+    .nullish()
+    .transform((value) => value || null),
+};
+
+type Discounted = { discount_type: 'percent' | 'fixed' | null; discount_value: number | null };
+
+const isValidDiscountPercent = (value: Discounted) =>
+  value.discount_type !== 'percent' || (value.discount_value ?? 0) <= 100;
+
+// A discount left blank or at zero is stored as no discount
+function normalizeDiscount<T extends Discounted>(value: T): T {
+  const hasDiscount = Boolean(value.discount_type && value.discount_value);
+  return {
+    ...value,
+    discount_type: hasDiscount ? value.discount_type : null,
+    discount_value: hasDiscount ? value.discount_value : null,
+  };
+}
+
+export const lineItemSchema = z.object({
+  // Generated in the browser for new rows so saves can match items by id
+  id: z.uuid(),
+  description: z.string().trim().min(1, 'Every line item needs a description'),
+  quantity: z.number().min(0, 'Quantities cannot be negative'),
+  unit: z.string().trim().min(1).max(50),
+  unit_price: z.number(),
+  taxable: z.boolean().default(true),
+  ...discountFields,
+  // Internal only; saved on estimate lines, ignored elsewhere
+  unit_cost: z.number().min(0, 'Costs cannot be negative').default(0),
+  markup_percent: z.number().default(0),
+  section: z
+    .string()
+    .trim()
+    .max(255, 'Section names must be 255 characters or fewer')
+    .nullish()
+    .transform((value) => value || null),
+  // Estimate lines only: left out of the total until the client picks them
+  is_optional: z.boolean().default(false),
+  alternate_group: z
+    .string()
+    .trim()
+    .max(255, 'Option group names must be 255 characters or fewer')
+    .nullish()
+    .transform((value) => value || null),
+  is_selected: z.boolean().default(true),
+});
+
+const lineItemsSchema = z
+  .array(
+    lineItemSchema
+      .refine(isValidDiscountPercent, { message: 'Line discounts cannot be more than 100%' })
+      .transform(normalizeDiscount)
+  )
+  .min(1, 'Please add at least one line item');
+
+// Taxes applied in order; amounts are calculated by the database
+const taxesSchema = z
+  .array(
+    z.object({
+      name: z.string().trim().min(1, 'Every tax needs a name').max(100),
+      rate: z.number().min(0).max(100, 'Tax rates cannot be more than 100%'),
+      compound: z.boolean(),
+    })
+  )
+  .default([]);
+
+export const estimateSchema = z.object({
+  id: z.uuid().optional(),
+  client_id: optionalId,
+  estimate_number: documentNumber,
+  title: z.string().trim().min(1, 'Please enter an estimate title').max(255),
+  description: optionalText,
+  status: z.enum(['draft', 'sent', 'approved', 'declined']),
+  issue_date: z.iso.date(),
+  valid_until: optionalDate,
+  taxes: taxesSchema,
+  ...discountFields,
+  notes: optionalText,
+  job_site_address: optionalText,
+  job_site_address_id: optionalId,
+  // Deposit invoiced automatically when the estimate is approved
+  deposit_type: z
+    .enum(['percent', 'fixed'])
+    .nullish()
+    .transform((value) => value || null),
+  deposit_value: z
+    .number()
+    .positive('Deposit must be more than zero')
+    .nullish()
+    .transform((value) => value || null),
+  items: lineItemsSchema
+    .refine((items) => items.every((item) => !(item.is_optional && item.alternate_group)), {
+      message: 'A line can be optional or an alternate, not both',
+    })
+    .superRefine((items, ctx) => {
+      const error = getAlternateGroupError(items);
+      if (error) ctx.addIssue({ code: 'custom', message: error });
+    }),
+})
+  .refine((estimate) => !estimate.deposit_type || estimate.deposit_value, {
+    message: 'Please enter a deposit amount',
+  })
+  .refine((estimate) => estimate.deposit_type !== 'percent' || (estimate.deposit_value ?? 0) <= 100, {
+    message: 'Deposit percent cannot be more than 100',
+  })
+  .refine(isValidDiscountPercent, { message: 'Discount cannot be more than 100%' })
+  .transform((estimate) => ({
+    ...normalizeDiscount(estimate),
+    deposit_value: estimate.deposit_type ? estimate.deposit_value : null,
+  }));
+
+export type EstimateSaveInput = z.input<typeof estimateSchema>;
+
+export const invoiceSchema = z.object({
+  id: z.uuid().optional(),
+  client_id: optionalId,
+  source_estimate_id: optionalId,
+  invoice_number: documentNumber,
+  title: z.string().trim().min(1, 'Please enter an invoice title').max(255),
+  description: optionalText,
+  issue_date: z.iso.date(),
+  due_date: optionalDate,
+  taxes: taxesSchema,
+  ...discountFields,
+  retainage_percent: z.number().min(0).max(100, 'Retainage cannot be more than 100%'),
+  notes: optionalText,
+  items: lineItemsSchema,
+})
+  .refine(isValidDiscountPercent, { message: 'Discount cannot be more than 100%' })
+  .transform(normalizeDiscount);
+
+export type InvoiceSaveInput = z.input<typeof invoiceSchema>;
+
+export const changeOrderSchema = z.object({
+  id: z.uuid().optional(),
+  estimate_id: z.uuid(),
+  title: z.string().trim().min(1, 'Please enter a change order title').max(255),
+  description: optionalText,
+  items: z
+    .array(lineItemSchema.extend({ is_removal: z.boolean() }))
+    .min(1, 'Please add at least one added or removed item'),
+});
+
+export type ChangeOrderSaveInput = z.input<typeof changeOrderSchema>;
+
+export const progressInvoiceSchema = z.object({
+  estimate_id: z.uuid(),
+  milestone: optionalText,
+  lines: z
+    .array(
+      z.object({
+        estimate_item_id: z.uuid(),
+        percent: z.number().gt(0).max(100, 'A line cannot be billed past 100%'),
+      })
+    )
+    .min(1, 'Enter a percentage for at least one line'),
+});
+
+export type ProgressInvoiceInput = z.input<typeof progressInvoiceSchema>;
+
+export function getValidationError(error: z.ZodError) {
+  return error.issues[0]?.message || 'Invalid input';
+}
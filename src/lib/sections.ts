@@ -0,0 +1,97 @@
+import { getLineAmount } from '@/lib/discounts';
+import { isLineIncluded } from '@/lib/options';
+import { DiscountType } from '@/types/database';
+
+type SectionedLine = {
+  section?: string | null;
+};
+
+type PricedLine = {
+  quantity: number;
+  unit_price: number;
+  discount_type?: DiscountType | null;
+  discount_value?: number | null;
+  is_selected?: boolean;
+};
+
+export interface LineSection<T> {
+  name: string | null; // null for lines outside any section
+  items: T[];
+}
+
+// Lines without a section come first, then each section in the order its
+// first line appears. Lines keep their relative order within a section.
+export function groupBySection<T extends SectionedLine>(items: T[]): LineSection<T>[] {
+  const ungrouped: T[] = [];
+  const sections = new Map<string, T[]>();
+
+  for (const item of items) {
+    if (item.section == null) {
+      ungrouped.push(item);
+      continue;
+    }
+    const lines = sections.get(item.section) ?? [];
+    lines.push(item);
+    sections.set(item.section, lines);
+  }
+
+  return [
+    ...(ungrouped.length > 0 ? [{ name: null, items: ungrouped }] : []),
+    ...Array.from(sections, ([name, lines]) => ({ name, items: lines })),
+  ];
+}
+
+export function flattenSections<T>(sections: LineSection<T>[]) {
+  return sections.flatMap((section) => section.items);
+}
+
+// Optional and alternate lines count only once selected
+export function getSectionSubtotal(items: PricedLine[]) {
+  return items.reduce((sum, item) => sum + (isLineIncluded(item) ? getLineAmount(item) : 0), 0);
+}
+
+// A name not used by any section yet, e.g. "Section 3"
+export function getNewSectionName(items: SectionedLine[]) {
+  const names = new Set(items.map((item) => item.section).filter((name) => name != null));
+  let n = names.size + 1;
+  while (names.has(`Section ${n}`)) n++;
+  return `Section ${n}`;
+}
+
+// Moves a line next to another one, into the target's section. Lines moved
+// past the edge of their section join the neighbouring one.
+export function moveLine<T extends SectionedLine & { id: string }>(
+  items: T[],
+  id: string,
+  targetId: string,
+  position: 'before' | 'after'
+) {
+  const line = items.find((item) => item.id === id);
+  const target = items.find((item) => item.id === targetId);
+  if (!line || !target || line === target) return items;
+
+  const rest = items.filter((item) => item !== line);
+  const index = rest.indexOf(target) + (position === 'after' ? 1 : 0);
+  rest.splice(index, 0, { ...line, section: target.section ?? null });
+  return flattenSections(groupBySection(rest));
+}
+
+// The line and position a keyboard move up or down puts it next to, in the
+// order lines are shown
+export function getAdjacentMove<T extends SectionedLine & { id: string }>(
+  items: T[],
+  id: string,
+  direction: 'up' | 'down'
+): { targetId: string; position: 'before' | 'after' } | null {
+  const ordered = flattenSections(groupBySection(items));
+  const index = ordered.findIndex((item) => item.id === id);
+  const neighbour = ordered[direction === 'up' ? index - 1 : index + 1];
+  if (index === -1 || !neighbour) return null;
+
+  // Crossing into another section lands at its near edge
+  const sameSection = (neighbour.section ?? null) === (ordered[index].section ?? null);
+  const position = direction === 'up'
+    ? (sameSection ? 'before' : 'after')
+    : (sameSection ? 'after' : 'before');
+  return { targetId: neighbour.id, position };
+}
@@ -0,0 +1,77 @@
+import { randomBytes } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ShareLink } from '@/types/database';
+
+export function getAppUrl() {
+  return process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+}
+
+export function generateShareToken() {
+  // 32 random bytes -> 43 URL-safe characters
+  return randomBytes(32).toString('base64url');
+}
+
+export function getEstimateShareUrl(token: string) {
+  return `${getAppUrl()}/p/estimates/${token}`;
+}
+
+export function getInvoiceShareUrl(token: string) {
+  return `${getAppUrl()}/p/invoices/${token}`;
+}
+
+// A share link stops working once the estimate's valid_until date has passed
+export function isShareLinkExpired(validUntil: string | null) {
+  if (!validUntil) return false;
+  const today = new Date().toISOString().split('T')[0];
+  return validUntil < today;
+}
+
+type ShareableDocument = 'estimate_id' | 'invoice_id';
+
+// Reuse the document's active link so previously sent emails keep working
+async function getOrCreateShareLink(
+  supabase: SupabaseClient,
+  column: ShareableDocument,
+  documentId: string,
+  userId: string
+): Promise<ShareLink> {
+  const { data: existing } = await supabase
+    .from('share_links')
+    .select('*')
+    .eq(column, documentId)
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (existing) {
+    return existing as ShareLink;
+  }
+
+  const { data: created, error } = await supabase
+    .from('share_links')
+    .insert({
+      user_id: userId,
+      [column]: documentId,
+      token: generateShareToken(),
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return created as ShareLink;
+}
+
+export function getOrCreateEstimateShareLink(
+  supabase: SupabaseClient,
+  estimateId: string,
+  userId: string
+) {
+  return getOrCreateShareLink(supabase, 'estimate_id', estimateId, userId);
+}
+
+export function getOrCreateInvoiceShareLink(
+  supabase: SupabaseClient,
+  invoiceId: string,
+  userId: string
+) {
+  return getOrCreateShareLink(supabase, 'invoice_id', invoiceId, userId);
+}
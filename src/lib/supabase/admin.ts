@@ -0,0 +1,17 @@
+import { createClient } from '@supabase/supabase-js';
+
+// Service-role client for server code that runs without a user session
+// (public share links, cron jobs). It bypasses RLS, so every query must
+// scope itself explicitly. Never import this from a client component.
+export function createAdminClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    }
+  );
+}
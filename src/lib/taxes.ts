@@ -0,0 +1,47 @@
+import { DiscountType, DocumentTax, TaxRate } from '@/types/database';
+import { getLineAmount } from '@/lib/discounts';
+
+type TaxableLine = {
+  quantity: number;
+  unit_price: number;
+  taxable?: boolean;
+  discount_type?: DiscountType | null;
+  discount_value?: number | null;
+};
+type AppliedTax = Omit<DocumentTax, 'amount'>;
+
+// Same calculation as calculate_taxes(): each tax is charged on the taxable
+// subtotal, and a compound tax also on every tax listed before it. The
+// document discount is spread across all lines, as in taxable_after_discount().
+export function calculateTaxes(items: TaxableLine[], taxes: AppliedTax[], discountAmount = 0) {
+  const subtotal = items.reduce((sum, item) => sum + getLineAmount(item), 0);
+  const taxableLines = items
+    .filter((item) => item.taxable !== false)
+    .reduce((sum, item) => sum + getLineAmount(item), 0);
+  const taxableSubtotal = subtotal === 0
+    ? taxableLines
+    : Math.round((taxableLines * (subtotal - discountAmount) / subtotal) * 100) / 100;
+
+  let taxAmount = 0;
+  const breakdown: DocumentTax[] = taxes.map((tax) => {
+    const base = taxableSubtotal + (tax.compound ? taxAmount : 0);
+    const amount = Math.round(base * tax.rate) / 100;
+    taxAmount += amount;
+    return { ...tax, amount };
+  });
+
+  return { taxableSubtotal, taxes: breakdown, taxAmount };
+}
+
+export function toDocumentTax(taxRate: Pick<TaxRate, 'name' | 'rate' | 'is_compound'>): AppliedTax {
+  return { name: taxRate.name, rate: Number(taxRate.rate), compound: taxRate.is_compound };
+}
+
+// Drops the stored amounts, which the database recalculates on save
+export function stripTaxAmounts(taxes: AppliedTax[]): AppliedTax[] {
+  return taxes.map(({ name, rate, compound }) => ({ name, rate, compound }));
+}
+
+export function getTaxLabel(tax: AppliedTax) {
+  return `${tax.name} (${Number(tax.rate)}%${tax.compound ? ', compound' : ''})`;
+}
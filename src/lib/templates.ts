@@ -0,0 +1,66 @@
+import { EstimateItem, EstimateTemplate, EstimateTemplateItem } from '@/types/database';
+import { getLineAmount } from '@/lib/discounts';
+import { getIncludedLines } from '@/lib/options';
+
+export const TEMPLATE_VARIABLES = [
+  { key: 'client_name', label: 'Client name' },
+  { key: 'client_email', label: 'Client email' },
+  { key: 'client_phone', label: 'Client phone' },
+  { key: 'client_address', label: 'Client address' },
+  { key: 'job_site_address', label: 'Job site address' },
+  { key: 'issue_date', label: 'Issue date' },
+  { key: 'valid_until', label: 'Valid until date' },
+] as const;
+
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number]['key'];
+export type TemplateValues = Partial<Record<TemplateVariable, string | null>>;
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+// Replaces {{variable}} placeholders that have a value. Unknown or still
+// empty ones are left in place so a later save can fill them in.
+export function fillPlaceholders(text: string, values: TemplateValues) {
+  return text.replace(PLACEHOLDER, (placeholder, key: string) => {
+    const value = values[key as TemplateVariable]?.trim();
+    return value || placeholder;
+  });
+}
+
+export function hasPlaceholders(text: string | null | undefined) {
+  return !!text && new RegExp(PLACEHOLDER.source).test(text);
+}
+
+export function formatTemplateDate(date: string | null | undefined) {
+  if (!date) return null;
+  return new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+// The parts of an estimate line a template keeps
+export function toTemplateItems(items: EstimateItem[]): EstimateTemplateItem[] {
+  return [...items]
+    .sort((a, b) => a.sort_order - b.sort_order)
+    .map((item) => ({
+      description: item.description,
+      quantity: Number(item.quantity),
+      unit: item.unit,
+      unit_price: Number(item.unit_price),
+      taxable: item.taxable,
+      discount_type: item.discount_type,
+      discount_value: item.discount_value === null ? null : Number(item.discount_value),
+      unit_cost: Number(item.unit_cost),
+      markup_percent: Number(item.markup_percent),
+      section: item.section,
+      is_optional: item.is_optional,
+      alternate_group: item.alternate_group,
+      is_selected: item.is_selected,
+    }));
+}
+
+// Value of the template's selected lines before the document discount and tax
+export function getTemplateSubtotal(template: Pick<EstimateTemplate, 'items'>) {
+  return getIncludedLines(template.items).reduce((sum, item) => sum + getLineAmount(item), 0);
+}
@@ -0,0 +1,13 @@
+export const UNITS = [
+  { value: 'each', label: 'Each' },
+  { value: 'sqft', label: 'Sq Ft' },
+  { value: 'lnft', label: 'Ln Ft' },
+  { value: 'hr', label: 'Hour' },
+  { value: 'day', label: 'Day' },
+  { value: 'lot', label: 'Lot' },
+  { value: 'job', label: 'Job' },
+];
+
+export function getUnitLabel(unit: string) {
+  return UNITS.find((u) => u.value === unit)?.label || unit;
+}
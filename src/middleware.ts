@@ -35,7 +35,7 @@ export async function middleware(request: NextRequest) {
   } = await supabase.auth.getUser();
 
   // Protected routes - redirect to login if not authenticated
-  const protectedRoutes = ['/dashboard', '/estimates', '/invoices', '/clients', '/settings'];
+  const protectedRoutes = ['/dashboard', '/estimates', '/invoices', '/clients', '/catalog', '/settings'];
   const isProtectedRoute = protectedRoutes.some((route) =>
     request.nextUrl.pathname.startsWith(route)
   );
@@ -6,7 +6,17 @@
 // ============================================
 
 export type EstimateStatus = 'draft' | 'sent' | 'approved' | 'declined';
-export type InvoiceStatus = 'unpaid' | 'paid';
+export type InvoiceStatus = 'unpaid' | 'partially_paid' | 'paid';
+export type PaymentMethod = 'check' | 'ach' | 'card' | 'cash' | 'other';
+export type EstimateResponse = 'approved' | 'declined';
+export type ReminderStatus = 'sending' | 'sent' | 'failed';
+export type DocumentType = 'estimate' | 'invoice';
+export type ChangeOrderStatus = 'pending' | 'approved' | 'declined';
+export type DepositType = 'percent' | 'fixed';
+export type InvoiceType = 'standard' | 'deposit' | 'retainage_release';
+export type DiscountType = 'percent' | 'fixed';
+export type RecurrenceInterval = 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+export type ContactRole = 'billing' | 'site' | 'decision_maker' | 'other';
 
 // ============================================
 // DATABASE TABLES
@@ -22,6 +32,12 @@ export interface Profile {
   logo_url: string | null;
   default_payment_terms: string | null;
   business_intro: string | null;
+  reminders_enabled: boolean;
+  reminder_offsets: number[]; // Days relative to due date, negative = before
+  estimate_number_prefix: string;
+  invoice_number_prefix: string;
+  document_number_padding: number;
+  document_number_yearly_reset: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -38,6 +54,28 @@ export interface Client {
   updated_at: string;
 }
 
+export interface ClientContact {
+  id: string;
+  user_id: string;
+  client_id: string;
+  name: string;
+  role: ContactRole;
+  email: string | null;
+  phone: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ClientAddress {
+  id: string;
+  user_id: string;
+  client_id: string;
+  label: string;
+  address: string;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Estimate {
   id: string;
   user_id: string;
@@ -48,12 +86,19 @@ export interface Estimate {
   status: EstimateStatus;
   issue_date: string;
   valid_until: string | null;
-  subtotal: number;
-  tax_rate: number;
-  tax_amount: number;
+  subtotal: number; // Sum of line amounts, after line discounts
+  discount_type: DiscountType | null;
+  discount_value: number | null; // Percent or dollar amount, per discount_type
+  discount_amount: number; // Taken off the subtotal before tax
+  taxes: DocumentTax[];
+  tax_amount: number; // Sum of taxes[].amount
   total: number;
+  total_cost: number; // Sum of line costs, internal only
   notes: string | null;
   job_site_address: string | null;
+  job_site_address_id: string | null; // Saved client address the job site was copied from
+  deposit_type: DepositType | null;
+  deposit_value: number | null; // Percent or dollar amount, per deposit_type
   archived_at: string | null;
   created_at: string;
   updated_at: string;
@@ -66,7 +111,16 @@ export interface EstimateItem {
   quantity: number;
   unit: string;
   unit_price: number;
-  amount: number; // Generated column
+  taxable: boolean;
+  discount_type: DiscountType | null;
+  discount_value: number | null;
+  unit_cost: number; // Internal, never shown to clients
+  markup_percent: number; // Over unit_cost; unit_price is what's billed
+  amount: number; // Generated column, after the line discount
+  section: string | null; // Heading the line is grouped under, e.g. "Framing"
+  is_optional: boolean; // Left out of the totals unless selected
+  alternate_group: string | null; // Lines sharing a group are choices, one selected
+  is_selected: boolean;
   sort_order: number;
   created_at: string;
 }
@@ -76,6 +130,7 @@ export interface Invoice {
   user_id: string;
   client_id: string | null;
   source_estimate_id: string | null;
+  invoice_type: InvoiceType;
   invoice_number: string;
   title: string;
   description: string | null;
@@ -83,12 +138,23 @@ export interface Invoice {
   issue_date: string;
   due_date: string | null;
   paid_date: string | null;
-  subtotal: number;
-  tax_rate: number;
-  tax_amount: number;
+  subtotal: number; // Sum of line amounts, after line discounts
+  discount_type: DiscountType | null;
+  discount_value: number | null; // Percent or dollar amount, per discount_type
+  discount_amount: number; // Taken off the subtotal before tax
+  taxes: DocumentTax[];
+  tax_amount: number; // Sum of taxes[].amount
+  deposit_credit: number; // Deposit received, already deducted from total
+  retainage_percent: number;
+  retainage_amount: number; // Held back from this invoice, already deducted from total
   total: number;
+  amount_paid: number; // Sum of invoice_payments, maintained by trigger
   notes: string | null;
+  sent_at: string | null;
+  sent_to: string | null;
+  reminders_enabled: boolean;
   archived_at: string | null;
+  schedule_id: string | null; // Recurring schedule that created this invoice
   created_at: string;
   updated_at: string;
 }
@@ -100,11 +166,229 @@ export interface InvoiceItem {
   quantity: number;
   unit: string;
   unit_price: number;
-  amount: number; // Generated column
+  taxable: boolean;
+  discount_type: DiscountType | null;
+  discount_value: number | null;
+  amount: number; // Generated column, after the line discount
+  section: string | null;
+  sort_order: number;
+  source_estimate_item_id: string | null; // Estimate line this bills, for progress billing
+  billed_percent: number | null; // Share of that estimate line billed here
+  created_at: string;
+}
+
+export interface InvoicePayment {
+  id: string;
+  user_id: string;
+  invoice_id: string;
+  amount: number;
+  method: PaymentMethod;
+  reference: string | null;
+  paid_on: string;
+  memo: string | null;
+  created_at: string;
+}
+
+export interface InvoiceReminder {
+  id: string;
+  invoice_id: string;
+  offset_days: number;
+  status: ReminderStatus;
+  sent_to: string | null;
+  error: string | null;
+  created_at: string;
+}
+
+export interface ChangeOrder {
+  id: string;
+  user_id: string;
+  estimate_id: string;
+  change_order_number: number; // Per estimate, shown as CO-001
+  title: string;
+  description: string | null;
+  status: ChangeOrderStatus;
+  approved_at: string | null;
+  total: number; // Price delta, negative when scope is removed
+  invoice_id: string | null; // Invoice the change order was billed on
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ChangeOrderItem {
+  id: string;
+  change_order_id: string;
+  description: string;
+  quantity: number;
+  unit: string;
+  unit_price: number;
+  is_removal: boolean;
+  amount: number; // Generated column, negative for removals
   sort_order: number;
   created_at: string;
 }
 
+export interface TaxRate {
+  id: string;
+  user_id: string;
+  name: string;
+  rate: number;
+  is_compound: boolean; // Charged on the subtotal plus the taxes before it
+  is_default: boolean; // Added to new estimates and invoices
+  created_at: string;
+}
+
+// A tax applied to an estimate or invoice, copied from a TaxRate so later
+// edits in Settings don't change documents already issued
+export interface DocumentTax {
+  name: string;
+  rate: number;
+  compound: boolean;
+  amount: number; // Maintained by refresh_*_totals
+}
+
+// Reusable line item from the price book
+export interface CatalogItem {
+  id: string;
+  user_id: string;
+  name: string;
+  description: string | null; // Copied onto the line item; falls back to name
+  category: string | null;
+  unit: string;
+  unit_cost: number;
+  markup_percent: number;
+  unit_price: number;
+  taxable: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EstimateTemplateItem {
+  description: string;
+  quantity: number;
+  unit: string;
+  unit_price: number;
+  taxable: boolean;
+  discount_type: DiscountType | null;
+  discount_value: number | null;
+  unit_cost?: number; // Missing on templates saved before line item costs
+  markup_percent?: number;
+  section?: string | null;
+  is_optional?: boolean;
+  alternate_group?: string | null;
+  is_selected?: boolean;
+}
+
+// Text fields may hold placeholders like {{client_name}} (see lib/templates)
+export interface EstimateTemplate {
+  id: string;
+  user_id: string;
+  name: string;
+  title: string;
+  description: string | null;
+  notes: string | null;
+  taxes: Omit<DocumentTax, 'amount'>[];
+  discount_type: DiscountType | null;
+  discount_value: number | null;
+  items: EstimateTemplateItem[];
+  created_at: string;
+  updated_at: string;
+}
+
+// Copies source_invoice_id on start_date and every interval after it
+export interface InvoiceSchedule {
+  id: string;
+  user_id: string;
+  source_invoice_id: string;
+  recurrence: RecurrenceInterval;
+  start_date: string;
+  end_date: string | null;
+  run_count: number;
+  next_run_date: string | null; // Maintained by the database; null once ended
+  auto_send: boolean;
+  is_active: boolean;
+  last_run_at: string | null;
+  last_invoice_id: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DocumentSequence {
+  user_id: string;
+  document_type: DocumentType;
+  year: number; // 0 when numbering does not reset yearly
+  last_value: number;
+}
+
+export interface ShareLink {
+  id: string;
+  user_id: string;
+  estimate_id: string | null;
+  invoice_id: string | null;
+  token: string;
+  revoked_at: string | null;
+  last_viewed_at: string | null;
+  created_at: string;
+}
+
+export interface EstimateSignature {
+  id: string;
+  estimate_id: string;
+  share_link_id: string | null;
+  decision: EstimateResponse;
+  signer_name: string;
+  signature_image: string; // PNG data URL
+  estimate_total: number;
+  ip_address: string | null;
+  user_agent: string | null;
+  signed_at: string;
+}
+
+// Estimate as it stood before a save changed it (see estimate_snapshot())
+export interface EstimateSnapshotItem {
+  id: string;
+  description: string;
+  quantity: number;
+  unit: string;
+  unit_price: number;
+  taxable: boolean;
+  discount_type: DiscountType | null;
+  discount_value: number | null;
+  unit_cost: number;
+  markup_percent: number;
+  section: string | null;
+  is_optional: boolean;
+  alternate_group: string | null;
+  is_selected: boolean;
+}
+
+export interface EstimateSnapshot {
+  estimate_number: string;
+  title: string;
+  description: string | null;
+  client_id: string | null;
+  issue_date: string;
+  valid_until: string | null;
+  taxes: Omit<DocumentTax, 'amount'>[];
+  discount_type: DiscountType | null;
+  discount_value: number | null;
+  notes: string | null;
+  job_site_address: string | null;
+  subtotal: number;
+  discount_amount: number;
+  tax_amount: number;
+  total: number;
+  items: EstimateSnapshotItem[];
+}
+
+export interface EstimateRevision {
+  id: string;
+  estimate_id: string;
+  revision_number: number;
+  snapshot: EstimateSnapshot;
+  created_at: string;
+}
+
 // ============================================
 // JOINED TYPES (for queries with relations)
 // ============================================
@@ -122,6 +406,10 @@ export interface EstimateWithClientAndItems extends Estimate {
   items: EstimateItem[];
 }
 
+export interface ChangeOrderWithItems extends ChangeOrder {
+  items: ChangeOrderItem[];
+}
+
 export interface InvoiceWithClient extends Invoice {
   client: Client | null;
 }
@@ -135,6 +423,12 @@ export interface InvoiceWithClientAndItems extends Invoice {
   items: InvoiceItem[];
 }
 
+export interface InvoiceScheduleWithInvoice extends InvoiceSchedule {
+  source_invoice: Pick<Invoice, 'id' | 'invoice_number' | 'title' | 'total'> & {
+    client: Pick<Client, 'id' | 'name'> | null;
+  };
+}
+
 // ============================================
 // FORM INPUT TYPES (for creating/updating)
 // ============================================
@@ -148,6 +442,23 @@ export interface ProfileInput {
   logo_url?: string | null;
   default_payment_terms?: string | null;
   business_intro?: string | null;
+  reminders_enabled?: boolean;
+  reminder_offsets?: number[];
+  estimate_number_prefix?: string;
+  invoice_number_prefix?: string;
+  document_number_padding?: number;
+  document_number_yearly_reset?: boolean;
+}
+
+export interface CatalogItemInput {
+  name: string;
+  description?: string | null;
+  category?: string | null;
+  unit?: string;
+  unit_cost?: number;
+  markup_percent?: number;
+  unit_price?: number;
+  taxable?: boolean;
 }
 
 export interface ClientInput {
@@ -158,6 +469,18 @@ export interface ClientInput {
   notes?: string | null;
 }
 
+export interface ClientContactInput {
+  name: string;
+  role?: ContactRole;
+  email?: string | null;
+  phone?: string | null;
+}
+
+export interface ClientAddressInput {
+  label: string;
+  address: string;
+}
+
 export interface EstimateInput {
   client_id?: string | null;
   estimate_number: string;
@@ -166,9 +489,14 @@ export interface EstimateInput {
   status?: EstimateStatus;
   issue_date?: string;
   valid_until?: string | null;
-  tax_rate?: number;
+  taxes?: Omit<DocumentTax, 'amount'>[];
+  discount_type?: DiscountType | null;
+  discount_value?: number | null;
   notes?: string | null;
   job_site_address?: string | null;
+  job_site_address_id?: string | null;
+  deposit_type?: DepositType | null;
+  deposit_value?: number | null;
   archived_at?: string | null;
 }
 
@@ -178,6 +506,15 @@ export interface EstimateItemInput {
   quantity?: number;
   unit?: string;
   unit_price: number;
+  taxable?: boolean;
+  discount_type?: DiscountType | null;
+  discount_value?: number | null;
+  unit_cost?: number;
+  markup_percent?: number;
+  section?: string | null;
+  is_optional?: boolean;
+  alternate_group?: string | null;
+  is_selected?: boolean;
   sort_order?: number;
 }
 
@@ -187,21 +524,41 @@ export interface InvoiceInput {
   invoice_number: string;
   title: string;
   description?: string | null;
-  status?: InvoiceStatus;
   issue_date?: string;
   due_date?: string | null;
-  tax_rate?: number;
+  taxes?: Omit<DocumentTax, 'amount'>[];
+  discount_type?: DiscountType | null;
+  discount_value?: number | null;
+  retainage_percent?: number;
   notes?: string | null;
+  sent_at?: string | null;
+  sent_to?: string | null;
+  reminders_enabled?: boolean;
   archived_at?: string | null;
 }
 
+export interface InvoicePaymentInput {
+  invoice_id: string;
+  amount: number;
+  method?: PaymentMethod;
+  reference?: string | null;
+  paid_on?: string;
+  memo?: string | null;
+}
+
 export interface InvoiceItemInput {
   invoice_id: string;
   description: string;
   quantity?: number;
   unit?: string;
   unit_price: number;
+  taxable?: boolean;
+  discount_type?: DiscountType | null;
+  discount_value?: number | null;
+  section?: string | null;
   sort_order?: number;
+  source_estimate_item_id?: string | null;
+  billed_percent?: number | null;
 }
 
 // ============================================
@@ -221,9 +578,19 @@ export interface Database {
         Insert: Omit<Client, 'id' | 'created_at' | 'updated_at'>;
         Update: Partial<ClientInput>;
       };
+      client_contacts: {
+        Row: ClientContact;
+        Insert: Omit<ClientContact, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<ClientContactInput>;
+      };
+      client_addresses: {
+        Row: ClientAddress;
+        Insert: Omit<ClientAddress, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<ClientAddressInput>;
+      };
       estimates: {
         Row: Estimate;
-        Insert: Omit<Estimate, 'id' | 'subtotal' | 'tax_amount' | 'total' | 'created_at' | 'updated_at'>;
+        Insert: Omit<Estimate, 'id' | 'subtotal' | 'discount_amount' | 'tax_amount' | 'total' | 'total_cost' | 'created_at' | 'updated_at'>;
         Update: Partial<EstimateInput>;
       };
       estimate_items: {
@@ -233,7 +600,7 @@ export interface Database {
       };
       invoices: {
         Row: Invoice;
-        Insert: Omit<Invoice, 'id' | 'subtotal' | 'tax_amount' | 'total' | 'created_at' | 'updated_at'>;
+        Insert: Omit<Invoice, 'id' | 'subtotal' | 'discount_amount' | 'tax_amount' | 'retainage_amount' | 'total' | 'created_at' | 'updated_at'>;
         Update: Partial<InvoiceInput>;
       };
       invoice_items: {
@@ -241,10 +608,80 @@ export interface Database {
         Insert: Omit<InvoiceItem, 'id' | 'amount' | 'created_at'>;
         Update: Partial<Omit<InvoiceItemInput, 'invoice_id'>>;
       };
+      share_links: {
+        Row: ShareLink;
+        Insert: Omit<ShareLink, 'id' | 'revoked_at' | 'last_viewed_at' | 'created_at'>;
+        Update: Partial<Pick<ShareLink, 'revoked_at' | 'last_viewed_at'>>;
+      };
+      estimate_signatures: {
+        Row: EstimateSignature;
+        Insert: Omit<EstimateSignature, 'id' | 'signed_at'>;
+        Update: never;
+      };
+      invoice_reminders: {
+        Row: InvoiceReminder;
+        Insert: Omit<InvoiceReminder, 'id' | 'created_at' | 'status' | 'error'> & Partial<Pick<InvoiceReminder, 'status' | 'error'>>;
+        Update: Partial<Pick<InvoiceReminder, 'status' | 'sent_to' | 'error'>>;
+      };
+      invoice_payments: {
+        Row: InvoicePayment;
+        Insert: InvoicePaymentInput & { user_id: string };
+        Update: Partial<InvoicePaymentInput>;
+      };
+      estimate_revisions: {
+        Row: EstimateRevision;
+        Insert: Omit<EstimateRevision, 'id' | 'created_at'>;
+        Update: never;
+      };
+      change_orders: {
+        Row: ChangeOrder;
+        Insert: Pick<ChangeOrder, 'user_id' | 'estimate_id' | 'title' | 'description'>;
+        Update: Partial<Pick<ChangeOrder, 'title' | 'description' | 'status' | 'approved_at'>>;
+      };
+      change_order_items: {
+        Row: ChangeOrderItem;
+        Insert: Omit<ChangeOrderItem, 'id' | 'amount' | 'created_at'>;
+        Update: Partial<Omit<ChangeOrderItem, 'id' | 'change_order_id' | 'amount' | 'created_at'>>;
+      };
+      tax_rates: {
+        Row: TaxRate;
+        Insert: Omit<TaxRate, 'id' | 'created_at'>;
+        Update: Partial<Pick<TaxRate, 'name' | 'rate' | 'is_compound' | 'is_default'>>;
+      };
+      catalog_items: {
+        Row: CatalogItem;
+        Insert: Omit<CatalogItem, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<CatalogItemInput>;
+      };
+      estimate_templates: {
+        Row: EstimateTemplate;
+        Insert: Omit<EstimateTemplate, 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Pick<EstimateTemplate, 'name'>>;
+      };
+      invoice_schedules: {
+        Row: InvoiceSchedule;
+        Insert: Pick<InvoiceSchedule, 'user_id' | 'source_invoice_id' | 'recurrence' | 'start_date' | 'end_date' | 'auto_send'>;
+        Update: Partial<Pick<InvoiceSchedule, 'recurrence' | 'start_date' | 'end_date' | 'run_count' | 'auto_send' | 'is_active' | 'last_error'>>;
+      };
+      document_sequences: {
+        Row: DocumentSequence;
+        Insert: DocumentSequence;
+        Update: Pick<DocumentSequence, 'last_value'>;
+      };
     };
     Enums: {
       estimate_status: EstimateStatus;
       invoice_status: InvoiceStatus;
+      estimate_response: EstimateResponse;
+      payment_method: PaymentMethod;
+      reminder_status: ReminderStatus;
+      document_type: DocumentType;
+      change_order_status: ChangeOrderStatus;
+      deposit_type: DepositType;
+      invoice_type: InvoiceType;
+      discount_type: DiscountType;
+      recurrence_interval: RecurrenceInterval;
+      contact_role: ContactRole;
     };
   };
 }
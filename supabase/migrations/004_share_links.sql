@@ -0,0 +1,60 @@
+-- PRO SmartBuild Client Portal
+-- Migration: 004_share_links.sql
+-- Description: Unguessable, revocable share links so clients can view
+-- estimates without an account
+
+-- ============================================
+-- SHARE_LINKS TABLE
+-- One active token per document; revoking keeps the row for auditing
+-- ============================================
+CREATE TABLE share_links (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    estimate_id UUID NOT NULL REFERENCES estimates(id) ON DELETE CASCADE,
+
+    -- Random URL-safe token generated by the app server
+    token VARCHAR(64) NOT NULL,
+
+    -- Lifecycle
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    last_viewed_at TIMESTAMP WITH TIME ZONE,
+
+    -- Metadata
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes
+CREATE UNIQUE INDEX idx_share_links_token ON share_links(token);
+CREATE INDEX idx_share_links_user_id ON share_links(user_id);
+CREATE UNIQUE INDEX idx_share_links_active_estimate
+    ON share_links(estimate_id)
+    WHERE revoked_at IS NULL;
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- Owners manage their links; public lookups go through the service role
+-- ============================================
+ALTER TABLE share_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own share links"
+    ON share_links FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own share links"
+    ON share_links FOR INSERT
+    WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (
+            SELECT 1 FROM estimates
+            WHERE estimates.id = share_links.estimate_id
+            AND estimates.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can update their own share links"
+    ON share_links FOR UPDATE
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own share links"
+    ON share_links FOR DELETE
+    USING (auth.uid() = user_id);
@@ -0,0 +1,95 @@
+-- PRO SmartBuild Estimate E-Signatures
+-- Migration: 005_estimate_signatures.sql
+-- Description: Record client approve/decline responses submitted from a
+-- shared estimate link, with signature and audit details
+
+-- ============================================
+-- CUSTOM TYPES (ENUMS)
+-- ============================================
+CREATE TYPE estimate_response AS ENUM ('approved', 'declined');
+
+-- ============================================
+-- ESTIMATE_SIGNATURES TABLE
+-- Written only by the server (service role) on behalf of the client
+-- ============================================
+CREATE TABLE estimate_signatures (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    estimate_id UUID NOT NULL REFERENCES estimates(id) ON DELETE CASCADE,
+    share_link_id UUID REFERENCES share_links(id) ON DELETE SET NULL,
+
+    -- Response
+    decision estimate_response NOT NULL,
+    signer_name VARCHAR(255) NOT NULL,
+    signature_image TEXT NOT NULL, -- PNG data URL drawn by the client
+
+    -- What was agreed to
+    estimate_total DECIMAL(12, 2) NOT NULL,
+
+    -- Audit trail
+    ip_address VARCHAR(64),
+    user_agent TEXT,
+    signed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Index for faster lookups
+CREATE INDEX idx_estimate_signatures_estimate_id ON estimate_signatures(estimate_id);
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- Read-only for owners; there is deliberately no insert policy
+-- ============================================
+ALTER TABLE estimate_signatures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view signatures on their own estimates"
+    ON estimate_signatures FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM estimates
+            WHERE estimates.id = estimate_signatures.estimate_id
+            AND estimates.user_id = auth.uid()
+        )
+    );
+
+-- ============================================
+-- FUNCTIONS
+-- ============================================
+
+-- Move a sent estimate to the client's decision and record their signature
+-- in one transaction, so neither is kept without the other. Called by the
+-- server (service role). Returns false if the estimate is no longer awaiting
+-- a response.
+CREATE OR REPLACE FUNCTION record_estimate_response(
+    p_estimate_id UUID,
+    p_share_link_id UUID,
+    p_decision estimate_response,
+    p_signer_name VARCHAR,
+    p_signature_image TEXT,
+    p_ip_address VARCHAR,
+    p_user_agent TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_total DECIMAL(12, 2);
+BEGIN
+    UPDATE estimates
+    SET status = p_decision::TEXT::estimate_status
+    WHERE id = p_estimate_id
+    AND status = 'sent'
+    RETURNING total INTO v_total;
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    INSERT INTO estimate_signatures (
+        estimate_id, share_link_id, decision, signer_name, signature_image,
+        estimate_total, ip_address, user_agent
+    )
+    VALUES (
+        p_estimate_id, p_share_link_id, p_decision, p_signer_name, p_signature_image,
+        v_total, p_ip_address, p_user_agent
+    );
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,46 @@
+-- PRO SmartBuild Invoice Sending
+-- Migration: 006_invoice_sending.sql
+-- Description: Share links for invoices and a record of when/to whom an
+-- invoice was last emailed
+
+-- ============================================
+-- SHARE_LINKS: allow invoice links
+-- Each link points at exactly one estimate or one invoice
+-- ============================================
+ALTER TABLE share_links
+    ALTER COLUMN estimate_id DROP NOT NULL,
+    ADD COLUMN invoice_id UUID REFERENCES invoices(id) ON DELETE CASCADE,
+    ADD CONSTRAINT share_links_one_document CHECK (
+        (estimate_id IS NOT NULL)::int + (invoice_id IS NOT NULL)::int = 1
+    );
+
+CREATE UNIQUE INDEX idx_share_links_active_invoice
+    ON share_links(invoice_id)
+    WHERE revoked_at IS NULL;
+
+DROP POLICY "Users can create their own share links" ON share_links;
+
+CREATE POLICY "Users can create their own share links"
+    ON share_links FOR INSERT
+    WITH CHECK (
+        auth.uid() = user_id
+        AND (
+            EXISTS (
+                SELECT 1 FROM estimates
+                WHERE estimates.id = share_links.estimate_id
+                AND estimates.user_id = auth.uid()
+            )
+            OR EXISTS (
+                SELECT 1 FROM invoices
+                WHERE invoices.id = share_links.invoice_id
+                AND invoices.user_id = auth.uid()
+            )
+        )
+    );
+
+-- ============================================
+-- INVOICES: delivery tracking
+-- ============================================
+ALTER TABLE invoices
+    ADD COLUMN sent_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN sent_to VARCHAR(255);
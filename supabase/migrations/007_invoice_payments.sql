@@ -0,0 +1,141 @@
+-- PRO SmartBuild Invoice Payments
+-- Migration: 007_invoice_payments.sql
+-- Description: Payment ledger for invoices. Amount paid, status and paid date
+-- are derived from the recorded payments.
+
+-- ============================================
+-- CUSTOM TYPES (ENUMS)
+-- ============================================
+ALTER TYPE invoice_status ADD VALUE IF NOT EXISTS 'partially_paid' BEFORE 'paid';
+
+CREATE TYPE payment_method AS ENUM ('check', 'ach', 'card', 'cash', 'other');
+
+-- ============================================
+-- INVOICE_PAYMENTS TABLE
+-- One row per payment received against an invoice
+-- ============================================
+CREATE TABLE invoice_payments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+
+    -- Payment Details
+    amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+    method payment_method NOT NULL DEFAULT 'check',
+    reference VARCHAR(100), -- Check number, ACH trace, card last four, etc.
+    paid_on DATE NOT NULL DEFAULT CURRENT_DATE,
+    memo TEXT,
+
+    -- Metadata
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Index for faster lookups
+CREATE INDEX idx_invoice_payments_invoice_id ON invoice_payments(invoice_id);
+
+-- ============================================
+-- INVOICES: running amount paid
+-- ============================================
+ALTER TABLE invoices
+    ADD COLUMN amount_paid DECIMAL(12, 2) NOT NULL DEFAULT 0;
+
+-- Invoices already marked paid become a single payment for the full total
+INSERT INTO invoice_payments (user_id, invoice_id, amount, method, paid_on, memo)
+SELECT user_id, id, total, 'other', COALESCE(paid_date, CURRENT_DATE), 'Recorded before payment tracking'
+FROM invoices
+WHERE status = 'paid' AND total > 0;
+
+UPDATE invoices
+SET amount_paid = COALESCE((
+    SELECT SUM(amount) FROM invoice_payments
+    WHERE invoice_payments.invoice_id = invoices.id
+), 0);
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+ALTER TABLE invoice_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own invoice payments"
+    ON invoice_payments FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own invoice payments"
+    ON invoice_payments FOR INSERT
+    WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (
+            SELECT 1 FROM invoices
+            WHERE invoices.id = invoice_payments.invoice_id
+            AND invoices.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can update their own invoice payments"
+    ON invoice_payments FOR UPDATE
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own invoice payments"
+    ON invoice_payments FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- ============================================
+-- FUNCTIONS & TRIGGERS
+-- ============================================
+
+-- Derive amount_paid, status and paid_date from the ledger on every invoice
+-- write, so neither a stale client nor a total change can leave them wrong.
+-- Nothing is owed on an invoice whose total is zero or less (e.g. fully
+-- covered by a deposit credit), so it counts as paid as of its issue date.
+CREATE OR REPLACE FUNCTION derive_invoice_payment_status()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_last_paid_on DATE;
+BEGIN
+    SELECT COALESCE(SUM(amount), 0), MAX(paid_on)
+    INTO NEW.amount_paid, v_last_paid_on
+    FROM invoice_payments
+    WHERE invoice_id = NEW.id;
+
+    IF NEW.amount_paid >= NEW.total THEN
+        NEW.status := 'paid';
+        NEW.paid_date := COALESCE(v_last_paid_on, NEW.issue_date);
+    ELSIF NEW.amount_paid > 0 THEN
+        NEW.status := 'partially_paid';
+        NEW.paid_date := NULL;
+    ELSE
+        NEW.status := 'unpaid';
+        NEW.paid_date := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER derive_invoice_payment_status
+    BEFORE INSERT OR UPDATE ON invoices
+    FOR EACH ROW
+    EXECUTE FUNCTION derive_invoice_payment_status();
+
+-- Touch the invoice whenever its payments change so the trigger above re-runs
+CREATE OR REPLACE FUNCTION sync_invoice_on_payment_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE invoices
+    SET updated_at = NOW()
+    WHERE id = COALESCE(NEW.invoice_id, OLD.invoice_id);
+
+    IF TG_OP = 'UPDATE' AND NEW.invoice_id IS DISTINCT FROM OLD.invoice_id THEN
+        UPDATE invoices
+        SET updated_at = NOW()
+        WHERE id = OLD.invoice_id;
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER sync_invoice_on_payment_change
+    AFTER INSERT OR UPDATE OR DELETE ON invoice_payments
+    FOR EACH ROW
+    EXECUTE FUNCTION sync_invoice_on_payment_change();
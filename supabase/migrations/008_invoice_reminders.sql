@@ -0,0 +1,62 @@
+-- PRO SmartBuild Payment Reminders
+-- Migration: 008_invoice_reminders.sql
+-- Description: Reminder schedule settings and a log of reminder emails sent
+-- for unpaid invoices
+
+-- ============================================
+-- CUSTOM TYPES (ENUMS)
+-- ============================================
+CREATE TYPE reminder_status AS ENUM ('sending', 'sent', 'failed');
+
+-- ============================================
+-- PROFILES: reminder schedule
+-- Offsets are days relative to the due date (negative = before)
+-- ============================================
+ALTER TABLE profiles
+    ADD COLUMN reminders_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    ADD COLUMN reminder_offsets INTEGER[] NOT NULL DEFAULT '{-3, 0, 7, 14, 30}';
+
+-- ============================================
+-- INVOICES: per-invoice opt-out
+-- ============================================
+ALTER TABLE invoices
+    ADD COLUMN reminders_enabled BOOLEAN NOT NULL DEFAULT TRUE;
+
+-- ============================================
+-- INVOICE_REMINDERS TABLE
+-- One row per schedule step per invoice. The row is inserted before the
+-- email goes out, so the unique index makes each step send at most once.
+-- ============================================
+CREATE TABLE invoice_reminders (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+
+    -- Which step of the schedule this was
+    offset_days INTEGER NOT NULL,
+
+    -- Delivery
+    status reminder_status NOT NULL DEFAULT 'sending',
+    sent_to VARCHAR(255),
+    error TEXT,
+
+    -- Metadata
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_invoice_reminders_step ON invoice_reminders(invoice_id, offset_days);
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- Read-only for owners; reminders are written by the scheduler (service role)
+-- ============================================
+ALTER TABLE invoice_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view reminders on their own invoices"
+    ON invoice_reminders FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM invoices
+            WHERE invoices.id = invoice_reminders.invoice_id
+            AND invoices.user_id = auth.uid()
+        )
+    );
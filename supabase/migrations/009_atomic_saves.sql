@@ -0,0 +1,249 @@
+-- PRO SmartBuild Atomic Saves
+-- Migration: 009_atomic_saves.sql
+-- Description: Save an estimate or invoice header and its line items in a
+-- single transaction. Both functions run as the caller, so RLS still applies.
+
+-- ============================================
+-- TOTALS
+-- One place that knows how document totals are calculated. The item
+-- triggers and the save functions below both go through these.
+-- ============================================
+CREATE OR REPLACE FUNCTION refresh_estimate_totals(p_estimate_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_subtotal DECIMAL(12, 2);
+    v_tax_rate DECIMAL(5, 2);
+    v_tax_amount DECIMAL(12, 2);
+BEGIN
+    SELECT COALESCE(SUM(quantity * unit_price), 0)
+    INTO v_subtotal
+    FROM estimate_items
+    WHERE estimate_id = p_estimate_id;
+
+    SELECT tax_rate INTO v_tax_rate
+    FROM estimates
+    WHERE id = p_estimate_id;
+
+    v_tax_amount := v_subtotal * (v_tax_rate / 100);
+
+    UPDATE estimates
+    SET subtotal = v_subtotal,
+        tax_amount = v_tax_amount,
+        total = v_subtotal + v_tax_amount
+    WHERE id = p_estimate_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION refresh_invoice_totals(p_invoice_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_subtotal DECIMAL(12, 2);
+    v_tax_rate DECIMAL(5, 2);
+    v_tax_amount DECIMAL(12, 2);
+BEGIN
+    SELECT COALESCE(SUM(quantity * unit_price), 0)
+    INTO v_subtotal
+    FROM invoice_items
+    WHERE invoice_id = p_invoice_id;
+
+    SELECT tax_rate INTO v_tax_rate
+    FROM invoices
+    WHERE id = p_invoice_id;
+
+    v_tax_amount := v_subtotal * (v_tax_rate / 100);
+
+    UPDATE invoices
+    SET subtotal = v_subtotal,
+        tax_amount = v_tax_amount,
+        total = v_subtotal + v_tax_amount
+    WHERE id = p_invoice_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION recalculate_estimate_totals()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM refresh_estimate_totals(COALESCE(NEW.estimate_id, OLD.estimate_id));
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION recalculate_invoice_totals()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM refresh_invoice_totals(COALESCE(NEW.invoice_id, OLD.invoice_id));
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- SAVE_ESTIMATE
+-- p_estimate: header fields, with "id" set when updating
+-- p_items: ordered array of { id, description, quantity, unit, unit_price }.
+--   Items are matched by id, so existing rows keep their identity; rows
+--   missing from the array are deleted. Array order becomes sort_order.
+-- Returns the estimate id.
+-- ============================================
+CREATE OR REPLACE FUNCTION save_estimate(p_estimate JSONB, p_items JSONB)
+RETURNS UUID AS $$
+DECLARE
+    v_id UUID := (p_estimate->>'id')::UUID;
+    v_saved INTEGER;
+BEGIN
+    IF v_id IS NULL THEN
+        INSERT INTO estimates (
+            user_id, client_id, estimate_number, title, description, status,
+            issue_date, valid_until, tax_rate, notes, job_site_address
+        )
+        VALUES (
+            auth.uid(),
+            (p_estimate->>'client_id')::UUID,
+            p_estimate->>'estimate_number',
+            p_estimate->>'title',
+            p_estimate->>'description',
+            (p_estimate->>'status')::estimate_status,
+            (p_estimate->>'issue_date')::DATE,
+            (p_estimate->>'valid_until')::DATE,
+            (p_estimate->>'tax_rate')::DECIMAL,
+            p_estimate->>'notes',
+            p_estimate->>'job_site_address'
+        )
+        RETURNING id INTO v_id;
+    ELSE
+        UPDATE estimates
+        SET client_id = (p_estimate->>'client_id')::UUID,
+            estimate_number = p_estimate->>'estimate_number',
+            title = p_estimate->>'title',
+            description = p_estimate->>'description',
+            status = (p_estimate->>'status')::estimate_status,
+            issue_date = (p_estimate->>'issue_date')::DATE,
+            valid_until = (p_estimate->>'valid_until')::DATE,
+            tax_rate = (p_estimate->>'tax_rate')::DECIMAL,
+            notes = p_estimate->>'notes',
+            job_site_address = p_estimate->>'job_site_address'
+        WHERE id = v_id;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Estimate not found' USING ERRCODE = 'P0002';
+        END IF;
+    END IF;
+
+    DELETE FROM estimate_items
+    WHERE estimate_id = v_id
+    AND id NOT IN (
+        SELECT (item->>'id')::UUID FROM jsonb_array_elements(p_items) AS item
+    );
+
+    INSERT INTO estimate_items (id, estimate_id, description, quantity, unit, unit_price, sort_order)
+    SELECT
+        (item->>'id')::UUID,
+        v_id,
+        item->>'description',
+        (item->>'quantity')::DECIMAL,
+        COALESCE(item->>'unit', 'each'),
+        (item->>'unit_price')::DECIMAL,
+        (ordinality - 1)::INTEGER
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS t(item, ordinality)
+    ON CONFLICT (id) DO UPDATE
+    SET description = EXCLUDED.description,
+        quantity = EXCLUDED.quantity,
+        unit = EXCLUDED.unit,
+        unit_price = EXCLUDED.unit_price,
+        sort_order = EXCLUDED.sort_order
+    WHERE estimate_items.estimate_id = v_id;
+
+    -- Lines whose id is taken by another estimate are skipped above; fail instead
+    -- of saving without them
+    GET DIAGNOSTICS v_saved = ROW_COUNT;
+    IF v_saved < jsonb_array_length(p_items) THEN
+        RAISE EXCEPTION 'Line item belongs to another estimate' USING ERRCODE = '22023';
+    END IF;
+
+    PERFORM refresh_estimate_totals(v_id);
+
+    RETURN v_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- SAVE_INVOICE
+-- Same contract as save_estimate. Status and payment fields are derived
+-- from the payment ledger and are not accepted here.
+-- ============================================
+CREATE OR REPLACE FUNCTION save_invoice(p_invoice JSONB, p_items JSONB)
+RETURNS UUID AS $$
+DECLARE
+    v_id UUID := (p_invoice->>'id')::UUID;
+    v_saved INTEGER;
+BEGIN
+    IF v_id IS NULL THEN
+        INSERT INTO invoices (
+            user_id, client_id, source_estimate_id, invoice_number, title,
+            description, issue_date, due_date, tax_rate, notes
+        )
+        VALUES (
+            auth.uid(),
+            (p_invoice->>'client_id')::UUID,
+            (p_invoice->>'source_estimate_id')::UUID,
+            p_invoice->>'invoice_number',
+            p_invoice->>'title',
+            p_invoice->>'description',
+            (p_invoice->>'issue_date')::DATE,
+            (p_invoice->>'due_date')::DATE,
+            (p_invoice->>'tax_rate')::DECIMAL,
+            p_invoice->>'notes'
+        )
+        RETURNING id INTO v_id;
+    ELSE
+        UPDATE invoices
+        SET client_id = (p_invoice->>'client_id')::UUID,
+            invoice_number = p_invoice->>'invoice_number',
+            title = p_invoice->>'title',
+            description = p_invoice->>'description',
+            issue_date = (p_invoice->>'issue_date')::DATE,
+            due_date = (p_invoice->>'due_date')::DATE,
+            tax_rate = (p_invoice->>'tax_rate')::DECIMAL,
+            notes = p_invoice->>'notes'
+        WHERE id = v_id;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Invoice not found' USING ERRCODE = 'P0002';
+        END IF;
+    END IF;
+
+    DELETE FROM invoice_items
+    WHERE invoice_id = v_id
+    AND id NOT IN (
+        SELECT (item->>'id')::UUID FROM jsonb_array_elements(p_items) AS item
+    );
+
+    INSERT INTO invoice_items (id, invoice_id, description, quantity, unit, unit_price, sort_order)
+    SELECT
+        (item->>'id')::UUID,
+        v_id,
+        item->>'description',
+        (item->>'quantity')::DECIMAL,
+        COALESCE(item->>'unit', 'each'),
+        (item->>'unit_price')::DECIMAL,
+        (ordinality - 1)::INTEGER
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS t(item, ordinality)
+    ON CONFLICT (id) DO UPDATE
+    SET description = EXCLUDED.description,
+        quantity = EXCLUDED.quantity,
+        unit = EXCLUDED.unit,
+        unit_price = EXCLUDED.unit_price,
+        sort_order = EXCLUDED.sort_order
+    WHERE invoice_items.invoice_id = v_id;
+
+    -- Lines whose id is taken by another invoice are skipped above; fail instead
+    -- of saving without them
+    GET DIAGNOSTICS v_saved = ROW_COUNT;
+    IF v_saved < jsonb_array_length(p_items) THEN
+        RAISE EXCEPTION 'Line item belongs to another invoice' USING ERRCODE = '22023';
+    END IF;
+
+    PERFORM refresh_invoice_totals(v_id);
+
+    RETURN v_id;
+END;
+$$ LANGUAGE plpgsql;
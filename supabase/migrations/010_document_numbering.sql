@@ -0,0 +1,146 @@
+-- PRO SmartBuild Document Numbering
+-- Migration: 010_document_numbering.sql
+-- Description: Per-account sequential estimate and invoice numbers
+-- (e.g. EST-2026-0042), allocated in the database when a document is saved
+-- without a number
+
+-- ============================================
+-- CUSTOM TYPES (ENUMS)
+-- ============================================
+CREATE TYPE document_type AS ENUM ('estimate', 'invoice');
+
+-- ============================================
+-- PROFILES: numbering format
+-- ============================================
+ALTER TABLE profiles
+    ADD COLUMN estimate_number_prefix VARCHAR(20) NOT NULL DEFAULT 'EST',
+    ADD COLUMN invoice_number_prefix VARCHAR(20) NOT NULL DEFAULT 'INV',
+    ADD COLUMN document_number_padding INTEGER NOT NULL DEFAULT 4
+        CHECK (document_number_padding BETWEEN 1 AND 10),
+    ADD COLUMN document_number_yearly_reset BOOLEAN NOT NULL DEFAULT TRUE;
+
+-- ============================================
+-- DOCUMENT_SEQUENCES TABLE
+-- Last number handed out per account, document type and year. Accounts that
+-- don't reset yearly use year 0, so a single counter keeps running.
+-- ============================================
+CREATE TABLE document_sequences (
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    document_type document_type NOT NULL,
+    year INTEGER NOT NULL,
+    last_value INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (user_id, document_type, year)
+);
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+ALTER TABLE document_sequences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own document sequences"
+    ON document_sequences FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own document sequences"
+    ON document_sequences FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own document sequences"
+    ON document_sequences FOR UPDATE
+    USING (auth.uid() = user_id);
+
+-- ============================================
+-- FUNCTIONS & TRIGGERS
+-- ============================================
+
+-- Allocate the next number for an account. The upsert takes a row lock on the
+-- counter, so concurrent saves never receive the same value. Numbers already
+-- taken (typed in by hand, or from before sequences existed) are skipped.
+CREATE OR REPLACE FUNCTION next_document_number(p_user_id UUID, p_type document_type)
+RETURNS VARCHAR AS $$
+DECLARE
+    v_prefix VARCHAR(20);
+    v_padding INTEGER;
+    v_yearly BOOLEAN;
+    v_year INTEGER;
+    v_value INTEGER;
+    v_number VARCHAR(50);
+BEGIN
+    SELECT
+        CASE WHEN p_type = 'estimate' THEN estimate_number_prefix ELSE invoice_number_prefix END,
+        document_number_padding,
+        document_number_yearly_reset
+    INTO v_prefix, v_padding, v_yearly
+    FROM profiles
+    WHERE id = p_user_id;
+
+    v_year := CASE WHEN COALESCE(v_yearly, TRUE) THEN EXTRACT(YEAR FROM CURRENT_DATE)::INTEGER ELSE 0 END;
+
+    LOOP
+        INSERT INTO document_sequences (user_id, document_type, year, last_value)
+        VALUES (p_user_id, p_type, v_year, 1)
+        ON CONFLICT (user_id, document_type, year) DO UPDATE
+        SET last_value = document_sequences.last_value + 1
+        RETURNING last_value INTO v_value;
+
+        v_number := concat_ws(
+            '-',
+            NULLIF(v_prefix, ''),
+            NULLIF(v_year, 0)::TEXT,
+            -- lpad() truncates, so only pad values shorter than the padding
+            CASE
+                WHEN length(v_value::TEXT) >= COALESCE(v_padding, 4) THEN v_value::TEXT
+                ELSE lpad(v_value::TEXT, COALESCE(v_padding, 4), '0')
+            END
+        );
+
+        EXIT WHEN p_type = 'estimate' AND NOT EXISTS (
+            SELECT 1 FROM estimates WHERE user_id = p_user_id AND estimate_number = v_number
+        );
+        EXIT WHEN p_type = 'invoice' AND NOT EXISTS (
+            SELECT 1 FROM invoices WHERE user_id = p_user_id AND invoice_number = v_number
+        );
+    END LOOP;
+
+    RETURN v_number;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Fill in a blank number on insert; a blank number on update keeps the old one
+CREATE OR REPLACE FUNCTION assign_estimate_number()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NULLIF(TRIM(NEW.estimate_number), '') IS NULL THEN
+        IF TG_OP = 'UPDATE' THEN
+            NEW.estimate_number := OLD.estimate_number;
+        ELSE
+            NEW.estimate_number := next_document_number(NEW.user_id, 'estimate');
+        END IF;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER assign_estimate_number
+    BEFORE INSERT OR UPDATE OF estimate_number ON estimates
+    FOR EACH ROW
+    EXECUTE FUNCTION assign_estimate_number();
+
+CREATE OR REPLACE FUNCTION assign_invoice_number()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NULLIF(TRIM(NEW.invoice_number), '') IS NULL THEN
+        IF TG_OP = 'UPDATE' THEN
+            NEW.invoice_number := OLD.invoice_number;
+        ELSE
+            NEW.invoice_number := next_document_number(NEW.user_id, 'invoice');
+        END IF;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER assign_invoice_number
+    BEFORE INSERT OR UPDATE OF invoice_number ON invoices
+    FOR EACH ROW
+    EXECUTE FUNCTION assign_invoice_number();
@@ -0,0 +1,194 @@
+-- PRO SmartBuild Estimate Revisions
+-- Migration: 011_estimate_revisions.sql
+-- Description: Keep a snapshot of an estimate (header and line items) each
+-- time it is changed after being sent, so earlier quotes can be compared
+-- and restored
+
+-- ============================================
+-- ESTIMATE_REVISIONS TABLE
+-- Each row is the estimate as it stood before a save changed it.
+-- Revisions are immutable; the live estimate is always the latest version.
+-- ============================================
+CREATE TABLE estimate_revisions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    estimate_id UUID NOT NULL REFERENCES estimates(id) ON DELETE CASCADE,
+    revision_number INTEGER NOT NULL,
+
+    -- Header fields and items, see estimate_snapshot()
+    snapshot JSONB NOT NULL,
+
+    -- Metadata
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_estimate_revisions_number ON estimate_revisions(estimate_id, revision_number);
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+ALTER TABLE estimate_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view revisions of their own estimates"
+    ON estimate_revisions FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM estimates
+            WHERE estimates.id = estimate_revisions.estimate_id
+            AND estimates.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can create revisions of their own estimates"
+    ON estimate_revisions FOR INSERT
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM estimates
+            WHERE estimates.id = estimate_revisions.estimate_id
+            AND estimates.user_id = auth.uid()
+        )
+    );
+
+-- ============================================
+-- FUNCTIONS
+-- ============================================
+
+-- The parts of an estimate a client sees as "the quote". Status is left out
+-- so approving or re-sending an estimate is not a revision.
+CREATE OR REPLACE FUNCTION estimate_snapshot(p_estimate_id UUID)
+RETURNS JSONB AS $$
+    SELECT jsonb_build_object(
+        'estimate_number', e.estimate_number,
+        'title', e.title,
+        'description', e.description,
+        'client_id', e.client_id,
+        'issue_date', e.issue_date,
+        'valid_until', e.valid_until,
+        'tax_rate', e.tax_rate,
+        'notes', e.notes,
+        'job_site_address', e.job_site_address,
+        'subtotal', e.subtotal,
+        'tax_amount', e.tax_amount,
+        'total', e.total,
+        'items', COALESCE((
+            SELECT jsonb_agg(
+                jsonb_build_object(
+                    'id', i.id,
+                    'description', i.description,
+                    'quantity', i.quantity,
+                    'unit', i.unit,
+                    'unit_price', i.unit_price
+                )
+                ORDER BY i.sort_order
+            )
+            FROM estimate_items i
+            WHERE i.estimate_id = e.id
+        ), '[]'::JSONB)
+    )
+    FROM estimates e
+    WHERE e.id = p_estimate_id;
+$$ LANGUAGE sql STABLE;
+
+-- Same as 009, plus: once an estimate has left draft (or already has
+-- revisions), a save that changes it records the previous version first
+CREATE OR REPLACE FUNCTION save_estimate(p_estimate JSONB, p_items JSONB)
+RETURNS UUID AS $$
+DECLARE
+    v_id UUID := (p_estimate->>'id')::UUID;
+    v_saved INTEGER;
+    v_old_status estimate_status;
+    v_before JSONB;
+BEGIN
+    IF v_id IS NULL THEN
+        INSERT INTO estimates (
+            user_id, client_id, estimate_number, title, description, status,
+            issue_date, valid_until, tax_rate, notes, job_site_address
+        )
+        VALUES (
+            auth.uid(),
+            (p_estimate->>'client_id')::UUID,
+            p_estimate->>'estimate_number',
+            p_estimate->>'title',
+            p_estimate->>'description',
+            (p_estimate->>'status')::estimate_status,
+            (p_estimate->>'issue_date')::DATE,
+            (p_estimate->>'valid_until')::DATE,
+            (p_estimate->>'tax_rate')::DECIMAL,
+            p_estimate->>'notes',
+            p_estimate->>'job_site_address'
+        )
+        RETURNING id INTO v_id;
+    ELSE
+        SELECT status INTO v_old_status
+        FROM estimates
+        WHERE id = v_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Estimate not found' USING ERRCODE = 'P0002';
+        END IF;
+
+        v_before := estimate_snapshot(v_id);
+
+        UPDATE estimates
+        SET client_id = (p_estimate->>'client_id')::UUID,
+            estimate_number = p_estimate->>'estimate_number',
+            title = p_estimate->>'title',
+            description = p_estimate->>'description',
+            status = (p_estimate->>'status')::estimate_status,
+            issue_date = (p_estimate->>'issue_date')::DATE,
+            valid_until = (p_estimate->>'valid_until')::DATE,
+            tax_rate = (p_estimate->>'tax_rate')::DECIMAL,
+            notes = p_estimate->>'notes',
+            job_site_address = p_estimate->>'job_site_address'
+        WHERE id = v_id;
+    END IF;
+
+    DELETE FROM estimate_items
+    WHERE estimate_id = v_id
+    AND id NOT IN (
+        SELECT (item->>'id')::UUID FROM jsonb_array_elements(p_items) AS item
+    );
+
+    INSERT INTO estimate_items (id, estimate_id, description, quantity, unit, unit_price, sort_order)
+    SELECT
+        (item->>'id')::UUID,
+        v_id,
+        item->>'description',
+        (item->>'quantity')::DECIMAL,
+        COALESCE(item->>'unit', 'each'),
+        (item->>'unit_price')::DECIMAL,
+        (ordinality - 1)::INTEGER
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS t(item, ordinality)
+    ON CONFLICT (id) DO UPDATE
+    SET description = EXCLUDED.description,
+        quantity = EXCLUDED.quantity,
+        unit = EXCLUDED.unit,
+        unit_price = EXCLUDED.unit_price,
+        sort_order = EXCLUDED.sort_order
+    WHERE estimate_items.estimate_id = v_id;
+
+    -- Lines whose id is taken by another estimate are skipped above; fail instead
+    -- of saving without them
+    GET DIAGNOSTICS v_saved = ROW_COUNT;
+    IF v_saved < jsonb_array_length(p_items) THEN
+        RAISE EXCEPTION 'Line item belongs to another estimate' USING ERRCODE = '22023';
+    END IF;
+
+    PERFORM refresh_estimate_totals(v_id);
+
+    IF v_before IS NOT NULL
+        AND v_before IS DISTINCT FROM estimate_snapshot(v_id)
+        AND (
+            v_old_status <> 'draft'
+            OR EXISTS (SELECT 1 FROM estimate_revisions WHERE estimate_id = v_id)
+        )
+    THEN
+        INSERT INTO estimate_revisions (estimate_id, revision_number, snapshot)
+        SELECT v_id, COALESCE(MAX(revision_number), 0) + 1, v_before
+        FROM estimate_revisions
+        WHERE estimate_id = v_id;
+    END IF;
+
+    RETURN v_id;
+END;
+$$ LANGUAGE plpgsql;
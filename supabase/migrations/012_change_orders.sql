@@ -0,0 +1,313 @@
+-- PRO SmartBuild Change Orders
+-- Migration: 012_change_orders.sql
+-- Description: Scope changes on an approved estimate, with their own line
+-- items and client approval, that roll into the estimate's invoice
+
+-- ============================================
+-- CUSTOM TYPES (ENUMS)
+-- ============================================
+CREATE TYPE change_order_status AS ENUM ('pending', 'approved', 'declined');
+
+-- ============================================
+-- CHANGE_ORDERS TABLE
+-- ============================================
+CREATE TABLE change_orders (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    estimate_id UUID NOT NULL REFERENCES estimates(id) ON DELETE CASCADE,
+
+    -- Numbered per estimate (CO-001, CO-002, ...), assigned on insert
+    change_order_number INTEGER NOT NULL,
+    title VARCHAR(255) NOT NULL,
+    description TEXT,
+
+    -- Client approval
+    status change_order_status NOT NULL DEFAULT 'pending',
+    approved_at TIMESTAMP WITH TIME ZONE,
+
+    -- Price delta, calculated from items (negative when scope is removed)
+    total DECIMAL(12, 2) NOT NULL DEFAULT 0,
+
+    -- Invoice the change order was billed on
+    invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+
+    -- Metadata
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_change_orders_estimate_id ON change_orders(estimate_id);
+CREATE UNIQUE INDEX idx_change_orders_number ON change_orders(estimate_id, change_order_number);
+
+-- ============================================
+-- CHANGE_ORDER_ITEMS TABLE
+-- Added scope, or removed scope credited back (is_removal)
+-- ============================================
+CREATE TABLE change_order_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    change_order_id UUID NOT NULL REFERENCES change_orders(id) ON DELETE CASCADE,
+
+    description TEXT NOT NULL,
+    quantity DECIMAL(10, 2) NOT NULL DEFAULT 1,
+    unit VARCHAR(50) DEFAULT 'each',
+    unit_price DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    is_removal BOOLEAN NOT NULL DEFAULT FALSE,
+    amount DECIMAL(12, 2) GENERATED ALWAYS AS (
+        quantity * unit_price * CASE WHEN is_removal THEN -1 ELSE 1 END
+    ) STORED,
+
+    sort_order INTEGER DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_change_order_items_change_order_id ON change_order_items(change_order_id);
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+ALTER TABLE change_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE change_order_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own change orders"
+    ON change_orders FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create change orders on their own estimates"
+    ON change_orders FOR INSERT
+    WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (
+            SELECT 1 FROM estimates
+            WHERE estimates.id = change_orders.estimate_id
+            AND estimates.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can update their own change orders"
+    ON change_orders FOR UPDATE
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own change orders"
+    ON change_orders FOR DELETE
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view items of their own change orders"
+    ON change_order_items FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM change_orders
+            WHERE change_orders.id = change_order_items.change_order_id
+            AND change_orders.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can create items on their own change orders"
+    ON change_order_items FOR INSERT
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM change_orders
+            WHERE change_orders.id = change_order_items.change_order_id
+            AND change_orders.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can update items on their own change orders"
+    ON change_order_items FOR UPDATE
+    USING (
+        EXISTS (
+            SELECT 1 FROM change_orders
+            WHERE change_orders.id = change_order_items.change_order_id
+            AND change_orders.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can delete items on their own change orders"
+    ON change_order_items FOR DELETE
+    USING (
+        EXISTS (
+            SELECT 1 FROM change_orders
+            WHERE change_orders.id = change_order_items.change_order_id
+            AND change_orders.user_id = auth.uid()
+        )
+    );
+
+-- ============================================
+-- FUNCTIONS & TRIGGERS
+-- ============================================
+CREATE TRIGGER update_change_orders_updated_at
+    BEFORE UPDATE ON change_orders
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION assign_change_order_number()
+RETURNS TRIGGER AS $$
+BEGIN
+    SELECT COALESCE(MAX(change_order_number), 0) + 1
+    INTO NEW.change_order_number
+    FROM change_orders
+    WHERE estimate_id = NEW.estimate_id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER assign_change_order_number
+    BEFORE INSERT ON change_orders
+    FOR EACH ROW
+    EXECUTE FUNCTION assign_change_order_number();
+
+CREATE OR REPLACE FUNCTION refresh_change_order_total(p_change_order_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE change_orders
+    SET total = COALESCE((
+        SELECT SUM(amount) FROM change_order_items
+        WHERE change_order_id = p_change_order_id
+    ), 0)
+    WHERE id = p_change_order_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION recalculate_change_order_total()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM refresh_change_order_total(COALESCE(NEW.change_order_id, OLD.change_order_id));
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER recalculate_change_order_on_item_change
+    AFTER INSERT OR UPDATE OR DELETE ON change_order_items
+    FOR EACH ROW
+    EXECUTE FUNCTION recalculate_change_order_total();
+
+-- Save a change order and its items in one transaction. Same item contract
+-- as save_estimate; only pending change orders can be edited.
+CREATE OR REPLACE FUNCTION save_change_order(p_change_order JSONB, p_items JSONB)
+RETURNS UUID AS $$
+DECLARE
+    v_id UUID := (p_change_order->>'id')::UUID;
+    v_status change_order_status;
+    v_saved INTEGER;
+BEGIN
+    IF v_id IS NULL THEN
+        INSERT INTO change_orders (user_id, estimate_id, change_order_number, title, description)
+        VALUES (
+            auth.uid(),
+            (p_change_order->>'estimate_id')::UUID,
+            0, -- replaced by assign_change_order_number
+            p_change_order->>'title',
+            p_change_order->>'description'
+        )
+        RETURNING id INTO v_id;
+    ELSE
+        SELECT status INTO v_status
+        FROM change_orders
+        WHERE id = v_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Change order not found' USING ERRCODE = 'P0002';
+        END IF;
+
+        IF v_status <> 'pending' THEN
+            RAISE EXCEPTION 'Only pending change orders can be edited' USING ERRCODE = '55000';
+        END IF;
+
+        UPDATE change_orders
+        SET title = p_change_order->>'title',
+            description = p_change_order->>'description'
+        WHERE id = v_id;
+    END IF;
+
+    DELETE FROM change_order_items
+    WHERE change_order_id = v_id
+    AND id NOT IN (
+        SELECT (item->>'id')::UUID FROM jsonb_array_elements(p_items) AS item
+    );
+
+    INSERT INTO change_order_items (id, change_order_id, description, quantity, unit, unit_price, is_removal, sort_order)
+    SELECT
+        (item->>'id')::UUID,
+        v_id,
+        item->>'description',
+        (item->>'quantity')::DECIMAL,
+        COALESCE(item->>'unit', 'each'),
+        (item->>'unit_price')::DECIMAL,
+        COALESCE((item->>'is_removal')::BOOLEAN, FALSE),
+        (ordinality - 1)::INTEGER
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS t(item, ordinality)
+    ON CONFLICT (id) DO UPDATE
+    SET description = EXCLUDED.description,
+        quantity = EXCLUDED.quantity,
+        unit = EXCLUDED.unit,
+        unit_price = EXCLUDED.unit_price,
+        is_removal = EXCLUDED.is_removal,
+        sort_order = EXCLUDED.sort_order
+    WHERE change_order_items.change_order_id = v_id;
+
+    -- Lines whose id is taken by another change order are skipped above; fail
+    -- instead of saving without them
+    GET DIAGNOSTICS v_saved = ROW_COUNT;
+    IF v_saved < jsonb_array_length(p_items) THEN
+        RAISE EXCEPTION 'Line item belongs to another change order' USING ERRCODE = '22023';
+    END IF;
+
+    PERFORM refresh_change_order_total(v_id);
+
+    RETURN v_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Append every approved, not yet billed change order on the invoice's source
+-- estimate to the invoice. Removed scope becomes a credit line. Returns the
+-- number of change orders billed.
+CREATE OR REPLACE FUNCTION roll_change_orders_into_invoice(p_invoice_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    v_estimate_id UUID;
+    v_next_sort INTEGER;
+    v_count INTEGER;
+BEGIN
+    SELECT source_estimate_id INTO v_estimate_id
+    FROM invoices
+    WHERE id = p_invoice_id
+    FOR UPDATE;
+
+    IF v_estimate_id IS NULL THEN
+        RETURN 0;
+    END IF;
+
+    SELECT COALESCE(MAX(sort_order), -1) + 1 INTO v_next_sort
+    FROM invoice_items
+    WHERE invoice_id = p_invoice_id;
+
+    INSERT INTO invoice_items (invoice_id, description, quantity, unit, unit_price, sort_order)
+    SELECT
+        p_invoice_id,
+        -- lpad() truncates, so only pad numbers shorter than 3 digits
+        'CO-' || CASE
+                WHEN length(co.change_order_number::TEXT) >= 3 THEN co.change_order_number::TEXT
+                ELSE lpad(co.change_order_number::TEXT, 3, '0')
+            END || ': '
+            || CASE WHEN i.is_removal THEN 'Remove ' ELSE '' END
+            || i.description,
+        i.quantity,
+        i.unit,
+        CASE WHEN i.is_removal THEN -i.unit_price ELSE i.unit_price END,
+        v_next_sort + (ROW_NUMBER() OVER (ORDER BY co.change_order_number, i.sort_order))::INTEGER - 1
+    FROM change_orders co
+    JOIN change_order_items i ON i.change_order_id = co.id
+    WHERE co.estimate_id = v_estimate_id
+    AND co.status = 'approved'
+    AND co.invoice_id IS NULL;
+
+    UPDATE change_orders
+    SET invoice_id = p_invoice_id
+    WHERE estimate_id = v_estimate_id
+    AND status = 'approved'
+    AND invoice_id IS NULL;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
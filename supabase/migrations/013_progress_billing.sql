@@ -0,0 +1,180 @@
+-- PRO SmartBuild Progress Billing
+-- Migration: 013_progress_billing.sql
+-- Description: Bill an estimate across several invoices by percentage of
+-- each line, and never past 100% of any line
+
+-- ============================================
+-- INVOICE_ITEMS: link back to the estimate line being billed
+-- ============================================
+ALTER TABLE invoice_items
+    ADD COLUMN source_estimate_item_id UUID REFERENCES estimate_items(id) ON DELETE SET NULL,
+    ADD COLUMN billed_percent DECIMAL(5, 2) CHECK (billed_percent > 0 AND billed_percent <= 100);
+
+CREATE INDEX idx_invoice_items_source_estimate_item_id ON invoice_items(source_estimate_item_id);
+
+-- Invoices converted before progress billing billed every line in full
+UPDATE invoice_items ii
+SET source_estimate_item_id = ei.id,
+    billed_percent = 100
+FROM invoices i
+JOIN estimate_items ei ON ei.estimate_id = i.source_estimate_id
+WHERE ii.invoice_id = i.id
+AND ii.sort_order = ei.sort_order
+AND ii.description = ei.description;
+
+-- ============================================
+-- FUNCTIONS & TRIGGERS
+-- ============================================
+
+-- Reject any invoice line that would take an estimate line past 100% billed.
+-- Locking the estimate line serializes concurrent invoices for the same line.
+CREATE OR REPLACE FUNCTION prevent_estimate_item_overbilling()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_billed DECIMAL(7, 2);
+BEGIN
+    IF NEW.source_estimate_item_id IS NULL OR NEW.billed_percent IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    PERFORM 1 FROM estimate_items
+    WHERE id = NEW.source_estimate_item_id
+    FOR UPDATE;
+
+    SELECT COALESCE(SUM(billed_percent), 0) INTO v_billed
+    FROM invoice_items
+    WHERE source_estimate_item_id = NEW.source_estimate_item_id
+    AND id <> NEW.id;
+
+    IF v_billed + NEW.billed_percent > 100 THEN
+        RAISE EXCEPTION 'Estimate line is already % percent billed', v_billed
+            USING ERRCODE = '23514';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_estimate_item_overbilling
+    BEFORE INSERT OR UPDATE OF source_estimate_item_id, billed_percent ON invoice_items
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_estimate_item_overbilling();
+
+-- Same as 009, plus source_estimate_item_id and billed_percent on items.
+-- Those are set when a line is created and kept as-is by later edits.
+CREATE OR REPLACE FUNCTION save_invoice(p_invoice JSONB, p_items JSONB)
+RETURNS UUID AS $$
+DECLARE
+    v_id UUID := (p_invoice->>'id')::UUID;
+    v_saved INTEGER;
+BEGIN
+    IF v_id IS NULL THEN
+        INSERT INTO invoices (
+            user_id, client_id, source_estimate_id, invoice_number, title,
+            description, issue_date, due_date, tax_rate, notes
+        )
+        VALUES (
+            auth.uid(),
+            (p_invoice->>'client_id')::UUID,
+            (p_invoice->>'source_estimate_id')::UUID,
+            p_invoice->>'invoice_number',
+            p_invoice->>'title',
+            p_invoice->>'description',
+            (p_invoice->>'issue_date')::DATE,
+            (p_invoice->>'due_date')::DATE,
+            (p_invoice->>'tax_rate')::DECIMAL,
+            p_invoice->>'notes'
+        )
+        RETURNING id INTO v_id;
+    ELSE
+        UPDATE invoices
+        SET client_id = (p_invoice->>'client_id')::UUID,
+            invoice_number = p_invoice->>'invoice_number',
+            title = p_invoice->>'title',
+            description = p_invoice->>'description',
+            issue_date = (p_invoice->>'issue_date')::DATE,
+            due_date = (p_invoice->>'due_date')::DATE,
+            tax_rate = (p_invoice->>'tax_rate')::DECIMAL,
+            notes = p_invoice->>'notes'
+        WHERE id = v_id;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Invoice not found' USING ERRCODE = 'P0002';
+        END IF;
+    END IF;
+
+    DELETE FROM invoice_items
+    WHERE invoice_id = v_id
+    AND id NOT IN (
+        SELECT (item->>'id')::UUID FROM jsonb_array_elements(p_items) AS item
+    );
+
+    INSERT INTO invoice_items (
+        id, invoice_id, description, quantity, unit, unit_price, sort_order,
+        source_estimate_item_id, billed_percent
+    )
+    SELECT
+        (item->>'id')::UUID,
+        v_id,
+        item->>'description',
+        (item->>'quantity')::DECIMAL,
+        COALESCE(item->>'unit', 'each'),
+        (item->>'unit_price')::DECIMAL,
+        (ordinality - 1)::INTEGER,
+        (item->>'source_estimate_item_id')::UUID,
+        (item->>'billed_percent')::DECIMAL
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS t(item, ordinality)
+    ON CONFLICT (id) DO UPDATE
+    SET description = EXCLUDED.description,
+        quantity = EXCLUDED.quantity,
+        unit = EXCLUDED.unit,
+        unit_price = EXCLUDED.unit_price,
+        sort_order = EXCLUDED.sort_order
+    WHERE invoice_items.invoice_id = v_id;
+
+    -- Lines whose id is taken by another invoice are skipped above; fail instead
+    -- of saving without them
+    GET DIAGNOSTICS v_saved = ROW_COUNT;
+    IF v_saved < jsonb_array_length(p_items) THEN
+        RAISE EXCEPTION 'Line item belongs to another invoice' USING ERRCODE = '22023';
+    END IF;
+
+    PERFORM refresh_invoice_totals(v_id);
+
+    RETURN v_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- CREATE_ESTIMATE_INVOICE
+-- Saves a new invoice billing part of an approved estimate (same arguments
+-- as save_invoice) and rolls the estimate's approved change orders into it.
+-- Both happen in one transaction, so the invoice is never left without its
+-- change orders. Returns the invoice id.
+-- ============================================
+CREATE OR REPLACE FUNCTION create_estimate_invoice(p_invoice JSONB, p_items JSONB)
+RETURNS UUID AS $$
+DECLARE
+    v_status estimate_status;
+    v_id UUID;
+BEGIN
+    SELECT status INTO v_status
+    FROM estimates
+    WHERE id = (p_invoice->>'source_estimate_id')::UUID
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Estimate not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_status <> 'approved' THEN
+        RAISE EXCEPTION 'Only approved estimates can be invoiced' USING ERRCODE = '55000';
+    END IF;
+
+    v_id := save_invoice(p_invoice - 'id', p_items);
+
+    PERFORM roll_change_orders_into_invoice(v_id);
+
+    RETURN v_id;
+END;
+$$ LANGUAGE plpgsql;
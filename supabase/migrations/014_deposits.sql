@@ -0,0 +1,302 @@
+-- PRO SmartBuild Deposits
+-- Migration: 014_deposits.sql
+-- Description: Deposit requested on an estimate, invoiced automatically when
+-- the estimate is approved and credited against the final invoice
+
+-- ============================================
+-- CUSTOM TYPES (ENUMS)
+-- ============================================
+CREATE TYPE deposit_type AS ENUM ('percent', 'fixed');
+CREATE TYPE invoice_type AS ENUM ('standard', 'deposit');
+
+-- ============================================
+-- ESTIMATES: deposit terms
+-- ============================================
+ALTER TABLE estimates
+    ADD COLUMN deposit_type deposit_type,
+    ADD COLUMN deposit_value DECIMAL(12, 2) CHECK (deposit_value > 0),
+    ADD CONSTRAINT estimates_deposit_complete CHECK ((deposit_type IS NULL) = (deposit_value IS NULL)),
+    ADD CONSTRAINT estimates_deposit_percent CHECK (deposit_type <> 'percent' OR deposit_value <= 100);
+
+-- ============================================
+-- INVOICES: deposit invoices and deposit credit
+-- ============================================
+ALTER TABLE invoices
+    ADD COLUMN invoice_type invoice_type NOT NULL DEFAULT 'standard',
+    -- Deposit received, deducted from this invoice's total
+    ADD COLUMN deposit_credit DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (deposit_credit >= 0);
+
+-- ============================================
+-- FUNCTIONS & TRIGGERS
+-- ============================================
+
+-- Same as 009, less any deposit credit
+CREATE OR REPLACE FUNCTION refresh_invoice_totals(p_invoice_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_subtotal DECIMAL(12, 2);
+    v_tax_rate DECIMAL(5, 2);
+    v_tax_amount DECIMAL(12, 2);
+    v_deposit_credit DECIMAL(12, 2);
+BEGIN
+    SELECT COALESCE(SUM(quantity * unit_price), 0)
+    INTO v_subtotal
+    FROM invoice_items
+    WHERE invoice_id = p_invoice_id;
+
+    SELECT tax_rate, deposit_credit INTO v_tax_rate, v_deposit_credit
+    FROM invoices
+    WHERE id = p_invoice_id;
+
+    v_tax_amount := v_subtotal * (v_tax_rate / 100);
+
+    UPDATE invoices
+    SET subtotal = v_subtotal,
+        tax_amount = v_tax_amount,
+        total = v_subtotal + v_tax_amount - v_deposit_credit
+    WHERE id = p_invoice_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create the deposit invoice when an estimate with deposit terms is approved.
+-- Runs for every approval path (owner, client portal, estimate form) and
+-- only once per estimate.
+CREATE OR REPLACE FUNCTION create_deposit_invoice()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_amount DECIMAL(12, 2);
+    v_invoice_id UUID;
+BEGIN
+    IF NEW.status <> 'approved'
+        OR NEW.deposit_type IS NULL
+        OR (TG_OP = 'UPDATE' AND OLD.status = 'approved')
+    THEN
+        RETURN NULL;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM invoices
+        WHERE source_estimate_id = NEW.id
+        AND invoice_type = 'deposit'
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    v_amount := CASE
+        WHEN NEW.deposit_type = 'percent' THEN ROUND(NEW.total * NEW.deposit_value / 100, 2)
+        ELSE LEAST(NEW.deposit_value, NEW.total)
+    END;
+
+    IF v_amount <= 0 THEN
+        RETURN NULL;
+    END IF;
+
+    -- Tax is charged on the work itself, so the deposit line is untaxed
+    INSERT INTO invoices (
+        user_id, client_id, source_estimate_id, invoice_type, invoice_number,
+        title, issue_date, due_date, tax_rate, notes
+    )
+    VALUES (
+        NEW.user_id, NEW.client_id, NEW.id, 'deposit', NULL,
+        NEW.title || ' — Deposit', CURRENT_DATE, CURRENT_DATE, 0, NEW.notes
+    )
+    RETURNING id INTO v_invoice_id;
+
+    INSERT INTO invoice_items (invoice_id, description, quantity, unit, unit_price, sort_order)
+    VALUES (
+        v_invoice_id,
+        CASE
+            WHEN NEW.deposit_type = 'percent'
+                THEN 'Deposit (' || TRIM(TRAILING '.' FROM TRIM(TRAILING '0' FROM NEW.deposit_value::TEXT)) || '% of estimate ' || NEW.estimate_number || ')'
+            ELSE 'Deposit for estimate ' || NEW.estimate_number
+        END,
+        1, 'lot', v_amount, 0
+    );
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER create_deposit_invoice
+    AFTER INSERT OR UPDATE OF status ON estimates
+    FOR EACH ROW
+    EXECUTE FUNCTION create_deposit_invoice();
+
+-- Credit deposits received on the estimate against an invoice, less any
+-- already credited on other invoices from the same estimate. Never more than
+-- the invoice itself. Returns the credit applied.
+CREATE OR REPLACE FUNCTION apply_deposit_credit(p_invoice_id UUID)
+RETURNS DECIMAL AS $$
+DECLARE
+    v_estimate_id UUID;
+    v_received DECIMAL(12, 2);
+    v_credited DECIMAL(12, 2);
+    v_credit DECIMAL(12, 2);
+BEGIN
+    SELECT source_estimate_id INTO v_estimate_id
+    FROM invoices
+    WHERE id = p_invoice_id
+    AND invoice_type = 'standard'
+    FOR UPDATE;
+
+    IF v_estimate_id IS NULL THEN
+        RETURN 0;
+    END IF;
+
+    SELECT COALESCE(SUM(amount_paid), 0) INTO v_received
+    FROM invoices
+    WHERE source_estimate_id = v_estimate_id
+    AND invoice_type = 'deposit';
+
+    SELECT COALESCE(SUM(deposit_credit), 0) INTO v_credited
+    FROM invoices
+    WHERE source_estimate_id = v_estimate_id
+    AND id <> p_invoice_id;
+
+    SELECT GREATEST(0, LEAST(v_received - v_credited, subtotal + tax_amount))
+    INTO v_credit
+    FROM invoices
+    WHERE id = p_invoice_id;
+
+    UPDATE invoices
+    SET deposit_credit = v_credit
+    WHERE id = p_invoice_id;
+
+    PERFORM refresh_invoice_totals(p_invoice_id);
+
+    RETURN v_credit;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as create_estimate_invoice, for the invoice that closes out the
+-- estimate: the deposit received is credited in the same transaction, so the
+-- invoice is never created without it.
+CREATE OR REPLACE FUNCTION create_final_estimate_invoice(p_invoice JSONB, p_items JSONB)
+RETURNS UUID AS $$
+DECLARE
+    v_id UUID;
+BEGIN
+    v_id := create_estimate_invoice(p_invoice, p_items);
+
+    PERFORM apply_deposit_credit(v_id);
+
+    RETURN v_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 011, plus deposit terms
+CREATE OR REPLACE FUNCTION save_estimate(p_estimate JSONB, p_items JSONB)
+RETURNS UUID AS $$
+DECLARE
+    v_id UUID := (p_estimate->>'id')::UUID;
+    v_saved INTEGER;
+    v_old_status estimate_status;
+    v_before JSONB;
+BEGIN
+    IF v_id IS NULL THEN
+        INSERT INTO estimates (
+            user_id, client_id, estimate_number, title, description, status,
+            issue_date, valid_until, tax_rate, notes, job_site_address,
+            deposit_type, deposit_value
+        )
+        VALUES (
+            auth.uid(),
+            (p_estimate->>'client_id')::UUID,
+            p_estimate->>'estimate_number',
+            p_estimate->>'title',
+            p_estimate->>'description',
+            -- Approval happens after the items exist, so the deposit is sized
+            -- on the real total (see below)
+            CASE WHEN p_estimate->>'status' = 'approved' THEN 'draft'
+                ELSE (p_estimate->>'status')::estimate_status END,
+            (p_estimate->>'issue_date')::DATE,
+            (p_estimate->>'valid_until')::DATE,
+            (p_estimate->>'tax_rate')::DECIMAL,
+            p_estimate->>'notes',
+            p_estimate->>'job_site_address',
+            (p_estimate->>'deposit_type')::deposit_type,
+            (p_estimate->>'deposit_value')::DECIMAL
+        )
+        RETURNING id INTO v_id;
+    ELSE
+        SELECT status INTO v_old_status
+        FROM estimates
+        WHERE id = v_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Estimate not found' USING ERRCODE = 'P0002';
+        END IF;
+
+        v_before := estimate_snapshot(v_id);
+
+        UPDATE estimates
+        SET client_id = (p_estimate->>'client_id')::UUID,
+            estimate_number = p_estimate->>'estimate_number',
+            title = p_estimate->>'title',
+            description = p_estimate->>'description',
+            issue_date = (p_estimate->>'issue_date')::DATE,
+            valid_until = (p_estimate->>'valid_until')::DATE,
+            tax_rate = (p_estimate->>'tax_rate')::DECIMAL,
+            notes = p_estimate->>'notes',
+            job_site_address = p_estimate->>'job_site_address',
+            deposit_type = (p_estimate->>'deposit_type')::deposit_type,
+            deposit_value = (p_estimate->>'deposit_value')::DECIMAL
+        WHERE id = v_id;
+    END IF;
+
+    DELETE FROM estimate_items
+    WHERE estimate_id = v_id
+    AND id NOT IN (
+        SELECT (item->>'id')::UUID FROM jsonb_array_elements(p_items) AS item
+    );
+
+    INSERT INTO estimate_items (id, estimate_id, description, quantity, unit, unit_price, sort_order)
+    SELECT
+        (item->>'id')::UUID,
+        v_id,
+        item->>'description',
+        (item->>'quantity')::DECIMAL,
+        COALESCE(item->>'unit', 'each'),
+        (item->>'unit_price')::DECIMAL,
+        (ordinality - 1)::INTEGER
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS t(item, ordinality)
+    ON CONFLICT (id) DO UPDATE
+    SET description = EXCLUDED.description,
+        quantity = EXCLUDED.quantity,
+        unit = EXCLUDED.unit,
+        unit_price = EXCLUDED.unit_price,
+        sort_order = EXCLUDED.sort_order
+    WHERE estimate_items.estimate_id = v_id;
+
+    -- Lines whose id is taken by another estimate are skipped above; fail instead
+    -- of saving without them
+    GET DIAGNOSTICS v_saved = ROW_COUNT;
+    IF v_saved < jsonb_array_length(p_items) THEN
+        RAISE EXCEPTION 'Line item belongs to another estimate' USING ERRCODE = '22023';
+    END IF;
+
+    PERFORM refresh_estimate_totals(v_id);
+
+    -- Status is applied last so create_deposit_invoice sees the final total
+    UPDATE estimates
+    SET status = (p_estimate->>'status')::estimate_status
+    WHERE id = v_id
+    AND status IS DISTINCT FROM (p_estimate->>'status')::estimate_status;
+
+    IF v_before IS NOT NULL
+        AND v_before IS DISTINCT FROM estimate_snapshot(v_id)
+        AND (
+            v_old_status <> 'draft'
+            OR EXISTS (SELECT 1 FROM estimate_revisions WHERE estimate_id = v_id)
+        )
+    THEN
+        INSERT INTO estimate_revisions (estimate_id, revision_number, snapshot)
+        SELECT v_id, COALESCE(MAX(revision_number), 0) + 1, v_before
+        FROM estimate_revisions
+        WHERE estimate_id = v_id;
+    END IF;
+
+    RETURN v_id;
+END;
+$$ LANGUAGE plpgsql;
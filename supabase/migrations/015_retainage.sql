@@ -0,0 +1,243 @@
+-- PRO SmartBuild Retainage
+-- Migration: 015_retainage.sql
+-- Description: Hold back a percentage of each invoice until the job closes,
+-- then bill everything held on a retainage release invoice
+
+-- ============================================
+-- CUSTOM TYPES (ENUMS)
+-- ============================================
+ALTER TYPE invoice_type ADD VALUE IF NOT EXISTS 'retainage_release';
+
+-- ============================================
+-- INVOICES: retainage held back
+-- ============================================
+ALTER TABLE invoices
+    ADD COLUMN retainage_percent DECIMAL(5, 2) NOT NULL DEFAULT 0
+        CHECK (retainage_percent >= 0 AND retainage_percent <= 100),
+    -- Withheld from this invoice's total, maintained by refresh_invoice_totals
+    ADD COLUMN retainage_amount DECIMAL(12, 2) NOT NULL DEFAULT 0;
+
+-- ============================================
+-- FUNCTIONS & TRIGGERS
+-- ============================================
+
+-- Same as 014, less retainage. Retainage is held on the work billed (the
+-- subtotal) and released later, untaxed, on its own invoice.
+CREATE OR REPLACE FUNCTION refresh_invoice_totals(p_invoice_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_subtotal DECIMAL(12, 2);
+    v_tax_rate DECIMAL(5, 2);
+    v_tax_amount DECIMAL(12, 2);
+    v_deposit_credit DECIMAL(12, 2);
+    v_retainage_percent DECIMAL(5, 2);
+    v_retainage_amount DECIMAL(12, 2);
+BEGIN
+    SELECT COALESCE(SUM(quantity * unit_price), 0)
+    INTO v_subtotal
+    FROM invoice_items
+    WHERE invoice_id = p_invoice_id;
+
+    SELECT tax_rate, deposit_credit, retainage_percent
+    INTO v_tax_rate, v_deposit_credit, v_retainage_percent
+    FROM invoices
+    WHERE id = p_invoice_id;
+
+    v_tax_amount := v_subtotal * (v_tax_rate / 100);
+    v_retainage_amount := ROUND(v_subtotal * v_retainage_percent / 100, 2);
+
+    UPDATE invoices
+    SET subtotal = v_subtotal,
+        tax_amount = v_tax_amount,
+        retainage_amount = v_retainage_amount,
+        total = v_subtotal + v_tax_amount - v_deposit_credit - v_retainage_amount
+    WHERE id = p_invoice_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 014, but the credit can't exceed what's due after retainage
+CREATE OR REPLACE FUNCTION apply_deposit_credit(p_invoice_id UUID)
+RETURNS DECIMAL AS $$
+DECLARE
+    v_estimate_id UUID;
+    v_received DECIMAL(12, 2);
+    v_credited DECIMAL(12, 2);
+    v_credit DECIMAL(12, 2);
+BEGIN
+    SELECT source_estimate_id INTO v_estimate_id
+    FROM invoices
+    WHERE id = p_invoice_id
+    AND invoice_type = 'standard'
+    FOR UPDATE;
+
+    IF v_estimate_id IS NULL THEN
+        RETURN 0;
+    END IF;
+
+    SELECT COALESCE(SUM(amount_paid), 0) INTO v_received
+    FROM invoices
+    WHERE source_estimate_id = v_estimate_id
+    AND invoice_type = 'deposit';
+
+    SELECT COALESCE(SUM(deposit_credit), 0) INTO v_credited
+    FROM invoices
+    WHERE source_estimate_id = v_estimate_id
+    AND id <> p_invoice_id;
+
+    SELECT GREATEST(0, LEAST(v_received - v_credited, subtotal + tax_amount - retainage_amount))
+    INTO v_credit
+    FROM invoices
+    WHERE id = p_invoice_id;
+
+    UPDATE invoices
+    SET deposit_credit = v_credit
+    WHERE id = p_invoice_id;
+
+    PERFORM refresh_invoice_totals(p_invoice_id);
+
+    RETURN v_credit;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Bill all retainage still held on an estimate's invoices. Locking the
+-- estimate keeps two releases from billing the same retainage.
+CREATE OR REPLACE FUNCTION create_retainage_release_invoice(p_estimate_id UUID)
+RETURNS UUID AS $$
+DECLARE
+    v_estimate estimates%ROWTYPE;
+    v_held DECIMAL(12, 2);
+    v_invoice_numbers TEXT;
+    v_invoice_id UUID;
+BEGIN
+    SELECT * INTO v_estimate
+    FROM estimates
+    WHERE id = p_estimate_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Estimate not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT
+        COALESCE(SUM(retainage_amount) FILTER (WHERE invoice_type = 'standard'), 0)
+            - COALESCE(SUM(subtotal) FILTER (WHERE invoice_type = 'retainage_release'), 0),
+        string_agg(invoice_number, ', ' ORDER BY created_at)
+            FILTER (WHERE invoice_type = 'standard' AND retainage_amount > 0)
+    INTO v_held, v_invoice_numbers
+    FROM invoices
+    WHERE source_estimate_id = p_estimate_id;
+
+    IF v_held <= 0 THEN
+        RAISE EXCEPTION 'No retainage is held on this estimate' USING ERRCODE = '55000';
+    END IF;
+
+    INSERT INTO invoices (
+        user_id, client_id, source_estimate_id, invoice_type, invoice_number,
+        title, issue_date, due_date, tax_rate
+    )
+    VALUES (
+        v_estimate.user_id, v_estimate.client_id, v_estimate.id, 'retainage_release', NULL,
+        v_estimate.title || ' — Retainage release', CURRENT_DATE, CURRENT_DATE + 30, 0
+    )
+    RETURNING id INTO v_invoice_id;
+
+    INSERT INTO invoice_items (invoice_id, description, quantity, unit, unit_price, sort_order)
+    VALUES (
+        v_invoice_id,
+        'Release of retainage held on invoices ' || v_invoice_numbers,
+        1, 'lot', v_held, 0
+    );
+
+    RETURN v_invoice_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 013, plus retainage_percent
+CREATE OR REPLACE FUNCTION save_invoice(p_invoice JSONB, p_items JSONB)
+RETURNS UUID AS $$
+DECLARE
+    v_id UUID := (p_invoice->>'id')::UUID;
+    v_saved INTEGER;
+BEGIN
+    IF v_id IS NULL THEN
+        INSERT INTO invoices (
+            user_id, client_id, source_estimate_id, invoice_number, title,
+            description, issue_date, due_date, tax_rate, retainage_percent, notes
+        )
+        VALUES (
+            auth.uid(),
+            (p_invoice->>'client_id')::UUID,
+            (p_invoice->>'source_estimate_id')::UUID,
+            p_invoice->>'invoice_number',
+            p_invoice->>'title',
+            p_invoice->>'description',
+            (p_invoice->>'issue_date')::DATE,
+            (p_invoice->>'due_date')::DATE,
+            (p_invoice->>'tax_rate')::DECIMAL,
+            COALESCE((p_invoice->>'retainage_percent')::DECIMAL, 0),
+            p_invoice->>'notes'
+        )
+        RETURNING id INTO v_id;
+    ELSE
+        UPDATE invoices
+        SET client_id = (p_invoice->>'client_id')::UUID,
+            invoice_number = p_invoice->>'invoice_number',
+            title = p_invoice->>'title',
+            description = p_invoice->>'description',
+            issue_date = (p_invoice->>'issue_date')::DATE,
+            due_date = (p_invoice->>'due_date')::DATE,
+            tax_rate = (p_invoice->>'tax_rate')::DECIMAL,
+            -- A release invoice is the retainage, so it never holds any back
+            retainage_percent = CASE
+                WHEN invoice_type = 'retainage_release' THEN 0
+                ELSE COALESCE((p_invoice->>'retainage_percent')::DECIMAL, 0)
+            END,
+            notes = p_invoice->>'notes'
+        WHERE id = v_id;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Invoice not found' USING ERRCODE = 'P0002';
+        END IF;
+    END IF;
+
+    DELETE FROM invoice_items
+    WHERE invoice_id = v_id
+    AND id NOT IN (
+        SELECT (item->>'id')::UUID FROM jsonb_array_elements(p_items) AS item
+    );
+
+    INSERT INTO invoice_items (
+        id, invoice_id, description, quantity, unit, unit_price, sort_order,
+        source_estimate_item_id, billed_percent
+    )
+    SELECT
+        (item->>'id')::UUID,
+        v_id,
+        item->>'description',
+        (item->>'quantity')::DECIMAL,
+        COALESCE(item->>'unit', 'each'),
+        (item->>'unit_price')::DECIMAL,
+        (ordinality - 1)::INTEGER,
+        (item->>'source_estimate_item_id')::UUID,
+        (item->>'billed_percent')::DECIMAL
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS t(item, ordinality)
+    ON CONFLICT (id) DO UPDATE
+    SET description = EXCLUDED.description,
+        quantity = EXCLUDED.quantity,
+        unit = EXCLUDED.unit,
+        unit_price = EXCLUDED.unit_price,
+        sort_order = EXCLUDED.sort_order
+    WHERE invoice_items.invoice_id = v_id;
+
+    -- Lines whose id is taken by another invoice are skipped above; fail instead
+    -- of saving without them
+    GET DIAGNOSTICS v_saved = ROW_COUNT;
+    IF v_saved < jsonb_array_length(p_items) THEN
+        RAISE EXCEPTION 'Line item belongs to another invoice' USING ERRCODE = '22023';
+    END IF;
+
+    PERFORM refresh_invoice_totals(v_id);
+
+    RETURN v_id;
+END;
+$$ LANGUAGE plpgsql;
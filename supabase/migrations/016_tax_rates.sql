@@ -0,0 +1,618 @@
+-- PRO SmartBuild Tax Rates
+-- Migration: 016_tax_rates.sql
+-- Description: Named, reusable tax rates. Estimates and invoices carry a list
+-- of taxes (stacked or compound) applied only to taxable line items.
+
+-- ============================================
+-- TAX_RATES TABLE
+-- Saved in Settings and picked on each estimate or invoice
+-- ============================================
+CREATE TABLE tax_rates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+
+    name VARCHAR(100) NOT NULL,
+    rate DECIMAL(6, 3) NOT NULL CHECK (rate >= 0 AND rate <= 100),
+    -- Charged on the subtotal plus the taxes listed before it
+    is_compound BOOLEAN NOT NULL DEFAULT false,
+    -- Added to new estimates and invoices automatically
+    is_default BOOLEAN NOT NULL DEFAULT false,
+
+    -- Metadata
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Documents tell their taxes apart by name
+    UNIQUE (user_id, name)
+);
+
+CREATE INDEX idx_tax_rates_user_id ON tax_rates(user_id);
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+ALTER TABLE tax_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own tax rates"
+    ON tax_rates FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own tax rates"
+    ON tax_rates FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own tax rates"
+    ON tax_rates FOR UPDATE
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own tax rates"
+    ON tax_rates FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- ============================================
+-- ESTIMATES & INVOICES: taxes applied
+-- Each entry is {name, rate, compound, amount}, copied from the saved rate
+-- so later changes in Settings don't rewrite documents already issued.
+-- amount is maintained by the refresh_*_totals functions.
+-- ============================================
+ALTER TABLE estimates ADD COLUMN taxes JSONB NOT NULL DEFAULT '[]'::JSONB;
+ALTER TABLE invoices ADD COLUMN taxes JSONB NOT NULL DEFAULT '[]'::JSONB;
+
+-- Existing single rates become one tax named "Tax"
+UPDATE estimates
+SET taxes = jsonb_build_array(jsonb_build_object(
+    'name', 'Tax', 'rate', tax_rate, 'compound', false, 'amount', tax_amount
+))
+WHERE tax_rate > 0;
+
+UPDATE invoices
+SET taxes = jsonb_build_array(jsonb_build_object(
+    'name', 'Tax', 'rate', tax_rate, 'compound', false, 'amount', tax_amount
+))
+WHERE tax_rate > 0;
+
+ALTER TABLE estimate_items ADD COLUMN taxable BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE invoice_items ADD COLUMN taxable BOOLEAN NOT NULL DEFAULT true;
+
+-- Revisions saved so far hold a single tax_rate. Convert it the same way, and
+-- mark every line taxable, so restoring one charges the tax it did then.
+UPDATE estimate_revisions
+SET snapshot = (snapshot - 'tax_rate') || jsonb_build_object(
+    'taxes', CASE
+        WHEN COALESCE((snapshot->>'tax_rate')::DECIMAL, 0) > 0 THEN jsonb_build_array(jsonb_build_object(
+            'name', 'Tax', 'rate', (snapshot->>'tax_rate')::DECIMAL, 'compound', false
+        ))
+        ELSE '[]'::JSONB
+    END,
+    'items', COALESCE((
+        SELECT jsonb_agg(item || '{"taxable": true}'::JSONB ORDER BY ordinality)
+        FROM jsonb_array_elements(snapshot->'items') WITH ORDINALITY AS t(item, ordinality)
+    ), '[]'::JSONB)
+);
+
+-- ============================================
+-- FUNCTIONS & TRIGGERS
+-- ============================================
+
+-- Amount of each tax on the taxable subtotal, in order. A compound tax is
+-- charged on the taxable subtotal plus every tax listed before it.
+CREATE OR REPLACE FUNCTION calculate_taxes(p_taxes JSONB, p_taxable_subtotal DECIMAL)
+RETURNS JSONB AS $$
+DECLARE
+    v_tax JSONB;
+    v_compound BOOLEAN;
+    v_amount DECIMAL(12, 2);
+    v_tax_total DECIMAL(12, 2) := 0;
+    v_result JSONB := '[]'::JSONB;
+BEGIN
+    FOR v_tax IN
+        SELECT tax FROM jsonb_array_elements(p_taxes) WITH ORDINALITY AS t(tax, ordinality)
+        ORDER BY ordinality
+    LOOP
+        v_compound := COALESCE((v_tax->>'compound')::BOOLEAN, false);
+        v_amount := ROUND(
+            (p_taxable_subtotal + CASE WHEN v_compound THEN v_tax_total ELSE 0 END)
+                * (v_tax->>'rate')::DECIMAL / 100,
+            2
+        );
+        v_tax_total := v_tax_total + v_amount;
+        v_result := v_result || jsonb_build_array(jsonb_build_object(
+            'name', v_tax->>'name',
+            'rate', (v_tax->>'rate')::DECIMAL,
+            'compound', v_compound,
+            'amount', v_amount
+        ));
+    END LOOP;
+
+    RETURN v_result;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Same as 009, with the taxes charged on taxable lines only
+CREATE OR REPLACE FUNCTION refresh_estimate_totals(p_estimate_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_subtotal DECIMAL(12, 2);
+    v_taxable_subtotal DECIMAL(12, 2);
+    v_taxes JSONB;
+    v_tax_amount DECIMAL(12, 2);
+BEGIN
+    SELECT
+        COALESCE(SUM(quantity * unit_price), 0),
+        COALESCE(SUM(quantity * unit_price) FILTER (WHERE taxable), 0)
+    INTO v_subtotal, v_taxable_subtotal
+    FROM estimate_items
+    WHERE estimate_id = p_estimate_id;
+
+    SELECT calculate_taxes(taxes, v_taxable_subtotal) INTO v_taxes
+    FROM estimates
+    WHERE id = p_estimate_id;
+
+    SELECT COALESCE(SUM((tax->>'amount')::DECIMAL), 0) INTO v_tax_amount
+    FROM jsonb_array_elements(v_taxes) AS tax;
+
+    UPDATE estimates
+    SET subtotal = v_subtotal,
+        taxes = v_taxes,
+        tax_amount = v_tax_amount,
+        total = v_subtotal + v_tax_amount
+    WHERE id = p_estimate_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 015, with the taxes charged on taxable lines only
+CREATE OR REPLACE FUNCTION refresh_invoice_totals(p_invoice_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_subtotal DECIMAL(12, 2);
+    v_taxable_subtotal DECIMAL(12, 2);
+    v_taxes JSONB;
+    v_tax_amount DECIMAL(12, 2);
+    v_deposit_credit DECIMAL(12, 2);
+    v_retainage_percent DECIMAL(5, 2);
+    v_retainage_amount DECIMAL(12, 2);
+BEGIN
+    SELECT
+        COALESCE(SUM(quantity * unit_price), 0),
+        COALESCE(SUM(quantity * unit_price) FILTER (WHERE taxable), 0)
+    INTO v_subtotal, v_taxable_subtotal
+    FROM invoice_items
+    WHERE invoice_id = p_invoice_id;
+
+    SELECT calculate_taxes(taxes, v_taxable_subtotal), deposit_credit, retainage_percent
+    INTO v_taxes, v_deposit_credit, v_retainage_percent
+    FROM invoices
+    WHERE id = p_invoice_id;
+
+    SELECT COALESCE(SUM((tax->>'amount')::DECIMAL), 0) INTO v_tax_amount
+    FROM jsonb_array_elements(v_taxes) AS tax;
+
+    v_retainage_amount := ROUND(v_subtotal * v_retainage_percent / 100, 2);
+
+    UPDATE invoices
+    SET subtotal = v_subtotal,
+        taxes = v_taxes,
+        tax_amount = v_tax_amount,
+        retainage_amount = v_retainage_amount,
+        total = v_subtotal + v_tax_amount - v_deposit_credit - v_retainage_amount
+    WHERE id = p_invoice_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 011, with the taxes applied in place of tax_rate and each line's
+-- taxable flag. Tax amounts are left out, as they follow from the rest.
+CREATE OR REPLACE FUNCTION estimate_snapshot(p_estimate_id UUID)
+RETURNS JSONB AS $$
+    SELECT jsonb_build_object(
+        'estimate_number', e.estimate_number,
+        'title', e.title,
+        'description', e.description,
+        'client_id', e.client_id,
+        'issue_date', e.issue_date,
+        'valid_until', e.valid_until,
+        'taxes', COALESCE((
+            SELECT jsonb_agg(tax - 'amount' ORDER BY ordinality)
+            FROM jsonb_array_elements(e.taxes) WITH ORDINALITY AS t(tax, ordinality)
+        ), '[]'::JSONB),
+        'notes', e.notes,
+        'job_site_address', e.job_site_address,
+        'subtotal', e.subtotal,
+        'tax_amount', e.tax_amount,
+        'total', e.total,
+        'items', COALESCE((
+            SELECT jsonb_agg(
+                jsonb_build_object(
+                    'id', i.id,
+                    'description', i.description,
+                    'quantity', i.quantity,
+                    'unit', i.unit,
+                    'unit_price', i.unit_price,
+                    'taxable', i.taxable
+                )
+                ORDER BY i.sort_order
+            )
+            FROM estimate_items i
+            WHERE i.estimate_id = e.id
+        ), '[]'::JSONB)
+    )
+    FROM estimates e
+    WHERE e.id = p_estimate_id;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- SAVE_ESTIMATE / SAVE_INVOICE
+-- The columns written now live in their own save_*_fields and
+-- save_*_items functions, so a later migration that adds a column only has
+-- to redefine the function that writes it. The save flow itself (locking,
+-- item sync, totals, status and revisions) stays as defined here.
+-- ============================================
+
+-- Write an estimate's own columns, inserting it when p_id is NULL. The status
+-- of an existing estimate is left to save_estimate. Returns the estimate id.
+CREATE OR REPLACE FUNCTION save_estimate_fields(p_id UUID, p_estimate JSONB)
+RETURNS UUID AS $$
+BEGIN
+    IF p_id IS NULL THEN
+        INSERT INTO estimates (
+            user_id, client_id, estimate_number, title, description, status,
+            issue_date, valid_until, taxes, notes, job_site_address,
+            deposit_type, deposit_value
+        )
+        VALUES (
+            auth.uid(),
+            (p_estimate->>'client_id')::UUID,
+            p_estimate->>'estimate_number',
+            p_estimate->>'title',
+            p_estimate->>'description',
+            -- Approval happens after the items exist, so the deposit is sized
+            -- on the real total (see save_estimate)
+            CASE WHEN p_estimate->>'status' = 'approved' THEN 'draft'
+                ELSE (p_estimate->>'status')::estimate_status END,
+            (p_estimate->>'issue_date')::DATE,
+            (p_estimate->>'valid_until')::DATE,
+            COALESCE(p_estimate->'taxes', '[]'::JSONB),
+            p_estimate->>'notes',
+            p_estimate->>'job_site_address',
+            (p_estimate->>'deposit_type')::deposit_type,
+            (p_estimate->>'deposit_value')::DECIMAL
+        )
+        RETURNING id INTO p_id;
+    ELSE
+        UPDATE estimates
+        SET client_id = (p_estimate->>'client_id')::UUID,
+            estimate_number = p_estimate->>'estimate_number',
+            title = p_estimate->>'title',
+            description = p_estimate->>'description',
+            issue_date = (p_estimate->>'issue_date')::DATE,
+            valid_until = (p_estimate->>'valid_until')::DATE,
+            taxes = COALESCE(p_estimate->'taxes', '[]'::JSONB),
+            notes = p_estimate->>'notes',
+            job_site_address = p_estimate->>'job_site_address',
+            deposit_type = (p_estimate->>'deposit_type')::deposit_type,
+            deposit_value = (p_estimate->>'deposit_value')::DECIMAL
+        WHERE id = p_id;
+    END IF;
+
+    RETURN p_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Insert or update an estimate's items, matched by id, with array order as
+-- sort_order. Lines whose id belongs to another estimate are skipped.
+-- Returns the number of lines written.
+CREATE OR REPLACE FUNCTION save_estimate_items(p_estimate_id UUID, p_items JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+    v_saved INTEGER;
+BEGIN
+    INSERT INTO estimate_items (id, estimate_id, description, quantity, unit, unit_price, taxable, sort_order)
+    SELECT
+        (item->>'id')::UUID,
+        p_estimate_id,
+        item->>'description',
+        (item->>'quantity')::DECIMAL,
+        COALESCE(item->>'unit', 'each'),
+        (item->>'unit_price')::DECIMAL,
+        COALESCE((item->>'taxable')::BOOLEAN, true),
+        (ordinality - 1)::INTEGER
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS t(item, ordinality)
+    ON CONFLICT (id) DO UPDATE
+    SET description = EXCLUDED.description,
+        quantity = EXCLUDED.quantity,
+        unit = EXCLUDED.unit,
+        unit_price = EXCLUDED.unit_price,
+        taxable = EXCLUDED.taxable,
+        sort_order = EXCLUDED.sort_order
+    WHERE estimate_items.estimate_id = p_estimate_id;
+
+    GET DIAGNOSTICS v_saved = ROW_COUNT;
+    RETURN v_saved;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 014, with the columns written by the two functions above
+CREATE OR REPLACE FUNCTION save_estimate(p_estimate JSONB, p_items JSONB)
+RETURNS UUID AS $$
+DECLARE
+    v_id UUID := (p_estimate->>'id')::UUID;
+    v_old_status estimate_status;
+    v_before JSONB;
+BEGIN
+    IF v_id IS NOT NULL THEN
+        SELECT status INTO v_old_status
+        FROM estimates
+        WHERE id = v_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Estimate not found' USING ERRCODE = 'P0002';
+        END IF;
+
+        v_before := estimate_snapshot(v_id);
+    END IF;
+
+    v_id := save_estimate_fields(v_id, p_estimate);
+
+    DELETE FROM estimate_items
+    WHERE estimate_id = v_id
+    AND id NOT IN (
+        SELECT (item->>'id')::UUID FROM jsonb_array_elements(p_items) AS item
+    );
+
+    -- Fail rather than save without lines whose id is taken by another estimate
+    IF save_estimate_items(v_id, p_items) < jsonb_array_length(p_items) THEN
+        RAISE EXCEPTION 'Line item belongs to another estimate' USING ERRCODE = '22023';
+    END IF;
+
+    PERFORM refresh_estimate_totals(v_id);
+
+    -- Status is applied last so create_deposit_invoice sees the final total
+    UPDATE estimates
+    SET status = (p_estimate->>'status')::estimate_status
+    WHERE id = v_id
+    AND status IS DISTINCT FROM (p_estimate->>'status')::estimate_status;
+
+    IF v_before IS NOT NULL
+        AND v_before IS DISTINCT FROM estimate_snapshot(v_id)
+        AND (
+            v_old_status <> 'draft'
+            OR EXISTS (SELECT 1 FROM estimate_revisions WHERE estimate_id = v_id)
+        )
+    THEN
+        INSERT INTO estimate_revisions (estimate_id, revision_number, snapshot)
+        SELECT v_id, COALESCE(MAX(revision_number), 0) + 1, v_before
+        FROM estimate_revisions
+        WHERE estimate_id = v_id;
+    END IF;
+
+    RETURN v_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Write an invoice's own columns, inserting it when p_id is NULL. Status and
+-- payment fields are derived from the payment ledger and never written here.
+-- Returns the invoice id.
+CREATE OR REPLACE FUNCTION save_invoice_fields(p_id UUID, p_invoice JSONB)
+RETURNS UUID AS $$
+BEGIN
+    IF p_id IS NULL THEN
+        INSERT INTO invoices (
+            user_id, client_id, source_estimate_id, invoice_number, title,
+            description, issue_date, due_date, taxes, retainage_percent, notes
+        )
+        VALUES (
+            auth.uid(),
+            (p_invoice->>'client_id')::UUID,
+            (p_invoice->>'source_estimate_id')::UUID,
+            p_invoice->>'invoice_number',
+            p_invoice->>'title',
+            p_invoice->>'description',
+            (p_invoice->>'issue_date')::DATE,
+            (p_invoice->>'due_date')::DATE,
+            COALESCE(p_invoice->'taxes', '[]'::JSONB),
+            COALESCE((p_invoice->>'retainage_percent')::DECIMAL, 0),
+            p_invoice->>'notes'
+        )
+        RETURNING id INTO p_id;
+    ELSE
+        UPDATE invoices
+        SET client_id = (p_invoice->>'client_id')::UUID,
+            invoice_number = p_invoice->>'invoice_number',
+            title = p_invoice->>'title',
+            description = p_invoice->>'description',
+            issue_date = (p_invoice->>'issue_date')::DATE,
+            due_date = (p_invoice->>'due_date')::DATE,
+            taxes = COALESCE(p_invoice->'taxes', '[]'::JSONB),
+            -- A release invoice is the retainage, so it never holds any back
+            retainage_percent = CASE
+                WHEN invoice_type = 'retainage_release' THEN 0
+                ELSE COALESCE((p_invoice->>'retainage_percent')::DECIMAL, 0)
+            END,
+            notes = p_invoice->>'notes'
+        WHERE id = p_id;
+    END IF;
+
+    RETURN p_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same contract as save_estimate_items. source_estimate_item_id and
+-- billed_percent are set when a line is created and kept as-is by later edits.
+CREATE OR REPLACE FUNCTION save_invoice_items(p_invoice_id UUID, p_items JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+    v_saved INTEGER;
+BEGIN
+    INSERT INTO invoice_items (
+        id, invoice_id, description, quantity, unit, unit_price, taxable, sort_order,
+        source_estimate_item_id, billed_percent
+    )
+    SELECT
+        (item->>'id')::UUID,
+        p_invoice_id,
+        item->>'description',
+        (item->>'quantity')::DECIMAL,
+        COALESCE(item->>'unit', 'each'),
+        (item->>'unit_price')::DECIMAL,
+        COALESCE((item->>'taxable')::BOOLEAN, true),
+        (ordinality - 1)::INTEGER,
+        (item->>'source_estimate_item_id')::UUID,
+        (item->>'billed_percent')::DECIMAL
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS t(item, ordinality)
+    ON CONFLICT (id) DO UPDATE
+    SET description = EXCLUDED.description,
+        quantity = EXCLUDED.quantity,
+        unit = EXCLUDED.unit,
+        unit_price = EXCLUDED.unit_price,
+        taxable = EXCLUDED.taxable,
+        sort_order = EXCLUDED.sort_order
+    WHERE invoice_items.invoice_id = p_invoice_id;
+
+    GET DIAGNOSTICS v_saved = ROW_COUNT;
+    RETURN v_saved;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 015, with the columns written by the two functions above
+CREATE OR REPLACE FUNCTION save_invoice(p_invoice JSONB, p_items JSONB)
+RETURNS UUID AS $$
+DECLARE
+    v_id UUID := (p_invoice->>'id')::UUID;
+BEGIN
+    IF v_id IS NOT NULL THEN
+        PERFORM 1 FROM invoices WHERE id = v_id FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'Invoice not found' USING ERRCODE = 'P0002';
+        END IF;
+    END IF;
+
+    v_id := save_invoice_fields(v_id, p_invoice);
+
+    DELETE FROM invoice_items
+    WHERE invoice_id = v_id
+    AND id NOT IN (
+        SELECT (item->>'id')::UUID FROM jsonb_array_elements(p_items) AS item
+    );
+
+    -- Fail rather than save without lines whose id is taken by another invoice
+    IF save_invoice_items(v_id, p_items) < jsonb_array_length(p_items) THEN
+        RAISE EXCEPTION 'Line item belongs to another invoice' USING ERRCODE = '22023';
+    END IF;
+
+    PERFORM refresh_invoice_totals(v_id);
+
+    RETURN v_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Deposit invoices carry no taxes (the default), so only the insert changes
+CREATE OR REPLACE FUNCTION create_deposit_invoice()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_amount DECIMAL(12, 2);
+    v_invoice_id UUID;
+BEGIN
+    IF NEW.status <> 'approved'
+        OR NEW.deposit_type IS NULL
+        OR (TG_OP = 'UPDATE' AND OLD.status = 'approved')
+    THEN
+        RETURN NULL;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM invoices
+        WHERE source_estimate_id = NEW.id
+        AND invoice_type = 'deposit'
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    v_amount := CASE
+        WHEN NEW.deposit_type = 'percent' THEN ROUND(NEW.total * NEW.deposit_value / 100, 2)
+        ELSE LEAST(NEW.deposit_value, NEW.total)
+    END;
+
+    IF v_amount <= 0 THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO invoices (
+        user_id, client_id, source_estimate_id, invoice_type, invoice_number,
+        title, issue_date, due_date, notes
+    )
+    VALUES (
+        NEW.user_id, NEW.client_id, NEW.id, 'deposit', NULL,
+        NEW.title || ' — Deposit', CURRENT_DATE, CURRENT_DATE, NEW.notes
+    )
+    RETURNING id INTO v_invoice_id;
+
+    INSERT INTO invoice_items (invoice_id, description, quantity, unit, unit_price, taxable, sort_order)
+    VALUES (
+        v_invoice_id,
+        CASE
+            WHEN NEW.deposit_type = 'percent'
+                THEN 'Deposit (' || TRIM(TRAILING '.' FROM TRIM(TRAILING '0' FROM NEW.deposit_value::TEXT)) || '% of estimate ' || NEW.estimate_number || ')'
+            ELSE 'Deposit for estimate ' || NEW.estimate_number
+        END,
+        1, 'lot', v_amount, false, 0
+    );
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Release invoices carry no taxes either
+CREATE OR REPLACE FUNCTION create_retainage_release_invoice(p_estimate_id UUID)
+RETURNS UUID AS $$
+DECLARE
+    v_estimate estimates%ROWTYPE;
+    v_held DECIMAL(12, 2);
+    v_invoice_numbers TEXT;
+    v_invoice_id UUID;
+BEGIN
+    SELECT * INTO v_estimate
+    FROM estimates
+    WHERE id = p_estimate_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Estimate not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT
+        COALESCE(SUM(retainage_amount) FILTER (WHERE invoice_type = 'standard'), 0)
+            - COALESCE(SUM(subtotal) FILTER (WHERE invoice_type = 'retainage_release'), 0),
+        string_agg(invoice_number, ', ' ORDER BY created_at)
+            FILTER (WHERE invoice_type = 'standard' AND retainage_amount > 0)
+    INTO v_held, v_invoice_numbers
+    FROM invoices
+    WHERE source_estimate_id = p_estimate_id;
+
+    IF v_held <= 0 THEN
+        RAISE EXCEPTION 'No retainage is held on this estimate' USING ERRCODE = '55000';
+    END IF;
+
+    INSERT INTO invoices (
+        user_id, client_id, source_estimate_id, invoice_type, invoice_number,
+        title, issue_date, due_date
+    )
+    VALUES (
+        v_estimate.user_id, v_estimate.client_id, v_estimate.id, 'retainage_release', NULL,
+        v_estimate.title || ' — Retainage release', CURRENT_DATE, CURRENT_DATE + 30
+    )
+    RETURNING id INTO v_invoice_id;
+
+    INSERT INTO invoice_items (invoice_id, description, quantity, unit, unit_price, taxable, sort_order)
+    VALUES (
+        v_invoice_id,
+        'Release of retainage held on invoices ' || v_invoice_numbers,
+        1, 'lot', v_held, false, 0
+    );
+
+    RETURN v_invoice_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- tax_rate is replaced by taxes; drop it last, once nothing above uses it
+ALTER TABLE estimates DROP COLUMN tax_rate;
+ALTER TABLE invoices DROP COLUMN tax_rate;
@@ -0,0 +1,460 @@
+-- PRO SmartBuild Discounts
+-- Migration: 017_discounts.sql
+-- Description: Percent or fixed discounts on line items and on whole
+-- estimates and invoices, taken off before tax
+
+-- ============================================
+-- CUSTOM TYPES (ENUMS)
+-- ============================================
+CREATE TYPE discount_type AS ENUM ('percent', 'fixed');
+
+-- ============================================
+-- DISCOUNT CALCULATION
+-- Used by the generated line amounts below, so it comes first
+-- ============================================
+
+-- Amount taken off p_amount. A fixed discount never exceeds the amount.
+CREATE OR REPLACE FUNCTION calculate_discount(p_amount DECIMAL, p_type discount_type, p_value DECIMAL)
+RETURNS DECIMAL AS $$
+    SELECT CASE
+        WHEN p_type = 'percent' THEN ROUND(p_amount * p_value / 100, 2)
+        WHEN p_type = 'fixed' THEN LEAST(p_value, GREATEST(p_amount, 0))
+        ELSE 0
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================
+-- LINE ITEMS: per-line discount
+-- amount is regenerated as the line total after its discount
+-- ============================================
+ALTER TABLE estimate_items
+    ADD COLUMN discount_type discount_type,
+    ADD COLUMN discount_value DECIMAL(12, 2) CHECK (discount_value > 0),
+    ADD CONSTRAINT estimate_items_discount_complete CHECK ((discount_type IS NULL) = (discount_value IS NULL)),
+    ADD CONSTRAINT estimate_items_discount_percent CHECK (discount_type <> 'percent' OR discount_value <= 100);
+
+ALTER TABLE estimate_items DROP COLUMN amount;
+ALTER TABLE estimate_items ADD COLUMN amount DECIMAL(12, 2) GENERATED ALWAYS AS (
+    quantity * unit_price - calculate_discount(quantity * unit_price, discount_type, discount_value)
+) STORED;
+
+ALTER TABLE invoice_items
+    ADD COLUMN discount_type discount_type,
+    ADD COLUMN discount_value DECIMAL(12, 2) CHECK (discount_value > 0),
+    ADD CONSTRAINT invoice_items_discount_complete CHECK ((discount_type IS NULL) = (discount_value IS NULL)),
+    ADD CONSTRAINT invoice_items_discount_percent CHECK (discount_type <> 'percent' OR discount_value <= 100);
+
+ALTER TABLE invoice_items DROP COLUMN amount;
+ALTER TABLE invoice_items ADD COLUMN amount DECIMAL(12, 2) GENERATED ALWAYS AS (
+    quantity * unit_price - calculate_discount(quantity * unit_price, discount_type, discount_value)
+) STORED;
+
+-- ============================================
+-- ESTIMATES & INVOICES: document discount
+-- Taken off the subtotal (after line discounts), before tax.
+-- discount_amount is maintained by the refresh_*_totals functions.
+-- ============================================
+ALTER TABLE estimates
+    ADD COLUMN discount_type discount_type,
+    ADD COLUMN discount_value DECIMAL(12, 2) CHECK (discount_value > 0),
+    ADD COLUMN discount_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    ADD CONSTRAINT estimates_discount_complete CHECK ((discount_type IS NULL) = (discount_value IS NULL)),
+    ADD CONSTRAINT estimates_discount_percent CHECK (discount_type <> 'percent' OR discount_value <= 100);
+
+ALTER TABLE invoices
+    ADD COLUMN discount_type discount_type,
+    ADD COLUMN discount_value DECIMAL(12, 2) CHECK (discount_value > 0),
+    ADD COLUMN discount_amount DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    ADD CONSTRAINT invoices_discount_complete CHECK ((discount_type IS NULL) = (discount_value IS NULL)),
+    ADD CONSTRAINT invoices_discount_percent CHECK (discount_type <> 'percent' OR discount_value <= 100);
+
+-- Revisions saved so far predate discounts. Fill in "no discount" on the
+-- estimate and on every line, so old snapshots carry the discount fields
+-- the revision history and restore read.
+UPDATE estimate_revisions
+SET snapshot = snapshot || jsonb_build_object(
+    'discount_type', NULL,
+    'discount_value', NULL,
+    'discount_amount', 0,
+    'items', COALESCE((
+        SELECT jsonb_agg(item || '{"discount_type": null, "discount_value": null}'::JSONB ORDER BY ordinality)
+        FROM jsonb_array_elements(snapshot->'items') WITH ORDINALITY AS t(item, ordinality)
+    ), '[]'::JSONB)
+);
+
+-- ============================================
+-- FUNCTIONS & TRIGGERS
+-- ============================================
+
+-- The taxable part of the subtotal after the document discount, which is
+-- spread across all lines in proportion to their amount
+CREATE OR REPLACE FUNCTION taxable_after_discount(
+    p_taxable_subtotal DECIMAL,
+    p_subtotal DECIMAL,
+    p_discount_amount DECIMAL
+)
+RETURNS DECIMAL AS $$
+    SELECT CASE
+        WHEN p_subtotal = 0 THEN p_taxable_subtotal
+        ELSE ROUND(p_taxable_subtotal * (p_subtotal - p_discount_amount) / p_subtotal, 2)
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Same as 016, less the document discount
+CREATE OR REPLACE FUNCTION refresh_estimate_totals(p_estimate_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_subtotal DECIMAL(12, 2);
+    v_taxable_subtotal DECIMAL(12, 2);
+    v_discount_amount DECIMAL(12, 2);
+    v_taxes JSONB;
+    v_tax_amount DECIMAL(12, 2);
+BEGIN
+    SELECT
+        COALESCE(SUM(amount), 0),
+        COALESCE(SUM(amount) FILTER (WHERE taxable), 0)
+    INTO v_subtotal, v_taxable_subtotal
+    FROM estimate_items
+    WHERE estimate_id = p_estimate_id;
+
+    SELECT calculate_discount(v_subtotal, discount_type, discount_value)
+    INTO v_discount_amount
+    FROM estimates
+    WHERE id = p_estimate_id;
+
+    SELECT calculate_taxes(taxes, taxable_after_discount(v_taxable_subtotal, v_subtotal, v_discount_amount))
+    INTO v_taxes
+    FROM estimates
+    WHERE id = p_estimate_id;
+
+    SELECT COALESCE(SUM((tax->>'amount')::DECIMAL), 0) INTO v_tax_amount
+    FROM jsonb_array_elements(v_taxes) AS tax;
+
+    UPDATE estimates
+    SET subtotal = v_subtotal,
+        discount_amount = v_discount_amount,
+        taxes = v_taxes,
+        tax_amount = v_tax_amount,
+        total = v_subtotal - v_discount_amount + v_tax_amount
+    WHERE id = p_estimate_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 016, less the document discount. Retainage is held on the
+-- discounted subtotal.
+CREATE OR REPLACE FUNCTION refresh_invoice_totals(p_invoice_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_subtotal DECIMAL(12, 2);
+    v_taxable_subtotal DECIMAL(12, 2);
+    v_discount_amount DECIMAL(12, 2);
+    v_taxes JSONB;
+    v_tax_amount DECIMAL(12, 2);
+    v_deposit_credit DECIMAL(12, 2);
+    v_retainage_percent DECIMAL(5, 2);
+    v_retainage_amount DECIMAL(12, 2);
+BEGIN
+    SELECT
+        COALESCE(SUM(amount), 0),
+        COALESCE(SUM(amount) FILTER (WHERE taxable), 0)
+    INTO v_subtotal, v_taxable_subtotal
+    FROM invoice_items
+    WHERE invoice_id = p_invoice_id;
+
+    SELECT calculate_discount(v_subtotal, discount_type, discount_value)
+    INTO v_discount_amount
+    FROM invoices
+    WHERE id = p_invoice_id;
+
+    SELECT
+        calculate_taxes(taxes, taxable_after_discount(v_taxable_subtotal, v_subtotal, v_discount_amount)),
+        deposit_credit,
+        retainage_percent
+    INTO v_taxes, v_deposit_credit, v_retainage_percent
+    FROM invoices
+    WHERE id = p_invoice_id;
+
+    SELECT COALESCE(SUM((tax->>'amount')::DECIMAL), 0) INTO v_tax_amount
+    FROM jsonb_array_elements(v_taxes) AS tax;
+
+    v_retainage_amount := ROUND((v_subtotal - v_discount_amount) * v_retainage_percent / 100, 2);
+
+    UPDATE invoices
+    SET subtotal = v_subtotal,
+        discount_amount = v_discount_amount,
+        taxes = v_taxes,
+        tax_amount = v_tax_amount,
+        retainage_amount = v_retainage_amount,
+        total = v_subtotal - v_discount_amount + v_tax_amount - v_deposit_credit - v_retainage_amount
+    WHERE id = p_invoice_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 015, but the credit can't exceed the discounted amount due
+CREATE OR REPLACE FUNCTION apply_deposit_credit(p_invoice_id UUID)
+RETURNS DECIMAL AS $$
+DECLARE
+    v_estimate_id UUID;
+    v_received DECIMAL(12, 2);
+    v_credited DECIMAL(12, 2);
+    v_credit DECIMAL(12, 2);
+BEGIN
+    SELECT source_estimate_id INTO v_estimate_id
+    FROM invoices
+    WHERE id = p_invoice_id
+    AND invoice_type = 'standard'
+    FOR UPDATE;
+
+    IF v_estimate_id IS NULL THEN
+        RETURN 0;
+    END IF;
+
+    SELECT COALESCE(SUM(amount_paid), 0) INTO v_received
+    FROM invoices
+    WHERE source_estimate_id = v_estimate_id
+    AND invoice_type = 'deposit';
+
+    SELECT COALESCE(SUM(deposit_credit), 0) INTO v_credited
+    FROM invoices
+    WHERE source_estimate_id = v_estimate_id
+    AND id <> p_invoice_id;
+
+    SELECT GREATEST(0, LEAST(v_received - v_credited, subtotal - discount_amount + tax_amount - retainage_amount))
+    INTO v_credit
+    FROM invoices
+    WHERE id = p_invoice_id;
+
+    UPDATE invoices
+    SET deposit_credit = v_credit
+    WHERE id = p_invoice_id;
+
+    PERFORM refresh_invoice_totals(p_invoice_id);
+
+    RETURN v_credit;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 016, plus discounts
+CREATE OR REPLACE FUNCTION estimate_snapshot(p_estimate_id UUID)
+RETURNS JSONB AS $$
+    SELECT jsonb_build_object(
+        'estimate_number', e.estimate_number,
+        'title', e.title,
+        'description', e.description,
+        'client_id', e.client_id,
+        'issue_date', e.issue_date,
+        'valid_until', e.valid_until,
+        'taxes', COALESCE((
+            SELECT jsonb_agg(tax - 'amount' ORDER BY ordinality)
+            FROM jsonb_array_elements(e.taxes) WITH ORDINALITY AS t(tax, ordinality)
+        ), '[]'::JSONB),
+        'discount_type', e.discount_type,
+        'discount_value', e.discount_value,
+        'notes', e.notes,
+        'job_site_address', e.job_site_address,
+        'subtotal', e.subtotal,
+        'discount_amount', e.discount_amount,
+        'tax_amount', e.tax_amount,
+        'total', e.total,
+        'items', COALESCE((
+            SELECT jsonb_agg(
+                jsonb_build_object(
+                    'id', i.id,
+                    'description', i.description,
+                    'quantity', i.quantity,
+                    'unit', i.unit,
+                    'unit_price', i.unit_price,
+                    'taxable', i.taxable,
+                    'discount_type', i.discount_type,
+                    'discount_value', i.discount_value
+                )
+                ORDER BY i.sort_order
+            )
+            FROM estimate_items i
+            WHERE i.estimate_id = e.id
+        ), '[]'::JSONB)
+    )
+    FROM estimates e
+    WHERE e.id = p_estimate_id;
+$$ LANGUAGE sql STABLE;
+
+-- Same as 016, plus the document discount
+CREATE OR REPLACE FUNCTION save_estimate_fields(p_id UUID, p_estimate JSONB)
+RETURNS UUID AS $$
+BEGIN
+    IF p_id IS NULL THEN
+        INSERT INTO estimates (
+            user_id, client_id, estimate_number, title, description, status,
+            issue_date, valid_until, taxes, discount_type, discount_value,
+            notes, job_site_address, deposit_type, deposit_value
+        )
+        VALUES (
+            auth.uid(),
+            (p_estimate->>'client_id')::UUID,
+            p_estimate->>'estimate_number',
+            p_estimate->>'title',
+            p_estimate->>'description',
+            -- Approval happens after the items exist, so the deposit is sized
+            -- on the real total (see save_estimate)
+            CASE WHEN p_estimate->>'status' = 'approved' THEN 'draft'
+                ELSE (p_estimate->>'status')::estimate_status END,
+            (p_estimate->>'issue_date')::DATE,
+            (p_estimate->>'valid_until')::DATE,
+            COALESCE(p_estimate->'taxes', '[]'::JSONB),
+            (p_estimate->>'discount_type')::discount_type,
+            (p_estimate->>'discount_value')::DECIMAL,
+            p_estimate->>'notes',
+            p_estimate->>'job_site_address',
+            (p_estimate->>'deposit_type')::deposit_type,
+            (p_estimate->>'deposit_value')::DECIMAL
+        )
+        RETURNING id INTO p_id;
+    ELSE
+        UPDATE estimates
+        SET client_id = (p_estimate->>'client_id')::UUID,
+            estimate_number = p_estimate->>'estimate_number',
+            title = p_estimate->>'title',
+            description = p_estimate->>'description',
+            issue_date = (p_estimate->>'issue_date')::DATE,
+            valid_until = (p_estimate->>'valid_until')::DATE,
+            taxes = COALESCE(p_estimate->'taxes', '[]'::JSONB),
+            discount_type = (p_estimate->>'discount_type')::discount_type,
+            discount_value = (p_estimate->>'discount_value')::DECIMAL,
+            notes = p_estimate->>'notes',
+            job_site_address = p_estimate->>'job_site_address',
+            deposit_type = (p_estimate->>'deposit_type')::deposit_type,
+            deposit_value = (p_estimate->>'deposit_value')::DECIMAL
+        WHERE id = p_id;
+    END IF;
+
+    RETURN p_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 016, plus each line's discount
+CREATE OR REPLACE FUNCTION save_estimate_items(p_estimate_id UUID, p_items JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+    v_saved INTEGER;
+BEGIN
+    INSERT INTO estimate_items (
+        id, estimate_id, description, quantity, unit, unit_price, taxable,
+        discount_type, discount_value, sort_order
+    )
+    SELECT
+        (item->>'id')::UUID,
+        p_estimate_id,
+        item->>'description',
+        (item->>'quantity')::DECIMAL,
+        COALESCE(item->>'unit', 'each'),
+        (item->>'unit_price')::DECIMAL,
+        COALESCE((item->>'taxable')::BOOLEAN, true),
+        (item->>'discount_type')::discount_type,
+        (item->>'discount_value')::DECIMAL,
+        (ordinality - 1)::INTEGER
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS t(item, ordinality)
+    ON CONFLICT (id) DO UPDATE
+    SET description = EXCLUDED.description,
+        quantity = EXCLUDED.quantity,
+        unit = EXCLUDED.unit,
+        unit_price = EXCLUDED.unit_price,
+        taxable = EXCLUDED.taxable,
+        discount_type = EXCLUDED.discount_type,
+        discount_value = EXCLUDED.discount_value,
+        sort_order = EXCLUDED.sort_order
+    WHERE estimate_items.estimate_id = p_estimate_id;
+
+    GET DIAGNOSTICS v_saved = ROW_COUNT;
+    RETURN v_saved;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 016, plus the document discount
+CREATE OR REPLACE FUNCTION save_invoice_fields(p_id UUID, p_invoice JSONB)
+RETURNS UUID AS $$
+BEGIN
+    IF p_id IS NULL THEN
+        INSERT INTO invoices (
+            user_id, client_id, source_estimate_id, invoice_number, title,
+            description, issue_date, due_date, taxes, discount_type, discount_value,
+            retainage_percent, notes
+        )
+        VALUES (
+            auth.uid(),
+            (p_invoice->>'client_id')::UUID,
+            (p_invoice->>'source_estimate_id')::UUID,
+            p_invoice->>'invoice_number',
+            p_invoice->>'title',
+            p_invoice->>'description',
+            (p_invoice->>'issue_date')::DATE,
+            (p_invoice->>'due_date')::DATE,
+            COALESCE(p_invoice->'taxes', '[]'::JSONB),
+            (p_invoice->>'discount_type')::discount_type,
+            (p_invoice->>'discount_value')::DECIMAL,
+            COALESCE((p_invoice->>'retainage_percent')::DECIMAL, 0),
+            p_invoice->>'notes'
+        )
+        RETURNING id INTO p_id;
+    ELSE
+        UPDATE invoices
+        SET client_id = (p_invoice->>'client_id')::UUID,
+            invoice_number = p_invoice->>'invoice_number',
+            title = p_invoice->>'title',
+            description = p_invoice->>'description',
+            issue_date = (p_invoice->>'issue_date')::DATE,
+            due_date = (p_invoice->>'due_date')::DATE,
+            taxes = COALESCE(p_invoice->'taxes', '[]'::JSONB),
+            discount_type = (p_invoice->>'discount_type')::discount_type,
+            discount_value = (p_invoice->>'discount_value')::DECIMAL,
+            -- A release invoice is the retainage, so it never holds any back
+            retainage_percent = CASE
+                WHEN invoice_type = 'retainage_release' THEN 0
+                ELSE COALESCE((p_invoice->>'retainage_percent')::DECIMAL, 0)
+            END,
+            notes = p_invoice->>'notes'
+        WHERE id = p_id;
+    END IF;
+
+    RETURN p_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 016, plus each line's discount
+CREATE OR REPLACE FUNCTION save_invoice_items(p_invoice_id UUID, p_items JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+    v_saved INTEGER;
+BEGIN
+    INSERT INTO invoice_items (
+        id, invoice_id, description, quantity, unit, unit_price, taxable,
+        discount_type, discount_value, sort_order, source_estimate_item_id, billed_percent
+    )
+    SELECT
+        (item->>'id')::UUID,
+        p_invoice_id,
+        item->>'description',
+        (item->>'quantity')::DECIMAL,
+        COALESCE(item->>'unit', 'each'),
+        (item->>'unit_price')::DECIMAL,
+        COALESCE((item->>'taxable')::BOOLEAN, true),
+        (item->>'discount_type')::discount_type,
+        (item->>'discount_value')::DECIMAL,
+        (ordinality - 1)::INTEGER,
+        (item->>'source_estimate_item_id')::UUID,
+        (item->>'billed_percent')::DECIMAL
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS t(item, ordinality)
+    ON CONFLICT (id) DO UPDATE
+    SET description = EXCLUDED.description,
+        quantity = EXCLUDED.quantity,
+        unit = EXCLUDED.unit,
+        unit_price = EXCLUDED.unit_price,
+        taxable = EXCLUDED.taxable,
+        discount_type = EXCLUDED.discount_type,
+        discount_value = EXCLUDED.discount_value,
+        sort_order = EXCLUDED.sort_order
+    WHERE invoice_items.invoice_id = p_invoice_id;
+
+    GET DIAGNOSTICS v_saved = ROW_COUNT;
+    RETURN v_saved;
+END;
+$$ LANGUAGE plpgsql;
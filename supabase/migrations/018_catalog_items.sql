@@ -0,0 +1,60 @@
+-- PRO SmartBuild Catalog
+-- Migration: 018_catalog_items.sql
+-- Description: Per-user price book of reusable line items, picked from the
+-- line item description field on estimates and invoices
+
+-- ============================================
+-- CATALOG_ITEMS TABLE
+-- ============================================
+CREATE TABLE catalog_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+
+    -- Name is what you search by; description is copied onto the line item
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    category VARCHAR(100),
+    unit VARCHAR(50) NOT NULL DEFAULT 'each',
+
+    -- Pricing. unit_price is what the client pays; cost and markup are kept
+    -- so the price can be worked out again when costs change.
+    unit_cost DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+    markup_percent DECIMAL(7, 2) NOT NULL DEFAULT 0,
+    unit_price DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    taxable BOOLEAN NOT NULL DEFAULT true,
+
+    -- Metadata
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_catalog_items_user_id ON catalog_items(user_id);
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+ALTER TABLE catalog_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own catalog items"
+    ON catalog_items FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own catalog items"
+    ON catalog_items FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own catalog items"
+    ON catalog_items FOR UPDATE
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own catalog items"
+    ON catalog_items FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- ============================================
+-- FUNCTIONS & TRIGGERS
+-- ============================================
+CREATE TRIGGER update_catalog_items_updated_at
+    BEFORE UPDATE ON catalog_items
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
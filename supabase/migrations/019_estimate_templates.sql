@@ -0,0 +1,63 @@
+-- PRO SmartBuild Estimate Templates
+-- Migration: 019_estimate_templates.sql
+-- Description: Named starting points for new estimates, saved from an
+-- existing estimate. Text may contain placeholders such as {{client_name}},
+-- which are filled in when an estimate made from the template is saved.
+
+-- ============================================
+-- ESTIMATE_TEMPLATES TABLE
+-- ============================================
+CREATE TABLE estimate_templates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+
+    -- Copied onto the new estimate
+    title VARCHAR(255) NOT NULL,
+    description TEXT,
+    notes TEXT,
+    taxes JSONB NOT NULL DEFAULT '[]',
+    discount_type discount_type,
+    discount_value DECIMAL(12, 2),
+
+    -- Line items as {description, quantity, unit, unit_price, taxable,
+    -- discount_type, discount_value}, in order
+    items JSONB NOT NULL DEFAULT '[]',
+
+    -- Metadata
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE (user_id, name)
+);
+
+CREATE INDEX idx_estimate_templates_user_id ON estimate_templates(user_id);
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+ALTER TABLE estimate_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own estimate templates"
+    ON estimate_templates FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own estimate templates"
+    ON estimate_templates FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own estimate templates"
+    ON estimate_templates FOR UPDATE
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own estimate templates"
+    ON estimate_templates FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- ============================================
+-- FUNCTIONS & TRIGGERS
+-- ============================================
+CREATE TRIGGER update_estimate_templates_updated_at
+    BEFORE UPDATE ON estimate_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,169 @@
+-- PRO SmartBuild Line Item Costs
+-- Migration: 020_line_item_costs.sql
+-- Description: Internal unit cost and markup on estimate line items, so
+-- estimates show what the job costs and what it makes. Costs are never
+-- shared with clients: the portal and PDFs select their columns explicitly.
+
+-- ============================================
+-- ESTIMATE_ITEMS: cost and markup
+-- unit_price stays the source of truth for what the client pays; the app
+-- works it out from cost and markup while editing.
+-- ============================================
+ALTER TABLE estimate_items
+    ADD COLUMN unit_cost DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+    ADD COLUMN markup_percent DECIMAL(7, 2) NOT NULL DEFAULT 0;
+
+-- ============================================
+-- ESTIMATES: total cost
+-- Maintained by refresh_estimate_totals, alongside subtotal
+-- ============================================
+ALTER TABLE estimates
+    ADD COLUMN total_cost DECIMAL(12, 2) NOT NULL DEFAULT 0;
+
+-- Template items (see 019) gain the same two keys when saved from now on;
+-- older templates are read as having no cost.
+
+-- Lines in revisions saved so far had no cost recorded; give them zero cost
+-- and markup, the same as the column defaults above
+UPDATE estimate_revisions
+SET snapshot = snapshot || jsonb_build_object(
+    'items', COALESCE((
+        SELECT jsonb_agg(item || '{"unit_cost": 0, "markup_percent": 0}'::JSONB ORDER BY ordinality)
+        FROM jsonb_array_elements(snapshot->'items') WITH ORDINALITY AS t(item, ordinality)
+    ), '[]'::JSONB)
+);
+
+-- ============================================
+-- FUNCTIONS & TRIGGERS
+-- ============================================
+
+-- Same as 017, plus the estimate's total cost
+CREATE OR REPLACE FUNCTION refresh_estimate_totals(p_estimate_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_subtotal DECIMAL(12, 2);
+    v_taxable_subtotal DECIMAL(12, 2);
+    v_discount_amount DECIMAL(12, 2);
+    v_taxes JSONB;
+    v_tax_amount DECIMAL(12, 2);
+    v_total_cost DECIMAL(12, 2);
+BEGIN
+    SELECT
+        COALESCE(SUM(amount), 0),
+        COALESCE(SUM(amount) FILTER (WHERE taxable), 0),
+        COALESCE(SUM(ROUND(quantity * unit_cost, 2)), 0)
+    INTO v_subtotal, v_taxable_subtotal, v_total_cost
+    FROM estimate_items
+    WHERE estimate_id = p_estimate_id;
+
+    SELECT calculate_discount(v_subtotal, discount_type, discount_value)
+    INTO v_discount_amount
+    FROM estimates
+    WHERE id = p_estimate_id;
+
+    SELECT calculate_taxes(taxes, taxable_after_discount(v_taxable_subtotal, v_subtotal, v_discount_amount))
+    INTO v_taxes
+    FROM estimates
+    WHERE id = p_estimate_id;
+
+    SELECT COALESCE(SUM((tax->>'amount')::DECIMAL), 0) INTO v_tax_amount
+    FROM jsonb_array_elements(v_taxes) AS tax;
+
+    UPDATE estimates
+    SET subtotal = v_subtotal,
+        discount_amount = v_discount_amount,
+        taxes = v_taxes,
+        tax_amount = v_tax_amount,
+        total = v_subtotal - v_discount_amount + v_tax_amount,
+        total_cost = v_total_cost
+    WHERE id = p_estimate_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 017, plus each line's cost and markup
+CREATE OR REPLACE FUNCTION estimate_snapshot(p_estimate_id UUID)
+RETURNS JSONB AS $$
+    SELECT jsonb_build_object(
+        'estimate_number', e.estimate_number,
+        'title', e.title,
+        'description', e.description,
+        'client_id', e.client_id,
+        'issue_date', e.issue_date,
+        'valid_until', e.valid_until,
+        'taxes', COALESCE((
+            SELECT jsonb_agg(tax - 'amount' ORDER BY ordinality)
+            FROM jsonb_array_elements(e.taxes) WITH ORDINALITY AS t(tax, ordinality)
+        ), '[]'::JSONB),
+        'discount_type', e.discount_type,
+        'discount_value', e.discount_value,
+        'notes', e.notes,
+        'job_site_address', e.job_site_address,
+        'subtotal', e.subtotal,
+        'discount_amount', e.discount_amount,
+        'tax_amount', e.tax_amount,
+        'total', e.total,
+        'items', COALESCE((
+            SELECT jsonb_agg(
+                jsonb_build_object(
+                    'id', i.id,
+                    'description', i.description,
+                    'quantity', i.quantity,
+                    'unit', i.unit,
+                    'unit_price', i.unit_price,
+                    'taxable', i.taxable,
+                    'discount_type', i.discount_type,
+                    'discount_value', i.discount_value,
+                    'unit_cost', i.unit_cost,
+                    'markup_percent', i.markup_percent
+                )
+                ORDER BY i.sort_order
+            )
+            FROM estimate_items i
+            WHERE i.estimate_id = e.id
+        ), '[]'::JSONB)
+    )
+    FROM estimates e
+    WHERE e.id = p_estimate_id;
+$$ LANGUAGE sql STABLE;
+
+-- Same as 017, plus each line's cost and markup
+CREATE OR REPLACE FUNCTION save_estimate_items(p_estimate_id UUID, p_items JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+    v_saved INTEGER;
+BEGIN
+    INSERT INTO estimate_items (
+        id, estimate_id, description, quantity, unit, unit_price, taxable,
+        discount_type, discount_value, unit_cost, markup_percent, sort_order
+    )
+    SELECT
+        (item->>'id')::UUID,
+        p_estimate_id,
+        item->>'description',
+        (item->>'quantity')::DECIMAL,
+        COALESCE(item->>'unit', 'each'),
+        (item->>'unit_price')::DECIMAL,
+        COALESCE((item->>'taxable')::BOOLEAN, true),
+        (item->>'discount_type')::discount_type,
+        (item->>'discount_value')::DECIMAL,
+        COALESCE((item->>'unit_cost')::DECIMAL, 0),
+        COALESCE((item->>'markup_percent')::DECIMAL, 0),
+        (ordinality - 1)::INTEGER
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS t(item, ordinality)
+    ON CONFLICT (id) DO UPDATE
+    SET description = EXCLUDED.description,
+        quantity = EXCLUDED.quantity,
+        unit = EXCLUDED.unit,
+        unit_price = EXCLUDED.unit_price,
+        taxable = EXCLUDED.taxable,
+        discount_type = EXCLUDED.discount_type,
+        discount_value = EXCLUDED.discount_value,
+        unit_cost = EXCLUDED.unit_cost,
+        markup_percent = EXCLUDED.markup_percent,
+        sort_order = EXCLUDED.sort_order
+    WHERE estimate_items.estimate_id = p_estimate_id;
+
+    GET DIAGNOSTICS v_saved = ROW_COUNT;
+    RETURN v_saved;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,220 @@
+-- PRO SmartBuild Line Item Sections
+-- Migration: 021_line_item_sections.sql
+-- Description: Named sections (e.g. Demo, Framing, Electrical) grouping the
+-- line items on estimates and invoices. A section is just a label on each
+-- line; lines without one come first and sections follow in line order.
+
+-- ============================================
+-- LINE ITEMS: section
+-- ============================================
+ALTER TABLE estimate_items ADD COLUMN section VARCHAR(255);
+ALTER TABLE invoice_items ADD COLUMN section VARCHAR(255);
+
+-- Estimates had no sections before this, so every line in the revisions
+-- saved so far is unsectioned
+UPDATE estimate_revisions
+SET snapshot = snapshot || jsonb_build_object(
+    'items', COALESCE((
+        SELECT jsonb_agg(item || '{"section": null}'::JSONB ORDER BY ordinality)
+        FROM jsonb_array_elements(snapshot->'items') WITH ORDINALITY AS t(item, ordinality)
+    ), '[]'::JSONB)
+);
+
+-- ============================================
+-- FUNCTIONS & TRIGGERS
+-- ============================================
+
+-- Same as 020, plus each line's section
+CREATE OR REPLACE FUNCTION estimate_snapshot(p_estimate_id UUID)
+RETURNS JSONB AS $$
+    SELECT jsonb_build_object(
+        'estimate_number', e.estimate_number,
+        'title', e.title,
+        'description', e.description,
+        'client_id', e.client_id,
+        'issue_date', e.issue_date,
+        'valid_until', e.valid_until,
+        'taxes', COALESCE((
+            SELECT jsonb_agg(tax - 'amount' ORDER BY ordinality)
+            FROM jsonb_array_elements(e.taxes) WITH ORDINALITY AS t(tax, ordinality)
+        ), '[]'::JSONB),
+        'discount_type', e.discount_type,
+        'discount_value', e.discount_value,
+        'notes', e.notes,
+        'job_site_address', e.job_site_address,
+        'subtotal', e.subtotal,
+        'discount_amount', e.discount_amount,
+        'tax_amount', e.tax_amount,
+        'total', e.total,
+        'items', COALESCE((
+            SELECT jsonb_agg(
+                jsonb_build_object(
+                    'id', i.id,
+                    'description', i.description,
+                    'quantity', i.quantity,
+                    'unit', i.unit,
+                    'unit_price', i.unit_price,
+                    'taxable', i.taxable,
+                    'discount_type', i.discount_type,
+                    'discount_value', i.discount_value,
+                    'unit_cost', i.unit_cost,
+                    'markup_percent', i.markup_percent,
+                    'section', i.section
+                )
+                ORDER BY i.sort_order
+            )
+            FROM estimate_items i
+            WHERE i.estimate_id = e.id
+        ), '[]'::JSONB)
+    )
+    FROM estimates e
+    WHERE e.id = p_estimate_id;
+$$ LANGUAGE sql STABLE;
+
+-- Same as 020, plus each line's section
+CREATE OR REPLACE FUNCTION save_estimate_items(p_estimate_id UUID, p_items JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+    v_saved INTEGER;
+BEGIN
+    INSERT INTO estimate_items (
+        id, estimate_id, description, quantity, unit, unit_price, taxable,
+        discount_type, discount_value, unit_cost, markup_percent, section, sort_order
+    )
+    SELECT
+        (item->>'id')::UUID,
+        p_estimate_id,
+        item->>'description',
+        (item->>'quantity')::DECIMAL,
+        COALESCE(item->>'unit', 'each'),
+        (item->>'unit_price')::DECIMAL,
+        COALESCE((item->>'taxable')::BOOLEAN, true),
+        (item->>'discount_type')::discount_type,
+        (item->>'discount_value')::DECIMAL,
+        COALESCE((item->>'unit_cost')::DECIMAL, 0),
+        COALESCE((item->>'markup_percent')::DECIMAL, 0),
+        NULLIF(TRIM(item->>'section'), ''),
+        (ordinality - 1)::INTEGER
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS t(item, ordinality)
+    ON CONFLICT (id) DO UPDATE
+    SET description = EXCLUDED.description,
+        quantity = EXCLUDED.quantity,
+        unit = EXCLUDED.unit,
+        unit_price = EXCLUDED.unit_price,
+        taxable = EXCLUDED.taxable,
+        discount_type = EXCLUDED.discount_type,
+        discount_value = EXCLUDED.discount_value,
+        unit_cost = EXCLUDED.unit_cost,
+        markup_percent = EXCLUDED.markup_percent,
+        section = EXCLUDED.section,
+        sort_order = EXCLUDED.sort_order
+    WHERE estimate_items.estimate_id = p_estimate_id;
+
+    GET DIAGNOSTICS v_saved = ROW_COUNT;
+    RETURN v_saved;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 017, plus each line's section
+CREATE OR REPLACE FUNCTION save_invoice_items(p_invoice_id UUID, p_items JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+    v_saved INTEGER;
+BEGIN
+    INSERT INTO invoice_items (
+        id, invoice_id, description, quantity, unit, unit_price, taxable,
+        discount_type, discount_value, section, sort_order, source_estimate_item_id, billed_percent
+    )
+    SELECT
+        (item->>'id')::UUID,
+        p_invoice_id,
+        item->>'description',
+        (item->>'quantity')::DECIMAL,
+        COALESCE(item->>'unit', 'each'),
+        (item->>'unit_price')::DECIMAL,
+        COALESCE((item->>'taxable')::BOOLEAN, true),
+        (item->>'discount_type')::discount_type,
+        (item->>'discount_value')::DECIMAL,
+        NULLIF(TRIM(item->>'section'), ''),
+        (ordinality - 1)::INTEGER,
+        (item->>'source_estimate_item_id')::UUID,
+        (item->>'billed_percent')::DECIMAL
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS t(item, ordinality)
+    ON CONFLICT (id) DO UPDATE
+    SET description = EXCLUDED.description,
+        quantity = EXCLUDED.quantity,
+        unit = EXCLUDED.unit,
+        unit_price = EXCLUDED.unit_price,
+        taxable = EXCLUDED.taxable,
+        discount_type = EXCLUDED.discount_type,
+        discount_value = EXCLUDED.discount_value,
+        section = EXCLUDED.section,
+        sort_order = EXCLUDED.sort_order
+    WHERE invoice_items.invoice_id = p_invoice_id;
+
+    GET DIAGNOSTICS v_saved = ROW_COUNT;
+    RETURN v_saved;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 012, but on an invoice that uses sections the change orders are
+-- grouped under their own
+CREATE OR REPLACE FUNCTION roll_change_orders_into_invoice(p_invoice_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    v_estimate_id UUID;
+    v_next_sort INTEGER;
+    v_count INTEGER;
+    v_section VARCHAR(255);
+BEGIN
+    SELECT source_estimate_id INTO v_estimate_id
+    FROM invoices
+    WHERE id = p_invoice_id
+    FOR UPDATE;
+
+    IF v_estimate_id IS NULL THEN
+        RETURN 0;
+    END IF;
+
+    SELECT COALESCE(MAX(sort_order), -1) + 1 INTO v_next_sort
+    FROM invoice_items
+    WHERE invoice_id = p_invoice_id;
+
+    -- On an invoice split into sections the change orders get their own
+    SELECT 'Change Orders' INTO v_section
+    FROM invoice_items
+    WHERE invoice_id = p_invoice_id
+    AND section IS NOT NULL
+    LIMIT 1;
+
+    INSERT INTO invoice_items (invoice_id, description, quantity, unit, unit_price, section, sort_order)
+    SELECT
+        p_invoice_id,
+        -- lpad() truncates, so only pad numbers shorter than 3 digits
+        'CO-' || CASE
+                WHEN length(co.change_order_number::TEXT) >= 3 THEN co.change_order_number::TEXT
+                ELSE lpad(co.change_order_number::TEXT, 3, '0')
+            END || ': '
+            || CASE WHEN i.is_removal THEN 'Remove ' ELSE '' END
+            || i.description,
+        i.quantity,
+        i.unit,
+        CASE WHEN i.is_removal THEN -i.unit_price ELSE i.unit_price END,
+        v_section,
+        v_next_sort + (ROW_NUMBER() OVER (ORDER BY co.change_order_number, i.sort_order))::INTEGER - 1
+    FROM change_orders co
+    JOIN change_order_items i ON i.change_order_id = co.id
+    WHERE co.estimate_id = v_estimate_id
+    AND co.status = 'approved'
+    AND co.invoice_id IS NULL;
+
+    UPDATE change_orders
+    SET invoice_id = p_invoice_id
+    WHERE estimate_id = v_estimate_id
+    AND status = 'approved'
+    AND invoice_id IS NULL;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql;
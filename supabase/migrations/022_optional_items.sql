@@ -0,0 +1,219 @@
+-- PRO SmartBuild Optional Items
+-- Migration: 022_optional_items.sql
+-- Description: Optional line items and alternate groups ("good / better /
+-- best") on estimates. Only selected lines count towards the totals, and
+-- clients choose between them on the shared estimate before approving.
+
+-- ============================================
+-- ESTIMATE_ITEMS: optional and alternate lines
+-- An optional line is left out until selected. Lines sharing an
+-- alternate_group are choices of which exactly one is selected.
+-- ============================================
+ALTER TABLE estimate_items
+    ADD COLUMN is_optional BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN alternate_group VARCHAR(255),
+    ADD COLUMN is_selected BOOLEAN NOT NULL DEFAULT true,
+    ADD CONSTRAINT estimate_items_optional_or_alternate
+        CHECK (NOT (is_optional AND alternate_group IS NOT NULL));
+
+-- Every line in the revisions saved so far was a regular, included line
+UPDATE estimate_revisions
+SET snapshot = snapshot || jsonb_build_object(
+    'items', COALESCE((
+        SELECT jsonb_agg(
+            item || '{"is_optional": false, "alternate_group": null, "is_selected": true}'::JSONB
+            ORDER BY ordinality
+        )
+        FROM jsonb_array_elements(snapshot->'items') WITH ORDINALITY AS t(item, ordinality)
+    ), '[]'::JSONB)
+);
+
+-- ============================================
+-- FUNCTIONS & TRIGGERS
+-- ============================================
+
+-- Same as 020, counting only selected lines
+CREATE OR REPLACE FUNCTION refresh_estimate_totals(p_estimate_id UUID)
+RETURNS VOID AS $$
+DECLARE
+    v_subtotal DECIMAL(12, 2);
+    v_taxable_subtotal DECIMAL(12, 2);
+    v_discount_amount DECIMAL(12, 2);
+    v_taxes JSONB;
+    v_tax_amount DECIMAL(12, 2);
+    v_total_cost DECIMAL(12, 2);
+BEGIN
+    SELECT
+        COALESCE(SUM(amount), 0),
+        COALESCE(SUM(amount) FILTER (WHERE taxable), 0),
+        COALESCE(SUM(ROUND(quantity * unit_cost, 2)), 0)
+    INTO v_subtotal, v_taxable_subtotal, v_total_cost
+    FROM estimate_items
+    WHERE estimate_id = p_estimate_id
+    AND is_selected;
+
+    SELECT calculate_discount(v_subtotal, discount_type, discount_value)
+    INTO v_discount_amount
+    FROM estimates
+    WHERE id = p_estimate_id;
+
+    SELECT calculate_taxes(taxes, taxable_after_discount(v_taxable_subtotal, v_subtotal, v_discount_amount))
+    INTO v_taxes
+    FROM estimates
+    WHERE id = p_estimate_id;
+
+    SELECT COALESCE(SUM((tax->>'amount')::DECIMAL), 0) INTO v_tax_amount
+    FROM jsonb_array_elements(v_taxes) AS tax;
+
+    UPDATE estimates
+    SET subtotal = v_subtotal,
+        discount_amount = v_discount_amount,
+        taxes = v_taxes,
+        tax_amount = v_tax_amount,
+        total = v_subtotal - v_discount_amount + v_tax_amount,
+        total_cost = v_total_cost
+    WHERE id = p_estimate_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Same as 021, plus each line's option settings
+CREATE OR REPLACE FUNCTION estimate_snapshot(p_estimate_id UUID)
+RETURNS JSONB AS $$
+    SELECT jsonb_build_object(
+        'estimate_number', e.estimate_number,
+        'title', e.title,
+        'description', e.description,
+        'client_id', e.client_id,
+        'issue_date', e.issue_date,
+        'valid_until', e.valid_until,
+        'taxes', COALESCE((
+            SELECT jsonb_agg(tax - 'amount' ORDER BY ordinality)
+            FROM jsonb_array_elements(e.taxes) WITH ORDINALITY AS t(tax, ordinality)
+        ), '[]'::JSONB),
+        'discount_type', e.discount_type,
+        'discount_value', e.discount_value,
+        'notes', e.notes,
+        'job_site_address', e.job_site_address,
+        'subtotal', e.subtotal,
+        'discount_amount', e.discount_amount,
+        'tax_amount', e.tax_amount,
+        'total', e.total,
+        'items', COALESCE((
+            SELECT jsonb_agg(
+                jsonb_build_object(
+                    'id', i.id,
+                    'description', i.description,
+                    'quantity', i.quantity,
+                    'unit', i.unit,
+                    'unit_price', i.unit_price,
+                    'taxable', i.taxable,
+                    'discount_type', i.discount_type,
+                    'discount_value', i.discount_value,
+                    'unit_cost', i.unit_cost,
+                    'markup_percent', i.markup_percent,
+                    'section', i.section,
+                    'is_optional', i.is_optional,
+                    'alternate_group', i.alternate_group,
+                    'is_selected', i.is_selected
+                )
+                ORDER BY i.sort_order
+            )
+            FROM estimate_items i
+            WHERE i.estimate_id = e.id
+        ), '[]'::JSONB)
+    )
+    FROM estimates e
+    WHERE e.id = p_estimate_id;
+$$ LANGUAGE sql STABLE;
+
+-- Same as 021, plus each line's option settings
+CREATE OR REPLACE FUNCTION save_estimate_items(p_estimate_id UUID, p_items JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+    v_saved INTEGER;
+BEGIN
+    INSERT INTO estimate_items (
+        id, estimate_id, description, quantity, unit, unit_price, taxable,
+        discount_type, discount_value, unit_cost, markup_percent, section,
+        is_optional, alternate_group, is_selected, sort_order
+    )
+    SELECT
+        (item->>'id')::UUID,
+        p_estimate_id,
+        item->>'description',
+        (item->>'quantity')::DECIMAL,
+        COALESCE(item->>'unit', 'each'),
+        (item->>'unit_price')::DECIMAL,
+        COALESCE((item->>'taxable')::BOOLEAN, true),
+        (item->>'discount_type')::discount_type,
+        (item->>'discount_value')::DECIMAL,
+        COALESCE((item->>'unit_cost')::DECIMAL, 0),
+        COALESCE((item->>'markup_percent')::DECIMAL, 0),
+        NULLIF(TRIM(item->>'section'), ''),
+        COALESCE((item->>'is_optional')::BOOLEAN, false),
+        NULLIF(TRIM(item->>'alternate_group'), ''),
+        COALESCE((item->>'is_selected')::BOOLEAN, true),
+        (ordinality - 1)::INTEGER
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS t(item, ordinality)
+    ON CONFLICT (id) DO UPDATE
+    SET description = EXCLUDED.description,
+        quantity = EXCLUDED.quantity,
+        unit = EXCLUDED.unit,
+        unit_price = EXCLUDED.unit_price,
+        taxable = EXCLUDED.taxable,
+        discount_type = EXCLUDED.discount_type,
+        discount_value = EXCLUDED.discount_value,
+        unit_cost = EXCLUDED.unit_cost,
+        markup_percent = EXCLUDED.markup_percent,
+        section = EXCLUDED.section,
+        is_optional = EXCLUDED.is_optional,
+        alternate_group = EXCLUDED.alternate_group,
+        is_selected = EXCLUDED.is_selected,
+        sort_order = EXCLUDED.sort_order
+    WHERE estimate_items.estimate_id = p_estimate_id;
+
+    GET DIAGNOSTICS v_saved = ROW_COUNT;
+    RETURN v_saved;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The client's picks on the shared estimate. Optional and alternate lines in
+-- p_item_ids are selected and the rest are not; included lines are left
+-- alone. Each alternate group must end up with exactly one choice.
+CREATE OR REPLACE FUNCTION select_estimate_options(p_estimate_id UUID, p_item_ids UUID[])
+RETURNS VOID AS $$
+DECLARE
+    v_status estimate_status;
+BEGIN
+    SELECT status INTO v_status
+    FROM estimates
+    WHERE id = p_estimate_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Estimate not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_status <> 'sent' THEN
+        RAISE EXCEPTION 'Options can only be chosen while the estimate awaits a response'
+            USING ERRCODE = '55000';
+    END IF;
+
+    UPDATE estimate_items
+    SET is_selected = (id = ANY(p_item_ids))
+    WHERE estimate_id = p_estimate_id
+    AND (is_optional OR alternate_group IS NOT NULL)
+    AND is_selected IS DISTINCT FROM (id = ANY(p_item_ids));
+
+    IF EXISTS (
+        SELECT 1
+        FROM estimate_items
+        WHERE estimate_id = p_estimate_id
+        AND alternate_group IS NOT NULL
+        GROUP BY alternate_group
+        HAVING COUNT(*) FILTER (WHERE is_selected) <> 1
+    ) THEN
+        RAISE EXCEPTION 'Choose one option from each group' USING ERRCODE = '23514';
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
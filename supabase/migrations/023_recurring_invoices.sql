@@ -0,0 +1,198 @@
+-- PRO SmartBuild Recurring Invoices
+-- Migration: 023_recurring_invoices.sql
+-- Description: Schedules that copy an invoice on a regular interval, e.g.
+-- monthly maintenance plans. Each run creates a new invoice with the next
+-- number in the account's sequence and fresh issue and due dates; the
+-- scheduler can email it straight away.
+
+-- ============================================
+-- CUSTOM TYPES (ENUMS)
+-- ============================================
+CREATE TYPE recurrence_interval AS ENUM ('weekly', 'monthly', 'quarterly', 'yearly');
+
+-- ============================================
+-- INVOICE_SCHEDULES TABLE
+-- ============================================
+CREATE TABLE invoice_schedules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+
+    -- The invoice copied on each run. Edits to it show up from the next run.
+    source_invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+
+    -- Timing. Runs fall on start_date plus whole intervals, so monthly
+    -- schedules starting on the 31st stay on the last day of short months.
+    recurrence recurrence_interval NOT NULL DEFAULT 'monthly',
+    start_date DATE NOT NULL,
+    end_date DATE,
+    run_count INTEGER NOT NULL DEFAULT 0,
+    -- NULL once the schedule has passed its end date
+    next_run_date DATE,
+
+    -- Email each new invoice to the client as soon as it's created
+    auto_send BOOLEAN NOT NULL DEFAULT false,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+
+    -- Last run
+    last_run_at TIMESTAMP WITH TIME ZONE,
+    last_invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+    last_error TEXT,
+
+    -- Metadata
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX idx_invoice_schedules_user_id ON invoice_schedules(user_id);
+CREATE UNIQUE INDEX idx_invoice_schedules_source ON invoice_schedules(source_invoice_id);
+CREATE INDEX idx_invoice_schedules_due ON invoice_schedules(next_run_date) WHERE is_active;
+
+-- ============================================
+-- INVOICES: the schedule that created them
+-- ============================================
+ALTER TABLE invoices
+    ADD COLUMN schedule_id UUID REFERENCES invoice_schedules(id) ON DELETE SET NULL;
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- Runs are made by the scheduler (service role)
+-- ============================================
+ALTER TABLE invoice_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own invoice schedules"
+    ON invoice_schedules FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own invoice schedules"
+    ON invoice_schedules FOR INSERT
+    WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (
+            SELECT 1 FROM invoices
+            WHERE invoices.id = invoice_schedules.source_invoice_id
+            AND invoices.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can update their own invoice schedules"
+    ON invoice_schedules FOR UPDATE
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own invoice schedules"
+    ON invoice_schedules FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- ============================================
+-- FUNCTIONS & TRIGGERS
+-- ============================================
+CREATE TRIGGER update_invoice_schedules_updated_at
+    BEFORE UPDATE ON invoice_schedules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Date of run number p_run (0 = the first run)
+CREATE OR REPLACE FUNCTION schedule_run_date(p_start DATE, p_recurrence recurrence_interval, p_run INTEGER)
+RETURNS DATE AS $$
+    SELECT (p_start + p_run * CASE p_recurrence
+        WHEN 'weekly' THEN INTERVAL '1 week'
+        WHEN 'monthly' THEN INTERVAL '1 month'
+        WHEN 'quarterly' THEN INTERVAL '3 months'
+        WHEN 'yearly' THEN INTERVAL '1 year'
+    END)::DATE;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Keeps next_run_date in step with the timing columns
+CREATE OR REPLACE FUNCTION set_schedule_next_run_date()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_next DATE := schedule_run_date(NEW.start_date, NEW.recurrence, NEW.run_count);
+BEGIN
+    NEW.next_run_date := CASE
+        WHEN NEW.end_date IS NULL OR v_next <= NEW.end_date THEN v_next
+    END;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_schedule_next_run_date
+    BEFORE INSERT OR UPDATE OF start_date, end_date, recurrence, run_count ON invoice_schedules
+    FOR EACH ROW
+    EXECUTE FUNCTION set_schedule_next_run_date();
+
+-- Creates the schedule's next invoice if it's due by p_today and returns its
+-- id, or NULL when nothing is due. The schedule row is locked, so two runs at
+-- once can't both create the same invoice. The due date keeps the source
+-- invoice's payment terms.
+CREATE OR REPLACE FUNCTION run_invoice_schedule(p_schedule_id UUID, p_today DATE)
+RETURNS UUID AS $$
+DECLARE
+    v_schedule invoice_schedules%ROWTYPE;
+    v_source invoices%ROWTYPE;
+    v_invoice_id UUID;
+BEGIN
+    SELECT * INTO v_schedule
+    FROM invoice_schedules
+    WHERE id = p_schedule_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR NOT v_schedule.is_active
+        OR v_schedule.next_run_date IS NULL OR v_schedule.next_run_date > p_today
+    THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT * INTO v_source
+    FROM invoices
+    WHERE id = v_schedule.source_invoice_id;
+
+    -- A blank number is assigned from the account's sequence
+    INSERT INTO invoices (
+        user_id, client_id, invoice_number, title, description,
+        issue_date, due_date, taxes, discount_type, discount_value,
+        retainage_percent, notes, reminders_enabled, schedule_id
+    )
+    VALUES (
+        v_source.user_id,
+        v_source.client_id,
+        NULL,
+        v_source.title,
+        v_source.description,
+        v_schedule.next_run_date,
+        v_schedule.next_run_date + (v_source.due_date - v_source.issue_date),
+        COALESCE((
+            SELECT jsonb_agg(tax - 'amount' ORDER BY ordinality)
+            FROM jsonb_array_elements(v_source.taxes) WITH ORDINALITY AS t(tax, ordinality)
+        ), '[]'::JSONB),
+        v_source.discount_type,
+        v_source.discount_value,
+        v_source.retainage_percent,
+        v_source.notes,
+        v_source.reminders_enabled,
+        v_schedule.id
+    )
+    RETURNING id INTO v_invoice_id;
+
+    INSERT INTO invoice_items (
+        invoice_id, description, quantity, unit, unit_price, taxable,
+        discount_type, discount_value, section, sort_order
+    )
+    SELECT
+        v_invoice_id, description, quantity, unit, unit_price, taxable,
+        discount_type, discount_value, section, sort_order
+    FROM invoice_items
+    WHERE invoice_id = v_source.id;
+
+    PERFORM refresh_invoice_totals(v_invoice_id);
+
+    UPDATE invoice_schedules
+    SET run_count = run_count + 1,
+        last_run_at = NOW(),
+        last_invoice_id = v_invoice_id,
+        last_error = NULL
+    WHERE id = v_schedule.id;
+
+    RETURN v_invoice_id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,178 @@
+-- PRO SmartBuild Client Contacts
+-- Migration: 024_client_contacts.sql
+-- Description: People and property addresses saved against a client. A
+-- commercial client can have a property manager, an accounts payable
+-- contact and many job sites; estimates pick their job site from the saved
+-- addresses, and estimates and invoices can be sent to any contact.
+
+-- ============================================
+-- CUSTOM TYPES (ENUMS)
+-- ============================================
+CREATE TYPE contact_role AS ENUM ('billing', 'site', 'decision_maker', 'other');
+
+-- ============================================
+-- CLIENT_CONTACTS TABLE
+-- ============================================
+CREATE TABLE client_contacts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    role contact_role NOT NULL DEFAULT 'other',
+    email VARCHAR(255),
+    phone VARCHAR(50),
+
+    -- Metadata
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_client_contacts_user_id ON client_contacts(user_id);
+CREATE INDEX idx_client_contacts_client_id ON client_contacts(client_id);
+
+-- ============================================
+-- CLIENT_ADDRESSES TABLE
+-- ============================================
+CREATE TABLE client_addresses (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+    -- Short name to pick it by, e.g. "Riverside Plaza"
+    label VARCHAR(255) NOT NULL,
+    address TEXT NOT NULL,
+
+    -- Metadata
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_client_addresses_user_id ON client_addresses(user_id);
+CREATE INDEX idx_client_addresses_client_id ON client_addresses(client_id);
+
+-- ============================================
+-- ESTIMATES: the saved address the job site came from
+-- job_site_address keeps a copy of the text, so editing or deleting the
+-- saved address doesn't change estimates already written.
+-- ============================================
+ALTER TABLE estimates
+    ADD COLUMN job_site_address_id UUID REFERENCES client_addresses(id) ON DELETE SET NULL;
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+ALTER TABLE client_contacts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE client_addresses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own client contacts"
+    ON client_contacts FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own client contacts"
+    ON client_contacts FOR INSERT
+    WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (
+            SELECT 1 FROM clients
+            WHERE clients.id = client_contacts.client_id
+            AND clients.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can update their own client contacts"
+    ON client_contacts FOR UPDATE
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own client contacts"
+    ON client_contacts FOR DELETE
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own client addresses"
+    ON client_addresses FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own client addresses"
+    ON client_addresses FOR INSERT
+    WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (
+            SELECT 1 FROM clients
+            WHERE clients.id = client_addresses.client_id
+            AND clients.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can update their own client addresses"
+    ON client_addresses FOR UPDATE
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own client addresses"
+    ON client_addresses FOR DELETE
+    USING (auth.uid() = user_id);
+
+-- ============================================
+-- FUNCTIONS & TRIGGERS
+-- ============================================
+CREATE TRIGGER update_client_contacts_updated_at
+    BEFORE UPDATE ON client_contacts
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_client_addresses_updated_at
+    BEFORE UPDATE ON client_addresses
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Same as 017, plus the saved job site address
+CREATE OR REPLACE FUNCTION save_estimate_fields(p_id UUID, p_estimate JSONB)
+RETURNS UUID AS $$
+BEGIN
+    IF p_id IS NULL THEN
+        INSERT INTO estimates (
+            user_id, client_id, estimate_number, title, description, status,
+            issue_date, valid_until, taxes, discount_type, discount_value,
+            notes, job_site_address, job_site_address_id, deposit_type, deposit_value
+        )
+        VALUES (
+            auth.uid(),
+            (p_estimate->>'client_id')::UUID,
+            p_estimate->>'estimate_number',
+            p_estimate->>'title',
+            p_estimate->>'description',
+            -- Approval happens after the items exist, so the deposit is sized
+            -- on the real total (see save_estimate)
+            CASE WHEN p_estimate->>'status' = 'approved' THEN 'draft'
+                ELSE (p_estimate->>'status')::estimate_status END,
+            (p_estimate->>'issue_date')::DATE,
+            (p_estimate->>'valid_until')::DATE,
+            COALESCE(p_estimate->'taxes', '[]'::JSONB),
+            (p_estimate->>'discount_type')::discount_type,
+            (p_estimate->>'discount_value')::DECIMAL,
+            p_estimate->>'notes',
+            p_estimate->>'job_site_address',
+            (p_estimate->>'job_site_address_id')::UUID,
+            (p_estimate->>'deposit_type')::deposit_type,
+            (p_estimate->>'deposit_value')::DECIMAL
+        )
+        RETURNING id INTO p_id;
+    ELSE
+        UPDATE estimates
+        SET client_id = (p_estimate->>'client_id')::UUID,
+            estimate_number = p_estimate->>'estimate_number',
+            title = p_estimate->>'title',
+            description = p_estimate->>'description',
+            issue_date = (p_estimate->>'issue_date')::DATE,
+            valid_until = (p_estimate->>'valid_until')::DATE,
+            taxes = COALESCE(p_estimate->'taxes', '[]'::JSONB),
+            discount_type = (p_estimate->>'discount_type')::discount_type,
+            discount_value = (p_estimate->>'discount_value')::DECIMAL,
+            notes = p_estimate->>'notes',
+            job_site_address = p_estimate->>'job_site_address',
+            job_site_address_id = (p_estimate->>'job_site_address_id')::UUID,
+            deposit_type = (p_estimate->>'deposit_type')::deposit_type,
+            deposit_value = (p_estimate->>'deposit_value')::DECIMAL
+        WHERE id = p_id;
+    END IF;
+
+    RETURN p_id;
+END;
+$$ LANGUAGE plpgsql;